@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+/**
+ * Content Lint Script for Privacy Jenga
+ * Checks a question set for quality problems - the rules live in
+ * src/services/contentLint.ts, loaded here through Vite so the TypeScript
+ * source runs as is.
+ *
+ * Usage: npm run lint:content              (the bundled questions)
+ *        npm run lint:content -- pack.json (question pack files, or JSON arrays of questions)
+ * Packs are usually dealt alongside the core set, so only their questions are
+ * checked; a JSON array is treated as a whole bank and its towers checked too.
+ * Exits with 1 when any errors are found; warnings are reported but don't fail.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runnerImport } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const srcDir = path.join(__dirname, '..', 'src');
+
+const load = async (file) => (await runnerImport(path.join(srcDir, file), { configFile: false, logLevel: 'silent' })).module;
+
+const { lintQuestionBank } = await load('services/contentLint.ts');
+const { validatePackMetadata } = await load('services/questionPacks.ts');
+
+// What to lint: the bundled set, or each file named on the command line
+const readSets = async () => {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    const { ENHANCED_PRIVACY_QUESTIONS } = await load('data/enhancedPrivacyQuestions.ts');
+    return [{ name: 'src/data/enhancedPrivacyQuestions.ts', questions: ENHANCED_PRIVACY_QUESTIONS }];
+  }
+  return files.map(file => {
+    const value = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (Array.isArray(value)) {
+      return { name: file, questions: value };
+    }
+    return {
+      name: file,
+      questions: Array.isArray(value.questions) ? value.questions : [],
+      packProblem: validatePackMetadata(value),
+      options: { towers: [], categoryTowers: [] },
+    };
+  });
+};
+
+let errors = 0;
+let warnings = 0;
+
+for (const set of await readSets()) {
+  const issues = lintQuestionBank(set.questions, set.options);
+  if (set.packProblem) {
+    issues.unshift({ rule: 'invalid', severity: 'error', message: set.packProblem });
+  }
+  console.log(`\n${set.name} - ${set.questions.length} questions`);
+  issues.forEach(issue => {
+    console.log(`  ${issue.severity.padEnd(7)}  ${(issue.questionId || '-').padEnd(12)}  ${issue.rule.padEnd(14)}  ${issue.message}`);
+  });
+  errors += issues.filter(issue => issue.severity === 'error').length;
+  warnings += issues.filter(issue => issue.severity === 'warning').length;
+}
+
+console.log(`\n${errors === 0 ? '✅' : '❌'} ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`);
+process.exit(errors > 0 ? 1 : 0);
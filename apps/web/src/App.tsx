@@ -1,9 +1,11 @@
 import { Suspense, lazy } from 'react';
 import { Routes, Route } from 'react-router-dom';
+import { useQuestionBank } from './hooks/useQuestionBank';
 
 // Lazy load pages for better performance
 const HomePage = lazy(() => import('./pages/HomePage'));
 const GamePage = lazy(() => import('./pages/GamePage'));
+const LobbyPage = lazy(() => import('./pages/LobbyPage'));
 
 // Loading component
 const PageLoader = () => (
@@ -16,11 +18,15 @@ const PageLoader = () => (
 );
 
 function App() {
+  // Load the question bank from the content API for every page
+  useQuestionBank();
+
   return (
     <Suspense fallback={<PageLoader />}>
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/game" element={<GamePage />} />
+        <Route path="/lobby" element={<LobbyPage />} />
       </Routes>
     </Suspense>
   );
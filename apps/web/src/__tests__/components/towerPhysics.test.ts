@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createInitialEngineState } from '../../services/gameReducer';
+import { TowerPhysicsWorld } from '../../components/jenga/physics/towerPhysics';
+
+const T0 = 1_700_000_000_000;
+
+const run = (world: TowerPhysicsWorld, seconds: number) => {
+  for (let i = 0; i < seconds * 60; i++) world.step(1 / 60);
+};
+
+describe('TowerPhysicsWorld', () => {
+  it('slides a removed block out of the tower and then hides it', () => {
+    const { blocks } = createInitialEngineState({ seed: 5, timestamp: T0 });
+    const world = new TowerPhysicsWorld();
+    world.syncBlocks(blocks);
+
+    const removed = blocks.map(block => block.id === 'block-1' ? { ...block, isRemoved: true } : block);
+    world.syncBlocks(removed);
+    run(world, 0.25);
+
+    const sliding = world.getTransform('block-1')!;
+    expect(sliding.visible).toBe(true);
+    expect(Math.abs(sliding.position[0] - blocks[0].worldPosition[0])).toBeGreaterThan(0.3);
+
+    run(world, 3);
+    expect(world.getTransform('block-1')!.visible).toBe(false);
+    expect(world.getTransform('block-2')!.position).toEqual(blocks[1].worldPosition);
+  });
+
+  it('only sways in the warning and critical zones', () => {
+    const { blocks } = createInitialEngineState({ seed: 5, timestamp: T0 });
+    const top = blocks[blocks.length - 1];
+    const world = new TowerPhysicsWorld();
+    world.syncBlocks(blocks);
+
+    world.setStabilityZone('stable');
+    run(world, 2);
+    expect(world.getTransform(top.id)!.position[0]).toBeCloseTo(top.worldPosition[0], 6);
+
+    world.setStabilityZone('critical');
+    let maxOffset = 0;
+    for (let i = 0; i < 180; i++) {
+      world.step(1 / 60);
+      maxOffset = Math.max(maxOffset, Math.abs(world.getTransform(top.id)!.position[0] - top.worldPosition[0]));
+    }
+    expect(maxOffset).toBeGreaterThan(0.05);
+  });
+
+  it('brings the tower down on collapse and stands it back up on rebuild', () => {
+    const { blocks } = createInitialEngineState({ seed: 5, timestamp: T0 });
+    const top = blocks[blocks.length - 1];
+    const world = new TowerPhysicsWorld({ substeps: 2, maxDynamicBodies: 30, collisions: true });
+    world.syncBlocks(blocks);
+
+    world.setCollapsed(true);
+    run(world, 4);
+
+    expect(world.getBody(top.id)!.mode).toBe('dynamic');
+    expect(world.getTransform(top.id)!.position[1]).toBeLessThan(1);
+    // Bodies beyond the quality budget stay where they were
+    expect(world.getBody('block-1')!.mode).toBe('resting');
+
+    world.setCollapsed(false);
+    expect(world.getTransform(top.id)!.position).toEqual(top.worldPosition);
+  });
+});
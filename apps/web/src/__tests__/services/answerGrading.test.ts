@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { checkAnswer, countSwappedPairs, getCorrectIndices, normalizeAnswerText, validateAnswer } from '../../services/answerGrading';
+import { createBlockContent } from '../../services/contentTracker';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+import { EnhancedQuestion, GameEngineState } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+const question = (overrides: Partial<EnhancedQuestion>): EnhancedQuestion => ({
+  id: 'test-001',
+  type: 'multiple_choice',
+  difficulty: 'easy',
+  category: 'on-chain',
+  question: 'Question?',
+  options: [],
+  correctIndex: -1,
+  explanation: 'Because.',
+  stabilityImpact: { correct: 8, incorrect: -15 },
+  points: { correct: 10, incorrect: 0 },
+  learningTags: [],
+  ...overrides,
+});
+
+const coinjoin = question({
+  type: 'fill_blank',
+  question: 'Combining several users\' payments into one transaction is called a ____.',
+  acceptedAnswers: ['CoinJoin', 'coin join', 'collaborative transaction'],
+});
+
+const privateChannel = question({
+  type: 'ordering',
+  question: 'Put the steps for opening a Lightning channel privately in order.',
+  options: ['Coinjoin the funds', 'Connect over Tor', 'Open an unannounced channel', 'Spend over the channel'],
+  correctOrder: [0, 1, 2, 3],
+});
+
+const goodPractices = question({
+  type: 'multi_select',
+  question: 'Which of these help keep CoinJoin outputs private?',
+  options: ['Spend outputs separately', 'Merge all outputs', 'Label your coins', 'Post the txid'],
+  correctIndices: [0, 2],
+});
+
+describe('Answer grading', () => {
+  it('normalizes case, accents, punctuation and leading articles', () => {
+    expect(normalizeAnswerText('  The   Coín-Join! ')).toBe('coin join');
+  });
+
+  it('accepts synonyms and small typos in typed answers', () => {
+    expect(checkAnswer(coinjoin, { kind: 'text', text: 'a coin join' })).toMatchObject({ isCorrect: true, matchedAnswer: 'coin join', fuzzy: false });
+    expect(checkAnswer(coinjoin, { kind: 'text', text: 'Collaborative transacton' })).toMatchObject({ isCorrect: true, fuzzy: true });
+    expect(checkAnswer(coinjoin, { kind: 'text', text: 'coinswap' }).isCorrect).toBe(false);
+    expect(checkAnswer({ ...coinjoin, fuzzyMatch: false }, { kind: 'text', text: 'coinjion' }).isCorrect).toBe(false);
+  });
+
+  it('rejects answers that do not fit the question type', () => {
+    const trueFalse = question({ type: 'true_false', options: ['True', 'False'], correctIndex: 0 });
+
+    expect(validateAnswer(coinjoin, { kind: 'choice', index: 0 })).toMatch('text answer');
+    expect(validateAnswer(trueFalse, { kind: 'text', text: 'true' })).toMatch('boolean');
+    expect(validateAnswer(trueFalse, { kind: 'choice', index: 2 })).toMatch('out of range');
+    expect(() => checkAnswer(question({ options: ['a', 'b'], correctIndex: 1 }), { kind: 'boolean', value: true })).toThrow();
+    expect(checkAnswer(trueFalse, { kind: 'boolean', value: true })).toMatchObject({ isCorrect: true, selectedIndex: 0 });
+  });
+
+  it('grades true/false questions in the game core', () => {
+    let state: GameEngineState = createInitialEngineState({ seed: 12, timestamp: T0 });
+    let block = state.blocks[0];
+    for (block of state.blocks) {
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+      if (state.blocks.find(b => b.id === block.id)!.content!.question.type === 'true_false') break;
+    }
+
+    const { options, correctIndex } = state.blocks.find(b => b.id === block.id)!.content!.question;
+    const value = options[correctIndex] === 'True';
+    const answered = gameReducer(state, { type: 'ANSWER', blockId: block.id, answer: { kind: 'boolean', value }, timestamp: T0 + 2000 }).state;
+
+    expect(answered.game.lastQuizResult).toMatchObject({ isCorrect: true, selectedAnswer: correctIndex, answer: { kind: 'boolean', value } });
+    expect(() => gameReducer(state, { type: 'ANSWER', blockId: block.id, answer: { kind: 'text', text: 'yes' }, timestamp: T0 + 2000 })).toThrow();
+  });
+
+  it('gives partial credit for multi-select and ordering answers', () => {
+    expect(checkAnswer(goodPractices, { kind: 'multi', indices: [0, 2] })).toMatchObject({ isCorrect: true, score: 1 });
+    expect(checkAnswer(goodPractices, { kind: 'multi', indices: [0] }).score).toBe(0.5);
+    expect(checkAnswer(goodPractices, { kind: 'multi', indices: [0, 1] }).score).toBe(0);
+
+    expect(countSwappedPairs([1, 0, 2, 3], [0, 1, 2, 3])).toBe(1);
+    expect(checkAnswer(privateChannel, { kind: 'order', order: [1, 0, 2, 3] })).toMatchObject({ isCorrect: false, score: 5 / 6 });
+    expect(checkAnswer(privateChannel, { kind: 'order', order: [3, 2, 1, 0] }).score).toBe(0);
+    expect(validateAnswer(privateChannel, { kind: 'order', order: [0, 0, 1, 2] })).toMatch('exactly once');
+  });
+
+  it('grades clicks on a transaction graph and still takes the text version', () => {
+    const opReturn = ENHANCED_PRIVACY_QUESTIONS.find(q => q.id === 'red-001') as EnhancedQuestion;
+
+    expect(checkAnswer(opReturn, { kind: 'node', nodeId: 'note-output' })).toMatchObject({ isCorrect: true, score: 1, selectedIndex: -1 });
+    expect(checkAnswer(opReturn, { kind: 'node', nodeId: 'change-output' }).isCorrect).toBe(false);
+    expect(checkAnswer(opReturn, { kind: 'choice', index: opReturn.correctIndex }).isCorrect).toBe(true);
+    expect(validateAnswer(opReturn, { kind: 'node', nodeId: 'payment-tx' })).toMatch('not a coin');
+    expect(validateAnswer(goodPractices, { kind: 'node', nodeId: 'note-output' })).toMatch('got node');
+    expect(getCorrectIndices(opReturn)).toEqual([]);
+  });
+
+  it('scores partly right answers with a share of the points and a softer penalty', () => {
+    const start = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const blockId = start.blocks[40].id;
+    const withQuestion = (q: EnhancedQuestion) => {
+      const state = structuredClone(start);
+      state.blocks[40].content = createBlockContent(q);
+      return gameReducer(state, { type: 'SELECT_BLOCK', blockId, timestamp: T0 }).state;
+    };
+    const answer = (state: GameEngineState, order: number[]) =>
+      gameReducer(state, { type: 'ANSWER', blockId, answer: { kind: 'order', order }, timestamp: T0 + 3000 }).state.game;
+
+    const picked = withQuestion(privateChannel);
+    const partly = answer(picked, [1, 0, 2, 3]);
+    const wrong = answer(picked, [3, 2, 1, 0]);
+
+    expect(partly.lastQuizResult).toMatchObject({ isCorrect: false, outcome: 'incorrect', pointsEarned: 8 });
+    expect(partly.currentScore).toBe(8);
+    expect(partly.towerStability).toBeGreaterThan(wrong.towerStability);
+  });
+});
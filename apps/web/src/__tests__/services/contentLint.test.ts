@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { lintQuestionBank } from '../../services/contentLint';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { EnhancedQuestion } from '../../types';
+
+const base = ENHANCED_PRIVACY_QUESTIONS.find(question => question.type === 'multiple_choice') as EnhancedQuestion;
+
+// A fair multiple choice question: options of similar length, explained in terms of the answer
+const fair: EnhancedQuestion = {
+  ...base,
+  id: 'fair-001',
+  question: 'Which wallet habit protects privacy best?',
+  options: ['Reusing one address', 'Fresh address per payment', 'Posting your xpub online', 'Sharing one wallet'],
+  correctIndex: 1,
+  explanation: 'A fresh address for every payment keeps payments from being linked together.',
+};
+
+const rules = (questions: EnhancedQuestion[]) =>
+  lintQuestionBank(questions, { towers: [], categoryTowers: [] }).map(issue => `${issue.questionId}:${issue.rule}`);
+
+describe('Content lint', () => {
+  it('passes a fair question and the bundled set without errors', () => {
+    expect(rules([fair])).toEqual([]);
+    expect(lintQuestionBank(ENHANCED_PRIVACY_QUESTIONS).filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('flags broken and giveaway questions', () => {
+    const issues = rules([
+      fair,
+      { ...fair, question: 'Which wallet habit protects privacy best ?' },
+      { ...fair, id: 'index-001', question: 'Out of range?', correctIndex: 4 },
+      { ...fair, id: 'tags-001', question: 'Untagged?', learningTags: [] },
+      { ...fair, id: 'long-001', question: 'Longest?', options: ['No', 'A fresh address for every single payment you receive', 'Yes', 'Maybe'] },
+      { ...fair, id: 'explain-001', question: 'Unexplained?', explanation: 'Think about it.' },
+    ]);
+
+    expect(issues).toEqual([
+      'fair-001:duplicate-id',
+      'fair-001:duplicate-text',
+      'index-001:correct-index',
+      'tags-001:learning-tags',
+      'long-001:answer-length',
+      'explain-001:explanation',
+    ]);
+  });
+
+  it('finds tower bands the set cannot fill', () => {
+    const withoutHard = ENHANCED_PRIVACY_QUESTIONS.filter(question => question.difficulty !== 'hard');
+    const issues = lintQuestionBank(withoutHard).filter(issue => issue.rule === 'band-coverage' && issue.severity === 'error');
+
+    expect(issues.map(issue => issue.message)).toContain('Standard tower: layers 1-6 hold 18 hard blocks but the set has 0 hard questions');
+  });
+});
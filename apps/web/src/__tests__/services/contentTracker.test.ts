@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { EnhancedContentTrackerImpl } from '../../services/contentTracker';
+import { createInitialEngineState } from '../../services/gameReducer';
+import { createMulberry32 } from '../../utils/random';
+import { Difficulty, PlayerProgress, PrivacyCategory, QuestionAttempt } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+const attempt = (category: PrivacyCategory, difficulty: Difficulty, isCorrect: boolean): QuestionAttempt => ({
+  questionId: `${category}-${difficulty}`,
+  isCorrect,
+  outcome: isCorrect ? 'correct' : 'incorrect',
+  timeToAnswer: 5,
+  hintsUsed: 0,
+  usedFiftyFifty: false,
+  stabilityImpact: 0,
+  pointsEarned: 0,
+  timestamp: new Date(T0),
+  difficulty,
+  category,
+});
+
+// A player who has the basics down but keeps missing network privacy questions
+const strugglingWithNetworkPrivacy = (): PlayerProgress => {
+  const progress = structuredClone(createInitialEngineState({ seed: 1, timestamp: T0 }).game.playerProgress);
+  progress.questionHistory = [
+    ...Array.from({ length: 4 }, () => attempt('on-chain', 'easy', true)),
+    ...Array.from({ length: 3 }, () => attempt('network-privacy', 'medium', false)),
+  ];
+  progress.categoryMastery['on-chain'] = 100;
+  progress.categoryMastery['network-privacy'] = 0;
+  progress.difficultyProgression = { easy: 100, medium: 0, hard: 0 };
+  progress.adaptiveMetrics.categoryWeaknesses = ['network-privacy'];
+  return progress;
+};
+
+const pickMany = (progress: PlayerProgress, policy: 'progressive' | 'remedial' | 'adaptive', count = 200) => {
+  const tracker = new EnhancedContentTrackerImpl();
+  const random = createMulberry32(42);
+  return Array.from({ length: count }, () => tracker.selectOptimalQuestion(progress, { policy, random })!);
+};
+
+describe('selectOptimalQuestion', () => {
+  it('moves progressive players past the difficulty they have mastered', () => {
+    const picks = pickMany(strugglingWithNetworkPrivacy(), 'progressive', 50);
+    expect(picks.every(content => content.difficulty === 'medium')).toBe(true);
+  });
+
+  it('sends remedial players back to their weak categories far more often', () => {
+    const picks = pickMany(strugglingWithNetworkPrivacy(), 'remedial');
+    const weak = picks.filter(content => content.category === 'network-privacy').length;
+    const onChain = picks.filter(content => content.category === 'on-chain').length;
+    expect(weak).toBeGreaterThan(onChain * 2);
+  });
+
+  it('is repeatable with a seeded random source', () => {
+    const first = pickMany(strugglingWithNetworkPrivacy(), 'adaptive', 20).map(content => content.id);
+    const second = pickMany(strugglingWithNetworkPrivacy(), 'adaptive', 20).map(content => content.id);
+    expect(first).toEqual(second);
+  });
+
+  it('aims adaptive picks at the player\'s ability once questions are calibrated', () => {
+    const tracker = new EnhancedContentTrackerImpl();
+    const easy = tracker.getQuestionByDifficulty('easy');
+    const [underrated] = easy;
+    // An "easy" question players actually find hard, and a player strong enough for it
+    const progress = strugglingWithNetworkPrivacy();
+    progress.adaptiveMetrics.ability = 2;
+    const itemParameters = {
+      [underrated.id]: { questionId: underrated.id, difficulty: 2, discrimination: 1, standardError: 0.2, attempts: 80, correctRate: 0.2 },
+    };
+
+    const random = createMulberry32(42);
+    const pick = (calibrated: boolean) => tracker.selectOptimalQuestion(progress, {
+      policy: 'adaptive', random, candidates: easy, itemParameters: calibrated ? itemParameters : undefined,
+    })!.id;
+    const calibratedHits = Array.from({ length: 200 }, () => pick(true)).filter(id => id === underrated.id).length;
+    const labeledHits = Array.from({ length: 200 }, () => pick(false)).filter(id => id === underrated.id).length;
+
+    expect(calibratedHits).toBeGreaterThan(labeledHits * 2);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { getGameMode, parseGameMode, resolveGameMode } from '../../services/gameModes';
+import { createBlockContent } from '../../services/contentTracker';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { EnhancedQuestion, GameEngineState, GameModeConfig, QuizAnswer } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+const mixers = ENHANCED_PRIVACY_QUESTIONS.find(q => q.type === 'multiple_choice') as EnhancedQuestion;
+
+// Put a known multiple choice question on a block and pick it
+const pickWithQuestion = (state: GameEngineState, index: number) => {
+  const draft = structuredClone(state);
+  draft.blocks[index].content = createBlockContent(mixers);
+  return gameReducer(draft, { type: 'SELECT_BLOCK', blockId: draft.blocks[index].id, timestamp: T0 }).state;
+};
+
+const answer = (state: GameEngineState, index: number, correct: boolean) => {
+  const selected = pickWithQuestion(state, index);
+  const choice = correct ? mixers.correctIndex : (mixers.correctIndex + 1) % mixers.options.length;
+  return gameReducer(selected, { type: 'ANSWER', blockId: state.blocks[index].id, answer: choice, timestamp: T0 + 3000 });
+};
+
+const correctAnswerFor = (question: EnhancedQuestion): number | QuizAnswer => {
+  switch (question.type) {
+    case 'fill_blank': return { kind: 'text', text: question.acceptedAnswers![0] };
+    case 'multi_select': return { kind: 'multi', indices: question.correctIndices! };
+    case 'ordering': return { kind: 'order', order: question.correctOrder! };
+    default: return question.correctIndex;
+  }
+};
+
+describe('Game modes', () => {
+  it('ends a Sudden Death game on the first wrong answer', () => {
+    const start = createInitialEngineState({ seed: 12, timestamp: T0, mode: { id: 'sudden-death' } });
+    const right = answer(start, 30, true).state;
+    const { state, events } = answer(right, 31, false);
+
+    const classic = answer(createInitialEngineState({ seed: 12, timestamp: T0 }), 30, true).state;
+    expect(right.game.currentScore).toBe(2 * classic.game.currentScore);
+    expect(state.game.gamePhase).toBe('gameOver');
+    expect(events).toContainEqual(expect.objectContaining({ type: 'TowerCollapsed', mode: 'sudden-death', gameOver: true }));
+    expect(gameReducer(state, { type: 'REBUILD', timestamp: T0 }).state).toBe(state);
+  });
+
+  it('never scores or collapses in Zen', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0, mode: { id: 'zen' } });
+    for (let index = 0; index < 20; index++) {
+      state = answer(state, index, false).state;
+    }
+
+    expect(state.game).toMatchObject({ gamePhase: 'playing', currentScore: 0, towerStability: 100, incorrectAnswers: 20 });
+  });
+
+  it('deals a Category Sprint from its category on a short tower until the category is cleared', () => {
+    const mode: GameModeConfig = { id: 'category-sprint', category: 'on-chain' };
+    const categorySize = ENHANCED_PRIVACY_QUESTIONS.filter(q => q.category === 'on-chain').length;
+    let state = createInitialEngineState({ seed: 7, timestamp: T0, mode });
+    expect(state.blocks).toHaveLength(16);
+    expect(state.game.totalContentAvailable).toBe(categorySize);
+
+    const dealt = new Set<string>();
+    // Pull from the top down so the short tower never topples
+    for (const block of [...state.blocks].reverse()) {
+      if (state.game.gamePhase !== 'playing') break;
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+      const question = state.blocks.find(b => b.id === block.id)!.content!.question;
+      expect(question.category).toBe('on-chain');
+      dealt.add(question.id);
+      state = gameReducer(state, { type: 'ANSWER', blockId: block.id, answer: correctAnswerFor(question), timestamp: T0 + 3000 }).state;
+    }
+
+    expect(state.game.gamePhase).toBe('completed');
+    expect(dealt.size).toBe(categorySize);
+  });
+
+  it('refuses sprints without a category and falls back to Classic for unknown modes', () => {
+    expect(() => resolveGameMode({ id: 'category-sprint' })).toThrow('needs a category');
+    expect(() => getGameMode('speedrun')).toThrow('Unknown game mode');
+    expect(parseGameMode('blitz', null)).toEqual({ id: 'classic' });
+    expect(parseGameMode('category-sprint', null)).toEqual({ id: 'classic' });
+    expect(parseGameMode('category-sprint', 'bogus')).toEqual({ id: 'classic' });
+    expect(parseGameMode('category-sprint', 'on-chain')).toEqual({ id: 'category-sprint', category: 'on-chain' });
+    expect(parseGameMode('category-sprint', 'on-chain', [])).toEqual({ id: 'classic' });
+    expect(parseGameMode('zen', 'lightning')).toEqual({ id: 'zen' });
+  });
+
+  it('records the mode in replay logs', () => {
+    const service = new EnhancedGameService();
+    service.initializeGame({ seed: 3, mode: { id: 'category-sprint', category: 'security' } });
+
+    expect(service.getReplayLog().mode).toEqual({ id: 'category-sprint', category: 'security' });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { createInitialEngineState, gameReducer, withBlitzMode } from '../../services/gameReducer';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { GameEngineState } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+// Questions are dealt on click, so read them after SELECT_BLOCK
+const questionOn = (state: GameEngineState, blockId: string) => state.blocks.find(b => b.id === blockId)!.content!.question;
+
+const wrongAnswerFor = (state: GameEngineState, blockId: string) => {
+  const { correctIndex, options } = questionOn(state, blockId);
+  return (correctIndex + 1) % options.length;
+};
+
+describe('gameReducer', () => {
+  it('never mutates the state it is given', () => {
+    const initial = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const snapshot = structuredClone(initial);
+
+    const selected = gameReducer(initial, { type: 'SELECT_BLOCK', blockId: 'block-1', timestamp: T0 + 1000 });
+    gameReducer(selected.state, { type: 'ANSWER', blockId: 'block-1', answer: 0, timestamp: T0 + 3000 });
+
+    expect(initial).toEqual(snapshot);
+    expect(selected.state).not.toBe(initial);
+  });
+
+  it('emits domain events for answers, zone changes and collapse', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const eventTypes: string[] = [];
+
+    // Hard blocks sit at the bottom; keep answering them wrong until the tower falls
+    for (const block of state.blocks) {
+      if (state.game.gamePhase !== 'playing') break;
+      const selected = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 });
+      const answered = gameReducer(selected.state, {
+        type: 'ANSWER', blockId: block.id, answer: wrongAnswerFor(selected.state, block.id), timestamp: T0 + 5000
+      });
+      state = answered.state;
+      eventTypes.push(...selected.events.map(event => event.type), ...answered.events.map(event => event.type));
+    }
+
+    expect(eventTypes).toContain('QuestionAnswered');
+    expect(eventTypes).toContain('StabilityZoneChanged');
+    expect(eventTypes[eventTypes.length - 1]).toBe('TowerCollapsed');
+    expect(state.game.gamePhase).toBe('collapsed');
+  });
+
+  it('returns the same state for rejected actions', () => {
+    const initial = createInitialEngineState({ seed: 12, timestamp: T0 });
+
+    const rebuild = gameReducer(initial, { type: 'REBUILD', timestamp: T0 });
+    const missing = gameReducer(initial, { type: 'SELECT_BLOCK', blockId: 'nope', timestamp: T0 });
+
+    expect(rebuild.state).toBe(initial);
+    expect(missing.events).toEqual([]);
+  });
+
+  it('ignores answers for unknown blocks and blocks without a question', () => {
+    const initial = createInitialEngineState({ seed: 12, timestamp: T0 });
+
+    const unknown = gameReducer(initial, { type: 'ANSWER', blockId: 'nope', answer: 0, timestamp: T0 });
+    const undealt = gameReducer(initial, { type: 'ANSWER', blockId: initial.blocks[0].id, answer: 0, timestamp: T0 });
+
+    expect(unknown).toEqual({ state: initial, events: [] });
+    expect(undealt.state).toBe(initial);
+    expect(undealt.events).toEqual([]);
+  });
+
+  it('only grades the open question, and only once', () => {
+    const initial = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const blockId = initial.blocks[40].id;
+    const selected = gameReducer(initial, { type: 'SELECT_BLOCK', blockId, timestamp: T0 });
+    const answered = gameReducer(selected.state, { type: 'ANSWER', blockId, answer: 0, timestamp: T0 + 2000 });
+
+    expect(gameReducer(answered.state, { type: 'ANSWER', blockId, answer: 0, timestamp: T0 + 3000 }).state).toBe(answered.state);
+    const switched = gameReducer(selected.state, { type: 'SELECT_BLOCK', blockId: initial.blocks[41].id, timestamp: T0 + 1000 });
+    expect(gameReducer(switched.state, { type: 'ANSWER', blockId, answer: 0, timestamp: T0 + 2000 }).events).toEqual([]);
+  });
+
+  it('gives no result for an answer the service could not grade', () => {
+    const service = new EnhancedGameService(() => T0);
+    service.initializeGame({ seed: 12 });
+    const [first, second] = service.getBlocks();
+
+    service.handleBlockClick(first.id);
+    expect(service.handleQuizAnswer(first.id, 0)).toMatchObject({ blockId: first.id });
+    expect(service.handleQuizAnswer(first.id, 0)).toBeNull();
+    expect(service.handleQuizAnswer(second.id, 0)).toBeNull();
+    expect(service.handleQuizAnswer('nope', 0)).toBeNull();
+  });
+
+  it('collapses the tower when the last support of a loaded layer is pulled', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const baseLayer = state.blocks.filter(block => block.layer === 1);
+
+    baseLayer.forEach(block => {
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+      const { correctIndex } = questionOn(state, block.id);
+      state = gameReducer(state, { type: 'ANSWER', blockId: block.id, answer: correctIndex, timestamp: T0 + 2000 }).state;
+    });
+
+    expect(state.game.gamePhase).toBe('collapsed');
+    expect(state.game.lastQuizResult?.structuralRisk).toBe(1);
+  });
+
+  it('scores expired questions as timeouts and only once the clock has run out', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const blockId = state.blocks[20].id;
+    state = gameReducer(state, { type: 'SELECT_BLOCK', blockId, timestamp: T0 }).state;
+
+    const early = gameReducer(state, { type: 'TIMEOUT', blockId, timestamp: T0 + 5000 });
+    expect(early.state).toBe(state);
+
+    const expired = gameReducer(state, { type: 'TIMEOUT', blockId, timestamp: T0 + 30_000 }).state;
+    expect(expired.game.lastQuizResult).toMatchObject({ outcome: 'timeout', isCorrect: false, selectedAnswer: -1 });
+    expect(expired.game.timeouts).toBe(1);
+
+    // A correct answer that arrives well past the limit is still a timeout
+    const { correctIndex } = questionOn(state, blockId);
+    const late = gameReducer(state, { type: 'ANSWER', blockId, answer: correctIndex, timestamp: T0 + 45_000 }).state;
+    expect(late.game.lastQuizResult?.outcome).toBe('timeout');
+  });
+
+  it('turns time left on the clock into points in Blitz mode', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0, settings: withBlitzMode() });
+    const blockId = state.blocks[20].id;
+    state = gameReducer(state, { type: 'SELECT_BLOCK', blockId, timestamp: T0 }).state;
+    const question = questionOn(state, blockId);
+    state = gameReducer(state, { type: 'ANSWER', blockId, answer: question.correctIndex, timestamp: T0 + 4000 }).state;
+
+    const result = state.game.lastQuizResult!;
+    expect(result.timeLimit).toBe(12);
+    expect(result.timeBonus).toBe(16);
+    expect(result.pointsEarned).toBe(question.points.correct + 16);
+  });
+
+  it('charges for hints and records them on the result', () => {
+    // 50/50 takes away two options, so open blocks until one is dealt a four-option question
+    let picked = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const block = picked.blocks.find(candidate => {
+      picked = gameReducer(picked, { type: 'SELECT_BLOCK', blockId: candidate.id, timestamp: T0 }).state;
+      return questionOn(picked, candidate.id).options.length >= 4;
+    })!;
+    const question = questionOn(picked, block.id);
+
+    const fiftyFifty = gameReducer(picked, { type: 'USE_HINT', blockId: block.id, kind: 'fifty_fifty', timestamp: T0 + 500 });
+    const hinted = gameReducer(fiftyFifty.state, { type: 'USE_HINT', blockId: block.id, kind: 'hint', timestamp: T0 + 1000 });
+    const [reveal] = fiftyFifty.events;
+    expect(reveal.type === 'HintRevealed' && reveal.reveal.eliminatedOptions).toHaveLength(2);
+    expect(reveal.type === 'HintRevealed' && reveal.reveal.eliminatedOptions).not.toContain(question.correctIndex);
+
+    const answer = { type: 'ANSWER' as const, blockId: block.id, answer: question.correctIndex, timestamp: T0 + 3000 };
+    const plain = gameReducer(picked, answer).state.game.lastQuizResult!;
+    const helped = gameReducer(hinted.state, answer).state.game.lastQuizResult!;
+
+    expect(helped).toMatchObject({ hintsUsed: 2, usedFiftyFifty: true });
+    expect(helped.pointsEarned).toBe(plain.pointsEarned - 6);
+    expect(helped.stabilityChange).toBeLessThanOrEqual(plain.stabilityChange);
+  });
+
+  it('deals only unlocked question types and advances the learning phase', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0 });
+    const dealtTypes: string[] = [];
+    const advanced: string[] = [];
+    // Pull from the top down, always answering correctly
+    for (const block of [...state.blocks].reverse()) {
+      if (advanced.length > 0 || state.game.gamePhase !== 'playing') break;
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+      const question = questionOn(state, block.id);
+      dealtTypes.push(question.type);
+      const result = gameReducer(state, {
+        type: 'ANSWER', blockId: block.id, answer: question.correctIndex, timestamp: T0 + 2000
+      });
+      state = result.state;
+      result.events.forEach(event => {
+        if (event.type === 'LearningPhaseAdvanced') advanced.push(event.to);
+      });
+    }
+
+    expect(dealtTypes).not.toContain('scenario');
+    expect(advanced).toEqual(['application']);
+    expect(state.game.playerProgress.learningPath).toMatchObject({ currentPhase: 'application', phaseProgress: 0 });
+  });
+
+  it('deals each block a question from its own difficulty band', () => {
+    const misses: string[] = [];
+    for (let seed = 1; seed <= 30; seed++) {
+      let state = createInitialEngineState({ seed, timestamp: T0 });
+      // Alternate right and wrong answers so the adaptive target keeps moving
+      [...state.blocks].reverse().forEach((block, index) => {
+        if (state.game.gamePhase !== 'playing') return;
+        state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+        const question = questionOn(state, block.id);
+        if (question.difficulty !== block.difficulty) misses.push(`seed ${seed} ${block.id}: ${block.difficulty} block got ${question.difficulty}`);
+        const answer = index % 2 === 0 ? question.correctIndex : wrongAnswerFor(state, block.id);
+        state = gameReducer(state, { type: 'ANSWER', blockId: block.id, answer, timestamp: T0 + 2000 }).state;
+      });
+    }
+
+    expect(misses).toEqual([]);
+  });
+});
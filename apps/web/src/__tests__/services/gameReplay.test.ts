@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { parseReplay, replayGame, serializeReplay } from '../../services/gameReplay';
+import { resetQuestionBank, setQuestionBank } from '../../services/questionBank';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { RANDOM_ALGORITHMS, createMulberry32, createXorshift32 } from '../../utils/random';
+
+// Play a short game on a fake clock, alternating right and wrong answers
+const playRecordedGame = () => {
+  let time = 1_700_000_000_000;
+  const service = new EnhancedGameService(() => time);
+  service.initializeGame({ seed: 4821 });
+
+  service.getBlocks().slice(0, 8).forEach((block, index) => {
+    time += 1000;
+    const { correctIndex, options } = service.handleBlockClick(block.id)!.question;
+    time += 2500;
+    const answer = index % 2 === 0 ? correctIndex : (correctIndex + 1) % options.length;
+    service.handleQuizAnswer(block.id, answer);
+  });
+
+  return service;
+};
+
+describe('Game replay', () => {
+  afterEach(() => {
+    resetQuestionBank();
+  });
+
+  it('re-simulates a recorded game to the exact same state', () => {
+    const service = playRecordedGame();
+    const log = service.getReplayLog();
+
+    expect(log.moves).toHaveLength(16);
+    expect(replayGame(log)).toEqual(service.getGameState());
+  });
+
+  it('round-trips through the serialized format', () => {
+    const service = playRecordedGame();
+    const log = parseReplay(serializeReplay(service.getReplayLog()));
+
+    expect(replayGame(log).currentScore).toBe(service.getGameState().currentScore);
+  });
+
+  it('rejects unknown versions and diverging moves', () => {
+    const log = playRecordedGame().getReplayLog();
+
+    expect(() => parseReplay(JSON.stringify({ ...log, version: 2 }))).toThrow('Unsupported replay version');
+    expect(() => replayGame({ ...log, moves: [...log.moves, log.moves[0]] })).toThrow('Replay diverged');
+  });
+
+  it('replays with a custom generator without registering it', () => {
+    const service = new EnhancedGameService(() => 1_700_000_000_000);
+    service.initializeGame({ seed: 4821, random: createXorshift32 });
+    const block = service.getBlocks()[0];
+    service.handleBlockClick(block.id);
+    service.handleQuizAnswer(block.id, 0);
+    // Recorded under a built-in name, as an older build might have
+    const log = { ...service.getReplayLog(), randomAlgorithm: 'mulberry32' };
+
+    expect(replayGame(log, { random: createXorshift32 })).toEqual(service.getGameState());
+    expect(RANDOM_ALGORITHMS.mulberry32).toBe(createMulberry32);
+    expect(() => replayGame({ ...log, randomAlgorithm: 'lcg' })).toThrow('Unknown random algorithm "lcg"');
+  });
+
+  it('refuses to replay a game dealt from another question set', () => {
+    const log = playRecordedGame().getReplayLog();
+    expect(log.bank).toEqual({ version: 'bundled' });
+    expect(() => parseReplay(JSON.stringify({ ...log, bank: { version: 7 } }))).toThrow('invalid question set');
+
+    setQuestionBank(ENHANCED_PRIVACY_QUESTIONS.slice(0, 40), { source: 'api', version: 'a1b2c3' });
+    expect(() => replayGame(log)).toThrow(/question set bundled, and a1b2c3 is loaded here/);
+    // Logs from before the question set was recorded still replay
+    expect(() => replayGame({ ...log, bank: undefined })).not.toThrow();
+  });
+});
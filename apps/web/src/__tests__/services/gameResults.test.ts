@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameResultStore, createGameResult } from '../../services/gameResults';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+import { GameEngineState } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+// Answer every block wrong, top down, until the tower falls
+const collapse = (state: GameEngineState): GameEngineState => {
+  for (const block of [...state.blocks].reverse()) {
+    if (state.game.gamePhase !== 'playing') break;
+    state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+    const { correctIndex, options } = state.blocks.find(b => b.id === block.id)!.content!.question;
+    state = gameReducer(state, { type: 'ANSWER', blockId: block.id, answer: (correctIndex + 1) % options.length, timestamp: T0 + 2000 }).state;
+  }
+  return state;
+};
+
+describe('GameResultStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps one result per game across rebuilds', () => {
+    const store = new GameResultStore(localStorage);
+    let state = collapse(createInitialEngineState({ seed: 12, timestamp: T0 }));
+    store.record(createGameResult(state, T0 + 10_000));
+
+    state = gameReducer(state, { type: 'REBUILD', timestamp: T0 + 20_000 }).state;
+    state = collapse(state);
+    store.record(createGameResult(state, T0 + 30_000));
+    store.record(createGameResult(collapse(createInitialEngineState({ seed: 13, timestamp: T0 })), T0 + 40_000));
+
+    const [other, rebuilt] = new GameResultStore(localStorage).getResults();
+    expect(store.getResults()).toHaveLength(2);
+    expect(other.seed).toBe(13);
+    expect(rebuilt).toMatchObject({ seed: 12, rebuildCount: 1, endedAt: T0 + 30_000 });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getHotSeatStandings, getHotSeatWinners, parseHotSeatNames } from '../../services/hotSeat';
+import { createBlockContent } from '../../services/contentTracker';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { replayGame } from '../../services/gameReplay';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { EnhancedQuestion, GameEngineState, GameEvent } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+const mixers = ENHANCED_PRIVACY_QUESTIONS.find(q => q.type === 'multiple_choice') as EnhancedQuestion;
+
+// Pull a block with a known multiple choice question on it
+const take = (state: GameEngineState, index: number, correct: boolean) => {
+  const draft = structuredClone(state);
+  draft.blocks[index].content = createBlockContent(mixers);
+  const blockId = draft.blocks[index].id;
+  const selected = gameReducer(draft, { type: 'SELECT_BLOCK', blockId, timestamp: T0 }).state;
+  const choice = correct ? mixers.correctIndex : (mixers.correctIndex + 1) % mixers.options.length;
+  return gameReducer(selected, { type: 'ANSWER', blockId, answer: choice, timestamp: T0 + 3000 });
+};
+
+describe('Hot-seat play', () => {
+  it('passes the turn after every answer and scores each player separately', () => {
+    const start = createInitialEngineState({ seed: 12, timestamp: T0, players: ['Ann', 'Ben', 'Cy'] });
+    const first = take(start, 30, true);
+    const second = take(first.state, 33, false);
+    const third = take(second.state, 36, true);
+    const { players, turn } = third.state.game.hotSeat!;
+
+    expect(first.events).toContainEqual({ type: 'TurnPassed', playerId: 'player-2', nickname: 'Ben' });
+    expect(turn).toBe(0);
+    expect(players[0]).toMatchObject({ correctAnswers: 1, longestStreak: 1, blocksRemoved: 1 });
+    expect(players[0].score).toBeGreaterThan(0);
+    expect(players[0].learningProgress[mixers.category]).toBe(1);
+    expect(players[1]).toMatchObject({ score: 0, incorrectAnswers: 1, consecutiveCorrect: 0 });
+    expect(players.reduce((sum, player) => sum + player.score, 0)).toBe(third.state.game.currentScore);
+  });
+
+  it('ends the game on a collapse and blames the player who pulled the block', () => {
+    let state = createInitialEngineState({ seed: 12, timestamp: T0, players: ['Ann', 'Ben'] });
+    const events: GameEvent[] = [];
+    for (let index = 0; state.game.gamePhase === 'playing'; index++) {
+      const answered = take(state, index, false);
+      state = answered.state;
+      events.push(...answered.events);
+    }
+    const collapse = events.find(event => event.type === 'TowerCollapsed');
+    const toppler = state.game.hotSeat!.players.find(player => player.toppledTower)!;
+
+    expect(state.game.gamePhase).toBe('gameOver');
+    expect(collapse).toMatchObject({ gameOver: true, blamedPlayerId: toppler.id });
+    expect(events[events.length - 1].type).not.toBe('TurnPassed');
+    const standings = getHotSeatStandings(state.game.hotSeat!.players);
+    expect(standings[standings.length - 1]).toBe(toppler);
+    expect(getHotSeatWinners(state.game.hotSeat!.players)).not.toContain(toppler);
+  });
+
+  it('needs 2-6 players with different nicknames', () => {
+    expect(() => createInitialEngineState({ seed: 1, timestamp: T0, players: ['Solo'] })).toThrow('2-6 players');
+    expect(() => createInitialEngineState({ seed: 1, timestamp: T0, players: ['Ann', 'ann'] })).toThrow('different nickname');
+    expect(parseHotSeatNames('Ann, Ben')).toEqual(['Ann', 'Ben']);
+    expect(parseHotSeatNames('Ann,,Ben')).toBeUndefined();
+    expect(parseHotSeatNames(null)).toBeUndefined();
+  });
+
+  it('shares first place on a tie', () => {
+    const { players } = createInitialEngineState({ seed: 1, timestamp: T0, players: ['Ann', 'Ben'] }).game.hotSeat!;
+
+    expect(getHotSeatWinners(players)).toHaveLength(2);
+  });
+
+  it('replays a pass-and-play game', () => {
+    const service = new EnhancedGameService();
+    service.initializeGame({ seed: 4, players: ['Ann', 'Ben'] });
+    const block = service.getBlocks()[45];
+    service.handleBlockClick(block.id);
+    service.handleQuizAnswer(block.id, 0);
+
+    expect(replayGame(service.getReplayLog()).hotSeat).toEqual(service.getGameState().hotSeat);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectLocale, formatPercent, localizeQuestion, translate } from '../../services/i18n';
+import { checkAnswer, getCorrectAnswerText } from '../../services/answerGrading';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+import { resetQuestionBank, setQuestionBank } from '../../services/questionBank';
+import { validateQuestion } from '../../services/questionValidation';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { EnhancedQuestion, Locale } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+// A stand-in French translation that marks every string it replaces
+const withFrench = (question: EnhancedQuestion): EnhancedQuestion => ({
+  ...question,
+  translations: {
+    fr: {
+      question: `fr: ${question.question}`,
+      options: question.options.map(option => `fr: ${option}`),
+      explanation: `fr: ${question.explanation}`,
+      hints: question.hints?.map(hint => `fr: ${hint}`),
+    },
+  },
+});
+
+// A typed-answer question with answers of its own in Swahili and French
+const coinjoin: EnhancedQuestion = {
+  id: 'test-coinjoin',
+  type: 'fill_blank',
+  difficulty: 'easy',
+  category: 'coin-mixing',
+  question: 'Combining several users\' payments into one transaction is called a ____.',
+  options: [],
+  correctIndex: -1,
+  acceptedAnswers: ['CoinJoin', 'collaborative transaction'],
+  explanation: 'Because.',
+  stabilityImpact: { correct: 8, incorrect: -15 },
+  points: { correct: 10, incorrect: 0 },
+  learningTags: [],
+  translations: {
+    sw: { question: 'Kuunganisha malipo ya watumiaji kadhaa katika muamala mmoja huitwa ____.', acceptedAnswers: ['mchanganyiko wa sarafu', 'CoinJoin'] },
+    fr: { question: 'Regrouper les paiements de plusieurs utilisateurs en une transaction s\'appelle un ____.', acceptedAnswers: ['transaction collaborative'] },
+  },
+};
+
+// Per locale: an answer typed there, what it's shown as, and an answer only another language accepts
+const typedAnswers: Record<Locale, { right: string; shown: string; wrong: string }> = {
+  en: { right: 'a collaborative transacton', shown: 'CoinJoin', wrong: 'mchanganyiko wa sarafu' },
+  sw: { right: 'Mchanganyiko wa Sarafu', shown: 'mchanganyiko wa sarafu', wrong: 'collaborative transaction' },
+  fr: { right: 'Transaction collaborative', shown: 'transaction collaborative', wrong: 'CoinJoin' },
+};
+
+describe('i18n', () => {
+  afterEach(() => {
+    resetQuestionBank();
+  });
+
+  it('picks plural forms and formats numbers by locale', () => {
+    // French counts zero as singular, English doesn't
+    expect(translate('quiz.hintsUsed', { count: 0 }, 'en')).toBe('0 hints used');
+    expect(translate('quiz.hintsUsed', { count: 0 }, 'fr')).toBe('0 indice utilisé');
+    expect(translate('quiz.hintsUsed', { count: 1 }, 'sw')).toBe('Kidokezo 1 kimetumika');
+    expect(translate('home.modes.best', { score: 12500 }, 'en')).toBe('Best: 12,500');
+    expect(translate('home.modes.best', { score: 12500 }, 'fr')).toMatch(/^Record : 12\s500$/);
+    expect(formatPercent(85, 'fr')).toMatch(/^85\s%$/);
+    expect(formatPercent(85, 'sw')).toBe('85%');
+  });
+
+  it('detects the first supported browser language', () => {
+    expect(detectLocale(['de-DE', 'sw-KE', 'en-US'])).toBe('sw');
+    expect(detectLocale(['FR-ca'])).toBe('fr');
+    expect(detectLocale(['de-DE'])).toBe('en');
+  });
+
+  it('swaps in translated text but keeps the id and answer key', () => {
+    const question = withFrench(ENHANCED_PRIVACY_QUESTIONS[0]);
+    const localized = localizeQuestion(question, 'fr');
+
+    expect(localized.question).toBe(`fr: ${question.question}`);
+    expect(localized.options).toEqual(question.options.map(option => `fr: ${option}`));
+    expect(localized).toMatchObject({ id: question.id, correctIndex: question.correctIndex });
+    expect(localizeQuestion(question, 'sw')).toBe(question);
+    expect(validateQuestion(question)).toBeNull();
+    expect(validateQuestion({ ...question, translations: { fr: { question: 'q', options: ['a'] } } })).toMatch(/each of the/);
+    expect(validateQuestion({ ...question, translations: { de: { question: 'q' } } })).toMatch(/no such locale de/);
+  });
+
+  Object.entries(typedAnswers).forEach(([locale, { right, shown, wrong }]) => {
+    it(`grades typed answers against the ${locale} question`, () => {
+      const localized = localizeQuestion(coinjoin, locale as Locale);
+
+      expect(checkAnswer(coinjoin, { kind: 'text', text: right, locale: locale as Locale }).isCorrect).toBe(true);
+      expect(checkAnswer(coinjoin, { kind: 'text', text: wrong, locale: locale as Locale }).isCorrect).toBe(false);
+      expect(getCorrectAnswerText(localized)).toBe(shown);
+      expect(validateQuestion(coinjoin)).toBeNull();
+    });
+  });
+
+  it('translates the graph prompt and checks new translation fields fit the question', () => {
+    const scenario = ENHANCED_PRIVACY_QUESTIONS.find(question => question.graph)!;
+    const question = { ...scenario, translations: { fr: { question: 'fr: q', graphPrompt: 'Cliquez sur la sortie qui trahit Alice.' } } };
+
+    expect(localizeQuestion(question, 'fr').graph).toEqual({ ...scenario.graph, prompt: 'Cliquez sur la sortie qui trahit Alice.' });
+    expect(localizeQuestion(question, 'sw').graph).toBe(scenario.graph);
+    expect(validateQuestion(question)).toBeNull();
+    expect(validateQuestion({ ...question, translations: { fr: { question: 'q', acceptedAnswers: ['a'] } } })).toMatch(/only fill_blank/);
+    expect(validateQuestion({ ...coinjoin, translations: { sw: { question: 'q', acceptedAnswers: [] } } })).toMatch(/at least one answer/);
+    expect(validateQuestion({ ...coinjoin, translations: { sw: { question: 'q', graphPrompt: 'Bofya' } } })).toMatch(/graph prompt/);
+  });
+
+  it('shuffles translated options along with the originals', () => {
+    setQuestionBank(ENHANCED_PRIVACY_QUESTIONS.map(withFrench), { source: 'api', version: 'v1' });
+    let state = createInitialEngineState({ seed: 7, timestamp: T0 });
+
+    for (const block of state.blocks.slice(0, 12)) {
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+      const question = state.blocks.find(dealt => dealt.id === block.id)!.content!.question;
+      expect(question.translations?.fr?.options).toEqual(question.options.map(option => `fr: ${option}`));
+      state = gameReducer(state, { type: 'ANSWER', blockId: block.id, answer: question.correctIndex, timestamp: T0 + 1000 }).state;
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { calibrateItems, createDifficultyReport, estimateAbility, probabilityCorrect } from '../../services/itemResponse';
+import { createMulberry32 } from '../../utils/random';
+import { Difficulty, EnhancedQuestion, QuestionAttempt } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+// True difficulties; 'q-trap' is labeled easy but plays like a hard question
+const ITEMS: { id: string; label: Difficulty; difficulty: number; discrimination: number }[] = [
+  { id: 'q-easy', label: 'easy', difficulty: -1.5, discrimination: 1.2 },
+  { id: 'q-medium', label: 'medium', difficulty: 0, discrimination: 1 },
+  { id: 'q-hard', label: 'hard', difficulty: 1.4, discrimination: 1.5 },
+  { id: 'q-trap', label: 'easy', difficulty: 1.6, discrimination: 1 },
+  { id: 'q-flat', label: 'medium', difficulty: 0.2, discrimination: 0.3 },
+];
+
+const attempt = (questionId: string, difficulty: Difficulty, isCorrect: boolean): QuestionAttempt => ({
+  questionId,
+  isCorrect,
+  outcome: isCorrect ? 'correct' : 'incorrect',
+  timeToAnswer: 5,
+  hintsUsed: 0,
+  usedFiftyFifty: false,
+  stabilityImpact: 0,
+  pointsEarned: 0,
+  timestamp: new Date(T0),
+  difficulty,
+  category: 'on-chain',
+});
+
+// Simulated players with normally distributed abilities (Box-Muller)
+const simulateHistories = (players: number): QuestionAttempt[][] => {
+  const random = createMulberry32(2024);
+  return Array.from({ length: players }, () => {
+    const ability = Math.sqrt(-2 * Math.log(1 - random.next())) * Math.cos(2 * Math.PI * random.next());
+    return ITEMS.map(item => attempt(item.id, item.label, random.next() < probabilityCorrect(ability, item)));
+  });
+};
+
+describe('Item response calibration', () => {
+  it('recovers the difficulty order and flags mislabeled questions', () => {
+    const calibration = calibrateItems(simulateHistories(400));
+    const { items } = calibration;
+
+    expect(items['q-easy'].difficulty).toBeLessThan(items['q-medium'].difficulty);
+    expect(items['q-medium'].difficulty).toBeLessThan(items['q-hard'].difficulty);
+    expect(items['q-trap'].difficulty).toBeGreaterThan(0.8);
+    expect(items['q-flat'].discrimination).toBeLessThan(items['q-hard'].discrimination);
+
+    const questions = ITEMS.map(item => ({ id: item.id, difficulty: item.label }) as EnhancedQuestion);
+    const report = createDifficultyReport(calibration, questions);
+    expect(report.map(mismatch => mismatch.questionId)).toEqual(['q-trap']);
+    expect(report[0]).toMatchObject({ labeledDifficulty: 'easy', calibratedDifficulty: 'hard', attempts: 400 });
+  });
+
+  it('fixes discrimination at 1 under the 1PL model', () => {
+    const { items, model } = calibrateItems(simulateHistories(100), { model: '1pl' });
+    expect(model).toBe('1pl');
+    expect(Object.values(items).every(item => item.discrimination === 1)).toBe(true);
+  });
+
+  it('places player ability on the item difficulty scale', () => {
+    const strong = estimateAbility(ITEMS.map(item => attempt(item.id, item.label, true)));
+    const weak = estimateAbility(ITEMS.map(item => attempt(item.id, item.label, false)));
+    const justEasy = estimateAbility([attempt('a', 'easy', true), attempt('b', 'hard', false)]);
+
+    expect(strong.ability).toBeGreaterThan(1);
+    expect(weak.ability).toBeLessThan(-1);
+    expect(justEasy.ability).toBeCloseTo(0, 1);
+    expect(strong.standardError).toBeLessThan(1);
+  });
+});
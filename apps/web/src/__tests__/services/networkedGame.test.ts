@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { NetworkedGameController } from '../../services/networkedGame';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { replayGame } from '../../services/gameReplay';
+import { getQuestionBank, getQuestionBankRef, resetQuestionBank } from '../../services/questionBank';
+import { QuestionPackStore } from '../../services/questionPackStore';
+import { createQuestionPack } from '../../services/questionPacks';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { RoomClientMessage, RoomPlayer, RoomServerMessage, RoomSeat } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+class FakeSocket {
+  readyState = WebSocket.OPEN;
+  sent: RoomClientMessage[] = [];
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onclose?: () => void;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {}
+}
+
+const createPlayer = (id: string, nickname: string): RoomPlayer => ({
+  id, nickname, isHost: id === 'ann', connected: true, joinedAt: new Date(T0).toISOString(),
+});
+
+const players = [createPlayer('ann', 'Ann'), createPlayer('ben', 'Ben')];
+
+// Two browsers in one room, with the server reduced to relaying messages to both
+const createRoom = async () => {
+  const sockets: FakeSocket[] = [];
+  const seats = players.map(player => {
+    const game = new EnhancedGameService(() => T0);
+    const packStore = new QuestionPackStore(undefined);
+    const seat: RoomSeat = {
+      room: { id: 'room-1', code: 'ABC234', name: 'Test', maxPlayers: 2, status: 'waiting', players, turn: 0, createdAt: '', updatedAt: '' },
+      player: { ...player, token: `${player.id}-token` },
+    };
+    const controller = new NetworkedGameController(game, {
+      fetch: async () => ({ ok: true, json: async () => seat }) as Response,
+      createSocket: () => {
+        const socket = new FakeSocket();
+        sockets.push(socket);
+        return socket as unknown as WebSocket;
+      },
+      packStore,
+    });
+    return { game, controller, packStore };
+  });
+  await seats[0].controller.createRoom('Ann', 2);
+  await seats[1].controller.joinRoom('ABC234', 'Ben');
+
+  const broadcast = (message: RoomServerMessage) => {
+    sockets.forEach(socket => socket.onmessage?.({ data: JSON.stringify(message) }));
+  };
+  // Relay whatever a player has sent since the last call
+  const relay = (index: number) => {
+    sockets[index].sent.splice(0).forEach(message => {
+      if (message.type === 'move') {
+        broadcast({ type: 'move', playerId: players[index].id, move: message.move });
+      }
+    });
+  };
+
+  broadcast({ type: 'room', room: { ...seats[0].controller.getRoom()!, status: 'playing' } });
+  broadcast({ type: 'started', seed: 77, players });
+  return { seats, broadcast, relay };
+};
+
+describe('Networked game controller', () => {
+  afterEach(() => {
+    resetQuestionBank();
+  });
+
+  it('keeps both towers identical and only lets the turn player move', async () => {
+    const { seats: [ann, ben], relay } = await createRoom();
+    const block = ann.game.getBlocks()[45];
+
+    expect(ben.controller.isMyTurn()).toBe(false);
+    expect(ben.controller.handleBlockClick(block.id)).toBeNull();
+
+    ann.controller.handleBlockClick(block.id);
+    ann.controller.handleQuizAnswer(block.id, 0);
+    relay(0);
+
+    expect(ben.game.getBlocks()).toEqual(ann.game.getBlocks());
+    expect(ben.game.getGameState().hotSeat).toEqual(ann.game.getGameState().hotSeat);
+    expect(ann.controller.isMyTurn()).toBe(false);
+    expect(ben.controller.isMyTurn()).toBe(true);
+  });
+
+  it('skips a player the server passes over and replays the pass', async () => {
+    const { seats: [ann, ben], broadcast, relay } = await createRoom();
+    const block = ann.game.getBlocks()[45];
+
+    ann.controller.handleBlockClick(block.id);
+    relay(0);
+    broadcast({ type: 'move', playerId: 'ann', move: { type: 'pass', at: T0 + 5000 } });
+
+    expect(ann.game.getGameState().selectedBlockId).toBeUndefined();
+    expect(ben.controller.isMyTurn()).toBe(true);
+    expect(ann.game.getReplayLog().moves.map(move => move.type)).toEqual(['pick', 'pass']);
+    expect(replayGame(ben.game.getReplayLog()).hotSeat).toEqual(ann.game.getGameState().hotSeat);
+  });
+
+  it('marks other players\' moves while they play and skips ones the game core throws on', async () => {
+    const { seats: [ann, ben], broadcast, relay } = await createRoom();
+    const block = ann.game.getBlocks()[45];
+    const remote: boolean[] = [];
+    ben.game.subscribe(event => {
+      if (event.type === 'QuestionAnswered') remote.push(ben.controller.isPlayingRemoteMove());
+    });
+
+    ann.controller.handleBlockClick(block.id);
+    relay(0);
+    // An ordering answer fits none of the questions this tower deals
+    const misfit = { type: 'answer' as const, blockId: block.id, answer: { kind: 'order' as const, order: [0, 1] }, at: T0 + 1000 };
+    expect(() => broadcast({ type: 'move', playerId: 'ann', move: misfit })).not.toThrow();
+    expect(ben.controller.isPlayingRemoteMove()).toBe(false);
+
+    ann.controller.handleQuizAnswer(block.id, 0);
+    relay(0);
+    expect(remote).toEqual([true]);
+    expect(ben.game.getBlocks()).toEqual(ann.game.getBlocks());
+  });
+
+  it('leaves a room whose host deals from another question set', async () => {
+    const { seats: [, ben], broadcast } = await createRoom();
+    const errors: string[] = [];
+    ben.controller.subscribe(message => {
+      if (message.type === 'error') errors.push(message.message);
+    });
+
+    broadcast({ type: 'started', seed: 78, players, bank: { version: 'bundled', packs: ['workshop'] } });
+
+    expect(errors).toEqual(["Can't join this game - it's dealt with question packs that aren't installed here: workshop"]);
+    expect(ben.controller.getRoom()).toBeUndefined();
+    expect(ben.game.getGameState().seed).toBe(77);
+  });
+
+  it('deals from the host\'s question packs, then puts the player\'s own selection back', async () => {
+    const { seats: [, ben], broadcast } = await createRoom();
+    const fresh = ENHANCED_PRIVACY_QUESTIONS.slice(0, 2).map((question, index) => ({ ...question, id: `fresh-${index}` }));
+    const pack = createQuestionPack({ id: 'workshop', title: 'Workshop', author: 'Facilitator', language: 'en', license: 'CC-BY-4.0' }, fresh);
+    ben.packStore.importPack(pack, 'reject');
+    ben.packStore.setEnabled('workshop', false);
+
+    const bank = { version: 'bundled', packs: ['workshop'] };
+    broadcast({ type: 'started', seed: 78, players, bank });
+
+    expect(ben.game.getGameState().seed).toBe(78);
+    expect(ben.game.getReplayLog().bank).toEqual(bank);
+    expect(getQuestionBank().map(question => question.id)).toEqual(expect.arrayContaining(['fresh-0', 'fresh-1']));
+
+    await ben.controller.leaveRoom();
+    expect(getQuestionBankRef()).toEqual({ version: 'bundled' });
+  });
+});
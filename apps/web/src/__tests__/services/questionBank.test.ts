@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getQuestionBank, loadQuestionBank, resetQuestionBank } from '../../services/questionBank';
+import { EnhancedContentTrackerImpl } from '../../services/contentTracker';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { CachedQuestionBank } from '../../types';
+
+// The API's set: the bundled questions with one reworded
+const published = ENHANCED_PRIVACY_QUESTIONS.map((question, index) =>
+  index === 0 ? { ...question, question: 'Reworded by a curriculum author?' } : question
+);
+
+const createCache = (initial: CachedQuestionBank | null = null) => {
+  const cache = {
+    stored: initial,
+    load: async () => cache.stored,
+    save: async (bank: CachedQuestionBank) => {
+      cache.stored = bank;
+    },
+  };
+  return cache;
+};
+
+const respond = (status: number, body?: unknown) => async () =>
+  new Response(body === undefined ? null : JSON.stringify(body), { status, headers: { ETag: '"v2"' } });
+
+describe('Question bank', () => {
+  afterEach(() => {
+    resetQuestionBank();
+  });
+
+  it('deals from the published set and caches it with its ETag', async () => {
+    const cache = createCache();
+    const info = await loadQuestionBank({
+      apiUrl: '/api',
+      fetch: respond(200, { content: published, version: 'v2', updatedAt: '2026-01-01T00:00:00.000Z' }),
+      cache,
+    });
+
+    expect(info).toMatchObject({ source: 'api', version: 'v2', total: published.length });
+    expect(cache.stored?.etag).toBe('"v2"');
+    expect(new EnhancedContentTrackerImpl().questionBank[0].question).toBe('Reworded by a curriculum author?');
+  });
+
+  it('asks with the cached ETag and keeps the cached set on a 304', async () => {
+    const cache = createCache({ etag: '"v2"', version: 'v2', questions: published });
+    let sentTag: string | undefined;
+    const info = await loadQuestionBank({
+      apiUrl: '/api',
+      fetch: async (_url, init) => {
+        sentTag = (init?.headers as Record<string, string>)['If-None-Match'];
+        return respond(304)();
+      },
+      cache,
+    });
+
+    expect(sentTag).toBe('"v2"');
+    expect(info.source).toBe('api');
+    expect(getQuestionBank()[0].question).toBe('Reworded by a curriculum author?');
+  });
+
+  it('falls back to the cached copy, then the bundled set, when the API is unreachable', async () => {
+    const offline = async (): Promise<Response> => {
+      throw new TypeError('Failed to fetch');
+    };
+
+    const cached = await loadQuestionBank({ apiUrl: '/api', fetch: offline, cache: createCache({ etag: '"v2"', version: 'v2', questions: published }) });
+    expect(cached).toMatchObject({ source: 'cache', version: 'v2' });
+
+    resetQuestionBank();
+    const bundled = await loadQuestionBank({ apiUrl: '/api', fetch: offline, cache: createCache() });
+    expect(bundled.source).toBe('bundled');
+    expect(getQuestionBank()).toEqual(ENHANCED_PRIVACY_QUESTIONS);
+  });
+
+  it('leaves out questions that do not validate', async () => {
+    const broken = { ...published[1], correctIndex: 9 };
+    const info = await loadQuestionBank({ apiUrl: '/api', fetch: respond(200, { content: [published[0], broken], version: 'v3' }) });
+
+    expect(info.total).toBe(1);
+    expect(getQuestionBank().map(question => question.id)).toEqual([published[0].id]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createQuestionPack,
+  parseQuestionPack,
+  planPackImport,
+  serializeQuestionPack,
+  validateQuestionPack
+} from '../../services/questionPacks';
+import { getQuestionBank, resetQuestionBank, selectQuestionPacks } from '../../services/questionBank';
+import { QuestionPackStore } from '../../services/questionPackStore';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+
+const METADATA = { id: 'facilitator-pack', title: 'Facilitator pack', author: 'A. Facilitator', language: 'sw-KE', license: 'CC-BY-4.0' };
+
+// Two bundled questions under new ids, as another facilitator might write them
+const fresh = ENHANCED_PRIVACY_QUESTIONS.slice(0, 2).map((question, index) => ({ ...question, id: `fresh-${index}` }));
+
+describe('Question packs', () => {
+  afterEach(() => {
+    resetQuestionBank();
+  });
+
+  it('round-trips through the file format and rejects what it cannot read', () => {
+    const pack = createQuestionPack(METADATA, fresh, '2026-01-01T00:00:00.000Z');
+
+    expect(new Set(pack.categories)).toEqual(new Set(fresh.map(question => question.category)));
+    expect(parseQuestionPack(serializeQuestionPack(pack))).toEqual(pack);
+    expect(() => parseQuestionPack('not json')).toThrow(/isn't JSON/);
+    expect(validateQuestionPack({ ...pack, formatVersion: 99 })).toMatch(/newer/);
+    expect(validateQuestionPack({ ...pack, language: 'Swahili!' })).toMatch(/language tag/);
+    expect(validateQuestionPack({ ...pack, questions: [fresh[0], fresh[0]] })).toMatch(/appears twice/);
+  });
+
+  it('handles ids that are already taken by policy', () => {
+    const pack = createQuestionPack(METADATA, [ENHANCED_PRIVACY_QUESTIONS[0], fresh[0]]);
+    const taken = ENHANCED_PRIVACY_QUESTIONS.map(question => question.id);
+    const clash = ENHANCED_PRIVACY_QUESTIONS[0].id;
+
+    expect(planPackImport(pack, taken, 'reject')).toMatchObject({ questions: [], conflicts: [clash] });
+    expect(planPackImport(pack, taken, 'skip')).toMatchObject({ added: ['fresh-0'], skipped: [clash] });
+    expect(planPackImport(pack, taken, 'replace')).toMatchObject({ added: ['fresh-0'], replaced: [clash] });
+
+    const renamed = planPackImport(pack, [...taken, `facilitator-pack.${clash}`], 'rename');
+    expect(renamed.renamed).toEqual({ [clash]: `facilitator-pack.${clash}-2` });
+    expect(renamed.questions.map(question => question.id)).toEqual([`facilitator-pack.${clash}-2`, 'fresh-0']);
+  });
+
+  it('deals a replacing pack\'s question in place of the core one', () => {
+    const original = ENHANCED_PRIVACY_QUESTIONS.find(question => question.category === 'on-chain' && question.type === 'multiple_choice')!;
+    const rewritten = { ...original, question: `Reworded: ${original.question}` };
+    const store = new QuestionPackStore(undefined);
+
+    expect(store.importPack(createQuestionPack(METADATA, [rewritten, fresh[0]]), 'replace').replaced).toEqual([original.id]);
+    store.apply();
+    expect(getQuestionBank().filter(question => question.id === original.id)).toEqual([rewritten]);
+
+    // A Category Sprint deals every on-chain question onto its short tower
+    let state = createInitialEngineState({ seed: 7, timestamp: 0, mode: { id: 'category-sprint', category: 'on-chain' } });
+    const dealt = [...state.blocks].reverse().map(block => {
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: 0 }).state;
+      return state.blocks.find(candidate => candidate.id === block.id)!.content!.question;
+    });
+    expect(dealt.find(question => question.id === original.id)?.question).toBe(rewritten.question);
+  });
+
+  it('deals from the selected packs, with or without the core set', () => {
+    const pack = createQuestionPack(METADATA, fresh);
+
+    expect(selectQuestionPacks([pack])).toMatchObject({ total: ENHANCED_PRIVACY_QUESTIONS.length + 2, packs: ['Facilitator pack'] });
+    expect(selectQuestionPacks([pack], { includeCore: false }).total).toBe(2);
+    expect(getQuestionBank().map(question => question.id)).toEqual(['fresh-0', 'fresh-1']);
+  });
+});
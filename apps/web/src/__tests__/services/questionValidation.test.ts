@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuestion } from '../../services/questionValidation';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { EnhancedQuestion } from '../../types';
+
+const question: EnhancedQuestion = {
+  id: 'q-test',
+  type: 'multiple_choice',
+  difficulty: 'easy',
+  category: 'wallet-setup',
+  question: 'Which address type hides the spending script until it is used?',
+  options: ['P2PKH', 'P2TR', 'Bare multisig'],
+  correctIndex: 1,
+  explanation: 'P2TR key-path spends look like any single-signature spend.',
+  stabilityImpact: { correct: 5, incorrect: -10 },
+  points: { correct: 10, incorrect: 0 },
+  learningTags: ['taproot'],
+};
+
+describe('Question validation', () => {
+  it('accepts every bundled question', () => {
+    expect(ENHANCED_PRIVACY_QUESTIONS.map(validateQuestion).filter(Boolean)).toEqual([]);
+  });
+
+  it('rejects answer keys outside the options', () => {
+    expect(validateQuestion({ ...question, correctIndex: 3 })).toBe('Question q-test: correctIndex 3 is outside its 3 options');
+    expect(validateQuestion({ ...question, type: 'multi_select', correctIndices: [0, 5] })).toMatch(/correctIndices/);
+    expect(validateQuestion({ ...question, type: 'ordering', correctOrder: [0, 1] })).toMatch(/correctOrder/);
+  });
+
+  it('rejects unknown categories and stability effects with the wrong sign', () => {
+    expect(validateQuestion({ ...question, category: 'taproot' })).toMatch(/category must be one of/);
+    expect(validateQuestion({ ...question, stabilityImpact: { correct: -5, incorrect: -10 } })).toMatch(/can't lower stability/);
+    expect(validateQuestion({ ...question, stabilityImpact: { correct: 5, incorrect: 10 } })).toMatch(/can't raise stability/);
+    expect(validateQuestion({ ...question, id: '' })).toBe('id is required');
+    expect(validateQuestion(question)).toBeNull();
+  });
+});
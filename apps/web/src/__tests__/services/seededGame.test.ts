@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { createMulberry32, createXorshift32, parseSeed } from '../../utils/random';
+
+// Click every block in order, dealing each its question
+const dealAll = (service: EnhancedGameService) =>
+  service.getBlocks().map(block => service.handleBlockClick(block.id)!);
+
+const layoutOf = (service: EnhancedGameService) =>
+  dealAll(service).map((content, index) => `${index}:${content.id}:${content.question.correctIndex}`);
+
+describe('Seeded tower generation', () => {
+  it('deals the same questions and answer order for the same seed', () => {
+    const first = new EnhancedGameService();
+    const second = new EnhancedGameService();
+
+    first.initializeGame({ seed: 4821 });
+    second.initializeGame({ seed: 4821 });
+
+    expect(layoutOf(first)).toEqual(layoutOf(second));
+    expect(first.getGameState().seed).toBe(4821);
+  });
+
+  it('builds different towers for different seeds', () => {
+    const service = new EnhancedGameService();
+
+    service.initializeGame({ seed: 1 });
+    const firstLayout = layoutOf(service);
+    service.resetGame({ seed: 2 });
+
+    expect(layoutOf(service)).not.toEqual(firstLayout);
+  });
+
+  it('keeps correctIndex pointing at the same answer after shuffling', () => {
+    const service = new EnhancedGameService();
+    service.initializeGame({ seed: 99 });
+
+    const content = dealAll(service).find(dealt => dealt.id === 'red-001');
+    if (content) {
+      const { options, correctIndex } = content.question;
+      expect(options[correctIndex]).toBe('It permanently links your identity to the transaction on the blockchain');
+    }
+  });
+
+  it('accepts a pluggable random factory', () => {
+    const service = new EnhancedGameService();
+    service.initializeGame({ seed: 7, random: createXorshift32 });
+    const xorshiftLayout = layoutOf(service);
+
+    service.resetGame({ seed: 7, random: createMulberry32 });
+    expect(layoutOf(service)).not.toEqual(xorshiftLayout);
+  });
+
+  it('parses numeric and text seeds', () => {
+    expect(parseSeed('4821')).toBe(4821);
+    expect(parseSeed('nairobi-workshop')).toBe(parseSeed('nairobi-workshop'));
+    expect(parseSeed('')).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ReviewScheduleStore,
+  createReviewSchedule,
+  getReviewQueue,
+  scheduleReview
+} from '../../services/spacedRepetition';
+import { createInitialEngineState, gameReducer } from '../../services/gameReducer';
+
+const T0 = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const correct = (questionId: string) => ({ questionId, outcome: 'correct' as const, hintsUsed: 0, timeToAnswer: 5 });
+const missed = (questionId: string) => ({ questionId, outcome: 'incorrect' as const, hintsUsed: 0, timeToAnswer: 5 });
+
+describe('Spaced repetition', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('grows intervals for remembered questions and brings missed ones back soon', () => {
+    let schedule = createReviewSchedule();
+    schedule = scheduleReview(schedule, correct('red-001'), T0);
+    schedule = scheduleReview(schedule, correct('red-001'), T0 + DAY);
+    schedule = scheduleReview(schedule, correct('red-001'), T0 + 7 * DAY);
+    expect(schedule.cards['red-001'].intervalDays).toBe(16);
+
+    schedule = scheduleReview(schedule, missed('red-001'), T0 + 22 * DAY);
+    expect(schedule.cards['red-001']).toMatchObject({ repetitions: 0, lapses: 1 });
+    expect(schedule.cards['red-001'].easeFactor).toBeLessThan(2.5);
+    expect(getReviewQueue(schedule, T0 + 22 * DAY + 60 * 60 * 1000)).toEqual(['red-001']);
+  });
+
+  it('keeps the schedule between visits', () => {
+    new ReviewScheduleStore(localStorage).recordAnswer(missed('orange-003'), T0);
+
+    const nextVisit = new ReviewScheduleStore(localStorage);
+    expect(nextVisit.countDue(T0 + DAY)).toBe(1);
+    expect(nextVisit.getReviewQueue(T0 + DAY)).toEqual(['orange-003']);
+  });
+
+  it('deals overdue questions before anything else', () => {
+    let state = createInitialEngineState({ seed: 3, timestamp: T0, reviewQueue: ['red-005', 'green-018'] });
+    const dealt = state.blocks.slice(0, 3).map(block => {
+      state = gameReducer(state, { type: 'SELECT_BLOCK', blockId: block.id, timestamp: T0 }).state;
+      return state.blocks.find(b => b.id === block.id)!.content!.id;
+    });
+
+    expect(dealt.slice(0, 2)).toEqual(['red-005', 'green-018']);
+    expect(dealt[2]).not.toMatch(/^(red-005|green-018)$/);
+  });
+});
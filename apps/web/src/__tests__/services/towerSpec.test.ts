@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createTowerSpec, DEFAULT_TOWER_SPEC, getBlockWorldPosition, getLayerDifficulty, getTowerSpec, validateTowerSpec } from '../../services/towerSpec';
+import { createInitialEngineState } from '../../services/gameReducer';
+import { EnhancedGameService } from '../../services/simplifiedGameService';
+import { parseReplay, replayGame, serializeReplay } from '../../services/gameReplay';
+import { TowerSpec } from '../../types';
+
+const T0 = 1_700_000_000_000;
+
+describe('Tower specs', () => {
+  it('splits the standard tower into six-layer difficulty bands', () => {
+    expect(DEFAULT_TOWER_SPEC.bands).toEqual([
+      { fromLayer: 1, toLayer: 6, difficulty: 'hard' },
+      { fromLayer: 7, toLayer: 12, difficulty: 'medium' },
+      { fromLayer: 13, toLayer: 18, difficulty: 'easy' },
+    ]);
+    expect(getBlockWorldPosition(DEFAULT_TOWER_SPEC, 1, 1)).toEqual([-1.2, 0, 0.75]);
+    expect(getBlockWorldPosition(DEFAULT_TOWER_SPEC, 2, 3)).toEqual([1.2, 0.4, 0]);
+  });
+
+  it('builds the blocks a spec describes', () => {
+    const workshop = createInitialEngineState({ seed: 12, timestamp: T0, tower: getTowerSpec('workshop') });
+    const tall = createInitialEngineState({ seed: 12, timestamp: T0, tower: getTowerSpec('tall') });
+
+    expect(workshop.blocks).toHaveLength(13);
+    expect(workshop.game.totalBlocks).toBe(13);
+    expect(workshop.blocks.map(block => block.difficulty)).toEqual(
+      workshop.blocks.map(block => getLayerDifficulty(workshop.game.tower, block.layer))
+    );
+    expect(tall.blocks).toHaveLength(54);
+  });
+
+  it('deals difficulty from custom bands', () => {
+    const allHard: TowerSpec = {
+      ...createTowerSpec({ id: 'drill', name: 'Drill', layers: 4, blocksPerLayer: 2, topLayerBlocks: 2 }),
+      bands: [{ fromLayer: 1, toLayer: 4, difficulty: 'hard' }],
+    };
+    const state = createInitialEngineState({ seed: 5, timestamp: T0, tower: allHard });
+
+    expect(state.blocks).toHaveLength(8);
+    expect(new Set(state.blocks.map(block => block.difficulty))).toEqual(new Set(['hard']));
+  });
+
+  it('rejects specs whose bands leave gaps or overlap', () => {
+    const spec = createTowerSpec({ id: 'broken', name: 'Broken', layers: 6, blocksPerLayer: 3, topLayerBlocks: 1 });
+
+    expect(validateTowerSpec(spec)).toBeNull();
+    expect(validateTowerSpec({ ...spec, bands: spec.bands.slice(1) })).toMatch('Every layer');
+    expect(validateTowerSpec({ ...spec, bands: [...spec.bands, { fromLayer: 6, toLayer: 7, difficulty: 'easy' }] })).toMatch('more than one band');
+    expect(validateTowerSpec({ ...spec, blocksPerLayer: 0 })).toMatch('at least 1');
+    expect(() => createInitialEngineState({ seed: 1, timestamp: T0, tower: { ...spec, bands: [] } })).toThrow('difficulty band');
+  });
+
+  it('keeps a custom tower in the replay log', () => {
+    const service = new EnhancedGameService();
+    service.initializeGame({ seed: 9, tower: getTowerSpec('workshop') });
+    const log = parseReplay(serializeReplay(service.getReplayLog()));
+
+    expect(log.tower?.id).toBe('workshop');
+    expect(replayGame(log).totalBlocks).toBe(13);
+  });
+});
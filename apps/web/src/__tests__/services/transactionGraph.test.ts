@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { layoutTransactionGraph, validateTransactionGraph } from '../../services/transactionGraph';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../../data/enhancedPrivacyQuestions';
+import { TransactionGraph } from '../../types';
+
+// Alice spends one coin and later merges the change with a second coin
+const consolidation: TransactionGraph = {
+  prompt: 'Click the coin that reveals both inputs belong to Alice.',
+  nodes: [
+    { id: 'coin-a', kind: 'coin', label: '0.3 BTC', cluster: 'Alice' },
+    { id: 'pay', kind: 'transaction', label: 'Payment' },
+    { id: 'shop', kind: 'coin', label: '0.1 BTC', role: 'payment' },
+    { id: 'change', kind: 'coin', label: '0.2 BTC', role: 'change', cluster: 'Alice' },
+    { id: 'coin-b', kind: 'coin', label: '0.5 BTC' },
+    { id: 'merge', kind: 'transaction', label: 'Consolidate' },
+    { id: 'merged', kind: 'coin', label: '0.7 BTC', cluster: 'Alice' },
+  ],
+  edges: [
+    { from: 'coin-a', to: 'pay' },
+    { from: 'pay', to: 'shop' },
+    { from: 'pay', to: 'change' },
+    { from: 'change', to: 'merge' },
+    { from: 'coin-b', to: 'merge' },
+    { from: 'merge', to: 'merged' },
+  ],
+  answerNodeIds: ['merged'],
+};
+
+describe('Transaction graphs', () => {
+  it('lays graphs out left to right with funding inputs next to their spender', () => {
+    const layout = layoutTransactionGraph(consolidation);
+    const column = (id: string) => layout.nodes.find(node => node.id === id)?.column;
+
+    expect(['coin-a', 'pay', 'change', 'merge', 'merged'].map(column)).toEqual([0, 1, 2, 3, 4]);
+    expect(column('coin-b')).toBe(2);
+    expect(layout.edges).toHaveLength(6);
+  });
+
+  it('rejects graphs that are not a valid transaction DAG', () => {
+    const withEdge = (from: string, to: string): TransactionGraph => ({ ...consolidation, edges: [...consolidation.edges, { from, to }] });
+
+    expect(validateTransactionGraph(consolidation)).toBeNull();
+    expect(validateTransactionGraph(withEdge('merged', 'pay'))).toMatch('cycle');
+    expect(validateTransactionGraph(withEdge('change', 'pay'))).toMatch('spent twice');
+    expect(validateTransactionGraph(withEdge('shop', 'change'))).toMatch('coin and a transaction');
+    expect(validateTransactionGraph({ ...consolidation, answerNodeIds: ['merge'] })).toMatch('not a coin');
+    expect(() => layoutTransactionGraph(withEdge('ghost', 'pay'))).toThrow('missing node');
+  });
+
+  it('only ships graph questions that validate', () => {
+    const graphs = ENHANCED_PRIVACY_QUESTIONS.flatMap(question => question.graph ? [question.graph] : []);
+    expect(graphs.length).toBeGreaterThan(0);
+    graphs.forEach(graph => expect(validateTransactionGraph(graph)).toBeNull());
+  });
+});
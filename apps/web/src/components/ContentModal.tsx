@@ -1,17 +1,26 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, CheckCircle, XCircle, Lightbulb, Star, Target } from 'lucide-react';
-import { BlockContent, GameState } from '../types';
+import { X, CheckCircle, XCircle, Lightbulb, Star, Target, Timer } from 'lucide-react';
+import { BlockContent, GameSettings, GameState, HintKind, HintReveal, QuizAnswer, QuizResult } from '../types';
 import soundManager from '../services/soundManager';
+import { hasMessage, localizeQuestion } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { getCorrectAnswerText, getCorrectIndices, normalizeAnswerText } from '../services/answerGrading';
+import OrderingQuestion from './quiz/OrderingQuestion';
+import TransactionGraph from './quiz/TransactionGraph';
 
 interface ContentModalProps {
   content: BlockContent | null;
   isOpen: boolean;
   onClose: () => void;
-  onQuizAnswer?: (blockId: string, selectedAnswer: number) => Promise<void>;
+  onQuizAnswer?: (blockId: string, answer: QuizAnswer) => Promise<QuizResult | undefined>;
+  onQuizTimeout?: (blockId: string) => Promise<void>;
+  onRequestHint?: (blockId: string, kind: HintKind) => HintReveal | null;
+  questionSettings?: GameSettings['questionSettings'];
   showQuiz?: boolean;
   gameState: GameState;
   blockId?: string;
+  timeLimit?: number; // Seconds to answer; no countdown when undefined
 }
 
 const ContentModal: React.FC<ContentModalProps> = ({
@@ -19,39 +28,93 @@ const ContentModal: React.FC<ContentModalProps> = ({
   isOpen,
   onClose,
   onQuizAnswer,
+  onQuizTimeout,
+  onRequestHint,
+  questionSettings,
   showQuiz,
-  // gameState, // Unused parameter
+  gameState,
   blockId,
+  timeLimit,
 }) => {
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [selectedAnswers, setSelectedAnswers] = useState<number[]>([]);
+  const [order, setOrder] = useState<number[]>([]);
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [quizSubmitted, setQuizSubmitted] = useState(false);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
+  const [revealedHints, setRevealedHints] = useState<string[]>([]);
+  const [eliminatedOptions, setEliminatedOptions] = useState<number[]>([]);
+  const [hintsRemaining, setHintsRemaining] = useState<number | null>(null);
+  const [noMoreHints, setNoMoreHints] = useState(false);
+  const submittedRef = useRef(false);
+  const { locale, t, formatPercent } = useTranslation();
 
   React.useEffect(() => {
     if (isOpen) {
       setSelectedAnswer(null);
+      setTypedAnswer('');
+      setSelectedAnswers([]);
+      setOrder(content?.question.options.map((_option, index) => index) || []);
+      setSelectedNode(null);
       setQuizSubmitted(false);
       setIsCorrect(null);
+      setTimedOut(false);
       setShowExplanation(false);
+      setRevealedHints([]);
+      setEliminatedOptions([]);
+      setHintsRemaining(null);
+      setNoMoreHints(false);
+      submittedRef.current = false;
     }
   }, [isOpen, content]);
 
-  const handleAnswerSubmit = async () => {
-    if (content?.question && selectedAnswer !== null && blockId && onQuizAnswer) {
+  // Countdown for timed questions - the game service does the real timing,
+  // this only shows the clock and reports when it runs out
+  useEffect(() => {
+    if (!isOpen || !showQuiz || !timeLimit || !blockId) {
+      setTimeLeft(null);
+      return;
+    }
+
+    const startedAt = Date.now();
+    setTimeLeft(timeLimit);
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, timeLimit - (Date.now() - startedAt) / 1000);
+      setTimeLeft(remaining);
+      if (remaining > 0 || submittedRef.current) return;
+
+      clearInterval(interval);
+      submittedRef.current = true;
+      setQuizSubmitted(true);
+      setTimedOut(true);
+      setIsCorrect(false);
+      onQuizTimeout?.(blockId).catch(error => {
+        console.error('Error submitting quiz timeout:', error);
+      });
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [isOpen, showQuiz, timeLimit, blockId, content, onQuizTimeout]);
+
+  const handleAnswerSubmit = async (answer: QuizAnswer | null) => {
+    if (content?.question && answer && blockId && onQuizAnswer && !submittedRef.current) {
+      submittedRef.current = true;
       setQuizSubmitted(true);
       try {
-        await onQuizAnswer(blockId, selectedAnswer);
-        // Check if the answer is correct by comparing with the correct index
-        const isAnswerCorrect = selectedAnswer === content.question.correctIndex;
-        setIsCorrect(isAnswerCorrect);
-        
-        // Play appropriate sound based on answer
-        if (isAnswerCorrect) {
-          soundManager.playCorrectAnswer();
-        } else {
-          soundManager.playWrongAnswer();
+        // The game service grades the answer
+        // (answer sounds are played from the game's QuestionAnswered event)
+        const result = await onQuizAnswer(blockId, answer);
+        if (!result) {
+          // Not graded, so there's no verdict to show for this question
+          submittedRef.current = false;
+          setQuizSubmitted(false);
+          return;
         }
+        setIsCorrect(result.isCorrect);
       } catch (error) {
         console.error('Error submitting quiz answer:', error);
         setIsCorrect(false);
@@ -60,6 +123,56 @@ const ContentModal: React.FC<ContentModalProps> = ({
     }
   };
 
+  // Hints and 50/50 are granted by the game service, which also charges for them
+  const handleRequestHint = (kind: HintKind) => {
+    if (!blockId || !onRequestHint || quizSubmitted) return;
+    const reveal = onRequestHint(blockId, kind);
+    if (!reveal) {
+      // Nothing more of this kind to give
+      if (kind === 'hint') setNoMoreHints(true);
+      else setHintsRemaining(0);
+      return;
+    }
+    if (reveal.hint) {
+      setRevealedHints(hints => [...hints, reveal.hint as string]);
+    }
+    setEliminatedOptions(reveal.eliminatedOptions);
+    setHintsRemaining(reveal.hintsRemaining);
+    if (selectedAnswer !== null && reveal.eliminatedOptions.includes(selectedAnswer)) {
+      setSelectedAnswer(null);
+    }
+    setSelectedAnswers(selected => selected.filter(index => !reveal.eliminatedOptions.includes(index)));
+  };
+
+  const toggleAnswer = (index: number) => {
+    if (quizSubmitted) return;
+    setSelectedAnswers(selected => selected.includes(index) ?
+      selected.filter(picked => picked !== index) :
+      [...selected, index].sort((a, b) => a - b));
+  };
+
+  // Shape the player's input into the answer payload for this question type
+  const buildAnswer = (): QuizAnswer | null => {
+    const question = content?.question;
+    if (!question) return null;
+    switch (question.type) {
+      case 'fill_blank':
+        return typedAnswer.trim() ? { kind: 'text', text: typedAnswer, locale } : null;
+      case 'multi_select':
+        return selectedAnswers.length > 0 ? { kind: 'multi', indices: selectedAnswers } : null;
+      case 'ordering':
+        return order.length === question.options.length ? { kind: 'order', order } : null;
+      case 'scenario':
+        if (question.graph) return selectedNode === null ? null : { kind: 'node', nodeId: selectedNode };
+        return selectedAnswer === null ? null : { kind: 'choice', index: selectedAnswer };
+      case 'true_false':
+        return selectedAnswer === null ? null :
+          { kind: 'boolean', value: normalizeAnswerText(question.options[selectedAnswer]) === 'true' };
+      default:
+        return selectedAnswer === null ? null : { kind: 'choice', index: selectedAnswer };
+    }
+  };
+
   const handleCloseModal = () => {
     onClose();
   };
@@ -68,6 +181,25 @@ const ContentModal: React.FC<ContentModalProps> = ({
 
   const isQuestion = content.type === 'QUESTION';
   const questionContent = content.question;
+  // Shown in the player's language; answers are built against questionContent, and typed ones graded in this language
+  const shown = questionContent && localizeQuestion(questionContent, locale);
+  const lastResult = gameState.lastQuizResult?.blockId === blockId ? gameState.lastQuizResult : undefined;
+  // The service has the final say: an answer that arrived too late is scored as a timeout
+  const showTimedOut = timedOut || (quizSubmitted && lastResult?.outcome === 'timeout');
+  const answeredCorrectly = !!isCorrect && !showTimedOut;
+  const timeBonus = quizSubmitted && answeredCorrectly ? lastResult?.timeBonus || 0 : 0;
+  const hintsAvailable = !!onRequestHint && !!questionSettings?.hintsEnabled && hintsRemaining !== 0;
+  const fiftyFiftyAvailable = hintsAvailable && eliminatedOptions.length === 0 &&
+    (questionContent?.options.length || 0) >= 3 && questionContent?.type !== 'ordering' && !questionContent?.graph;
+  const isFillBlank = questionContent?.type === 'fill_blank';
+  const isTrueFalse = questionContent?.type === 'true_false';
+  const isMultiSelect = questionContent?.type === 'multi_select';
+  const isOrdering = questionContent?.type === 'ordering';
+  const transactionGraph = shown?.type === 'scenario' ? shown.graph : undefined;
+  const correctIndices = questionContent ? getCorrectIndices(questionContent) : [];
+  const currentAnswer = buildAnswer();
+  const partialScore = quizSubmitted && !answeredCorrectly && !showTimedOut && lastResult && lastResult.score > 0 ?
+    Math.round(lastResult.score * 100) : null;
 
   return (
     <AnimatePresence>
@@ -93,11 +225,12 @@ const ContentModal: React.FC<ContentModalProps> = ({
                   <Lightbulb className="w-8 h-8 text-green-400" />
                 )}
                 <h2 className="text-2xl font-bold text-white">
-                  {isQuestion ? 'Privacy Quiz' : 'Privacy Tip'}
+                  {isQuestion ? t('quiz.title') : t('quiz.tipTitle')}
                 </h2>
               </div>
               <button
                 onClick={handleCloseModal}
+                aria-label={t('common.close')}
                 className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
               >
                 <X className="w-6 h-6 text-gray-400" />
@@ -109,21 +242,21 @@ const ContentModal: React.FC<ContentModalProps> = ({
               {/* Learning Objective Section */}
               <div className="bg-gray-700/50 rounded-lg p-4">
                 <h3 className="text-lg font-semibold text-white mb-3">
-                  Learning Objective
+                  {t('quiz.objective')}
                 </h3>
-                <p className="text-gray-300 text-lg leading-relaxed">{content.content}</p>
+                <p className="text-gray-300 text-lg leading-relaxed">{shown?.explanation ?? content.content}</p>
               </div>
 
               {/* Category and Difficulty */}
               <div className="flex items-center gap-4">
                 <div className="px-3 py-1 bg-blue-500/20 border border-blue-400/30 rounded-full">
                   <span className="text-blue-300 text-sm font-medium">
-                    {content.category.replace('-', ' ').toUpperCase()}
+                    {(hasMessage(`category.${content.category}`) ? t(`category.${content.category}`) : content.category.replace('-', ' ')).toUpperCase()}
                   </span>
                 </div>
                 <div className="px-3 py-1 bg-purple-500/20 border border-purple-400/30 rounded-full">
                   <span className="text-purple-300 text-sm font-medium">
-                    {content.difficulty.charAt(0).toUpperCase() + content.difficulty.slice(1)}
+                    {t(`difficulty.${content.difficulty}`)}
                   </span>
                 </div>
               </div>
@@ -133,36 +266,150 @@ const ContentModal: React.FC<ContentModalProps> = ({
                 <div className="bg-gray-800/50 rounded-lg p-5 space-y-4 border border-yellow-500/30">
                   <div className="flex items-center gap-2 mb-3">
                     <Target className="w-6 h-6 text-yellow-400" />
-                    <h3 className="text-xl font-semibold text-yellow-300">Quiz Challenge</h3>
+                    <h3 className="text-xl font-semibold text-yellow-300">{t('quiz.challenge')}</h3>
                   </div>
-                  <p className="text-yellow-100 font-medium text-lg">{questionContent.question}</p>
-                  <div className="space-y-3">
-                    {questionContent.options.map((option: string, index: number) => (
-                      <button
-                        key={index}
-                        onClick={() => !quizSubmitted && setSelectedAnswer(index)}
-                        className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 font-medium
-                          ${quizSubmitted
-                            ? (index === questionContent.correctIndex
-                              ? 'border-green-500 bg-green-500/20 text-green-300'
-                              : (index === selectedAnswer ? 'border-red-500 bg-red-500/20 text-red-300' : 'border-gray-600 bg-gray-800 text-gray-300'))
-                            : (selectedAnswer === index
-                              ? 'border-yellow-500 bg-yellow-500/20 text-yellow-300'
-                              : 'border-gray-600 bg-gray-800 text-gray-300 hover:border-yellow-500 hover:text-yellow-300')
-                          }`}
+                  {timeLeft !== null && !quizSubmitted && (
+                    <div className="space-y-1">
+                      <div className={`flex items-center gap-2 text-sm font-semibold ${timeLeft <= 5 ? 'text-red-400' : 'text-gray-300'}`}>
+                        <Timer className="w-4 h-4" />
+                        {t('quiz.timeLeft', { seconds: Math.ceil(timeLeft) })}
+                        {timeLeft <= 5 && <span className="animate-pulse">⏰</span>}
+                      </div>
+                      <div className="w-full bg-gray-700 rounded-full h-1.5">
+                        <div
+                          className={`h-1.5 rounded-full transition-all duration-200 ${timeLeft <= 5 ? 'bg-red-500' : 'bg-yellow-500'}`}
+                          style={{ width: `${(timeLeft / (timeLimit || 1)) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-yellow-100 font-medium text-lg">{shown.question}</p>
+                  {isMultiSelect && !quizSubmitted && (
+                    <p className="text-gray-400 text-sm">{t('quiz.selectAll')}</p>
+                  )}
+                  {isOrdering && !quizSubmitted && (
+                    <p className="text-gray-400 text-sm">{t('quiz.dragOrder')}</p>
+                  )}
+                  {transactionGraph ? (
+                    <TransactionGraph
+                      graph={transactionGraph}
+                      selectedNodeId={selectedNode}
+                      onSelect={setSelectedNode}
+                      disabled={quizSubmitted}
+                      showAnswer={quizSubmitted}
+                    />
+                  ) : isOrdering ? (
+                    <OrderingQuestion
+                      options={shown.options}
+                      order={order}
+                      onReorder={setOrder}
+                      disabled={quizSubmitted}
+                      correctOrder={quizSubmitted ? questionContent.correctOrder : undefined}
+                    />
+                  ) : isFillBlank ? (
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        value={typedAnswer}
+                        onChange={event => setTypedAnswer(event.target.value)}
+                        onKeyDown={event => event.key === 'Enter' && handleAnswerSubmit(currentAnswer)}
                         disabled={quizSubmitted}
-                      >
-                        {option}
-                      </button>
-                    ))}
-                  </div>
+                        placeholder={t('quiz.typeAnswer')}
+                        autoComplete="off"
+                        autoCapitalize="none"
+                        spellCheck={false}
+                        className={`w-full p-4 rounded-lg border-2 bg-gray-800 font-medium focus:outline-none
+                          ${quizSubmitted
+                            ? (answeredCorrectly ? 'border-green-500 text-green-300' : 'border-red-500 text-red-300')
+                            : 'border-gray-600 text-gray-200 focus:border-yellow-500'}`}
+                      />
+                      {quizSubmitted && !showTimedOut && (
+                        lastResult?.matchedAnswer && normalizeAnswerText(lastResult.matchedAnswer) !== normalizeAnswerText(typedAnswer) ? (
+                          <p className="text-sm text-green-300">{t('quiz.closeEnough', { answer: lastResult.matchedAnswer })}</p>
+                        ) : !answeredCorrectly && (
+                          <p className="text-sm text-gray-300">{t('quiz.answer')} <span className="text-green-300 font-semibold">{getCorrectAnswerText(shown)}</span></p>
+                        )
+                      )}
+                    </div>
+                  ) : (
+                    <div className={isTrueFalse ? 'grid grid-cols-2 gap-3' : 'space-y-3'}>
+                      {shown.options.map((option: string, index: number) => eliminatedOptions.includes(index) && !quizSubmitted ? (
+                        <div
+                          key={index}
+                          className="w-full text-left p-4 rounded-lg border-2 border-gray-700 bg-gray-900 text-gray-600 line-through"
+                        >
+                          {option}
+                        </div>
+                      ) : (
+                        <button
+                          key={index}
+                          onClick={() => isMultiSelect ? toggleAnswer(index) : !quizSubmitted && setSelectedAnswer(index)}
+                          className={`w-full p-4 rounded-lg border-2 transition-all duration-200 font-medium
+                            ${isTrueFalse ? 'text-center text-lg py-6' : 'text-left'}
+                            ${quizSubmitted
+                              ? (correctIndices.includes(index)
+                                ? 'border-green-500 bg-green-500/20 text-green-300'
+                                : (index === selectedAnswer || selectedAnswers.includes(index) ? 'border-red-500 bg-red-500/20 text-red-300' : 'border-gray-600 bg-gray-800 text-gray-300'))
+                              : (selectedAnswer === index || selectedAnswers.includes(index)
+                                ? 'border-yellow-500 bg-yellow-500/20 text-yellow-300'
+                                : 'border-gray-600 bg-gray-800 text-gray-300 hover:border-yellow-500 hover:text-yellow-300')
+                            }`}
+                          disabled={quizSubmitted}
+                        >
+                          {isMultiSelect && (
+                            <span className={`inline-block w-4 h-4 mr-3 align-middle rounded border-2 ${selectedAnswers.includes(index) ? 'bg-yellow-400 border-yellow-400' : 'border-gray-500'}`} />
+                          )}
+                          {isTrueFalse && (normalizeAnswerText(questionContent.options[index]) === 'true' ?
+                            <CheckCircle className="w-6 h-6 mx-auto mb-1" /> :
+                            <XCircle className="w-6 h-6 mx-auto mb-1" />)}
+                          {isTrueFalse ? t(normalizeAnswerText(questionContent.options[index]) === 'true' ? 'quiz.true' : 'quiz.false') : option}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {/* Progressive hints */}
+                  {revealedHints.length > 0 && (
+                    <div className="space-y-2">
+                      {revealedHints.map((hint, index) => (
+                        <div key={index} className="flex items-start gap-2 p-3 bg-blue-500/10 border border-blue-400/30 rounded-lg text-blue-200 text-sm">
+                          <Lightbulb className="w-4 h-4 mt-0.5 text-blue-300 flex-shrink-0" />
+                          <span>{shown.hints?.[index] ?? hint}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {!quizSubmitted && hintsAvailable && questionSettings && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      {!noMoreHints && (
+                        <button
+                          onClick={() => handleRequestHint('hint')}
+                          className="px-3 py-2 text-sm rounded-lg border border-blue-400/40 text-blue-300 hover:bg-blue-500/10 transition-colors flex items-center gap-1"
+                        >
+                          <Lightbulb className="w-4 h-4" />
+                          {t('quiz.hint')}
+                        </button>
+                      )}
+                      {fiftyFiftyAvailable && (
+                        <button
+                          onClick={() => handleRequestHint('fifty_fifty')}
+                          className="px-3 py-2 text-sm rounded-lg border border-purple-400/40 text-purple-300 hover:bg-purple-500/10 transition-colors"
+                        >
+                          50/50
+                        </button>
+                      )}
+                      <span className="text-gray-400 text-xs">
+                        {t('quiz.hintCost', { points: questionSettings.hintPointCost, percent: formatPercent(questionSettings.hintStabilityReduction * 100) })}
+                        {hintsRemaining !== null && ` · ${t('quiz.hintsLeft', { count: hintsRemaining })}`}
+                      </span>
+                    </div>
+                  )}
                   {!quizSubmitted && (
                     <button
-                      onClick={handleAnswerSubmit}
-                      disabled={selectedAnswer === null}
+                      onClick={() => handleAnswerSubmit(currentAnswer)}
+                      disabled={currentAnswer === null}
                       className="bitsacco-btn bitsacco-btn-primary w-full mt-4"
                     >
-                      Submit Answer
+                      {t('quiz.submit')}
                     </button>
                   )}
                 </div>
@@ -173,22 +420,31 @@ const ContentModal: React.FC<ContentModalProps> = ({
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
-                  className={`p-4 rounded-lg space-y-3 ${isCorrect ? 'bg-green-700/30 border border-green-600' : 'bg-red-700/30 border border-red-600'}`}
+                  className={`p-4 rounded-lg space-y-3 ${answeredCorrectly ? 'bg-green-700/30 border border-green-600' : 'bg-red-700/30 border border-red-600'}`}
                 >
                   <h4 className="text-xl font-semibold flex items-center gap-2">
-                    {isCorrect ? (
+                    {answeredCorrectly ? (
                       <CheckCircle className="w-6 h-6 text-green-400" />
                     ) : (
                       <XCircle className="w-6 h-6 text-red-400" />
                     )}
-                    {isCorrect ? 'Correct!' : 'Incorrect!'}
+                    {showTimedOut ? t('quiz.timesUp') : (answeredCorrectly ? t('quiz.correct') : (partialScore !== null ? t('quiz.partlyRight') : t('quiz.incorrect')))}
                   </h4>
-                  <p className="text-gray-300">{questionContent.explanation}</p>
+                  {partialScore !== null && (
+                    <p className="text-yellow-300 font-semibold">{t('quiz.partialCredit', { percent: formatPercent(partialScore), points: lastResult?.pointsEarned || 0 })}</p>
+                  )}
+                  {!!lastResult?.hintsUsed && quizSubmitted && (
+                    <p className="text-blue-300 text-sm">💡 {t('quiz.hintsUsed', { count: lastResult.hintsUsed })}</p>
+                  )}
+                  {timeBonus > 0 && (
+                    <p className="text-yellow-300 font-semibold">⚡ {t('quiz.blitzBonus', { points: timeBonus })}</p>
+                  )}
+                  <p className="text-gray-300">{shown.explanation}</p>
                   <button
                     onClick={() => setShowExplanation(!showExplanation)}
                     className="text-blue-400 hover:underline text-sm"
                   >
-                    {showExplanation ? 'Hide Details' : 'Show More Details'}
+                    {showExplanation ? t('quiz.hideDetails') : t('quiz.showDetails')}
                   </button>
                 </motion.div>
               )}
@@ -198,10 +454,10 @@ const ContentModal: React.FC<ContentModalProps> = ({
                 <div className="bg-green-700/30 border border-green-600 rounded-lg p-4">
                   <div className="flex items-center gap-2 mb-2">
                     <Star className="w-5 h-5 text-green-400" />
-                    <span className="text-green-300 font-semibold">Great Learning!</span>
+                    <span className="text-green-300 font-semibold">{t('quiz.tip.title')}</span>
                   </div>
                   <p className="text-gray-300">
-                    You&apos;ve learned an important privacy concept. Keep building your knowledge!
+                    {t('quiz.tip.body')}
                   </p>
                 </div>
               )}
@@ -210,7 +466,7 @@ const ContentModal: React.FC<ContentModalProps> = ({
             {/* Footer */}
             <div className="p-6 border-t border-gray-700 flex justify-end">
               <button onClick={handleCloseModal} className="bitsacco-btn bitsacco-btn-secondary">
-                Close
+                {t('common.close')}
               </button>
             </div>
           </motion.div>
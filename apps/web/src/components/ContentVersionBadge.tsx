@@ -0,0 +1,32 @@
+import React from 'react';
+import { Database } from 'lucide-react';
+import { useQuestionBank } from '../hooks/useQuestionBank';
+
+const SOURCE_LABELS = {
+  api: 'live',
+  cache: 'offline copy',
+  bundled: 'built-in set',
+};
+
+// Which question set is in play, so facilitators can check everyone has the same one
+const ContentVersionBadge: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const bank = useQuestionBank();
+  const updated = bank.updatedAt ? new Date(bank.updatedAt).toLocaleDateString() : undefined;
+
+  return (
+    <div
+      className={`inline-flex items-center gap-1.5 text-xs ${className}`}
+      title={updated ? `Last published ${updated}` : undefined}
+      data-testid="content-version"
+    >
+      <Database className="w-3 h-3" />
+      <span>
+        Questions {bank.source === 'bundled' ? '' : <span className="font-mono">{bank.version.slice(0, 8)} </span>}
+        · {bank.total} · {SOURCE_LABELS[bank.source]}
+        {bank.packs && ` · + ${bank.packs.join(', ')}`}
+      </span>
+    </div>
+  );
+};
+
+export default ContentVersionBadge;
@@ -15,6 +15,10 @@ import {
   // Map
 } from 'lucide-react';
 import { GameState, GameMove, Achievement } from '../types';
+import { PHASE_ORDER } from '../services/learningPath';
+import { getHotSeatStandings, getHotSeatWinners } from '../services/hotSeat';
+import { hasMessage } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface EndgameSummaryProps {
   gameState: GameState;
@@ -33,7 +37,9 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
   onClose,
   isOpen
 }) => {
+  const { t, formatPercent } = useTranslation();
   const unlockedAchievements = achievements.filter(a => a.isUnlocked);
+  const learningPath = gameState.playerProgress.learningPath;
   const totalAchievements = achievements.length;
   const completionRate = (gameState.totalContentShown / gameState.totalContentAvailable) * 100;
   
@@ -49,6 +55,11 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
     maxProgress: 15 // Approximate max per category
   }));
 
+  // Pass-and-play standings, best first
+  const standings = gameState.hotSeat ? getHotSeatStandings(gameState.hotSeat.players) : [];
+  const winners = gameState.hotSeat ? getHotSeatWinners(gameState.hotSeat.players) : [];
+  const winnerNames = winners.map(player => player.nickname).join(' & ');
+
   const getCategoryIcon = (category: string) => {
     const icons: Record<string, React.ReactNode> = {
       'on-chain': <Shield className="w-4 h-4" />,
@@ -63,16 +74,14 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
   };
 
   const getCategoryName = (category: string) => {
-    const names: Record<string, string> = {
-      'on-chain': 'On-Chain Privacy',
-      'off-chain': 'Off-Chain Solutions',
-      'coin-mixing': 'Coin Mixing',
-      'wallet-setup': 'Wallet Setup',
-      'lightning': 'Lightning Network',
-      'regulatory': 'Regulatory',
-      'best-practices': 'Best Practices'
-    };
-    return names[category] || category;
+    const key = `category.${category}`;
+    return hasMessage(key) ? t(key) : category;
+  };
+
+  // Achievements are translated by id; ones without a catalog entry keep their own text
+  const getAchievementText = (achievement: Achievement, field: 'name' | 'description') => {
+    const key = `achievement.${achievement.id}.${field}`;
+    return hasMessage(key) ? t(key) : achievement[field];
   };
 
   return (
@@ -96,23 +105,68 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                 <Trophy className="w-8 h-8 text-yellow-400" />
                 <div>
                   <h2 className="text-2xl font-bold text-white">
-                    {gameState.gamePhase === 'completed' ? 'Privacy Master!' : 'Game Summary'}
+                    {winners.length > 0
+                      ? t(winners.length > 1 ? 'summary.tie' : 'summary.wins', { names: winnerNames })
+                      : gameState.gamePhase === 'completed' ? t('summary.masterTitle') : t('summary.title')}
                   </h2>
                   <p className="text-gray-300">
-                    {gameState.gamePhase === 'completed' 
-                      ? 'Congratulations! You\'ve learned all privacy concepts!' 
-                      : 'Here\'s how you performed'}
+                    {winners.length > 0
+                      ? t('summary.everyone')
+                      : gameState.gamePhase === 'completed'
+                        ? t('summary.completed')
+                        : t('summary.performed')}
                   </p>
                 </div>
               </div>
               <button
                 onClick={onClose}
+                aria-label={t('common.close')}
                 className="text-gray-400 hover:text-white transition-colors"
               >
                 <X className="w-6 h-6" />
               </button>
             </div>
 
+            {/* Pass-and-play Standings */}
+            {standings.length > 0 && (
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20 mb-6">
+                <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                  <Trophy className="w-5 h-5" />
+                  {t('summary.players')}
+                </h3>
+                <div className="space-y-2">
+                  {standings.map((player, index) => {
+                    const isWinner = winners.includes(player);
+                    const categoriesLearned = Object.values(player.learningProgress).filter(progress => progress > 0).length;
+                    return (
+                      <div
+                        key={player.id}
+                        className={`flex items-center gap-3 p-3 rounded-lg ${
+                          isWinner ? 'bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-500/30' : 'bg-gray-800/50 border border-gray-700/50'
+                        }`}
+                      >
+                        <div className="text-xl w-8 text-center">{isWinner ? '🏆' : `${index + 1}.`}</div>
+                        <div className="flex-1">
+                          <div className="font-semibold text-white">
+                            {player.nickname}
+                            {player.toppledTower && <span className="ml-2 text-xs text-red-300">🧱 {t('summary.toppled')}</span>}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {t('summary.playerStats', {
+                              correct: player.correctAnswers,
+                              answered: player.correctAnswers + player.incorrectAnswers,
+                              streak: player.longestStreak,
+                            })} · {t('summary.categories', { count: categoriesLearned })}
+                          </div>
+                        </div>
+                        <div className="text-xl font-bold text-yellow-400">{player.score}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Left Column - Game Statistics */}
               <div className="space-y-6">
@@ -120,24 +174,24 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                 <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
                   <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                     <BarChart3 className="w-5 h-5" />
-                    Performance Summary
+                    {t('summary.performance')}
                   </h3>
                   <div className="grid grid-cols-2 gap-4">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-yellow-400">{gameState.currentScore}</div>
-                      <div className="text-sm text-gray-300">Total Score</div>
+                      <div className="text-sm text-gray-300">{t('summary.totalScore')}</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-400">{gameState.correctAnswers}</div>
-                      <div className="text-sm text-gray-300">Correct Answers</div>
+                      <div className="text-sm text-gray-300">{t('summary.correctAnswers')}</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-blue-400">{gameState.blocksRemoved}</div>
-                      <div className="text-sm text-gray-300">Blocks Removed</div>
+                      <div className="text-sm text-gray-300">{t('summary.blocksRemoved')}</div>
                     </div>
                     <div className="text-center">
-                      <div className="text-2xl font-bold text-purple-400">{Math.round(completionRate)}%</div>
-                      <div className="text-sm text-gray-300">Completion</div>
+                      <div className="text-2xl font-bold text-purple-400">{formatPercent(completionRate)}</div>
+                      <div className="text-sm text-gray-300">{t('summary.completion')}</div>
                     </div>
                   </div>
                 </div>
@@ -146,7 +200,7 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                 <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
                   <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                     <BookOpen className="w-5 h-5" />
-                    Learning Progress
+                    {t('summary.learningProgress')}
                   </h3>
                   <div className="space-y-3">
                     {categoryProgress.map(({ category, progress, maxProgress }) => (
@@ -171,28 +225,67 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                   </div>
                 </div>
 
+                {/* Learning Phase */}
+                <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                  <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                    <Target className="w-5 h-5" />
+                    {t('summary.learningPath')}
+                  </h3>
+                  <div className="flex items-center gap-2 mb-3">
+                    {PHASE_ORDER.map((phase, index) => {
+                      const currentIndex = PHASE_ORDER.indexOf(learningPath.currentPhase);
+                      return (
+                        <div
+                          key={phase}
+                          className={`flex-1 text-center text-xs font-semibold py-1 rounded ${
+                            index < currentIndex ? 'bg-green-500/30 text-green-300' :
+                            index === currentIndex ? 'bg-teal-500/30 text-teal-200 border border-teal-400/50' :
+                            'bg-gray-800/50 text-gray-500'
+                          }`}
+                        >
+                          {t(`phase.${phase}`)}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="w-full bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-gradient-to-r from-teal-500 to-blue-500 h-2 rounded-full transition-all duration-500"
+                      style={{ width: `${learningPath.phaseProgress}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-gray-400 mt-2">
+                    {t('summary.phaseProgress', {
+                      percent: formatPercent(learningPath.phaseProgress),
+                      phase: t(`phase.${learningPath.currentPhase}`),
+                      completed: learningPath.completedQuestions.length,
+                      unlocked: learningPath.unlockedQuestions.length,
+                    })}
+                  </div>
+                </div>
+
                 {/* Session Stats */}
                 <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
                   <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                     <Clock className="w-5 h-5" />
-                    Session Statistics
+                    {t('summary.session')}
                   </h3>
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-gray-300">Session Duration:</span>
-                      <span className="text-white">{Math.round(sessionDuration)} minutes</span>
+                      <span className="text-gray-300">{t('summary.duration')}</span>
+                      <span className="text-white">{t('summary.minutes', { count: Math.round(sessionDuration) })}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-gray-300">Average Score:</span>
-                      <span className="text-white">{Math.round(averageScore)} points</span>
+                      <span className="text-gray-300">{t('summary.averageScore')}</span>
+                      <span className="text-white">{t('summary.points', { count: Math.round(averageScore) })}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-gray-300">Tower Rebuilds:</span>
+                      <span className="text-gray-300">{t('summary.rebuilds')}</span>
                       <span className="text-white">{gameState.rebuildCount}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-gray-300">Final Stability:</span>
-                      <span className="text-white">{gameState.towerStability}%</span>
+                      <span className="text-gray-300">{t('summary.finalStability')}</span>
+                      <span className="text-white">{formatPercent(gameState.towerStability)}</span>
                     </div>
                   </div>
                 </div>
@@ -204,7 +297,7 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                 <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
                   <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                     <Trophy className="w-5 h-5" />
-                    Achievements ({unlockedAchievements.length}/{totalAchievements})
+                    {t('summary.achievements', { unlocked: unlockedAchievements.length, total: totalAchievements })}
                   </h3>
                   <div className="space-y-3 max-h-64 overflow-y-auto">
                     {achievements.map((achievement) => (
@@ -224,14 +317,14 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                         </div>
                         <div className="flex-1">
                           <div className={`font-semibold ${achievement.isUnlocked ? 'text-white' : 'text-gray-400'}`}>
-                            {achievement.name}
+                            {getAchievementText(achievement, 'name')}
                           </div>
                           <div className={`text-sm ${achievement.isUnlocked ? 'text-gray-300' : 'text-gray-500'}`}>
-                            {achievement.description}
+                            {getAchievementText(achievement, 'description')}
                           </div>
                           {achievement.isUnlocked && (
                             <div className="text-xs text-yellow-400 mt-1">
-                              +{achievement.points} points
+                              {t('summary.achievementPoints', { count: achievement.points })}
                             </div>
                           )}
                         </div>
@@ -253,10 +346,9 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                   >
                     <div className="text-center">
                       <div className="text-4xl mb-2">🏆</div>
-                      <h3 className="text-xl font-bold text-white mb-2">Privacy Master</h3>
+                      <h3 className="text-xl font-bold text-white mb-2">{t('summary.master.title')}</h3>
                       <p className="text-gray-300 text-sm">
-                        You&apos;ve successfully learned all 54 Bitcoin privacy concepts! 
-                        You&apos;re now equipped with comprehensive knowledge about Bitcoin privacy.
+                        {t('summary.master.body', { count: gameState.totalContentAvailable })}
                       </p>
                     </div>
                   </motion.div>
@@ -270,7 +362,7 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                     onClick={onPlayAgain}
                     className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white py-3 px-6 rounded-lg font-semibold transition-all duration-200"
                   >
-                    {gameState.gamePhase === 'completed' ? 'Play Again' : 'Continue Learning'}
+                    {gameState.gamePhase === 'completed' ? t('summary.playAgain') : t('summary.continue')}
                   </motion.button>
                   <motion.button
                     whileHover={{ scale: 1.05 }}
@@ -278,7 +370,7 @@ const EndgameSummary: React.FC<EndgameSummaryProps> = ({
                     onClick={onClose}
                     className="bg-gray-700 hover:bg-gray-600 text-white py-3 px-6 rounded-lg font-semibold transition-colors"
                   >
-                    Close
+                    {t('common.close')}
                   </motion.button>
                 </div>
               </div>
@@ -2,8 +2,11 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { X, Brain } from 'lucide-react';
 import { GameTutorialProps } from '../types';
+import { getQuestionBank } from '../services/questionBank';
+import { useTranslation } from '../hooks/useTranslation';
 
 const GameTutorial: React.FC<GameTutorialProps> = ({ isOpen, onClose, onStartTutorial, onStartGame }) => {
+  const { t, formatPercent } = useTranslation();
   if (!isOpen) return null;
   
   return (
@@ -23,9 +26,9 @@ const GameTutorial: React.FC<GameTutorialProps> = ({ isOpen, onClose, onStartTut
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-3">
             <Brain className="w-8 h-8 text-teal-400" />
-            <h2 className="text-2xl font-bold text-white">Privacy Jenga Tutorial</h2>
+            <h2 className="text-2xl font-bold text-white">{t('tutorial.title')}</h2>
           </div>
-          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <button onClick={onClose} aria-label={t('common.close')} className="text-gray-400 hover:text-white transition-colors">
             <X className="w-6 h-6" />
           </button>
         </div>
@@ -33,71 +36,71 @@ const GameTutorial: React.FC<GameTutorialProps> = ({ isOpen, onClose, onStartTut
         {/* Tutorial Content */}
         <div className="space-y-6">
           <section>
-            <h3 className="text-xl font-semibold text-white mb-4">How to Play</h3>
+            <h3 className="text-xl font-semibold text-white mb-4">{t('tutorial.howToPlay.title')}</h3>
             <div className="bg-gray-700/50 rounded-lg p-4 space-y-3">
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-blue-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Click on any block in the 3D tower to reveal a Bitcoin privacy question</p>
+                <p className="text-gray-300">{t('tutorial.howToPlay.1')}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-blue-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Answer the question correctly to maintain tower stability</p>
+                <p className="text-gray-300">{t('tutorial.howToPlay.2')}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-blue-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Wrong answers reduce stability and can cause the tower to collapse</p>
+                <p className="text-gray-300">{t('tutorial.howToPlay.3')}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-blue-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Learn all 54 Bitcoin privacy concepts through interactive questions</p>
+                <p className="text-gray-300">{t('tutorial.howToPlay.4', { count: getQuestionBank().length })}</p>
               </div>
             </div>
           </section>
 
                      <section>
-             <h3 className="text-xl font-semibold text-white mb-4">Block Types</h3>
+             <h3 className="text-xl font-semibold text-white mb-4">{t('blocks.title')}</h3>
              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                <div className="bg-green-500/10 border border-green-400/30 rounded-lg p-4">
-                 <h4 className="text-lg font-semibold text-green-300 mb-2">Green Blocks</h4>
-                 <p className="text-green-200 text-sm">Safe blocks</p>
+                 <h4 className="text-lg font-semibold text-green-300 mb-2">{t('blocks.green')}</h4>
+                 <p className="text-green-200 text-sm">{t('tutorial.blocks.green')}</p>
                </div>
                <div className="bg-orange-500/10 border border-orange-400/30 rounded-lg p-4">
-                 <h4 className="text-lg font-semibold text-orange-300 mb-2">Orange Blocks</h4>
-                 <p className="text-orange-200 text-sm">Medium difficulty</p>
+                 <h4 className="text-lg font-semibold text-orange-300 mb-2">{t('blocks.orange')}</h4>
+                 <p className="text-orange-200 text-sm">{t('tutorial.blocks.orange')}</p>
                </div>
                <div className="bg-red-500/10 border border-red-400/30 rounded-lg p-4">
-                 <h4 className="text-lg font-semibold text-red-300 mb-2">Red Blocks</h4>
-                 <p className="text-red-200 text-sm">Risky blocks</p>
+                 <h4 className="text-lg font-semibold text-red-300 mb-2">{t('blocks.red')}</h4>
+                 <p className="text-red-200 text-sm">{t('tutorial.blocks.red')}</p>
                </div>
              </div>
            </section>
 
           <section>
-            <h3 className="text-xl font-semibold text-white mb-4">Game Mechanics</h3>
+            <h3 className="text-xl font-semibold text-white mb-4">{t('tutorial.mechanics.title')}</h3>
             <div className="bg-gray-700/50 rounded-lg p-4 space-y-3">
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-yellow-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Tower stability starts at 100%</p>
+                <p className="text-gray-300">{t('tutorial.mechanics.1', { percent: formatPercent(100) })}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-yellow-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Correct answers: +8 to +20 stability (based on difficulty)</p>
+                <p className="text-gray-300">{t('tutorial.mechanics.2', { min: 8, max: 20 })}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-yellow-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Wrong answers: -15 to -35 stability (based on difficulty)</p>
+                <p className="text-gray-300">{t('tutorial.mechanics.3', { min: 15, max: 35 })}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-yellow-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Tower collapses when stability reaches 0%</p>
+                <p className="text-gray-300">{t('tutorial.mechanics.4', { percent: formatPercent(0) })}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-yellow-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Difficulty adapts based on your performance</p>
+                <p className="text-gray-300">{t('tutorial.mechanics.5')}</p>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 bg-yellow-400 rounded-full mt-2"></div>
-                <p className="text-gray-300">Tougher questions give bigger rewards but bigger penalties!</p>
+                <p className="text-gray-300">{t('tutorial.mechanics.6')}</p>
               </div>
             </div>
           </section>
@@ -113,7 +116,7 @@ const GameTutorial: React.FC<GameTutorialProps> = ({ isOpen, onClose, onStartTut
                 onClick={onStartTutorial}
                 className="bitsacco-btn bitsacco-btn-outline px-6 py-3"
               >
-                Interactive Tutorial
+                {t('tutorial.interactive')}
               </motion.button>
             )}
             {onStartGame && (
@@ -123,7 +126,7 @@ const GameTutorial: React.FC<GameTutorialProps> = ({ isOpen, onClose, onStartTut
                 onClick={onStartGame}
                 className="bitsacco-btn bitsacco-btn-primary px-8 py-3"
               >
-                Start Game
+                {t('tutorial.startGame')}
               </motion.button>
             )}
             <motion.button
@@ -132,7 +135,7 @@ const GameTutorial: React.FC<GameTutorialProps> = ({ isOpen, onClose, onStartTut
               onClick={onClose}
               className="bitsacco-btn bitsacco-btn-outline px-6 py-3"
             >
-              Close
+              {t('common.close')}
             </motion.button>
           </div>
         </div>
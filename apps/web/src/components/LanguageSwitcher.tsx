@@ -0,0 +1,30 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Locale } from '../types';
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Picks the interface language; the choice is remembered on this device
+const LanguageSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { locale, t, setLocale } = useTranslation();
+
+  return (
+    <label className={`inline-flex items-center gap-1 text-teal-400 ${className}`}>
+      <Languages className="w-5 h-5" />
+      <select
+        value={locale}
+        onChange={event => setLocale(event.target.value as Locale)}
+        aria-label={t('language.label')}
+        className="bg-transparent text-sm text-teal-300 focus:outline-none"
+      >
+        {SUPPORTED_LOCALES.map(code => (
+          <option key={code} value={code} className="bg-gray-800">
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { Download, Package, Trash2, Upload } from 'lucide-react';
+import { PackConflictPolicy, QuestionPack } from '../types';
+import { PACK_CONFLICT_POLICIES, createQuestionPack, parseQuestionPack, serializeQuestionPack } from '../services/questionPacks';
+import { getCoreQuestions } from '../services/questionBank';
+import questionPackStore from '../services/questionPackStore';
+
+const POLICY_LABELS: Record<PackConflictPolicy, string> = {
+  reject: 'Stop if an id is taken',
+  skip: 'Skip taken ids',
+  replace: 'Replace taken ids',
+  rename: 'Rename taken ids',
+};
+
+const downloadPack = (pack: QuestionPack) => {
+  const url = URL.createObjectURL(new Blob([serializeQuestionPack(pack)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pack.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Import, export and pick the question packs games are dealt from
+const QuestionPacks: React.FC = () => {
+  const [, setRevision] = useState(0);
+  const [policy, setPolicy] = useState<PackConflictPolicy>('reject');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const packs = questionPackStore.getPacks();
+  const selection = questionPackStore.getSelection();
+
+  const update = (change: () => void) => {
+    change();
+    questionPackStore.apply();
+    setRevision(revision => revision + 1);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parseQuestionPack(await file.text());
+      update(() => {
+        const plan = questionPackStore.importPack(pack, policy);
+        const renamed = Object.keys(plan.renamed).length;
+        const skippedNote = plan.skipped.length > 0 ? `, skipped ${plan.skipped.length}` : '';
+        const renamedNote = renamed > 0 ? `, renamed ${renamed}` : '';
+        setMessage({ text: `Imported ${plan.questions.length} questions from "${pack.title}"${skippedNote}${renamedNote}`, isError: false });
+      });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Pack not imported', isError: true });
+    }
+  };
+
+  const handleExportCore = () => downloadPack(createQuestionPack({
+    id: 'privacy-jenga-core',
+    title: 'Privacy Jenga core questions',
+    author: 'Privacy Jenga',
+    language: 'en',
+    license: 'MIT',
+  }, getCoreQuestions(), new Date().toISOString()));
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-2">Question Packs</h3>
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 p-2 rounded-lg bg-gray-800/60 text-gray-200 text-sm">
+          <input
+            type="checkbox"
+            checked={selection.includeCore || packs.length === 0}
+            disabled={packs.length === 0}
+            onChange={event => update(() => questionPackStore.setIncludeCore(event.target.checked))}
+          />
+          <span className="flex-1">Core questions ({getCoreQuestions().length})</span>
+          <button onClick={handleExportCore} aria-label="Export core questions" className="p-1 text-gray-400 hover:text-teal-300">
+            <Download className="w-4 h-4" />
+          </button>
+        </label>
+        {packs.map(pack => (
+          <label key={pack.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-800/60 text-gray-200 text-sm">
+            <input
+              type="checkbox"
+              checked={selection.enabled.includes(pack.id)}
+              onChange={event => update(() => questionPackStore.setEnabled(pack.id, event.target.checked))}
+            />
+            <Package className="w-4 h-4 text-teal-400" />
+            <span className="flex-1">
+              {pack.title} ({pack.questions.length})
+              <span className="block text-xs text-gray-400">{pack.author} · {pack.language} · {pack.license}</span>
+            </span>
+            <button onClick={() => downloadPack(pack)} aria-label={`Export ${pack.title}`} className="p-1 text-gray-400 hover:text-teal-300">
+              <Download className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => update(() => questionPackStore.removePack(pack.id))}
+              aria-label={`Remove ${pack.title}`}
+              className="p-1 text-gray-400 hover:text-red-300"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </label>
+        ))}
+        <div className="flex gap-2">
+          <select
+            value={policy}
+            onChange={event => setPolicy(event.target.value as PackConflictPolicy)}
+            className="flex-1 p-2 rounded-lg bg-gray-800 border border-gray-600 text-gray-200 text-sm"
+            aria-label="When a question id is already taken"
+          >
+            {PACK_CONFLICT_POLICIES.map(option => (
+              <option key={option} value={option}>{POLICY_LABELS[option]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-2 px-3 rounded-lg border border-dashed border-gray-600 text-gray-300 text-sm hover:text-gray-100"
+          >
+            <Upload className="w-4 h-4" />
+            Import pack
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" aria-label="Question pack file" />
+        </div>
+        {message && <p className={`text-xs ${message.isError ? 'text-red-300' : 'text-teal-300'}`}>{message.text}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionPacks;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Users } from 'lucide-react';
+import { HotSeatState } from '../types';
+
+interface TurnHandoffProps {
+  hotSeat: HotSeatState;
+  onReady: () => void;
+}
+
+// Full-screen cover between hot-seat turns, so the next player takes the
+// device before the tower (and the last player's result) is in front of them
+const TurnHandoff: React.FC<TurnHandoffProps> = ({ hotSeat, onReady }) => {
+  const player = hotSeat.players[hotSeat.turn];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 bg-gradient-to-br from-blue-950 via-purple-950 to-indigo-950 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="turn-handoff-title"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="text-center max-w-sm w-full"
+      >
+        <Users className="w-12 h-12 text-teal-400 mx-auto mb-4" />
+        <p className="text-gray-400 text-sm mb-1">Pass the device to</p>
+        <h2 id="turn-handoff-title" className="text-3xl font-bold text-white mb-6">{player.nickname}</h2>
+
+        <div className="bg-white/10 rounded-xl p-3 mb-6 space-y-1">
+          {hotSeat.players.map(({ id, nickname, score }) => (
+            <div
+              key={id}
+              className={`flex justify-between text-sm px-2 py-1 rounded ${id === player.id ? 'bg-teal-500/20 text-teal-200 font-semibold' : 'text-gray-300'}`}
+            >
+              <span>{nickname}</span>
+              <span>{score}</span>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onReady}
+          className="w-full bg-gradient-to-r from-teal-500 to-blue-600 hover:from-teal-600 hover:to-blue-700 text-white py-3 rounded-xl font-semibold transition-colors"
+          autoFocus
+        >
+          I&apos;m {player.nickname} - start my turn
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TurnHandoff;
@@ -1,24 +1,138 @@
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { Block, SimplifiedJengaTowerProps } from '../../types';
+import { Block, Difficulty, SimplifiedJengaTowerProps, StabilityZone } from '../../types';
 import { useResponsiveDesign } from '../../hooks/useResponsiveDesign';
 import { useTouchGestures } from '../../hooks/useTouchGestures';
-import soundManager from '../../services/soundManager';
 import { detectDeviceCapabilities, getOptimalRenderSettings } from '../../utils/deviceDetection';
+import { getStabilityZone } from '../../services/gameReducer';
+import { PHASE_RULES } from '../../services/learningPath';
+import { getLayerDifficulty, getTowerCenter } from '../../services/towerSpec';
+import { PhysicsQuality } from './physics/towerPhysics';
+import { useTowerPhysics } from './hooks/useTowerPhysics';
+
+// How long the collapse plays before the game-over panel appears
+const COLLAPSE_PANEL_DELAY_MS = 2500;
+
+// Block colors per difficulty band: Red = Hard, Orange = Medium, Green = Easy
+const BAND_COLORS: Record<Difficulty, number> = {
+  hard: 0xdc2626,
+  medium: 0xd97706,
+  easy: 0x059669,
+};
+
+interface TowerBlocksProps {
+  blocks: Block[];
+  zone: StabilityZone;
+  collapsed: boolean;
+  quality: PhysicsQuality;
+  selectedBlockId?: string;
+  isCritical: boolean;
+  onBlockClick: (block: Block) => void;
+  getBlockColor: (block: Block) => number;
+  getBlockGlow: (block: Block) => number | null;
+}
+
+// Block meshes live inside the Canvas so the physics hook can use the render loop
+const TowerBlocks: React.FC<TowerBlocksProps> = ({
+  blocks,
+  zone,
+  collapsed,
+  quality,
+  selectedBlockId,
+  isCritical,
+  onBlockClick,
+  getBlockColor,
+  getBlockGlow
+}) => {
+  const { bindBlock } = useTowerPhysics({ blocks, zone, collapsed, quality });
+
+  return (
+    <>
+      {blocks.map((block) => {
+        const blockColor = getBlockColor(block);
+        const glowColor = getBlockGlow(block);
+        const isSelected = selectedBlockId === block.id;
+
+        return (
+          <group key={block.id} ref={bindBlock(block.id)}>
+            {/* Main block */}
+            <mesh
+              onClick={() => onBlockClick(block)}
+              castShadow
+              receiveShadow
+            >
+              <boxGeometry args={[1, 0.3, 1]} />
+              <meshStandardMaterial
+                color={isCritical ? 0xff4444 : blockColor}
+                metalness={0.2}
+                roughness={0.6}
+                // eslint-disable-next-line react/no-unknown-property
+                emissive={isCritical ? 0xff0000 : (glowColor || 0x000000)}
+                // eslint-disable-next-line react/no-unknown-property
+                emissiveIntensity={isSelected ? 0.4 : (isCritical ? 0.3 : 0)}
+              />
+            </mesh>
+
+            {/* Block edge highlights for better definition */}
+            <mesh>
+              <boxGeometry args={[1.02, 0.32, 1.02]} />
+              <meshStandardMaterial
+                color={0xffffff}
+                transparent
+                opacity={0.1}
+                wireframe={true}
+              />
+            </mesh>
+
+            {/* Block type indicator */}
+            <mesh position={[0, 0.2, 0]}>
+              <boxGeometry args={[0.8, 0.05, 0.8]} />
+              <meshStandardMaterial
+                color="#ffffff"
+                transparent
+                opacity={0.2}
+                // eslint-disable-next-line react/no-unknown-property
+                emissive={0xffffff}
+                // eslint-disable-next-line react/no-unknown-property
+                emissiveIntensity={0.1}
+              />
+            </mesh>
+
+            {/* Selection highlight */}
+            {isSelected && (
+              <mesh>
+                <boxGeometry args={[1.1, 0.35, 1.1]} />
+                <meshStandardMaterial
+                  color={0x3b82f6}
+                  transparent
+                  opacity={0.3}
+                  wireframe={true}
+                />
+              </mesh>
+            )}
+          </group>
+        );
+      })}
+    </>
+  );
+};
 
 const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
   blocks,
   onBlockClick,
   gameState,
   selectedBlockId,
-  onGameRestart
+  onGameRestart,
+  stabilityAlert,
+  onDismissStabilityAlert
 }) => {
   const [showGameInfo, setShowGameInfo] = useState(true);
   const { isMobile, isSmallMobile } = useResponsiveDesign();
-  const [showStabilityWarning, setShowStabilityWarning] = useState(false);
-  const [lastStabilityLevel, setLastStabilityLevel] = useState<'stable' | 'unstable' | 'critical'>('stable');
-  const [warningTimer, setWarningTimer] = useState<ReturnType<typeof setTimeout> | null>(null);
+
+  // Stability warnings are driven by StabilityZoneChanged events from the game core
+  const showStabilityWarning = !!stabilityAlert;
+  const lastStabilityLevel: 'unstable' | 'critical' = stabilityAlert === 'critical' ? 'critical' : 'unstable';
 
   // Detect device capabilities and get optimal settings
   const [deviceCapabilities] = useState(() => detectDeviceCapabilities());
@@ -48,10 +162,28 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
     console.log('⚙️ Render Settings:', renderSettings);
   }, [deviceCapabilities, renderSettings]);
 
-  // Filter visible blocks
-  const visibleBlocks = useMemo(() => {
-    return blocks.filter(block => !block.isRemoved);
-  }, [blocks]);
+  // Physics quality follows the device tier
+  const physicsQuality = useMemo<PhysicsQuality>(() => ({
+    substeps: renderSettings.physicsSubsteps,
+    maxDynamicBodies: renderSettings.physicsMaxBodies,
+    collisions: renderSettings.physicsCollisions,
+  }), [renderSettings]);
+
+  const stabilityZone = getStabilityZone(gameState.towerStability);
+  // 'gameOver' is a collapse the game mode doesn't rebuild from (Sudden Death)
+  const isGameOver = gameState.gamePhase === 'gameOver';
+  const towerFell = gameState.gamePhase === 'collapsed' || isGameOver;
+
+  // Let the tower finish falling before the game-over panel covers it
+  const [showCollapsedPanel, setShowCollapsedPanel] = useState(false);
+  useEffect(() => {
+    if (!towerFell) {
+      setShowCollapsedPanel(false);
+      return;
+    }
+    const timer = setTimeout(() => setShowCollapsedPanel(true), COLLAPSE_PANEL_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [towerFell]);
 
   // Handle block click
   const handleBlockClick = useCallback((block: Block) => {
@@ -60,71 +192,8 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
     }
   }, [onBlockClick]);
 
-  // Manage stability warning display
-  React.useEffect(() => {
-    let currentStabilityLevel: 'stable' | 'unstable' | 'critical' = 'stable';
-    
-    if (gameState.towerStability <= 25 && gameState.towerStability > 0) {
-      currentStabilityLevel = 'critical';
-    } else if (gameState.towerStability <= 50 && gameState.towerStability > 0) {
-      currentStabilityLevel = 'unstable';
-    }
-
-    // Show warning if stability level changed
-    if (currentStabilityLevel !== lastStabilityLevel && currentStabilityLevel !== 'stable') {
-      console.log(`🚨 Stability warning triggered: ${lastStabilityLevel} → ${currentStabilityLevel}`);
-      
-      // Play stability warning sound
-      soundManager.playStabilityWarning();
-      
-      // Clear any existing timer
-      if (warningTimer) {
-        clearTimeout(warningTimer);
-      }
-      
-      setShowStabilityWarning(true);
-      setLastStabilityLevel(currentStabilityLevel);
-      
-      // Hide warning after 3 seconds
-      const timer = setTimeout(() => {
-        console.log('⏰ Hiding stability warning after 3 seconds');
-        setShowStabilityWarning(false);
-      }, 3000);
-      
-      setWarningTimer(timer);
-    }
-    
-    // Cleanup function
-    return () => {
-      if (warningTimer) {
-        clearTimeout(warningTimer);
-      }
-    };
-  }, [gameState.towerStability, lastStabilityLevel, warningTimer]);
-
-  // Cleanup timer on unmount
-  React.useEffect(() => {
-    return () => {
-      if (warningTimer) {
-        clearTimeout(warningTimer);
-      }
-    };
-  }, [warningTimer]);
-
-  // Get block color based on layer and difficulty
-  const getBlockColor = (block: Block) => {
-    // Color by layer (as shown in the image)
-    if (block.layer <= 6) {
-      // Bottom 6 layers - Red (Hard difficulty)
-      return block.difficulty === 'hard' ? 0xdc2626 : 0xef4444;
-    } else if (block.layer <= 12) {
-      // Middle 6 layers - Orange (Medium difficulty)
-      return block.difficulty === 'medium' ? 0xd97706 : 0xf59e0b;
-    } else {
-      // Top 6 layers - Green (Easy difficulty)
-      return block.difficulty === 'easy' ? 0x059669 : 0x10b981;
-    }
-  };
+  // Get block color from the difficulty band its layer is in
+  const getBlockColor = (block: Block) => BAND_COLORS[getLayerDifficulty(gameState.tower, block.layer)];
 
   // Get block glow effect for selected blocks
   const getBlockGlow = (block: Block) => {
@@ -189,6 +258,12 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
                   {gameState.towerStability >= 80 ? '🟢' : gameState.towerStability >= 50 ? '🟡' : '🔴'} {gameState.towerStability}%
                 </div>
               </div>
+              {/* Structural Integrity */}
+              <div className="text-center p-3 bg-slate-500/10 border border-slate-400/30 rounded-lg">
+                <div className="text-slate-300 text-sm font-semibold mb-1">Structure</div>
+                <div className="text-white text-lg font-bold">{gameState.structuralIntegrity}%</div>
+                <div className="text-slate-400 text-xs">pulling load-bearing blocks weakens it</div>
+              </div>
 
               {/* Learning Progress */}
               <div className="text-center p-3 bg-purple-500/10 border border-purple-400/30 rounded-lg">
@@ -199,6 +274,23 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
                 <div className="text-purple-200 text-xs">concepts learned</div>
               </div>
 
+              {/* Learning Phase */}
+              <div className="text-center p-3 bg-teal-500/10 border border-teal-400/30 rounded-lg">
+                <div className="text-teal-300 text-sm font-semibold mb-1">Learning Phase</div>
+                <div className="text-white text-lg font-bold">
+                  {PHASE_RULES[gameState.playerProgress.learningPath.currentPhase].label}
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-1.5 mt-2">
+                  <div
+                    className="h-1.5 rounded-full bg-teal-400 transition-all duration-300"
+                    style={{ width: `${gameState.playerProgress.learningPath.phaseProgress}%` }}
+                  />
+                </div>
+                <div className="text-teal-200 text-xs mt-1">
+                  {gameState.playerProgress.learningPath.phaseProgress}% · needs {gameState.playerProgress.learningPath.requiredAccuracy}% accuracy
+                </div>
+              </div>
+
               {/* Difficulty Level */}
               <div className="text-center p-3 bg-yellow-500/10 border border-yellow-400/30 rounded-lg">
                 <div className="text-yellow-300 text-sm font-semibold mb-1">Difficulty</div>
@@ -266,88 +358,18 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
         {/* Grid helper for better spatial reference */}
         <gridHelper args={[8, 8, 0x374151, 0x1f2937]} position={[0, -0.04, 0]} />
         
-        {/* Render blocks with enhanced design */}
-        {visibleBlocks.map((block) => {
-          const blockColor = getBlockColor(block);
-          const glowColor = getBlockGlow(block);
-          const isSelected = selectedBlockId === block.id;
-          
-          // Add instability effects based on tower stability
-          const isUnstable = gameState.towerStability <= 50;
-          const isCritical = gameState.towerStability <= 25;
-          
-          // Calculate instability offset for shake effect
-          const instabilityOffset = isUnstable ? 
-            (isCritical ? 0.05 : 0.02) * Math.sin(Date.now() * 0.01 + block.id.charCodeAt(0)) : 0;
-          
-          // Adjust block position for shake effect
-          const shakePosition: [number, number, number] = [
-            block.worldPosition[0] + instabilityOffset,
-            block.worldPosition[1],
-            block.worldPosition[2] + instabilityOffset
-          ];
-          
-          return (
-            <group key={block.id}>
-                             {/* Main block */}
-               <mesh
-                 position={shakePosition}
-                 onClick={() => handleBlockClick(block)}
-                 castShadow
-                 receiveShadow
-               >
-                 <boxGeometry args={[1, 0.3, 1]} />
-                                   <meshStandardMaterial
-                    color={isCritical ? 0xff4444 : blockColor}
-                    metalness={0.2}
-                    roughness={0.6}
-                    // eslint-disable-next-line react/no-unknown-property
-                    emissive={isCritical ? 0xff0000 : (glowColor || 0x000000)}
-                    // eslint-disable-next-line react/no-unknown-property
-                    emissiveIntensity={isSelected ? 0.4 : (isCritical ? 0.3 : 0)}
-                  />
-               </mesh>
-               
-               {/* Block edge highlights for better definition */}
-               <mesh position={shakePosition}>
-                 <boxGeometry args={[1.02, 0.32, 1.02]} />
-                 <meshStandardMaterial
-                   color={0xffffff}
-                   transparent
-                   opacity={0.1}
-                   wireframe={true}
-                 />
-               </mesh>
-              
-              {/* Block type indicator */}
-              <mesh position={[block.worldPosition[0], block.worldPosition[1] + 0.2, block.worldPosition[2]]}>
-                <boxGeometry args={[0.8, 0.05, 0.8]} />
-                                 <meshStandardMaterial 
-                   color="#ffffff" 
-                   transparent 
-                   opacity={0.2}
-                   // eslint-disable-next-line react/no-unknown-property
-                   emissive={0xffffff}
-                   // eslint-disable-next-line react/no-unknown-property
-                   emissiveIntensity={0.1}
-                 />
-              </mesh>
-              
-              {/* Selection highlight */}
-              {isSelected && (
-                <mesh position={block.worldPosition}>
-                  <boxGeometry args={[1.1, 0.35, 1.1]} />
-                  <meshStandardMaterial
-                    color={0x3b82f6}
-                    transparent
-                    opacity={0.3}
-                    wireframe={true}
-                  />
-                </mesh>
-              )}
-            </group>
-          );
-        })}
+        {/* Render blocks, posed every frame by the tower physics */}
+        <TowerBlocks
+          blocks={blocks}
+          zone={stabilityZone}
+          collapsed={towerFell}
+          quality={physicsQuality}
+          selectedBlockId={selectedBlockId}
+          isCritical={gameState.towerStability <= 25}
+          onBlockClick={handleBlockClick}
+          getBlockColor={getBlockColor}
+          getBlockGlow={getBlockGlow}
+        />
 
                  {/* Improved camera controls */}
          <OrbitControls 
@@ -357,7 +379,7 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
            minDistance={isSmallMobile ? 6 : 4}
            maxDistance={isSmallMobile ? 20 : 15}
            maxPolarAngle={Math.PI * 0.8}
-           target={[0, 3, 0.375]}
+           target={getTowerCenter(gameState.tower)}
            dampingFactor={0.05}
            enableDamping={true}
          />
@@ -377,13 +399,7 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
            }`}>
              {/* Close button */}
              <button
-               onClick={() => {
-                 console.log('🔴 Manual close of stability warning');
-                 setShowStabilityWarning(false);
-                 if (warningTimer) {
-                   clearTimeout(warningTimer);
-                 }
-               }}
+               onClick={() => onDismissStabilityAlert?.()}
                className="absolute top-2 right-2 text-white hover:text-gray-300 text-xl font-bold w-6 h-6 flex items-center justify-center rounded-full hover:bg-black/20 transition-colors"
              >
                ×
@@ -411,7 +427,7 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
        )}
 
              {/* Tower Collapsed */}
-       {gameState.gamePhase === 'collapsed' && (
+       {towerFell && showCollapsedPanel && (
          <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-30 flex items-center justify-center">
            <div className="bg-red-900/90 border border-red-600 rounded-2xl p-8 max-w-md text-center">
              <div className="text-6xl mb-4">💥</div>
@@ -420,7 +436,7 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
                The tower has fallen! Your final score: <span className="text-2xl font-bold text-yellow-400">{gameState.currentScore}</span>
              </p>
              <p className="text-gray-300 mb-6">
-               Concepts learned: {gameState.totalContentShown}/54
+               Concepts learned: {gameState.totalContentShown}/{gameState.totalContentAvailable}
              </p>
                            <p className="text-orange-200 mb-6 italic">
                 &quot;Oops! The tower got a bit too wobbly! 🎲 Better luck next time, privacy warrior!&quot;
@@ -430,7 +446,7 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
                   onClick={onGameRestart || (() => window.location.reload())}
                   className="bg-red-600 hover:bg-red-700 text-white px-8 py-3 rounded-lg font-semibold transition-colors w-full"
                 >
-                  🏗️ Rebuild & Play Again
+                  {isGameOver ? '🔄 Play Again' : '🏗️ Rebuild & Play Again'}
                 </button>
                <button
                  onClick={() => window.location.href = '/'}
@@ -449,7 +465,7 @@ const SimplifiedJengaTower: React.FC<SimplifiedJengaTowerProps> = ({
             <div className="text-6xl mb-4">🏆</div>
             <h2 className="text-3xl font-bold text-white mb-4">Privacy Master!</h2>
                          <p className="text-green-200 mb-6">
-               Congratulations! You&apos;ve learned all 54 Bitcoin privacy concepts!
+               Congratulations! You&apos;ve learned all {gameState.totalContentAvailable} Bitcoin privacy concepts!
              </p>
             <p className="text-gray-300 mb-6">
               Your final score: {gameState.currentScore} points
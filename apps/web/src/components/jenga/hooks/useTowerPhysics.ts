@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import type { Group } from 'three';
+import { Block, StabilityZone } from '../../../types';
+import { PhysicsQuality, TowerPhysicsWorld } from '../physics/towerPhysics';
+
+interface UseTowerPhysicsOptions {
+  blocks: Block[];
+  zone: StabilityZone;
+  collapsed: boolean;
+  quality: PhysicsQuality;
+}
+
+/**
+ * Drives block groups from the tower physics world every frame.
+ * Must be used inside a <Canvas>. Transforms are written straight to the
+ * three.js objects so the simulation never causes React re-renders.
+ */
+export const useTowerPhysics = ({ blocks, zone, collapsed, quality }: UseTowerPhysicsOptions) => {
+  const worldRef = useRef<TowerPhysicsWorld | null>(null);
+  if (!worldRef.current) {
+    worldRef.current = new TowerPhysicsWorld(quality);
+  }
+  const world = worldRef.current;
+  const groupsRef = useRef<Map<string, Group>>(new Map());
+
+  // Order matters: a removal that collapses the tower slides that block out first
+  useEffect(() => {
+    world.syncBlocks(blocks);
+  }, [world, blocks]);
+
+  useEffect(() => {
+    world.setStabilityZone(zone);
+  }, [world, zone]);
+
+  useEffect(() => {
+    world.setCollapsed(collapsed);
+  }, [world, collapsed]);
+
+  useEffect(() => {
+    world.setQuality(quality);
+  }, [world, quality]);
+
+  useFrame((_state, delta) => {
+    world.step(delta);
+    groupsRef.current.forEach((group, id) => {
+      const transform = world.getTransform(id);
+      if (!transform) return;
+      group.position.set(...transform.position);
+      group.rotation.set(...transform.rotation);
+      group.visible = transform.visible;
+    });
+  });
+
+  // Ref callback for each block's <group>
+  const bindBlock = useCallback((id: string) => (group: Group | null) => {
+    if (group) {
+      groupsRef.current.set(id, group);
+    } else {
+      groupsRef.current.delete(id);
+    }
+  }, []);
+
+  return { world, bindBlock };
+};
+
+export default useTowerPhysics;
@@ -0,0 +1,322 @@
+import { Block, StabilityZone } from '../../../types';
+import { normalizeSeed } from '../../../utils/random';
+
+/**
+ * Tower Physics
+ * Small CPU-only rigid-body simulation for the 3D tower. It starts from the
+ * same worldPosition data the game core produces and adds:
+ * - removed blocks sliding out of the tower and dropping away
+ * - a sway that grows as stability drops into the warning/critical zones
+ * - a real collapse (gravity, ground contact, block-vs-block pushes) when the game ends
+ * Bodies are treated as axis-aligned boxes for contacts, which is plenty for
+ * 1x0.3x1 blocks and keeps the cost low enough for phones.
+ */
+
+export type Vec3 = [number, number, number];
+
+export type BodyMode = 'resting' | 'sliding' | 'dynamic' | 'gone';
+
+export interface PhysicsQuality {
+  substeps: number; // Integration steps per frame
+  maxDynamicBodies: number; // Blocks simulated during a collapse; the rest stay put
+  collisions: boolean; // Block-vs-block contacts (ground contact is always on)
+}
+
+export interface RigidBody {
+  id: string;
+  home: Vec3; // worldPosition from the game core
+  position: Vec3;
+  velocity: Vec3;
+  rotation: Vec3;
+  angularVelocity: Vec3;
+  mode: BodyMode;
+  slideDirection: Vec3;
+  slideDistance: number;
+}
+
+export interface BodyTransform {
+  position: Vec3;
+  rotation: Vec3;
+  visible: boolean;
+}
+
+export const BLOCK_SIZE: Vec3 = [1, 0.3, 1];
+
+export const DEFAULT_PHYSICS_QUALITY: PhysicsQuality = {
+  substeps: 2,
+  maxDynamicBodies: 40,
+  collisions: true,
+};
+
+const HALF: Vec3 = [BLOCK_SIZE[0] / 2, BLOCK_SIZE[1] / 2, BLOCK_SIZE[2] / 2];
+const GRAVITY = -9.81;
+const GROUND_Y = -0.05 + HALF[1];
+const RESTITUTION = 0.25;
+const GROUND_FRICTION = 0.85;
+const SLIDE_SPEED = 2.4;
+const SLIDE_CLEAR_DISTANCE = 1.2; // Past this the block is out of the tower and falls
+const MAX_FRAME_DELTA = 1 / 20; // Avoid huge steps after a background tab resumes
+const SLEEP_SPEED = 0.05;
+
+// Lean angle (radians) of the whole tower per stability zone
+const SWAY_AMPLITUDE: Record<StabilityZone, number> = {
+  optimal: 0,
+  stable: 0,
+  warning: 0.012,
+  critical: 0.035,
+};
+const SWAY_FREQUENCY = Math.PI * 1.2;
+
+// Stable pseudo-random value in [-0.5, 0.5) per block, so collapses don't depend on Math.random
+const jitter = (id: string, salt: number): number => {
+  return ((normalizeSeed(`${id}:${salt}`) % 1000) / 1000) - 0.5;
+};
+
+export class TowerPhysicsWorld {
+  private bodies: Map<string, RigidBody> = new Map();
+  private quality: PhysicsQuality;
+  private time = 0;
+  private swayAmplitude = 0;
+  private targetSwayAmplitude = 0;
+  private collapsed = false;
+
+  constructor(quality: PhysicsQuality = DEFAULT_PHYSICS_QUALITY) {
+    this.quality = quality;
+  }
+
+  setQuality(quality: PhysicsQuality): void {
+    this.quality = quality;
+  }
+
+  // Keep bodies in step with the game's blocks: new tower, removals and rebuilds
+  syncBlocks(blocks: Block[]): void {
+    const ids = new Set(blocks.map(block => block.id));
+    this.bodies.forEach((_body, id) => {
+      if (!ids.has(id)) this.bodies.delete(id);
+    });
+
+    blocks.forEach(block => {
+      const existing = this.bodies.get(block.id);
+      const moved = existing && existing.home.some((value, axis) => value !== block.worldPosition[axis]);
+
+      if (!existing || moved) {
+        const body = this.createBody(block.id, block.worldPosition);
+        body.mode = block.isRemoved ? 'gone' : 'resting';
+        this.bodies.set(block.id, body);
+        return;
+      }
+
+      if (block.isRemoved && existing.mode === 'resting') {
+        this.startSlide(existing, block.layer);
+      } else if (!block.isRemoved && existing.mode !== 'resting') {
+        // Rebuilt tower reuses block ids - put the block back home
+        this.bodies.set(block.id, this.createBody(block.id, block.worldPosition));
+      }
+    });
+  }
+
+  // Sway follows the stability zone; the amplitude eases in so zone changes don't snap
+  setStabilityZone(zone: StabilityZone): void {
+    this.targetSwayAmplitude = SWAY_AMPLITUDE[zone];
+  }
+
+  // Bring the tower down, or stand it back up when the game leaves the collapsed phase
+  setCollapsed(collapsed: boolean): void {
+    if (collapsed === this.collapsed) return;
+    this.collapsed = collapsed;
+
+    if (!collapsed) {
+      this.bodies.forEach((body, id) => {
+        if (body.mode === 'dynamic') {
+          this.bodies.set(id, this.createBody(id, body.home));
+        }
+      });
+      return;
+    }
+
+    // Topple towards the current lean; the highest blocks move first and fastest
+    const direction = Math.sin(this.time * SWAY_FREQUENCY) < 0 ? -1 : 1;
+    const standing = Array.from(this.bodies.values())
+      .filter(body => body.mode === 'resting')
+      .sort((a, b) => b.home[1] - a.home[1])
+      .slice(0, this.quality.maxDynamicBodies);
+
+    standing.forEach(body => {
+      const height = body.home[1];
+      const lean = this.getSwayAngle();
+      body.position = [body.home[0] + height * Math.sin(lean), body.home[1] * Math.cos(lean), body.home[2]];
+      body.rotation = [0, 0, -lean];
+      body.velocity = [
+        direction * (0.4 + height * 0.3) + jitter(body.id, 1),
+        jitter(body.id, 2) * 0.8,
+        jitter(body.id, 3) * (0.5 + height * 0.1)
+      ];
+      body.angularVelocity = [jitter(body.id, 4) * 3, jitter(body.id, 5) * 2, -direction * (0.8 + height * 0.15)];
+      body.mode = 'dynamic';
+    });
+  }
+
+  // Advance the simulation by one rendered frame
+  step(delta: number): void {
+    const frameDelta = Math.min(Math.max(delta, 0), MAX_FRAME_DELTA);
+    const substeps = Math.max(1, Math.floor(this.quality.substeps));
+    const h = frameDelta / substeps;
+
+    this.time += frameDelta;
+    this.swayAmplitude += (this.targetSwayAmplitude - this.swayAmplitude) * Math.min(1, frameDelta * 2);
+
+    for (let i = 0; i < substeps; i++) {
+      this.bodies.forEach(body => {
+        if (body.mode === 'sliding') this.integrateSliding(body, h);
+        else if (body.mode === 'dynamic') this.integrateDynamic(body, h);
+      });
+      if (this.quality.collisions && this.collapsed) {
+        this.resolveContacts();
+      }
+    }
+  }
+
+  // Pose to render for a block
+  getTransform(id: string): BodyTransform | null {
+    const body = this.bodies.get(id);
+    if (!body) return null;
+
+    if (body.mode === 'resting') {
+      // Whole tower pivots around its base, so higher blocks travel further
+      const lean = this.getSwayAngle();
+      const height = body.home[1];
+      return {
+        position: [body.home[0] + height * Math.sin(lean), height * Math.cos(lean), body.home[2]],
+        rotation: [0, 0, -lean],
+        visible: true,
+      };
+    }
+
+    return {
+      position: [...body.position] as Vec3,
+      rotation: [...body.rotation] as Vec3,
+      visible: body.mode !== 'gone',
+    };
+  }
+
+  getBody(id: string): RigidBody | undefined {
+    return this.bodies.get(id);
+  }
+
+  // True once nothing is moving - lets the UI wait for the collapse to finish
+  isSettled(): boolean {
+    return Array.from(this.bodies.values()).every(body => body.mode !== 'sliding' && (
+      body.mode !== 'dynamic' || Math.hypot(...body.velocity) < SLEEP_SPEED
+    ));
+  }
+
+  private getSwayAngle(): number {
+    return this.swayAmplitude * Math.sin(this.time * SWAY_FREQUENCY);
+  }
+
+  private createBody(id: string, home: Vec3): RigidBody {
+    return {
+      id,
+      home: [...home] as Vec3,
+      position: [...home] as Vec3,
+      velocity: [0, 0, 0],
+      rotation: [0, 0, 0],
+      angularVelocity: [0, 0, 0],
+      mode: 'resting',
+      slideDirection: [0, 0, 1],
+      slideDistance: 0,
+    };
+  }
+
+  // Pull the block out sideways, away from the tower's centre line
+  private startSlide(body: RigidBody, layer: number): void {
+    const side = body.home[0] !== 0 ? Math.sign(body.home[0]) : (layer % 2 === 0 ? -1 : 1);
+    body.slideDirection = body.home[0] !== 0 ? [side, 0, 0] : [0, 0, side];
+    body.position = [...body.home] as Vec3;
+    body.velocity = [0, 0, 0];
+    body.slideDistance = 0;
+    body.mode = 'sliding';
+  }
+
+  private integrateSliding(body: RigidBody, h: number): void {
+    const travel = SLIDE_SPEED * h;
+    body.slideDistance += travel;
+    body.position[0] += body.slideDirection[0] * travel;
+    body.position[2] += body.slideDirection[2] * travel;
+
+    // Once clear of the blocks below it the piece tips and drops
+    if (body.slideDistance > SLIDE_CLEAR_DISTANCE) {
+      body.velocity[1] += GRAVITY * h;
+      body.position[1] += body.velocity[1] * h;
+      body.rotation[0] += body.slideDirection[2] * 2 * h;
+      body.rotation[2] -= body.slideDirection[0] * 2 * h;
+    }
+
+    if (body.position[1] < GROUND_Y - 1 || body.slideDistance > 6) {
+      body.mode = 'gone';
+    }
+  }
+
+  private integrateDynamic(body: RigidBody, h: number): void {
+    body.velocity[1] += GRAVITY * h;
+    for (let axis = 0; axis < 3; axis++) {
+      body.position[axis] += body.velocity[axis] * h;
+      body.rotation[axis] += body.angularVelocity[axis] * h;
+    }
+
+    if (body.position[1] < GROUND_Y) {
+      body.position[1] = GROUND_Y;
+      body.velocity[1] = Math.abs(body.velocity[1]) > 0.5 ? -body.velocity[1] * RESTITUTION : 0;
+      body.velocity[0] *= GROUND_FRICTION;
+      body.velocity[2] *= GROUND_FRICTION;
+      body.angularVelocity = body.angularVelocity.map(value => value * 0.7) as Vec3;
+
+      // Let resting pieces fall flat instead of balancing on an edge
+      body.rotation[0] += (Math.round(body.rotation[0] / (Math.PI / 2)) * (Math.PI / 2) - body.rotation[0]) * 0.2;
+      body.rotation[2] += (Math.round(body.rotation[2] / (Math.PI / 2)) * (Math.PI / 2) - body.rotation[2]) * 0.2;
+    }
+  }
+
+  // Push overlapping boxes apart along the axis of least penetration
+  private resolveContacts(): void {
+    const solid = Array.from(this.bodies.values()).filter(body => body.mode === 'dynamic' || body.mode === 'resting');
+
+    for (let i = 0; i < solid.length; i++) {
+      for (let j = i + 1; j < solid.length; j++) {
+        const a = solid[i];
+        const b = solid[j];
+        if (a.mode !== 'dynamic' && b.mode !== 'dynamic') continue;
+
+        const posA = a.mode === 'dynamic' ? a.position : a.home;
+        const posB = b.mode === 'dynamic' ? b.position : b.home;
+        let axis = -1;
+        let depth = Infinity;
+        for (let k = 0; k < 3; k++) {
+          const overlap = HALF[k] * 2 - Math.abs(posA[k] - posB[k]);
+          if (overlap <= 0) {
+            axis = -1;
+            break;
+          }
+          if (overlap < depth) {
+            depth = overlap;
+            axis = k;
+          }
+        }
+        if (axis < 0) continue;
+
+        const sign = posA[axis] < posB[axis] ? -1 : 1;
+        const bothDynamic = a.mode === 'dynamic' && b.mode === 'dynamic';
+        const share = bothDynamic ? depth / 2 : depth;
+
+        if (a.mode === 'dynamic') {
+          a.position[axis] += sign * share;
+          if (a.velocity[axis] * sign < 0) a.velocity[axis] *= -RESTITUTION;
+        }
+        if (b.mode === 'dynamic') {
+          b.position[axis] -= sign * share;
+          if (b.velocity[axis] * -sign < 0) b.velocity[axis] *= -RESTITUTION;
+        }
+      }
+    }
+  }
+}
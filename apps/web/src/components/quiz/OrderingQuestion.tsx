@@ -0,0 +1,81 @@
+import React from 'react';
+import { Reorder } from 'framer-motion';
+import { ChevronDown, ChevronUp, GripVertical } from 'lucide-react';
+
+interface OrderingQuestionProps {
+  options: string[];
+  order: number[]; // Option indexes in the player's current sequence
+  onReorder: (order: number[]) => void;
+  disabled: boolean;
+  correctOrder?: number[]; // Shown once the answer is in
+}
+
+// Drag-to-reorder list for ordering questions. Dragging works with mouse and
+// touch; the arrow buttons give keyboard and switch users the same control.
+const OrderingQuestion: React.FC<OrderingQuestionProps> = ({
+  options,
+  order,
+  onReorder,
+  disabled,
+  correctOrder,
+}) => {
+  const move = (position: number, offset: number) => {
+    const target = position + offset;
+    if (disabled || target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[position], next[target]] = [next[target], next[position]];
+    onReorder(next);
+  };
+
+  return (
+    <Reorder.Group axis="y" values={order} onReorder={disabled ? () => undefined : onReorder} className="space-y-2">
+      {order.map((optionIndex, position) => {
+        const correctPosition = correctOrder?.indexOf(optionIndex) ?? -1;
+        const inPlace = correctPosition === position;
+        return (
+          <Reorder.Item
+            key={optionIndex}
+            value={optionIndex}
+            dragListener={!disabled}
+            style={{ touchAction: disabled ? 'auto' : 'none' }}
+            className={`flex items-center gap-3 p-3 rounded-lg border-2 font-medium select-none
+              ${correctOrder
+                ? (inPlace ? 'border-green-500 bg-green-500/20 text-green-300' : 'border-red-500 bg-red-500/20 text-red-300')
+                : 'border-gray-600 bg-gray-800 text-gray-300 cursor-grab active:cursor-grabbing active:border-yellow-500'}`}
+          >
+            {!disabled && <GripVertical className="w-5 h-5 text-gray-500 flex-shrink-0" />}
+            <span className="w-6 h-6 rounded-full bg-gray-700 text-sm flex items-center justify-center flex-shrink-0">
+              {position + 1}
+            </span>
+            <span className="flex-1">{options[optionIndex]}</span>
+            {correctOrder && !inPlace && (
+              <span className="text-xs text-gray-300 flex-shrink-0">should be #{correctPosition + 1}</span>
+            )}
+            {!disabled && (
+              <div className="flex flex-col flex-shrink-0">
+                <button
+                  onClick={() => move(position, -1)}
+                  disabled={position === 0}
+                  className="p-1 text-gray-400 hover:text-yellow-300 disabled:opacity-30"
+                  aria-label={`Move "${options[optionIndex]}" up`}
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => move(position, 1)}
+                  disabled={position === order.length - 1}
+                  className="p-1 text-gray-400 hover:text-yellow-300 disabled:opacity-30"
+                  aria-label={`Move "${options[optionIndex]}" down`}
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </Reorder.Item>
+        );
+      })}
+    </Reorder.Group>
+  );
+};
+
+export default OrderingQuestion;
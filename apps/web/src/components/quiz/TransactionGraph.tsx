@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { TransactionGraph as TransactionGraphData } from '../../types';
+import { layoutTransactionGraph, PositionedNode } from '../../services/transactionGraph';
+
+interface TransactionGraphProps {
+  graph: TransactionGraphData;
+  selectedNodeId: string | null;
+  onSelect: (nodeId: string) => void;
+  disabled: boolean;
+  showAnswer: boolean; // Highlight the answer coins once the answer is in
+}
+
+const COIN_WIDTH = 150;
+const COIN_HEIGHT = 52;
+const TRANSACTION_WIDTH = 100;
+const TRANSACTION_HEIGHT = 36;
+const CLUSTER_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#a78bfa', '#fb923c'];
+const ROLE_LABELS = { payment: 'payment', change: 'change', data: 'OP_RETURN' };
+
+const halfWidth = (node: PositionedNode) => (node.kind === 'coin' ? COIN_WIDTH : TRANSACTION_WIDTH) / 2;
+
+// SVG drawing of a scenario's transaction graph; clicking a coin picks it as
+// the answer. Coins an observer can tie to one wallet share an outline color.
+const TransactionGraph: React.FC<TransactionGraphProps> = ({
+  graph,
+  selectedNodeId,
+  onSelect,
+  disabled,
+  showAnswer,
+}) => {
+  const layout = useMemo(() => layoutTransactionGraph(graph), [graph]);
+  const clusters = useMemo(
+    () => [...new Set(graph.nodes.flatMap(node => node.cluster ? [node.cluster] : []))],
+    [graph]
+  );
+  const clusterColor = (cluster?: string) =>
+    cluster ? CLUSTER_COLORS[clusters.indexOf(cluster) % CLUSTER_COLORS.length] : '#4b5563';
+
+  const coinStyle = (node: PositionedNode) => {
+    const isAnswer = graph.answerNodeIds.includes(node.id);
+    if (showAnswer && isAnswer) return { fill: 'rgba(34, 197, 94, 0.2)', stroke: '#22c55e' };
+    if (showAnswer && node.id === selectedNodeId) return { fill: 'rgba(239, 68, 68, 0.2)', stroke: '#ef4444' };
+    if (node.id === selectedNodeId) return { fill: 'rgba(234, 179, 8, 0.2)', stroke: '#eab308' };
+    return { fill: '#1f2937', stroke: clusterColor(node.cluster) };
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, nodeId: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      if (!disabled) onSelect(nodeId);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-gray-300">{graph.prompt}</p>
+      <div className="overflow-x-auto rounded-lg border border-gray-700 bg-gray-900/60 p-2">
+        <svg
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          className="w-full min-w-[420px]"
+          style={{ maxHeight: '60vh' }}
+          role="group"
+          aria-label="Transaction graph"
+        >
+          <defs>
+            <marker id="tx-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+            </marker>
+          </defs>
+
+          {layout.edges.map(({ from, to }) => {
+            const startX = from.x + halfWidth(from);
+            const endX = to.x - halfWidth(to);
+            const bend = (endX - startX) / 2;
+            return (
+              <path
+                key={`${from.id}-${to.id}`}
+                d={`M ${startX} ${from.y} C ${startX + bend} ${from.y}, ${endX - bend} ${to.y}, ${endX} ${to.y}`}
+                fill="none"
+                stroke="#6b7280"
+                strokeWidth={1.5}
+                markerEnd="url(#tx-graph-arrow)"
+              />
+            );
+          })}
+
+          {layout.nodes.map(node => node.kind === 'transaction' ? (
+            <g key={node.id}>
+              <rect
+                x={node.x - TRANSACTION_WIDTH / 2}
+                y={node.y - TRANSACTION_HEIGHT / 2}
+                width={TRANSACTION_WIDTH}
+                height={TRANSACTION_HEIGHT}
+                rx={4}
+                fill="#374151"
+                stroke="#9ca3af"
+              />
+              <text x={node.x} y={node.y + 4} textAnchor="middle" fontSize={12} fontWeight={600} fill="#e5e7eb">
+                {node.label}
+              </text>
+            </g>
+          ) : (
+            <g
+              key={node.id}
+              role="button"
+              tabIndex={disabled ? -1 : 0}
+              aria-pressed={node.id === selectedNodeId}
+              aria-label={[node.label, node.role && ROLE_LABELS[node.role], node.address, node.note].filter(Boolean).join(', ')}
+              onClick={() => !disabled && onSelect(node.id)}
+              onKeyDown={event => handleKeyDown(event, node.id)}
+              style={{ cursor: disabled ? 'default' : 'pointer' }}
+            >
+              <rect
+                x={node.x - COIN_WIDTH / 2}
+                y={node.y - COIN_HEIGHT / 2}
+                width={COIN_WIDTH}
+                height={COIN_HEIGHT}
+                rx={COIN_HEIGHT / 2}
+                strokeWidth={2}
+                {...coinStyle(node)}
+              />
+              <text x={node.x} y={node.y - 6} textAnchor="middle" fontSize={12} fontWeight={600} fill="#f3f4f6">
+                {node.label}
+                {node.role && <tspan fill="#9ca3af" fontWeight={400}> · {ROLE_LABELS[node.role]}</tspan>}
+              </text>
+              <text x={node.x} y={node.y + 12} textAnchor="middle" fontSize={10} fontFamily="monospace" fill="#9ca3af">
+                {node.note ? `"${node.note.length > 22 ? `${node.note.slice(0, 21)}…` : node.note}"` : node.address}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+      {clusters.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+          {clusters.map(cluster => (
+            <span key={cluster} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full border-2" style={{ borderColor: clusterColor(cluster) }} />
+              {cluster}
+            </span>
+          ))}
+          <span>Same color = same wallet</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionGraph;
@@ -8,7 +8,7 @@ export const ENHANCED_PRIVACY_QUESTIONS: EnhancedQuestion[] = [
   // RED 1: Putting identifiable information in an OP_RETURN
   {
     id: 'red-001',
-    type: 'multiple_choice',
+    type: 'scenario',
     difficulty: 'hard',
     category: 'on-chain',
     question: 'What privacy risk occurs when putting identifiable information in an OP_RETURN?',
@@ -23,6 +23,23 @@ export const ENHANCED_PRIVACY_QUESTIONS: EnhancedQuestion[] = [
     stabilityImpact: { correct: 20, incorrect: -35 },
     points: { correct: 25, incorrect: 0 },
     learningTags: ['op_return', 'blockchain-privacy', 'identity-linkage'],
+    graph: {
+      prompt: 'Alice pays an online shop and adds a note to the transaction. Click the output that ties her identity to this payment forever.',
+      nodes: [
+        { id: 'alice-coin', kind: 'coin', label: '0.0150 BTC', address: 'bc1q…h4fz', cluster: "Alice's wallet" },
+        { id: 'payment-tx', kind: 'transaction', label: 'Payment' },
+        { id: 'shop-output', kind: 'coin', label: '0.0100 BTC', address: 'bc1q…s7pk', role: 'payment' },
+        { id: 'note-output', kind: 'coin', label: '0 BTC', role: 'data', note: 'Alice W. order #4411' },
+        { id: 'change-output', kind: 'coin', label: '0.0049 BTC', address: 'bc1q…2mxe', role: 'change', cluster: "Alice's wallet" },
+      ],
+      edges: [
+        { from: 'alice-coin', to: 'payment-tx' },
+        { from: 'payment-tx', to: 'shop-output' },
+        { from: 'payment-tx', to: 'note-output' },
+        { from: 'payment-tx', to: 'change-output' },
+      ],
+      answerNodeIds: ['note-output'],
+    },
   },
 
   // RED 2: Publicly sharing your IP address
@@ -303,6 +320,35 @@ export const ENHANCED_PRIVACY_QUESTIONS: EnhancedQuestion[] = [
     stabilityImpact: { correct: 20, incorrect: -35 },
     points: { correct: 25, incorrect: 0 },
     learningTags: ['address-reuse', 'transaction-linking', 'spending-history'],
+    graph: {
+      prompt: 'Alice was paid three times this month. Click an output that lets an observer link her payments together.',
+      nodes: [
+        { id: 'employer-coin', kind: 'coin', label: '0.2000 BTC', address: 'bc1q…e9rt', cluster: 'Employer' },
+        { id: 'friend-coin', kind: 'coin', label: '0.0300 BTC', address: 'bc1q…f3wa', cluster: 'Friend' },
+        { id: 'shop-coin', kind: 'coin', label: '0.0150 BTC', address: 'bc1q…k8dn', cluster: 'Shop' },
+        { id: 'salary-tx', kind: 'transaction', label: 'Salary' },
+        { id: 'loan-tx', kind: 'transaction', label: 'Loan repaid' },
+        { id: 'refund-tx', kind: 'transaction', label: 'Refund' },
+        { id: 'salary-output', kind: 'coin', label: '0.0500 BTC', address: 'bc1q…7rwl', role: 'payment' },
+        { id: 'employer-change', kind: 'coin', label: '0.1490 BTC', address: 'bc1q…u5cz', role: 'change', cluster: 'Employer' },
+        { id: 'loan-output', kind: 'coin', label: '0.0200 BTC', address: 'bc1q…7rwl', role: 'payment' },
+        { id: 'friend-change', kind: 'coin', label: '0.0099 BTC', address: 'bc1q…p0jh', role: 'change', cluster: 'Friend' },
+        { id: 'refund-output', kind: 'coin', label: '0.0100 BTC', address: 'bc1q…m2dq', role: 'payment' },
+        { id: 'shop-change', kind: 'coin', label: '0.0049 BTC', address: 'bc1q…x6vb', role: 'change', cluster: 'Shop' },
+      ],
+      edges: [
+        { from: 'employer-coin', to: 'salary-tx' },
+        { from: 'friend-coin', to: 'loan-tx' },
+        { from: 'shop-coin', to: 'refund-tx' },
+        { from: 'salary-tx', to: 'salary-output' },
+        { from: 'salary-tx', to: 'employer-change' },
+        { from: 'loan-tx', to: 'loan-output' },
+        { from: 'loan-tx', to: 'friend-change' },
+        { from: 'refund-tx', to: 'refund-output' },
+        { from: 'refund-tx', to: 'shop-change' },
+      ],
+      answerNodeIds: ['salary-output', 'loan-output'],
+    },
   },
 
   // RED 17: Inputting private information into a phishing attack
@@ -0,0 +1,278 @@
+import { Message } from '../../types';
+
+// English interface text - the reference catalog. Every other locale has to
+// translate each key here; `{name}` marks a value filled in at runtime.
+const en = {
+  'common.close': 'Close',
+  'language.label': 'Language',
+
+  // Game modes, categories, difficulties and learning phases
+  'mode.classic.name': 'Classic',
+  'mode.classic.description': 'Keep the tower standing. When it falls, rebuild and carry on until every concept is learned.',
+  'mode.sudden-death.name': 'Sudden Death',
+  'mode.sudden-death.description': 'Double points, but the first wrong answer brings the whole tower down.',
+  'mode.zen.name': 'Zen',
+  'mode.zen.description': 'No score and no collapse - just work through every question at your own pace.',
+  'mode.category-sprint.name': 'Category Sprint',
+  'mode.category-sprint.description': 'A short tower on a single topic. Clear every question in the category to win.',
+  'category.on-chain': 'On-Chain Privacy',
+  'category.off-chain': 'Off-Chain Solutions',
+  'category.coin-mixing': 'Coin Mixing',
+  'category.wallet-setup': 'Wallet Setup',
+  'category.lightning': 'Lightning Network',
+  'category.regulatory': 'Regulatory',
+  'category.best-practices': 'Best Practices',
+  'category.network-privacy': 'Network Privacy',
+  'category.exchange-privacy': 'Exchange Privacy',
+  'category.api-privacy': 'API Privacy',
+  'category.social-privacy': 'Social Privacy',
+  'category.transaction-security': 'Transaction Security',
+  'category.kyc-privacy': 'KYC Privacy',
+  'category.security': 'Security',
+  'category.physical-privacy': 'Physical Privacy',
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+  'phase.foundation': 'Foundation',
+  'phase.application': 'Application',
+  'phase.mastery': 'Mastery',
+  'blocks.title': 'Block Types',
+  'blocks.green': 'Green Blocks',
+  'blocks.orange': 'Orange Blocks',
+  'blocks.red': 'Red Blocks',
+
+  // Home page
+  'home.howToPlay': 'How to Play',
+  'home.visitBitsacco': 'Visit Bitsacco',
+  'home.welcome.close': 'Close welcome message',
+  'home.welcome.title': 'Welcome to Privacy Jenga!',
+  'home.welcome.body': 'Learn online privacy and security through an engaging tower-building experience. Each block contains valuable knowledge to protect yourself online.',
+  'home.hero.title': 'Learn Privacy Through',
+  'home.hero.subtitle': 'Interactive Gaming',
+  'home.hero.description': 'Master online privacy and security concepts by playing Privacy Jenga. Remove blocks, answer quizzes, and build your knowledge while the tower remains stable.',
+  'home.modes.title': 'Game Mode',
+  'home.modes.best': 'Best: {score}',
+  'home.modes.sprintCategory': 'Sprint category',
+  'home.modes.sprintOption': { one: '{category} ({count} question)', other: '{category} ({count} questions)' },
+  'home.players.toggle': 'Pass & Play - {min}-{max} players on this device',
+  'home.players.defaultName': 'Player {number}',
+  'home.players.nickname': 'Player {number} nickname',
+  'home.players.remove': 'Remove {name}',
+  'home.players.add': '+ Add player',
+  'home.playOnline': 'Play Online - join a friend\'s room by code',
+  'home.start': 'Start Playing Now',
+  'home.blitz': 'Blitz Mode - beat the clock for bonus points',
+  'home.review': 'Review Mode',
+  'home.reviewDue': { one: 'Review Mode - {count} question due', other: 'Review Mode - {count} questions due' },
+  'home.learnHowToPlay': 'Learn How to Play',
+  'home.why.title': 'Why Privacy Jenga?',
+  'home.why.body': 'Our unique approach combines entertainment with education, making privacy learning engaging and memorable.',
+  'home.feature.interactive.title': 'Interactive Learning',
+  'home.feature.interactive.body': 'Learn through hands-on experience. Each block removal teaches you something new about online privacy and security.',
+  'home.feature.progressive.title': 'Progressive Difficulty',
+  'home.feature.progressive.body': 'Start with basic concepts and advance to complex privacy challenges as you build your knowledge tower.',
+  'home.feature.feedback.title': 'Instant Feedback',
+  'home.feature.feedback.body': 'Get immediate feedback on your privacy knowledge through quizzes and real-time scoring.',
+  'home.feature.achievements.title': 'Achievement System',
+  'home.feature.achievements.body': 'Unlock achievements and track your progress as you become a privacy expert.',
+  'home.feature.risk.title': 'Risk Awareness',
+  'home.feature.risk.body': 'Understand the real risks of poor privacy practices and learn how to protect yourself online.',
+  'home.feature.skills.title': 'Practical Skills',
+  'home.feature.skills.body': 'Apply what you learn immediately to your daily online activities and digital security practices.',
+  'home.learning.title': 'Continuous Learning Experience',
+  'home.learning.subtitle': 'Master privacy concepts through uninterrupted practice and progressive learning',
+  'home.learning.modeTitle': 'Privacy Jenga Learning Mode',
+  'home.learning.modeBody': 'Progressive learning with intelligent difficulty scaling. When the tower falls, it automatically resets, allowing you to practice privacy concepts, complete interactive quizzes, and unlock achievements.',
+  'home.learning.point.1': 'Continuous tower resets for uninterrupted learning',
+  'home.learning.point.2': 'All {count} privacy tips accessible in one experience',
+  'home.learning.point.3': 'Achievement-based progression system',
+  'home.learning.point.4': 'Adaptive difficulty based on your skill level',
+  'home.learning.point.5': 'Interactive quizzes and privacy challenges',
+  'home.learning.start': 'Start Learning Journey',
+  'home.cta.title': 'Ready to Master Online Privacy?',
+  'home.cta.body': 'Join thousands of learners who are already improving their digital security',
+  'home.cta.start': 'Start Your Privacy Journey',
+  'home.cta.learnMore': 'Learn More',
+  'home.footer.tagline': 'Educational privacy game powered by Bitsacco',
+  'home.footer.about': 'About',
+  'home.footer.privacyPolicy': 'Privacy Policy',
+  'home.footer.inspiredBy': 'Educational content inspired by',
+  'home.footer.authors': 'by Amiti Uttarwar & D++',
+
+  // Help
+  'help.title': 'Privacy Jenga Help',
+  'help.overview.title': 'Game Overview',
+  'help.overview.body': 'Privacy Jenga is an educational game that teaches Bitcoin privacy concepts through interactive block removal. Learn about on-chain privacy, off-chain solutions, and best practices while maintaining tower stability.',
+  'help.overview.interaction.label': 'Direct Interaction:',
+  'help.overview.interaction.text': 'Click on any block to reveal content',
+  'help.overview.learning.label': 'Learning:',
+  'help.overview.learning.text': 'Each block contains privacy tips or quiz questions',
+  'help.overview.stability.label': 'Stability:',
+  'help.overview.stability.text': 'Wrong answers decrease tower stability',
+  'help.overview.continuous.label': 'Continuous Learning:',
+  'help.overview.continuous.text': 'Tower rebuilds until all {count} concepts are learned',
+  'help.categories.title': 'Category System',
+  'help.categories.body': 'The game uses a category-based system where different blocks represent different privacy concepts:',
+  'help.categories.on-chain': 'CoinJoin, Schnorr signatures, Taproot',
+  'help.categories.off-chain': 'Lightning Network, state channels',
+  'help.categories.coin-mixing': 'Privacy tools and techniques',
+  'help.categories.wallet-setup': 'Security and privacy configuration',
+  'help.blocks.green': 'Bottom layers - Safe content',
+  'help.blocks.orange': 'Middle layers - Medium difficulty',
+  'help.blocks.red': 'Top layers - Risky content',
+  'help.strategy.title': 'Strategy Tips',
+  'help.strategy.category.title': 'Category Strategy',
+  'help.strategy.category.1': 'Start with beginner categories',
+  'help.strategy.category.2': 'Focus on one category at a time',
+  'help.strategy.category.3': 'Build knowledge systematically',
+  'help.strategy.category.4': 'Use category rotation for variety',
+  'help.strategy.tower.title': 'Tower Management',
+  'help.strategy.tower.1': 'Remove blocks evenly from all sides',
+  'help.strategy.tower.2': 'Avoid creating unstable configurations',
+  'help.strategy.tower.3': 'Monitor stability meter closely',
+  'help.strategy.tower.4': 'Plan your moves ahead',
+  'help.objectives.title': 'Learning Objectives',
+  'help.objectives.intro': 'By playing Privacy Jenga, you\'ll learn about:',
+  'help.objectives.fundamentals.title': 'Privacy Fundamentals',
+  'help.objectives.fundamentals.1': 'Transaction privacy',
+  'help.objectives.fundamentals.2': 'Address reuse prevention',
+  'help.objectives.fundamentals.3': 'Network analysis resistance',
+  'help.objectives.advanced.title': 'Advanced Techniques',
+  'help.objectives.advanced.1': 'CoinJoin implementation',
+  'help.objectives.advanced.2': 'Lightning privacy',
+  'help.objectives.advanced.3': 'Regulatory compliance',
+  'help.mistakes.title': 'Common Mistakes',
+  'help.mistakes.categories.title': 'Ignoring Categories',
+  'help.mistakes.categories.text': 'Always check which category is currently highlighted',
+  'help.mistakes.rushing.title': 'Rushing Through',
+  'help.mistakes.rushing.text': 'Take time to read and understand the content',
+  'help.mistakes.stability.title': 'Ignoring Stability',
+  'help.mistakes.stability.text': 'Watch the stability meter and plan accordingly',
+  'help.advanced.title': 'Advanced Tips',
+  'help.advanced.mastery.title': 'Category Mastery',
+  'help.advanced.mastery.text': 'Master one category completely before moving to the next for better learning retention',
+  'help.advanced.balance.title': 'Tower Balance',
+  'help.advanced.balance.text': 'Maintain even weight distribution by removing blocks from opposite sides',
+  'help.controls.title': 'Game Controls',
+  'help.controls.mouse.title': 'Mouse Controls',
+  'help.controls.click.label': 'Click:',
+  'help.controls.click.text': 'Select and interact with blocks',
+  'help.controls.hover.label': 'Hover:',
+  'help.controls.hover.text': 'Preview block information',
+  'help.controls.scroll.label': 'Scroll:',
+  'help.controls.scroll.text': 'Zoom in/out of the tower',
+  'help.controls.keyboard.title': 'Keyboard Shortcuts',
+  'help.controls.reset': 'Reset tower',
+  'help.controls.help': 'Toggle help',
+  'help.controls.escape': 'Close modals',
+  'help.footer': 'Need more help? Check out the tutorial or contact support.',
+  'help.gotIt': 'Got it!',
+
+  // Tutorial
+  'tutorial.title': 'Privacy Jenga Tutorial',
+  'tutorial.howToPlay.title': 'How to Play',
+  'tutorial.howToPlay.1': 'Click on any block in the 3D tower to reveal a Bitcoin privacy question',
+  'tutorial.howToPlay.2': 'Answer the question correctly to maintain tower stability',
+  'tutorial.howToPlay.3': 'Wrong answers reduce stability and can cause the tower to collapse',
+  'tutorial.howToPlay.4': 'Learn all {count} Bitcoin privacy concepts through interactive questions',
+  'tutorial.blocks.green': 'Safe blocks',
+  'tutorial.blocks.orange': 'Medium difficulty',
+  'tutorial.blocks.red': 'Risky blocks',
+  'tutorial.mechanics.title': 'Game Mechanics',
+  'tutorial.mechanics.1': 'Tower stability starts at {percent}',
+  'tutorial.mechanics.2': 'Correct answers: +{min} to +{max} stability (based on difficulty)',
+  'tutorial.mechanics.3': 'Wrong answers: -{min} to -{max} stability (based on difficulty)',
+  'tutorial.mechanics.4': 'Tower collapses when stability reaches {percent}',
+  'tutorial.mechanics.5': 'Difficulty adapts based on your performance',
+  'tutorial.mechanics.6': 'Tougher questions give bigger rewards but bigger penalties!',
+  'tutorial.interactive': 'Interactive Tutorial',
+  'tutorial.startGame': 'Start Game',
+
+  // Question modal
+  'quiz.title': 'Privacy Quiz',
+  'quiz.tipTitle': 'Privacy Tip',
+  'quiz.objective': 'Learning Objective',
+  'quiz.challenge': 'Quiz Challenge',
+  'quiz.timeLeft': '{seconds}s left',
+  'quiz.selectAll': 'Select all that apply',
+  'quiz.dragOrder': 'Drag the steps into the right order',
+  'quiz.typeAnswer': 'Type your answer',
+  'quiz.closeEnough': 'Close enough - it\'s spelled "{answer}"',
+  'quiz.answer': 'Answer:',
+  'quiz.true': 'True',
+  'quiz.false': 'False',
+  'quiz.hint': 'Hint',
+  'quiz.hintCost': 'Each costs {points} pts and {percent} of the stability bonus',
+  'quiz.hintsLeft': '{count} left',
+  'quiz.submit': 'Submit Answer',
+  'quiz.timesUp': 'Time\'s up!',
+  'quiz.correct': 'Correct!',
+  'quiz.partlyRight': 'Partly right',
+  'quiz.incorrect': 'Incorrect!',
+  'quiz.partialCredit': '{percent} credit · +{points} pts',
+  'quiz.hintsUsed': { one: '{count} hint used', other: '{count} hints used' },
+  'quiz.blitzBonus': '+{points} blitz bonus',
+  'quiz.showDetails': 'Show More Details',
+  'quiz.hideDetails': 'Hide Details',
+  'quiz.tip.title': 'Great Learning!',
+  'quiz.tip.body': 'You\'ve learned an important privacy concept. Keep building your knowledge!',
+
+  // End of game
+  'summary.wins': '{names} wins!',
+  'summary.tie': '{names} tie!',
+  'summary.masterTitle': 'Privacy Master!',
+  'summary.title': 'Game Summary',
+  'summary.everyone': 'Here\'s how everyone did',
+  'summary.completed': 'Congratulations! You\'ve learned all privacy concepts!',
+  'summary.performed': 'Here\'s how you performed',
+  'summary.players': 'Players',
+  'summary.toppled': 'toppled the tower',
+  'summary.playerStats': '{correct}/{answered} correct · best streak {streak}',
+  'summary.categories': { one: '{count} category', other: '{count} categories' },
+  'summary.performance': 'Performance Summary',
+  'summary.totalScore': 'Total Score',
+  'summary.correctAnswers': 'Correct Answers',
+  'summary.blocksRemoved': 'Blocks Removed',
+  'summary.completion': 'Completion',
+  'summary.learningProgress': 'Learning Progress',
+  'summary.learningPath': 'Learning Path',
+  'summary.phaseProgress': '{percent} through {phase} · {completed}/{unlocked} unlocked questions answered correctly',
+  'summary.session': 'Session Statistics',
+  'summary.duration': 'Session Duration:',
+  'summary.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'summary.averageScore': 'Average Score:',
+  'summary.points': { one: '{count} point', other: '{count} points' },
+  'summary.rebuilds': 'Tower Rebuilds:',
+  'summary.finalStability': 'Final Stability:',
+  'summary.achievements': 'Achievements ({unlocked}/{total})',
+  'summary.achievementPoints': { one: '+{count} point', other: '+{count} points' },
+  'summary.master.title': 'Privacy Master',
+  'summary.master.body': 'You\'ve successfully learned all {count} Bitcoin privacy concepts! You\'re now equipped with comprehensive knowledge about Bitcoin privacy.',
+  'summary.playAgain': 'Play Again',
+  'summary.continue': 'Continue Learning',
+
+  // Achievements, by id
+  'achievement.perfect-round.name': 'Perfect Round',
+  'achievement.perfect-round.description': 'Answered all questions correctly in a tower',
+  'achievement.survivor.name': 'Survivor',
+  'achievement.survivor.description': 'Lasted many turns before tower collapse',
+  'achievement.privacy-pro.name': 'Privacy Pro',
+  'achievement.privacy-pro.description': 'Completed all 54 privacy questions',
+  'achievement.fast-thinker.name': 'Fast Thinker',
+  'achievement.fast-thinker.description': 'Answered questions within time limit',
+  'achievement.consecutive-master.name': 'Consecutive Master',
+  'achievement.consecutive-master.description': 'Answered many questions correctly in a row',
+  'achievement.stability-master.name': 'Stability Master',
+  'achievement.stability-master.description': 'Maintained high tower stability throughout',
+  'achievement.category-explorer.name': 'Category Explorer',
+  'achievement.category-explorer.description': 'Explored all privacy categories',
+  'achievement.learning-master.name': 'Learning Master',
+  'achievement.learning-master.description': 'Achieved high learning effectiveness',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+// A translation: every key, in the locale's own words
+export type Catalog = Record<MessageKey, Message>;
+
+export default en;
@@ -0,0 +1,272 @@
+import { Catalog } from './en';
+
+// French interface text
+const fr: Catalog = {
+  'common.close': 'Fermer',
+  'language.label': 'Langue',
+
+  // Game modes, categories, difficulties and learning phases
+  'mode.classic.name': 'Classique',
+  'mode.classic.description': 'Gardez la tour debout. Quand elle tombe, reconstruisez-la et continuez jusqu\'à maîtriser chaque notion.',
+  'mode.sudden-death.name': 'Mort subite',
+  'mode.sudden-death.description': 'Points doublés, mais la première mauvaise réponse fait tomber toute la tour.',
+  'mode.zen.name': 'Zen',
+  'mode.zen.description': 'Ni score ni effondrement - parcourez chaque question à votre rythme.',
+  'mode.category-sprint.name': 'Sprint thématique',
+  'mode.category-sprint.description': 'Une tour courte sur un seul thème. Répondez à toutes les questions de la catégorie pour gagner.',
+  'category.on-chain': 'Confidentialité on-chain',
+  'category.off-chain': 'Solutions off-chain',
+  'category.coin-mixing': 'Mélange de pièces',
+  'category.wallet-setup': 'Configuration du portefeuille',
+  'category.lightning': 'Réseau Lightning',
+  'category.regulatory': 'Réglementation',
+  'category.best-practices': 'Bonnes pratiques',
+  'category.network-privacy': 'Confidentialité réseau',
+  'category.exchange-privacy': 'Confidentialité sur les plateformes d\'échange',
+  'category.api-privacy': 'Confidentialité des API',
+  'category.social-privacy': 'Confidentialité sociale',
+  'category.transaction-security': 'Sécurité des transactions',
+  'category.kyc-privacy': 'Confidentialité et KYC',
+  'category.security': 'Sécurité',
+  'category.physical-privacy': 'Confidentialité physique',
+  'difficulty.easy': 'Facile',
+  'difficulty.medium': 'Moyen',
+  'difficulty.hard': 'Difficile',
+  'phase.foundation': 'Bases',
+  'phase.application': 'Application',
+  'phase.mastery': 'Maîtrise',
+  'blocks.title': 'Types de blocs',
+  'blocks.green': 'Blocs verts',
+  'blocks.orange': 'Blocs orange',
+  'blocks.red': 'Blocs rouges',
+
+  // Home page
+  'home.howToPlay': 'Comment jouer',
+  'home.visitBitsacco': 'Visiter Bitsacco',
+  'home.welcome.close': 'Fermer le message de bienvenue',
+  'home.welcome.title': 'Bienvenue sur Privacy Jenga !',
+  'home.welcome.body': 'Apprenez la confidentialité et la sécurité en ligne en construisant une tour. Chaque bloc contient des connaissances précieuses pour vous protéger en ligne.',
+  'home.hero.title': 'Apprenez la confidentialité',
+  'home.hero.subtitle': 'en jouant',
+  'home.hero.description': 'Maîtrisez les notions de confidentialité et de sécurité en ligne en jouant à Privacy Jenga. Retirez des blocs, répondez aux quiz et développez vos connaissances tout en gardant la tour stable.',
+  'home.modes.title': 'Mode de jeu',
+  'home.modes.best': 'Record : {score}',
+  'home.modes.sprintCategory': 'Catégorie du sprint',
+  'home.modes.sprintOption': { one: '{category} ({count} question)', other: '{category} ({count} questions)' },
+  'home.players.toggle': 'Jeu en local - {min} à {max} joueurs sur cet appareil',
+  'home.players.defaultName': 'Joueur {number}',
+  'home.players.nickname': 'Pseudo du joueur {number}',
+  'home.players.remove': 'Retirer {name}',
+  'home.players.add': '+ Ajouter un joueur',
+  'home.playOnline': 'Jouer en ligne - rejoignez la salle d\'un ami avec son code',
+  'home.start': 'Commencer à jouer',
+  'home.blitz': 'Mode Blitz - battez la montre pour des points bonus',
+  'home.review': 'Mode révision',
+  'home.reviewDue': { one: 'Mode révision - {count} question à revoir', other: 'Mode révision - {count} questions à revoir' },
+  'home.learnHowToPlay': 'Apprendre à jouer',
+  'home.why.title': 'Pourquoi Privacy Jenga ?',
+  'home.why.body': 'Notre approche unique allie divertissement et éducation pour rendre l\'apprentissage de la confidentialité captivant et mémorable.',
+  'home.feature.interactive.title': 'Apprentissage interactif',
+  'home.feature.interactive.body': 'Apprenez par la pratique. Chaque bloc retiré vous enseigne quelque chose de nouveau sur la confidentialité et la sécurité en ligne.',
+  'home.feature.progressive.title': 'Difficulté progressive',
+  'home.feature.progressive.body': 'Commencez par les notions de base et passez à des défis plus complexes à mesure que votre tour de connaissances grandit.',
+  'home.feature.feedback.title': 'Retour immédiat',
+  'home.feature.feedback.body': 'Évaluez immédiatement vos connaissances grâce aux quiz et au score en temps réel.',
+  'home.feature.achievements.title': 'Système de succès',
+  'home.feature.achievements.body': 'Débloquez des succès et suivez vos progrès pour devenir expert en confidentialité.',
+  'home.feature.risk.title': 'Conscience des risques',
+  'home.feature.risk.body': 'Comprenez les vrais risques des mauvaises pratiques et apprenez à vous protéger en ligne.',
+  'home.feature.skills.title': 'Compétences pratiques',
+  'home.feature.skills.body': 'Appliquez aussitôt ce que vous apprenez à vos activités en ligne et à votre sécurité numérique au quotidien.',
+  'home.learning.title': 'Un apprentissage continu',
+  'home.learning.subtitle': 'Maîtrisez la confidentialité par une pratique ininterrompue et progressive',
+  'home.learning.modeTitle': 'Mode apprentissage de Privacy Jenga',
+  'home.learning.modeBody': 'Un apprentissage progressif dont la difficulté s\'adapte à vous. Quand la tour tombe, elle se reconstruit automatiquement pour que vous puissiez continuer à pratiquer, répondre aux quiz et débloquer des succès.',
+  'home.learning.point.1': 'La tour se reconstruit pour un apprentissage sans interruption',
+  'home.learning.point.2': 'Les {count} conseils de confidentialité réunis en une seule expérience',
+  'home.learning.point.3': 'Une progression fondée sur les succès',
+  'home.learning.point.4': 'Une difficulté adaptée à votre niveau',
+  'home.learning.point.5': 'Des quiz interactifs et des défis de confidentialité',
+  'home.learning.start': 'Commencer l\'apprentissage',
+  'home.cta.title': 'Prêt à maîtriser la confidentialité en ligne ?',
+  'home.cta.body': 'Rejoignez les milliers d\'apprenants qui renforcent déjà leur sécurité numérique',
+  'home.cta.start': 'Commencer votre parcours',
+  'home.cta.learnMore': 'En savoir plus',
+  'home.footer.tagline': 'Jeu éducatif sur la confidentialité, propulsé par Bitsacco',
+  'home.footer.about': 'À propos',
+  'home.footer.privacyPolicy': 'Politique de confidentialité',
+  'home.footer.inspiredBy': 'Contenu éducatif inspiré de',
+  'home.footer.authors': 'par Amiti Uttarwar & D++',
+
+  // Help
+  'help.title': 'Aide de Privacy Jenga',
+  'help.overview.title': 'Présentation du jeu',
+  'help.overview.body': 'Privacy Jenga est un jeu éducatif qui enseigne la confidentialité de Bitcoin en retirant des blocs. Découvrez la confidentialité on-chain, les solutions off-chain et les bonnes pratiques tout en gardant la tour stable.',
+  'help.overview.interaction.label': 'Interaction directe :',
+  'help.overview.interaction.text': 'cliquez sur un bloc pour découvrir son contenu',
+  'help.overview.learning.label': 'Apprentissage :',
+  'help.overview.learning.text': 'chaque bloc contient un conseil ou une question de quiz',
+  'help.overview.stability.label': 'Stabilité :',
+  'help.overview.stability.text': 'les mauvaises réponses fragilisent la tour',
+  'help.overview.continuous.label': 'Apprentissage continu :',
+  'help.overview.continuous.text': 'la tour se reconstruit jusqu\'à ce que les {count} notions soient acquises',
+  'help.categories.title': 'Système de catégories',
+  'help.categories.body': 'Le jeu repose sur des catégories : chaque bloc représente une notion de confidentialité.',
+  'help.categories.on-chain': 'CoinJoin, signatures Schnorr, Taproot',
+  'help.categories.off-chain': 'Réseau Lightning, canaux d\'état',
+  'help.categories.coin-mixing': 'Outils et techniques de confidentialité',
+  'help.categories.wallet-setup': 'Réglages de sécurité et de confidentialité',
+  'help.blocks.green': 'Couches du bas - contenu sûr',
+  'help.blocks.orange': 'Couches du milieu - difficulté moyenne',
+  'help.blocks.red': 'Couches du haut - contenu risqué',
+  'help.strategy.title': 'Conseils de stratégie',
+  'help.strategy.category.title': 'Stratégie par catégorie',
+  'help.strategy.category.1': 'Commencez par les catégories pour débutants',
+  'help.strategy.category.2': 'Concentrez-vous sur une catégorie à la fois',
+  'help.strategy.category.3': 'Construisez vos connaissances méthodiquement',
+  'help.strategy.category.4': 'Alternez les catégories pour varier',
+  'help.strategy.tower.title': 'Gestion de la tour',
+  'help.strategy.tower.1': 'Retirez les blocs de façon égale de tous les côtés',
+  'help.strategy.tower.2': 'Évitez les configurations instables',
+  'help.strategy.tower.3': 'Surveillez de près la jauge de stabilité',
+  'help.strategy.tower.4': 'Anticipez vos coups',
+  'help.objectives.title': 'Objectifs pédagogiques',
+  'help.objectives.intro': 'En jouant à Privacy Jenga, vous découvrirez :',
+  'help.objectives.fundamentals.title': 'Les bases de la confidentialité',
+  'help.objectives.fundamentals.1': 'La confidentialité des transactions',
+  'help.objectives.fundamentals.2': 'Comment éviter la réutilisation d\'adresses',
+  'help.objectives.fundamentals.3': 'La résistance à l\'analyse réseau',
+  'help.objectives.advanced.title': 'Techniques avancées',
+  'help.objectives.advanced.1': 'La mise en œuvre de CoinJoin',
+  'help.objectives.advanced.2': 'La confidentialité sur Lightning',
+  'help.objectives.advanced.3': 'La conformité réglementaire',
+  'help.mistakes.title': 'Erreurs courantes',
+  'help.mistakes.categories.title': 'Ignorer les catégories',
+  'help.mistakes.categories.text': 'Vérifiez toujours quelle catégorie est mise en avant',
+  'help.mistakes.rushing.title': 'Aller trop vite',
+  'help.mistakes.rushing.text': 'Prenez le temps de lire et de comprendre le contenu',
+  'help.mistakes.stability.title': 'Ignorer la stabilité',
+  'help.mistakes.stability.text': 'Surveillez la jauge de stabilité et adaptez votre jeu',
+  'help.advanced.title': 'Conseils avancés',
+  'help.advanced.mastery.title': 'Maîtrise des catégories',
+  'help.advanced.mastery.text': 'Maîtrisez entièrement une catégorie avant de passer à la suivante pour mieux retenir',
+  'help.advanced.balance.title': 'Équilibre de la tour',
+  'help.advanced.balance.text': 'Répartissez le poids en retirant des blocs de côtés opposés',
+  'help.controls.title': 'Commandes',
+  'help.controls.mouse.title': 'Souris',
+  'help.controls.click.label': 'Clic :',
+  'help.controls.click.text': 'sélectionner un bloc et interagir avec',
+  'help.controls.hover.label': 'Survol :',
+  'help.controls.hover.text': 'aperçu des informations du bloc',
+  'help.controls.scroll.label': 'Molette :',
+  'help.controls.scroll.text': 'zoomer ou dézoomer sur la tour',
+  'help.controls.keyboard.title': 'Raccourcis clavier',
+  'help.controls.reset': 'Réinitialiser la tour',
+  'help.controls.help': 'Afficher ou masquer l\'aide',
+  'help.controls.escape': 'Fermer les fenêtres',
+  'help.footer': 'Besoin d\'aide ? Consultez le tutoriel ou contactez l\'assistance.',
+  'help.gotIt': 'Compris !',
+
+  // Tutorial
+  'tutorial.title': 'Tutoriel Privacy Jenga',
+  'tutorial.howToPlay.title': 'Comment jouer',
+  'tutorial.howToPlay.1': 'Cliquez sur un bloc de la tour 3D pour découvrir une question sur la confidentialité de Bitcoin',
+  'tutorial.howToPlay.2': 'Répondez correctement pour garder la tour stable',
+  'tutorial.howToPlay.3': 'Les mauvaises réponses réduisent la stabilité et peuvent faire tomber la tour',
+  'tutorial.howToPlay.4': 'Apprenez les {count} notions de confidentialité de Bitcoin grâce aux questions interactives',
+  'tutorial.blocks.green': 'Blocs sûrs',
+  'tutorial.blocks.orange': 'Difficulté moyenne',
+  'tutorial.blocks.red': 'Blocs risqués',
+  'tutorial.mechanics.title': 'Mécanique du jeu',
+  'tutorial.mechanics.1': 'La stabilité de la tour commence à {percent}',
+  'tutorial.mechanics.2': 'Bonnes réponses : +{min} à +{max} de stabilité (selon la difficulté)',
+  'tutorial.mechanics.3': 'Mauvaises réponses : -{min} à -{max} de stabilité (selon la difficulté)',
+  'tutorial.mechanics.4': 'La tour s\'effondre quand la stabilité atteint {percent}',
+  'tutorial.mechanics.5': 'La difficulté s\'adapte à vos résultats',
+  'tutorial.mechanics.6': 'Les questions plus dures rapportent plus, mais coûtent plus cher en cas d\'erreur !',
+  'tutorial.interactive': 'Tutoriel interactif',
+  'tutorial.startGame': 'Lancer la partie',
+
+  // Question modal
+  'quiz.title': 'Quiz confidentialité',
+  'quiz.tipTitle': 'Conseil confidentialité',
+  'quiz.objective': 'Objectif pédagogique',
+  'quiz.challenge': 'Défi quiz',
+  'quiz.timeLeft': 'Encore {seconds} s',
+  'quiz.selectAll': 'Sélectionnez toutes les bonnes réponses',
+  'quiz.dragOrder': 'Faites glisser les étapes dans le bon ordre',
+  'quiz.typeAnswer': 'Saisissez votre réponse',
+  'quiz.closeEnough': 'Presque - cela s\'écrit « {answer} »',
+  'quiz.answer': 'Réponse :',
+  'quiz.true': 'Vrai',
+  'quiz.false': 'Faux',
+  'quiz.hint': 'Indice',
+  'quiz.hintCost': 'Chacun coûte {points} pts et {percent} du bonus de stabilité',
+  'quiz.hintsLeft': { one: '{count} restant', other: '{count} restants' },
+  'quiz.submit': 'Valider la réponse',
+  'quiz.timesUp': 'Temps écoulé !',
+  'quiz.correct': 'Bonne réponse !',
+  'quiz.partlyRight': 'En partie juste',
+  'quiz.incorrect': 'Mauvaise réponse !',
+  'quiz.partialCredit': '{percent} des points · +{points} pts',
+  'quiz.hintsUsed': { one: '{count} indice utilisé', other: '{count} indices utilisés' },
+  'quiz.blitzBonus': '+{points} de bonus blitz',
+  'quiz.showDetails': 'Afficher plus de détails',
+  'quiz.hideDetails': 'Masquer les détails',
+  'quiz.tip.title': 'Bien joué !',
+  'quiz.tip.body': 'Vous avez appris une notion importante de confidentialité. Continuez à bâtir vos connaissances !',
+
+  // End of game
+  'summary.wins': '{names} gagne !',
+  'summary.tie': '{names} à égalité !',
+  'summary.masterTitle': 'Maître de la confidentialité !',
+  'summary.title': 'Résumé de la partie',
+  'summary.everyone': 'Voici les résultats de chacun',
+  'summary.completed': 'Félicitations ! Vous avez appris toutes les notions de confidentialité !',
+  'summary.performed': 'Voici vos résultats',
+  'summary.players': 'Joueurs',
+  'summary.toppled': 'a fait tomber la tour',
+  'summary.playerStats': '{correct}/{answered} bonnes réponses · meilleure série {streak}',
+  'summary.categories': { one: '{count} catégorie', other: '{count} catégories' },
+  'summary.performance': 'Bilan des performances',
+  'summary.totalScore': 'Score total',
+  'summary.correctAnswers': 'Bonnes réponses',
+  'summary.blocksRemoved': 'Blocs retirés',
+  'summary.completion': 'Progression',
+  'summary.learningProgress': 'Progrès d\'apprentissage',
+  'summary.learningPath': 'Parcours d\'apprentissage',
+  'summary.phaseProgress': '{percent} de la phase {phase} · {completed}/{unlocked} questions débloquées réussies',
+  'summary.session': 'Statistiques de la session',
+  'summary.duration': 'Durée de la session :',
+  'summary.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'summary.averageScore': 'Score moyen :',
+  'summary.points': { one: '{count} point', other: '{count} points' },
+  'summary.rebuilds': 'Reconstructions de la tour :',
+  'summary.finalStability': 'Stabilité finale :',
+  'summary.achievements': 'Succès ({unlocked}/{total})',
+  'summary.achievementPoints': { one: '+{count} point', other: '+{count} points' },
+  'summary.master.title': 'Maître de la confidentialité',
+  'summary.master.body': 'Vous avez appris les {count} notions de confidentialité de Bitcoin ! Vous disposez désormais de solides connaissances sur la confidentialité de Bitcoin.',
+  'summary.playAgain': 'Rejouer',
+  'summary.continue': 'Continuer à apprendre',
+
+  // Achievements, by id
+  'achievement.perfect-round.name': 'Sans faute',
+  'achievement.perfect-round.description': 'Toutes les questions d\'une tour réussies',
+  'achievement.survivor.name': 'Survivant',
+  'achievement.survivor.description': 'De nombreux tours joués avant l\'effondrement',
+  'achievement.privacy-pro.name': 'Pro de la confidentialité',
+  'achievement.privacy-pro.description': 'Les 54 questions de confidentialité terminées',
+  'achievement.fast-thinker.name': 'Esprit vif',
+  'achievement.fast-thinker.description': 'Réponses données dans le temps imparti',
+  'achievement.consecutive-master.name': 'Série parfaite',
+  'achievement.consecutive-master.description': 'De nombreuses bonnes réponses d\'affilée',
+  'achievement.stability-master.name': 'Maître de la stabilité',
+  'achievement.stability-master.description': 'Une tour restée très stable tout du long',
+  'achievement.category-explorer.name': 'Explorateur',
+  'achievement.category-explorer.description': 'Toutes les catégories de confidentialité explorées',
+  'achievement.learning-master.name': 'Maître de l\'apprentissage',
+  'achievement.learning-master.description': 'Une excellente efficacité d\'apprentissage',
+};
+
+export default fr;
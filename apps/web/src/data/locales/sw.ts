@@ -0,0 +1,272 @@
+import { Catalog } from './en';
+
+// Swahili interface text
+const sw: Catalog = {
+  'common.close': 'Funga',
+  'language.label': 'Lugha',
+
+  // Game modes, categories, difficulties and learning phases
+  'mode.classic.name': 'Kawaida',
+  'mode.classic.description': 'Weka mnara usimame. Ukianguka, ujenge upya na uendelee hadi ujifunze kila dhana.',
+  'mode.sudden-death.name': 'Kifo cha Ghafla',
+  'mode.sudden-death.description': 'Alama mara mbili, lakini jibu la kwanza lisilo sahihi linaangusha mnara mzima.',
+  'mode.zen.name': 'Zen',
+  'mode.zen.description': 'Hakuna alama wala kuanguka - pitia kila swali kwa mwendo wako.',
+  'mode.category-sprint.name': 'Mbio za Kundi',
+  'mode.category-sprint.description': 'Mnara mfupi wa mada moja. Jibu kila swali la kundi hilo ili kushinda.',
+  'category.on-chain': 'Faragha ndani ya blockchain',
+  'category.off-chain': 'Suluhisho nje ya blockchain',
+  'category.coin-mixing': 'Kuchanganya sarafu',
+  'category.wallet-setup': 'Kuandaa pochi',
+  'category.lightning': 'Mtandao wa Lightning',
+  'category.regulatory': 'Sheria na kanuni',
+  'category.best-practices': 'Mbinu bora',
+  'category.network-privacy': 'Faragha ya mtandao',
+  'category.exchange-privacy': 'Faragha kwenye soko la kubadilisha',
+  'category.api-privacy': 'Faragha ya API',
+  'category.social-privacy': 'Faragha ya kijamii',
+  'category.transaction-security': 'Usalama wa miamala',
+  'category.kyc-privacy': 'Faragha na KYC',
+  'category.security': 'Usalama',
+  'category.physical-privacy': 'Faragha ya kimwili',
+  'difficulty.easy': 'Rahisi',
+  'difficulty.medium': 'Wastani',
+  'difficulty.hard': 'Ngumu',
+  'phase.foundation': 'Msingi',
+  'phase.application': 'Matumizi',
+  'phase.mastery': 'Ustadi',
+  'blocks.title': 'Aina za Matofali',
+  'blocks.green': 'Matofali ya Kijani',
+  'blocks.orange': 'Matofali ya Machungwa',
+  'blocks.red': 'Matofali Mekundu',
+
+  // Home page
+  'home.howToPlay': 'Jinsi ya Kucheza',
+  'home.visitBitsacco': 'Tembelea Bitsacco',
+  'home.welcome.close': 'Funga ujumbe wa karibu',
+  'home.welcome.title': 'Karibu Privacy Jenga!',
+  'home.welcome.body': 'Jifunze faragha na usalama mtandaoni kwa kujenga mnara. Kila tofali lina maarifa muhimu ya kujilinda mtandaoni.',
+  'home.hero.title': 'Jifunze Faragha Kupitia',
+  'home.hero.subtitle': 'Mchezo Shirikishi',
+  'home.hero.description': 'Jua dhana za faragha na usalama mtandaoni kwa kucheza Privacy Jenga. Ondoa matofali, jibu maswali, na ujenge maarifa yako huku mnara ukibaki imara.',
+  'home.modes.title': 'Aina ya Mchezo',
+  'home.modes.best': 'Bora: {score}',
+  'home.modes.sprintCategory': 'Kundi la mbio',
+  'home.modes.sprintOption': { one: '{category} (swali {count})', other: '{category} (maswali {count})' },
+  'home.players.toggle': 'Cheza kwa Zamu - wachezaji {min}-{max} kwenye kifaa hiki',
+  'home.players.defaultName': 'Mchezaji {number}',
+  'home.players.nickname': 'Jina la mchezaji {number}',
+  'home.players.remove': 'Ondoa {name}',
+  'home.players.add': '+ Ongeza mchezaji',
+  'home.playOnline': 'Cheza Mtandaoni - ingia chumba cha rafiki kwa msimbo',
+  'home.start': 'Anza Kucheza Sasa',
+  'home.blitz': 'Hali ya Blitz - shinda saa upate alama za ziada',
+  'home.review': 'Hali ya Marudio',
+  'home.reviewDue': { one: 'Hali ya Marudio - swali {count} la kurudia', other: 'Hali ya Marudio - maswali {count} ya kurudia' },
+  'home.learnHowToPlay': 'Jifunze Jinsi ya Kucheza',
+  'home.why.title': 'Kwa Nini Privacy Jenga?',
+  'home.why.body': 'Mbinu yetu ya kipekee inachanganya burudani na elimu, na kufanya kujifunza faragha kuvutie na kukumbukwa.',
+  'home.feature.interactive.title': 'Kujifunza kwa Vitendo',
+  'home.feature.interactive.body': 'Jifunze kwa kufanya. Kila tofali unaloondoa linakufundisha jambo jipya kuhusu faragha na usalama mtandaoni.',
+  'home.feature.progressive.title': 'Ugumu wa Hatua kwa Hatua',
+  'home.feature.progressive.body': 'Anza na dhana za msingi kisha endelea na changamoto ngumu zaidi za faragha unapojenga mnara wako wa maarifa.',
+  'home.feature.feedback.title': 'Majibu ya Papo Hapo',
+  'home.feature.feedback.body': 'Pata mrejesho wa haraka kuhusu maarifa yako ya faragha kupitia maswali na alama za papo hapo.',
+  'home.feature.achievements.title': 'Mfumo wa Mafanikio',
+  'home.feature.achievements.body': 'Fungua mafanikio na ufuatilie maendeleo yako unapokuwa mtaalamu wa faragha.',
+  'home.feature.risk.title': 'Kutambua Hatari',
+  'home.feature.risk.body': 'Elewa hatari halisi za kupuuza faragha na ujifunze jinsi ya kujilinda mtandaoni.',
+  'home.feature.skills.title': 'Ujuzi wa Vitendo',
+  'home.feature.skills.body': 'Tumia mara moja unachojifunza katika shughuli zako za kila siku mtandaoni na usalama wako wa kidijitali.',
+  'home.learning.title': 'Kujifunza Bila Kukatizwa',
+  'home.learning.subtitle': 'Jua dhana za faragha kwa mazoezi yasiyokatizwa na kujifunza hatua kwa hatua',
+  'home.learning.modeTitle': 'Hali ya Kujifunza ya Privacy Jenga',
+  'home.learning.modeBody': 'Kujifunza hatua kwa hatua kwa ugumu unaojirekebisha. Mnara ukianguka, unajijenga upya wenyewe ili uendelee kufanya mazoezi, kujibu maswali na kufungua mafanikio.',
+  'home.learning.point.1': 'Mnara hujijenga upya ili kujifunza kusikatizwe',
+  'home.learning.point.2': 'Vidokezo vyote {count} vya faragha mahali pamoja',
+  'home.learning.point.3': 'Maendeleo yanayotegemea mafanikio',
+  'home.learning.point.4': 'Ugumu unaolingana na kiwango chako',
+  'home.learning.point.5': 'Maswali shirikishi na changamoto za faragha',
+  'home.learning.start': 'Anza Safari ya Kujifunza',
+  'home.cta.title': 'Uko Tayari Kujua Faragha Mtandaoni?',
+  'home.cta.body': 'Jiunge na maelfu ya wanafunzi ambao tayari wanaboresha usalama wao wa kidijitali',
+  'home.cta.start': 'Anza Safari Yako ya Faragha',
+  'home.cta.learnMore': 'Jifunze Zaidi',
+  'home.footer.tagline': 'Mchezo wa kielimu kuhusu faragha, unaoletwa na Bitsacco',
+  'home.footer.about': 'Kuhusu',
+  'home.footer.privacyPolicy': 'Sera ya Faragha',
+  'home.footer.inspiredBy': 'Maudhui ya kielimu yamehamasishwa na',
+  'home.footer.authors': 'ya Amiti Uttarwar & D++',
+
+  // Help
+  'help.title': 'Msaada wa Privacy Jenga',
+  'help.overview.title': 'Muhtasari wa Mchezo',
+  'help.overview.body': 'Privacy Jenga ni mchezo wa kielimu unaofundisha dhana za faragha za Bitcoin kwa kuondoa matofali. Jifunze kuhusu faragha ndani ya blockchain, suluhisho nje ya blockchain na mbinu bora huku ukiweka mnara imara.',
+  'help.overview.interaction.label': 'Kugusa Moja kwa Moja:',
+  'help.overview.interaction.text': 'Bofya tofali lolote kuona maudhui yake',
+  'help.overview.learning.label': 'Kujifunza:',
+  'help.overview.learning.text': 'Kila tofali lina kidokezo cha faragha au swali',
+  'help.overview.stability.label': 'Uimara:',
+  'help.overview.stability.text': 'Majibu yasiyo sahihi hupunguza uimara wa mnara',
+  'help.overview.continuous.label': 'Kujifunza Bila Kukatizwa:',
+  'help.overview.continuous.text': 'Mnara hujengwa upya hadi dhana zote {count} zijulikane',
+  'help.categories.title': 'Mfumo wa Makundi',
+  'help.categories.body': 'Mchezo unatumia makundi, ambapo matofali tofauti yanawakilisha dhana tofauti za faragha:',
+  'help.categories.on-chain': 'CoinJoin, sahihi za Schnorr, Taproot',
+  'help.categories.off-chain': 'Mtandao wa Lightning, chaneli za hali',
+  'help.categories.coin-mixing': 'Zana na mbinu za faragha',
+  'help.categories.wallet-setup': 'Mipangilio ya usalama na faragha',
+  'help.blocks.green': 'Tabaka za chini - maudhui salama',
+  'help.blocks.orange': 'Tabaka za kati - ugumu wa wastani',
+  'help.blocks.red': 'Tabaka za juu - maudhui hatari',
+  'help.strategy.title': 'Vidokezo vya Mbinu',
+  'help.strategy.category.title': 'Mbinu ya Makundi',
+  'help.strategy.category.1': 'Anza na makundi ya wanaoanza',
+  'help.strategy.category.2': 'Zingatia kundi moja kwa wakati',
+  'help.strategy.category.3': 'Jenga maarifa kwa utaratibu',
+  'help.strategy.category.4': 'Badilisha makundi upate utofauti',
+  'help.strategy.tower.title': 'Kusimamia Mnara',
+  'help.strategy.tower.1': 'Ondoa matofali kwa usawa kutoka pande zote',
+  'help.strategy.tower.2': 'Epuka kuacha mnara katika hali isiyo imara',
+  'help.strategy.tower.3': 'Fuatilia kipimo cha uimara kwa makini',
+  'help.strategy.tower.4': 'Panga hatua zako mapema',
+  'help.objectives.title': 'Malengo ya Kujifunza',
+  'help.objectives.intro': 'Kwa kucheza Privacy Jenga, utajifunza kuhusu:',
+  'help.objectives.fundamentals.title': 'Misingi ya Faragha',
+  'help.objectives.fundamentals.1': 'Faragha ya miamala',
+  'help.objectives.fundamentals.2': 'Kuepuka kutumia anwani moja mara kwa mara',
+  'help.objectives.fundamentals.3': 'Kujikinga na uchambuzi wa mtandao',
+  'help.objectives.advanced.title': 'Mbinu za Juu',
+  'help.objectives.advanced.1': 'Kutumia CoinJoin',
+  'help.objectives.advanced.2': 'Faragha kwenye Lightning',
+  'help.objectives.advanced.3': 'Kufuata sheria na kanuni',
+  'help.mistakes.title': 'Makosa ya Kawaida',
+  'help.mistakes.categories.title': 'Kupuuza Makundi',
+  'help.mistakes.categories.text': 'Angalia kila mara ni kundi gani limeangaziwa',
+  'help.mistakes.rushing.title': 'Kuharakisha',
+  'help.mistakes.rushing.text': 'Chukua muda kusoma na kuelewa maudhui',
+  'help.mistakes.stability.title': 'Kupuuza Uimara',
+  'help.mistakes.stability.text': 'Angalia kipimo cha uimara na upange ipasavyo',
+  'help.advanced.title': 'Vidokezo vya Juu',
+  'help.advanced.mastery.title': 'Ustadi wa Makundi',
+  'help.advanced.mastery.text': 'Jua kundi moja kikamilifu kabla ya kuhamia jingine ili ukumbuke vizuri zaidi',
+  'help.advanced.balance.title': 'Usawa wa Mnara',
+  'help.advanced.balance.text': 'Gawa uzito sawasawa kwa kuondoa matofali kutoka pande zinazokabiliana',
+  'help.controls.title': 'Vidhibiti vya Mchezo',
+  'help.controls.mouse.title': 'Vidhibiti vya Kipanya',
+  'help.controls.click.label': 'Bofya:',
+  'help.controls.click.text': 'Chagua na utumie matofali',
+  'help.controls.hover.label': 'Elea juu:',
+  'help.controls.hover.text': 'Onyesha taarifa za tofali',
+  'help.controls.scroll.label': 'Sogeza:',
+  'help.controls.scroll.text': 'Kuza au punguza ukubwa wa mnara',
+  'help.controls.keyboard.title': 'Njia za Mkato za Kibodi',
+  'help.controls.reset': 'Anzisha mnara upya',
+  'help.controls.help': 'Onyesha au ficha msaada',
+  'help.controls.escape': 'Funga madirisha',
+  'help.footer': 'Unahitaji msaada zaidi? Angalia mafunzo au wasiliana na timu ya msaada.',
+  'help.gotIt': 'Nimeelewa!',
+
+  // Tutorial
+  'tutorial.title': 'Mafunzo ya Privacy Jenga',
+  'tutorial.howToPlay.title': 'Jinsi ya Kucheza',
+  'tutorial.howToPlay.1': 'Bofya tofali lolote kwenye mnara wa 3D kuona swali kuhusu faragha ya Bitcoin',
+  'tutorial.howToPlay.2': 'Jibu swali kwa usahihi ili mnara ubaki imara',
+  'tutorial.howToPlay.3': 'Majibu yasiyo sahihi hupunguza uimara na yanaweza kuangusha mnara',
+  'tutorial.howToPlay.4': 'Jifunze dhana zote {count} za faragha ya Bitcoin kupitia maswali shirikishi',
+  'tutorial.blocks.green': 'Matofali salama',
+  'tutorial.blocks.orange': 'Ugumu wa wastani',
+  'tutorial.blocks.red': 'Matofali hatari',
+  'tutorial.mechanics.title': 'Kanuni za Mchezo',
+  'tutorial.mechanics.1': 'Uimara wa mnara unaanzia {percent}',
+  'tutorial.mechanics.2': 'Majibu sahihi: uimara +{min} hadi +{max} (kulingana na ugumu)',
+  'tutorial.mechanics.3': 'Majibu yasiyo sahihi: uimara -{min} hadi -{max} (kulingana na ugumu)',
+  'tutorial.mechanics.4': 'Mnara huanguka uimara ukifika {percent}',
+  'tutorial.mechanics.5': 'Ugumu hubadilika kulingana na matokeo yako',
+  'tutorial.mechanics.6': 'Maswali magumu zaidi yana zawadi kubwa lakini pia adhabu kubwa!',
+  'tutorial.interactive': 'Mafunzo Shirikishi',
+  'tutorial.startGame': 'Anza Mchezo',
+
+  // Question modal
+  'quiz.title': 'Swali la Faragha',
+  'quiz.tipTitle': 'Kidokezo cha Faragha',
+  'quiz.objective': 'Lengo la Kujifunza',
+  'quiz.challenge': 'Changamoto ya Swali',
+  'quiz.timeLeft': 'Zimebaki sekunde {seconds}',
+  'quiz.selectAll': 'Chagua yote yanayofaa',
+  'quiz.dragOrder': 'Buruta hatua ziwe katika mpangilio sahihi',
+  'quiz.typeAnswer': 'Andika jibu lako',
+  'quiz.closeEnough': 'Karibu sana - linaandikwa "{answer}"',
+  'quiz.answer': 'Jibu:',
+  'quiz.true': 'Kweli',
+  'quiz.false': 'Si kweli',
+  'quiz.hint': 'Kidokezo',
+  'quiz.hintCost': 'Kila kimoja kinagharimu alama {points} na {percent} ya bonasi ya uimara',
+  'quiz.hintsLeft': { one: 'kimebaki {count}', other: 'vimebaki {count}' },
+  'quiz.submit': 'Wasilisha Jibu',
+  'quiz.timesUp': 'Muda umekwisha!',
+  'quiz.correct': 'Sahihi!',
+  'quiz.partlyRight': 'Sahihi kwa sehemu',
+  'quiz.incorrect': 'Si sahihi!',
+  'quiz.partialCredit': 'Alama {percent} · +{points}',
+  'quiz.hintsUsed': { one: 'Kidokezo {count} kimetumika', other: 'Vidokezo {count} vimetumika' },
+  'quiz.blitzBonus': '+{points} bonasi ya blitz',
+  'quiz.showDetails': 'Onyesha Maelezo Zaidi',
+  'quiz.hideDetails': 'Ficha Maelezo',
+  'quiz.tip.title': 'Umejifunza Vizuri!',
+  'quiz.tip.body': 'Umejifunza dhana muhimu ya faragha. Endelea kujenga maarifa yako!',
+
+  // End of game
+  'summary.wins': '{names} ameshinda!',
+  'summary.tie': '{names} wamefungana!',
+  'summary.masterTitle': 'Bingwa wa Faragha!',
+  'summary.title': 'Muhtasari wa Mchezo',
+  'summary.everyone': 'Haya ndiyo matokeo ya kila mtu',
+  'summary.completed': 'Hongera! Umejifunza dhana zote za faragha!',
+  'summary.performed': 'Haya ndiyo matokeo yako',
+  'summary.players': 'Wachezaji',
+  'summary.toppled': 'aliangusha mnara',
+  'summary.playerStats': 'sahihi {correct}/{answered} · mfululizo bora {streak}',
+  'summary.categories': { one: 'kundi {count}', other: 'makundi {count}' },
+  'summary.performance': 'Muhtasari wa Matokeo',
+  'summary.totalScore': 'Jumla ya Alama',
+  'summary.correctAnswers': 'Majibu Sahihi',
+  'summary.blocksRemoved': 'Matofali Yaliyoondolewa',
+  'summary.completion': 'Ukamilishaji',
+  'summary.learningProgress': 'Maendeleo ya Kujifunza',
+  'summary.learningPath': 'Njia ya Kujifunza',
+  'summary.phaseProgress': '{percent} ya hatua ya {phase} · {completed}/{unlocked} ya maswali yaliyofunguliwa yamejibiwa sahihi',
+  'summary.session': 'Takwimu za Kipindi',
+  'summary.duration': 'Muda wa Kipindi:',
+  'summary.minutes': { one: 'dakika {count}', other: 'dakika {count}' },
+  'summary.averageScore': 'Wastani wa Alama:',
+  'summary.points': { one: 'alama {count}', other: 'alama {count}' },
+  'summary.rebuilds': 'Mara Mnara Ulijengwa Upya:',
+  'summary.finalStability': 'Uimara wa Mwisho:',
+  'summary.achievements': 'Mafanikio ({unlocked}/{total})',
+  'summary.achievementPoints': { one: 'alama +{count}', other: 'alama +{count}' },
+  'summary.master.title': 'Bingwa wa Faragha',
+  'summary.master.body': 'Umefanikiwa kujifunza dhana zote {count} za faragha ya Bitcoin! Sasa una maarifa kamili kuhusu faragha ya Bitcoin.',
+  'summary.playAgain': 'Cheza Tena',
+  'summary.continue': 'Endelea Kujifunza',
+
+  // Achievements, by id
+  'achievement.perfect-round.name': 'Mzunguko Kamili',
+  'achievement.perfect-round.description': 'Umejibu maswali yote ya mnara kwa usahihi',
+  'achievement.survivor.name': 'Mstahimilivu',
+  'achievement.survivor.description': 'Umecheza zamu nyingi kabla mnara haujaanguka',
+  'achievement.privacy-pro.name': 'Mtaalamu wa Faragha',
+  'achievement.privacy-pro.description': 'Umekamilisha maswali yote 54 ya faragha',
+  'achievement.fast-thinker.name': 'Mwepesi wa Kufikiri',
+  'achievement.fast-thinker.description': 'Umejibu maswali ndani ya muda',
+  'achievement.consecutive-master.name': 'Bingwa wa Mfululizo',
+  'achievement.consecutive-master.description': 'Umejibu maswali mengi sahihi mfululizo',
+  'achievement.stability-master.name': 'Bingwa wa Uimara',
+  'achievement.stability-master.description': 'Umeweka mnara imara muda wote',
+  'achievement.category-explorer.name': 'Mvumbuzi wa Makundi',
+  'achievement.category-explorer.description': 'Umechunguza makundi yote ya faragha',
+  'achievement.learning-master.name': 'Bingwa wa Kujifunza',
+  'achievement.learning-master.description': 'Umefikia ufanisi wa juu wa kujifunza',
+};
+
+export default sw;
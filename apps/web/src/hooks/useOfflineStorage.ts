@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { CachedQuestionBank } from '../types';
 
 interface OfflineStorage {
   saveGameState: (gameState: any) => Promise<void>;
@@ -6,6 +7,8 @@ interface OfflineStorage {
   saveProgress: (progress: any) => Promise<void>;
   loadProgress: () => Promise<any>;
   queueAnalytics: (data: any) => Promise<void>;
+  saveQuestionBank: (bank: CachedQuestionBank) => Promise<void>;
+  loadQuestionBank: () => Promise<CachedQuestionBank | null>;
   clearStorage: () => Promise<void>;
   isOnline: boolean;
   storageQuota: {
@@ -31,7 +34,7 @@ export const useOfflineStorage = (): OfflineStorage => {
 
   // Database name and version
   const DB_NAME = 'PrivacyJengaDB';
-  const DB_VERSION = 1;
+  const DB_VERSION = 2;
 
   // Initialize IndexedDB
   const initDB = (): Promise<IDBDatabase> => {
@@ -64,6 +67,10 @@ export const useOfflineStorage = (): OfflineStorage => {
         if (!db.objectStoreNames.contains('settings')) {
           db.createObjectStore('settings', { keyPath: 'key' });
         }
+
+        if (!db.objectStoreNames.contains('content')) {
+          db.createObjectStore('content', { keyPath: 'id' });
+        }
       };
     });
   };
@@ -125,6 +132,16 @@ export const useOfflineStorage = (): OfflineStorage => {
     return await loadData('progress', 'user');
   };
 
+  // Save the content API's question set, with its ETag
+  const saveQuestionBank = async (bank: CachedQuestionBank): Promise<void> => {
+    await saveData('content', bank, 'questionBank');
+  };
+
+  // Load the cached question set
+  const loadQuestionBank = async (): Promise<CachedQuestionBank | null> => {
+    return await loadData('content', 'questionBank');
+  };
+
   // Queue analytics data for later sync
   const queueAnalytics = async (data: any): Promise<void> => {
     try {
@@ -149,7 +166,7 @@ export const useOfflineStorage = (): OfflineStorage => {
   const clearStorage = async (): Promise<void> => {
     try {
       const db = await initDB();
-      const storeNames = ['gameState', 'progress', 'analytics', 'settings'];
+      const storeNames = ['gameState', 'progress', 'analytics', 'settings', 'content'];
       
       const transaction = db.transaction(storeNames, 'readwrite');
       
@@ -253,6 +270,8 @@ export const useOfflineStorage = (): OfflineStorage => {
     saveProgress,
     loadProgress,
     queueAnalytics,
+    saveQuestionBank,
+    loadQuestionBank,
     clearStorage,
     isOnline,
     storageQuota,
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+import { QuestionBankInfo } from '../types';
+import { getQuestionBankInfo, loadQuestionBank, subscribeToQuestionBank } from '../services/questionBank';
+import questionPackStore from '../services/questionPackStore';
+import { useOfflineStorage } from './useOfflineStorage';
+
+const API_URL: string = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Loaded once per change of connection, however many components ask
+let loadedWhileOnline: boolean | null = null;
+let packsApplied = false;
+
+// Keeps the question bank in step with the content API - loading it on first use and
+// again whenever the connection changes, with the player's question packs - and answers which set is in play
+export const useQuestionBank = (): QuestionBankInfo => {
+  const storage = useOfflineStorage();
+  const storageRef = useRef(storage);
+  storageRef.current = storage;
+  const [info, setInfo] = useState(getQuestionBankInfo);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToQuestionBank(setInfo);
+    if (!packsApplied) {
+      packsApplied = true;
+      questionPackStore.apply();
+    }
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (loadedWhileOnline === storage.isOnline) return;
+    loadedWhileOnline = storage.isOnline;
+    loadQuestionBank({
+      apiUrl: API_URL,
+      cache: {
+        load: () => storageRef.current.loadQuestionBank(),
+        save: bank => storageRef.current.saveQuestionBank(bank),
+      },
+    });
+  }, [storage.isOnline]);
+
+  return info;
+};
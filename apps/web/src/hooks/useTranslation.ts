@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Locale, MessageParams } from '../types';
+import { MessageKey } from '../data/locales/en';
+import { formatNumber, formatPercent, getLocale, setLocale, subscribeToLocale, translate } from '../services/i18n';
+
+// Interface text in the current locale; components re-render when the player switches language
+export const useTranslation = () => {
+  const [locale, setCurrent] = useState<Locale>(getLocale);
+
+  useEffect(() => subscribeToLocale(setCurrent), []);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(key, params, locale), [locale]);
+  const number = useCallback((value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, options, locale), [locale]);
+  const percent = useCallback((value: number) => formatPercent(value, locale), [locale]);
+
+  return { locale, t, formatNumber: number, formatPercent: percent, setLocale };
+};
@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   ArrowLeft, 
   BarChart3, 
@@ -14,6 +15,7 @@ import GameHelp from '../components/GameHelp';
 import GameTutorial from '../components/GameTutorial';
 import GameStats from '../components/GameStats';
 import EndgameSummary from '../components/EndgameSummary';
+import TurnHandoff from '../components/TurnHandoff';
 import { MobileControls } from '../components/mobile/MobileControls';
 import { MobileGestureTutorial } from '../components/mobile/MobileGestureTutorial';
 import SoundSettings from '../components/SoundSettings';
@@ -24,9 +26,18 @@ import { useResponsiveDesign } from '../hooks/useResponsiveDesign';
 
 // Import enhanced game service and sound manager
 import enhancedGameService from '../services/simplifiedGameService';
+import { DEFAULT_SETTINGS, withBlitzMode } from '../services/gameReducer';
+import reviewScheduleStore from '../services/spacedRepetition';
 import soundManager from '../services/soundManager';
 import analyticsService from '../services/analyticsService';
-import { Block, BlockContent, GameState, Achievement } from '../types';
+import { Block, BlockContent, GameState, Achievement, HintKind, QuizAnswer, StabilityZone } from '../types';
+import { parseSeed } from '../utils/random';
+import { serializeReplay } from '../services/gameReplay';
+import { getGameMode, parseGameMode } from '../services/gameModes';
+import { parseTowerSpec } from '../services/towerSpec';
+import { getTurnPlayer, parseHotSeatNames } from '../services/hotSeat';
+import gameResultStore, { createGameResult } from '../services/gameResults';
+import networkedGameController from '../services/networkedGame';
 
 // Error Boundary Component to prevent crashes
 class GameErrorBoundary extends React.Component<
@@ -62,6 +73,13 @@ class GameErrorBoundary extends React.Component<
             >
               Reload Game
             </button>
+            <button
+              onClick={() => navigator.clipboard?.writeText(serializeReplay(enhancedGameService.getReplayLog()))}
+              className="block mx-auto mt-3 text-blue-300 hover:underline text-sm"
+              title="Copy a replay of this game to attach to a bug report"
+            >
+              Copy game replay
+            </button>
             <div className="mt-4 text-xs text-gray-400">
               Error: {this.state.error?.message}
             </div>
@@ -85,6 +103,8 @@ const GamePage: React.FC = () => {
   const [showEndgameSummary, setShowEndgameSummary] = useState(false);
   const [showQuickHelp, setShowQuickHelp] = useState(false);
   const [selectedBlockId, setSelectedBlockId] = useState<string | undefined>(undefined);
+  // Pass-and-play: cover the tower until the next player has the device
+  const [awaitingHandoff, setAwaitingHandoff] = useState(false);
   
   // Quiz system state
   const [showQuiz, setShowQuiz] = useState(false);
@@ -92,6 +112,9 @@ const GamePage: React.FC = () => {
   // Achievement notification state
   const [showAchievementNotification, setShowAchievementNotification] = useState(false);
   const [lastAchievement, setLastAchievement] = useState<Achievement | null>(null);
+
+  // Stability warning raised by StabilityZoneChanged events
+  const [stabilityAlert, setStabilityAlert] = useState<StabilityZone | null>(null);
   
   // Sound settings state
   const [showSoundSettings, setShowSoundSettings] = useState(false);
@@ -104,11 +127,150 @@ const GamePage: React.FC = () => {
   const [showGestureTutorial, setShowGestureTutorial] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Optional shared seed (e.g. /game?seed=4821) so a whole class gets the same tower
+  const [searchParams] = useSearchParams();
+  const requestedSeed = parseSeed(searchParams.get('seed'));
+  // Variants apply on top of any game mode, so they get their own param
+  // Blitz (/game?variant=blitz) - short clock, leftover seconds become points
+  const variant = searchParams.get('variant');
+  const isBlitz = variant === 'blitz';
+  const gameSettings = useMemo(() => isBlitz ? withBlitzMode(DEFAULT_SETTINGS) : DEFAULT_SETTINGS, [isBlitz]);
+  // Review (/game?variant=review) - the tower leads with questions from the spaced-repetition schedule
+  const isReview = variant === 'review';
+  // Game mode (/game?mode=sudden-death, /game?mode=category-sprint&category=on-chain) - Classic otherwise
+  const modeParam = searchParams.get('mode');
+  const categoryParam = searchParams.get('category');
+  const gameMode = useMemo(() => parseGameMode(modeParam, categoryParam), [modeParam, categoryParam]);
+  const modeInfo = getGameMode(gameMode.id);
+  // ?tower=workshop|tall swaps the mode's tower for another registered one
+  const towerSpec = parseTowerSpec(searchParams.get('tower'));
+  // Pass and play (/game?players=Ann,Ben,Cy) - 2-6 players take turns on one device
+  const playersParam = searchParams.get('players');
+  const hotSeatNames = useMemo(() => parseHotSeatNames(playersParam), [playersParam]);
+  // Online room (/game?room=<id>, opened from the lobby) - the game is already running
+  // and moves go through the networked controller, which only lets us play on our turn
+  const roomId = searchParams.get('room');
+  const moves = roomId ? networkedGameController : enhancedGameService;
+  const [roomNotice, setRoomNotice] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const getReviewQueue = useCallback((includeUpcoming: boolean) => {
+    return reviewScheduleStore.getReviewQueue(Date.now(), { includeUpcoming });
+  }, []);
+
+  // React to domain events from the game core - sound, analytics and notifications
+  useEffect(() => {
+    let achievementTimer: ReturnType<typeof setTimeout> | undefined;
+    let stabilityTimer: ReturnType<typeof setTimeout> | undefined;
+    let summaryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = enhancedGameService.subscribe((event, state) => {
+      // In online rooms, other players' answers and the games they end aren't this player's to keep
+      const isLocalMove = !networkedGameController.isPlayingRemoteMove();
+
+      switch (event.type) {
+        case 'QuestionAnswered':
+          // Missed questions come back in later towers and visits
+          if (isLocalMove) {
+            reviewScheduleStore.recordAnswer(event.result);
+          }
+          if (event.result.isCorrect) {
+            soundManager.playCorrectAnswer();
+          } else {
+            soundManager.playWrongAnswer();
+          }
+          analyticsService.trackGameEvent(
+            'question_answered',
+            event.result.outcome,
+            event.result.pointsEarned
+          );
+          break;
+
+        case 'HintRevealed':
+          // Labelled by question so we can see which questions need hints most
+          analyticsService.trackGameEvent(`hint_${event.reveal.kind}`, event.reveal.questionId, event.reveal.hintsUsed);
+          break;
+
+        case 'LearningPhaseAdvanced':
+          // New question types are dealt from the next tower on
+          soundManager.playAchievementUnlock();
+          analyticsService.trackGameEvent('learning_phase_advanced', event.to);
+          console.log(`🎓 Learning phase: ${event.from} → ${event.to}`);
+          break;
+
+        case 'AchievementUnlocked':
+          setLastAchievement(event.achievement);
+          setShowAchievementNotification(true);
+          soundManager.playAchievementUnlock();
+          analyticsService.trackGameEvent('achievement_unlocked', event.achievement.id, event.achievement.points);
+          clearTimeout(achievementTimer);
+          achievementTimer = setTimeout(() => setShowAchievementNotification(false), 4000);
+          break;
+
+        case 'StabilityZoneChanged':
+          if ((event.to === 'warning' || event.to === 'critical') && event.stability > 0) {
+            soundManager.playStabilityWarning();
+            setStabilityAlert(event.to);
+            clearTimeout(stabilityTimer);
+            stabilityTimer = setTimeout(() => setStabilityAlert(null), 3000);
+          }
+          break;
+
+        case 'TowerCollapsed':
+          // Don't auto-rebuild - let the user see the game end popup first
+          soundManager.playTowerCollapse();
+          if (isLocalMove) {
+            gameResultStore.record(createGameResult(enhancedGameService.getEngineState(), Date.now()));
+          }
+          analyticsService.trackGameEvent('tower_collapsed', event.mode, event.score);
+          // Pass-and-play games end here; show the standings once the tower has fallen
+          if (state.hotSeat && event.gameOver) {
+            summaryTimer = setTimeout(() => setShowEndgameSummary(true), 2500);
+          }
+          break;
+
+        case 'GameCompleted':
+          soundManager.playGameComplete();
+          if (isLocalMove) {
+            gameResultStore.record(createGameResult(enhancedGameService.getEngineState(), Date.now()));
+          }
+          analyticsService.trackGameEvent('game_completed', event.mode, event.score);
+          if (state.hotSeat) {
+            setShowEndgameSummary(true);
+          }
+          break;
+
+        case 'TurnPassed':
+          setAwaitingHandoff(true);
+          console.log(`👥 Next turn: ${event.nickname}`);
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      clearTimeout(achievementTimer);
+      clearTimeout(stabilityTimer);
+      clearTimeout(summaryTimer);
+    };
+  }, []);
+
   // Initialize game
   useEffect(() => {
     const initializeGame = async () => {
       try {
         setIsLoading(true);
+
+        if (roomId) {
+          // A reload loses the online game - start again from the lobby
+          if (!networkedGameController.isPlaying(roomId)) {
+            navigate('/lobby');
+            return;
+          }
+          setGameState(enhancedGameService.getGameState());
+          setBlocks(enhancedGameService.getBlocks());
+          setIsLoading(false);
+          return;
+        }
         
         // Track game start
         analyticsService.trackGameEvent('game_started', isMobile ? 'mobile' : 'desktop');
@@ -119,11 +281,19 @@ const GamePage: React.FC = () => {
           setShowGestureTutorial(true);
         }
         
-        const newGameState = enhancedGameService.initializeGame();
+        const newGameState = enhancedGameService.initializeGame({
+          seed: requestedSeed,
+          settings: gameSettings,
+          reviewQueue: isReview ? getReviewQueue(true) : undefined,
+          mode: gameMode,
+          tower: towerSpec,
+          players: hotSeatNames,
+        });
         const newBlocks = enhancedGameService.getBlocks();
         
         setGameState(newGameState);
         setBlocks(newBlocks);
+        setAwaitingHandoff(!!newGameState.hotSeat);
         
         console.log('🎮 Game initialized:', { gameState: newGameState, blocks: newBlocks.length });
         
@@ -142,7 +312,34 @@ const GamePage: React.FC = () => {
     };
 
     initializeGame();
-  }, [isMobile]);
+  }, [isMobile, requestedSeed, gameSettings, isReview, getReviewQueue, gameMode, towerSpec, hotSeatNames, roomId, navigate]);
+
+  // Online games: other players' moves arrive from the room
+  useEffect(() => {
+    if (!roomId) return undefined;
+
+    return networkedGameController.subscribe(message => {
+      if (message.type === 'error') {
+        setRoomNotice(message.message);
+        return;
+      }
+      if (message.type !== 'move') return;
+
+      setGameState(enhancedGameService.getGameState());
+      setBlocks(enhancedGameService.getBlocks());
+      if (message.move.type === 'pass') {
+        // A player left mid-turn; anything they had open is gone
+        setShowContentModal(false);
+        setShowQuiz(false);
+        setSelectedBlockId(undefined);
+        setCurrentContent(null);
+      } else if (message.playerId !== networkedGameController.getPlayerId()) {
+        // Highlight the block the other player is working on
+        const { move } = message;
+        setSelectedBlockId(move.type === 'pick' || move.type === 'hint' ? move.blockId : undefined);
+      }
+    });
+  }, [roomId]);
 
   // Handle block click
   const handleBlockClick = useCallback(async (block: Block) => {
@@ -159,7 +356,7 @@ const GamePage: React.FC = () => {
       soundManager.playBlockClick();
       
       // Get block content
-      const content = enhancedGameService.handleBlockClick(block.id);
+      const content = moves.handleBlockClick(block.id);
       if (!content) {
         console.log('🚫 No content found for block:', block.id);
         return;
@@ -167,13 +364,12 @@ const GamePage: React.FC = () => {
 
       setCurrentContent(content);
       setSelectedBlockId(block.id);
+      setGameState(enhancedGameService.getGameState());
       
       // Show quiz for question blocks
       if (content.type === 'QUESTION') {
         setShowQuiz(true);
         setShowContentModal(true);
-        // Start timing for Fast Thinker achievement
-        enhancedGameService.setAnswerStartTime();
       } else {
         // For tip blocks, show content directly
         setShowQuiz(false);
@@ -183,58 +379,68 @@ const GamePage: React.FC = () => {
     } catch (error) {
       console.error('🚨 Error handling block click:', error);
     }
-  }, [gameState]);
+  }, [gameState, moves]);
 
 
 
   // Handle quiz answer
-  const handleQuizAnswer = useCallback(async (blockId: string, selectedAnswer: number) => {
-    if (!gameState) return;
+  const handleQuizAnswer = useCallback(async (blockId: string, answer: QuizAnswer) => {
+    if (!gameState) return undefined;
 
     try {
-      console.log('🧠 Quiz answer submitted:', { blockId, selectedAnswer });
+      console.log('🧠 Quiz answer submitted:', { blockId, answer });
       
       // Submit answer to game service
-      const quizResult = enhancedGameService.handleQuizAnswer(blockId, selectedAnswer);
-      
-      // Update game state and blocks
+      const quizResult = moves.handleQuizAnswer(blockId, answer);
+      if (!quizResult) {
+        console.warn('⚠️ Answer not accepted - the question on this block is no longer open:', blockId);
+        return undefined;
+      }
+
+      // The core returns fresh state objects; sound, achievements and collapse
+      // handling come through the event subscription above
       const updatedGameState = enhancedGameService.getGameState();
-      const updatedBlocks = enhancedGameService.getBlocks();
       setGameState(updatedGameState);
-      setBlocks(updatedBlocks);
+      setBlocks(enhancedGameService.getBlocks());
       
       // Show quiz result
       setShowQuiz(false);
       
       console.log('✅ Quiz result:', quizResult);
       console.log('📊 Updated stability:', updatedGameState.towerStability);
-      console.log('🧱 Blocks removed:', updatedGameState.blocksRemoved);
-      
-      // Check for new achievements
-      const currentAchievements = updatedGameState.currentPlayer.achievements;
-      const newAchievement = currentAchievements.find(a => 
-        a.isUnlocked && a.unlockedAt && 
-        Date.now() - a.unlockedAt.getTime() < 5000 // Show if unlocked in last 5 seconds
-      );
-      
-      if (newAchievement) {
-        setLastAchievement(newAchievement);
-        setShowAchievementNotification(true);
-        soundManager.playAchievementUnlock();
-        setTimeout(() => setShowAchievementNotification(false), 4000);
-      }
-      
-      // Check if tower collapsed - don't auto-rebuild, let the popup show
-      if (updatedGameState.gamePhase === 'collapsed') {
-        console.log('💥 Tower collapsed! Game end popup should show now.');
-        soundManager.playTowerCollapse();
-        // Don't auto-rebuild - let the user see the game end popup first
-      }
-      
+      return quizResult;
+
     } catch (error) {
       console.error('🚨 Error handling quiz answer:', error);
+      return undefined;
+    }
+  }, [gameState, moves]);
+
+  // Hint or 50/50 requested from the modal
+  const handleRequestHint = useCallback((blockId: string, kind: HintKind) => {
+    const reveal = moves.requestHint(blockId, kind);
+    if (reveal) {
+      setGameState(enhancedGameService.getGameState());
+      console.log('💡 Hint revealed:', reveal);
+    }
+    return reveal;
+  }, [moves]);
+
+  // Question clock ran out in the modal
+  const handleQuizTimeout = useCallback(async (blockId: string) => {
+    try {
+      const quizResult = moves.handleQuizTimeout(blockId);
+      if (!quizResult) return;
+
+      setGameState(enhancedGameService.getGameState());
+      setBlocks(enhancedGameService.getBlocks());
+      setShowQuiz(false);
+
+      console.log('⏰ Quiz timed out:', quizResult);
+    } catch (error) {
+      console.error('🚨 Error handling quiz timeout:', error);
     }
-  }, [gameState]);
+  }, [moves]);
 
   // Close content modal
   const handleCloseContentModal = useCallback(() => {
@@ -246,12 +452,26 @@ const GamePage: React.FC = () => {
 
   // Reset game
   const handleResetGame = useCallback(() => {
+    // Online games can't restart on one device - back to the lobby for a new room
+    if (roomId) {
+      networkedGameController.leaveRoom().catch(error => console.error('🚨 Error leaving room:', error));
+      navigate('/lobby');
+      return;
+    }
     try {
-      const newGameState = enhancedGameService.resetGame();
+      const newGameState = enhancedGameService.resetGame({
+        seed: requestedSeed,
+        settings: gameSettings,
+        reviewQueue: isReview ? getReviewQueue(true) : undefined,
+        mode: gameMode,
+        tower: towerSpec,
+        players: hotSeatNames,
+      });
       const newBlocks = enhancedGameService.getBlocks();
       
       setGameState(newGameState);
       setBlocks(newBlocks);
+      setAwaitingHandoff(!!newGameState.hotSeat);
       setShowContentModal(false);
       setShowQuiz(false);
       setShowEndgameSummary(false);
@@ -265,7 +485,7 @@ const GamePage: React.FC = () => {
     } catch (error) {
       console.error('🚨 Error resetting game:', error);
     }
-  }, []);
+  }, [requestedSeed, gameSettings, isReview, getReviewQueue, gameMode, towerSpec, hotSeatNames, roomId, navigate]);
 
   // Handle play again
   const handlePlayAgain = useCallback(() => {
@@ -275,9 +495,27 @@ const GamePage: React.FC = () => {
 
   // Handle game restart from collapse popup
   const handleGameRestart = useCallback(() => {
-    console.log('🔄 Restarting game from collapse popup');
-    handleResetGame();
-  }, [handleResetGame]);
+    console.log('🔄 Rebuilding tower from collapse popup');
+    // Modes that end on a collapse start a fresh game instead
+    if (enhancedGameService.getGameState().gamePhase === 'gameOver') {
+      handleResetGame();
+      return;
+    }
+    try {
+      // Overdue review questions go into the rebuilt tower first
+      const newGameState = enhancedGameService.rebuildTower(getReviewQueue(isReview));
+      setGameState(newGameState);
+      setBlocks(enhancedGameService.getBlocks());
+      setShowContentModal(false);
+      setShowQuiz(false);
+      setSelectedBlockId(undefined);
+      setCurrentContent(null);
+      soundManager.playGameStart();
+    } catch (error) {
+      console.error('🚨 Error rebuilding tower:', error);
+      handleResetGame();
+    }
+  }, [getReviewQueue, isReview, handleResetGame]);
 
   // Get category icon for progress display (unused but kept for future reference)
   // const getCategoryIcon = (category: PrivacyCategory) => {
@@ -306,6 +544,8 @@ const GamePage: React.FC = () => {
     );
   }
 
+  const turnPlayerId = gameState.hotSeat && getTurnPlayer(gameState.hotSeat).id;
+
   return (
     <GameErrorBoundary>
       {/* Mobile Gesture Tutorial */}
@@ -409,6 +649,32 @@ const GamePage: React.FC = () => {
             <span>Learning Progress</span>
             <span>{gameState.totalContentShown}/{gameState.totalContentAvailable} concepts</span>
           </div>
+          <div className="text-gray-500 text-xs mb-2" title="Share this seed to replay the same tower">
+            Seed {gameState.seed}{isBlitz && ' · ⚡ Blitz'}{isReview && ' · 🔁 Review'}
+            {gameMode.id !== 'classic' && ` · ${modeInfo.icon} ${modeInfo.name}${gameMode.category ? ` (${gameMode.category.replace('-', ' ')})` : ''}`}
+            {towerSpec && ` · ${towerSpec.name} tower`}
+            {roomId && ` · 🌐 Room ${networkedGameController.getRoom()?.code}`}
+          </div>
+          {roomId && gameState.hotSeat && gameState.gamePhase === 'playing' && (
+            <div className={`text-xs mb-2 font-semibold ${networkedGameController.isMyTurn() ? 'text-teal-300' : 'text-gray-400'}`} role="status">
+              {networkedGameController.isMyTurn() ? 'Your turn - pick a block' : `Waiting for ${getTurnPlayer(gameState.hotSeat).nickname}...`}
+            </div>
+          )}
+          {roomNotice && <div className="text-red-300 text-xs mb-2" role="alert">{roomNotice}</div>}
+          {gameState.hotSeat && (
+            <div className="flex flex-wrap gap-2 text-xs mb-2">
+              {gameState.hotSeat.players.map(player => (
+                <span
+                  key={player.id}
+                  className={`px-2 py-0.5 rounded-full ${
+                    player.id === turnPlayerId ? 'bg-teal-500/30 text-teal-100 font-semibold' : 'bg-gray-700/60 text-gray-300'
+                  }`}
+                >
+                  {player.nickname} · {player.score}
+                </span>
+              ))}
+            </div>
+          )}
           <div className="w-full bg-gray-700 rounded-full h-2">
             <div 
               className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-500"
@@ -448,6 +714,8 @@ const GamePage: React.FC = () => {
              gameState={gameState}
              selectedBlockId={selectedBlockId}
              onGameRestart={handleGameRestart}
+             stabilityAlert={stabilityAlert}
+             onDismissStabilityAlert={() => setStabilityAlert(null)}
            />
 
            {/* Tower Collapse Button removed - now handled by popup */}
@@ -517,11 +785,20 @@ const GamePage: React.FC = () => {
           isOpen={showContentModal}
           onClose={handleCloseContentModal}
           onQuizAnswer={handleQuizAnswer}
+          onQuizTimeout={handleQuizTimeout}
+          onRequestHint={handleRequestHint}
+          questionSettings={gameSettings.questionSettings}
           showQuiz={showQuiz}
           gameState={gameState}
           blockId={selectedBlockId}
+          timeLimit={selectedBlockId ? enhancedGameService.getTimeLimit(selectedBlockId) : undefined}
         />
 
+        {/* Pass-and-play handoff between turns */}
+        {gameState.hotSeat && awaitingHandoff && !roomId && !showContentModal && gameState.gamePhase === 'playing' && (
+          <TurnHandoff hotSeat={gameState.hotSeat} onReady={() => setAwaitingHandoff(false)} />
+        )}
+
         {/* Game Help Modal */}
         {showHelp && (
           <GameHelp isOpen={showHelp} onClose={() => setShowHelp(false)} />
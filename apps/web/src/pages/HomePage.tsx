@@ -1,15 +1,39 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Brain, Target, Zap, Play, HelpCircle, BookOpen, Trophy, Shield, AlertTriangle, X, ExternalLink } from 'lucide-react';
+import { Brain, Target, Zap, Play, HelpCircle, BookOpen, Trophy, Shield, AlertTriangle, X, ExternalLink, Users, Globe } from 'lucide-react';
 import GameTutorial from '../components/GameTutorial';
 import BitsaccoLogo from '../components/BitsaccoLogo';
 import { motion } from 'framer-motion';
 import soundManager from '../services/soundManager';
+import reviewScheduleStore from '../services/spacedRepetition';
+import gameResultStore from '../services/gameResults';
+import { CLASSIC_MODE, GAME_MODES, getSprintCategories } from '../services/gameModes';
+import { MAX_HOT_SEAT_PLAYERS, MAX_NICKNAME_LENGTH, MIN_HOT_SEAT_PLAYERS, validateHotSeatNames } from '../services/hotSeat';
+import ContentVersionBadge from '../components/ContentVersionBadge';
+import QuestionPacks from '../components/QuestionPacks';
+import LanguageSwitcher from '../components/LanguageSwitcher';
+import { useQuestionBank } from '../hooks/useQuestionBank';
+import { getQuestionBank } from '../services/questionBank';
+import { hasMessage } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { PrivacyCategory } from '../types';
 
 const HomePage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const [showTutorial, setShowTutorial] = useState(false);
   const [showWelcome, setShowWelcome] = useState(true);
+  const [reviewsDue] = useState(() => reviewScheduleStore.countDue());
+  const [hasReviewHistory] = useState(() => Object.keys(reviewScheduleStore.getSchedule().cards).length > 0);
+  // Re-renders when the question bank loads, so the sprint categories follow it
+  useQuestionBank();
+  const sprintCategories = getSprintCategories(getQuestionBank());
+  const conceptCount = getQuestionBank().length;
+  const [selectedMode, setSelectedMode] = useState(CLASSIC_MODE.id);
+  const [sprintCategory, setSprintCategory] = useState<PrivacyCategory | undefined>(sprintCategories[0]?.category);
+  // Pass and play: empty for a solo game
+  const [playerNames, setPlayerNames] = useState<string[]>([]);
+  const playersProblem = playerNames.length > 0 ? validateHotSeatNames(playerNames) : null;
 
   useEffect(() => {
     // Always show welcome message when visiting homepage
@@ -21,6 +45,50 @@ const HomePage: React.FC = () => {
     navigate('/game');
   };
 
+  // Start the mode picked in the mode picker
+  const handleStartMode = () => {
+    if (playersProblem) return;
+    soundManager.playGameStart();
+    const params = new URLSearchParams();
+    if (selectedMode !== CLASSIC_MODE.id) {
+      params.set('mode', selectedMode);
+    }
+    if (GAME_MODES[selectedMode].needsCategory && sprintCategory) {
+      params.set('category', sprintCategory);
+    }
+    if (playerNames.length > 0) {
+      params.set('players', playerNames.map(name => name.trim()).join(','));
+    }
+    navigate(params.toString() ? `/game?${params.toString()}` : '/game');
+  };
+
+  const handleTogglePassAndPlay = () => {
+    setPlayerNames(names => names.length > 0 ? [] : [1, 2].map(number => t('home.players.defaultName', { number })));
+  };
+
+  const handleAddPlayer = () => {
+    setPlayerNames(names => {
+      let number = names.length + 1;
+      while (names.includes(t('home.players.defaultName', { number }))) number++;
+      return [...names, t('home.players.defaultName', { number })];
+    });
+  };
+
+  // Commas separate names in the game URL, so they can't be part of one
+  const handleRenamePlayer = (index: number, name: string) => {
+    setPlayerNames(names => names.map((current, i) => i === index ? name.replace(/,/g, '') : current));
+  };
+
+  const handleStartBlitz = () => {
+    soundManager.playGameStart();
+    navigate('/game?variant=blitz');
+  };
+
+  const handleStartReview = () => {
+    soundManager.playGameStart();
+    navigate('/game?variant=review');
+  };
+
   const handleStartTutorial = () => {
     setShowTutorial(false);
     console.log('Starting interactive tutorial...');
@@ -42,10 +110,11 @@ const HomePage: React.FC = () => {
             
             {/* Mobile Navigation */}
             <div className="flex items-center gap-2">
+              <LanguageSwitcher />
               <button
                 onClick={() => setShowTutorial(true)}
                 className="p-2 text-teal-400 hover:text-teal-300 transition-colors"
-                title="How to Play"
+                title={t('home.howToPlay')}
               >
                 <HelpCircle className="w-5 h-5" />
               </button>
@@ -54,7 +123,7 @@ const HomePage: React.FC = () => {
                 target="_blank" 
                 rel="noopener noreferrer"
                 className="p-2 text-teal-400 hover:text-teal-300 transition-colors"
-                title="Visit Bitsacco"
+                title={t('home.visitBitsacco')}
               >
                 <ExternalLink className="w-5 h-5" />
               </a>
@@ -75,18 +144,17 @@ const HomePage: React.FC = () => {
             <button
               onClick={() => setShowWelcome(false)}
               className="absolute top-2 right-2 text-teal-400 hover:text-teal-300 transition-colors p-1"
-              aria-label="Close welcome message"
+              aria-label={t('home.welcome.close')}
             >
               <X className="w-4 h-4" />
             </button>
             
             <div className="flex items-center gap-2 mb-2">
               <Shield className="w-5 h-5 text-teal-400" />
-              <h2 className="text-lg font-bold text-teal-300">Welcome to Privacy Jenga!</h2>
+              <h2 className="text-lg font-bold text-teal-300">{t('home.welcome.title')}</h2>
             </div>
             <p className="text-teal-200 text-sm leading-relaxed">
-              Learn online privacy and security through an engaging tower-building experience. 
-              Each block contains valuable knowledge to protect yourself online.
+              {t('home.welcome.body')}
             </p>
           </motion.div>
         )}
@@ -94,29 +162,152 @@ const HomePage: React.FC = () => {
         {/* Main Heading */}
         <div className="text-center mb-6">
           <h1 className="text-3xl font-bold text-white mb-2">
-            Learn Privacy Through
+            {t('home.hero.title')}
           </h1>
           <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-400 to-blue-500">
-            Interactive Gaming
+            {t('home.hero.subtitle')}
           </h2>
         </div>
         
         {/* Description */}
         <p className="text-gray-300 text-center mb-8 leading-relaxed">
-          Master online privacy and security concepts by playing Privacy Jenga. 
-          Remove blocks, answer quizzes, and build your knowledge while the tower remains stable.
+          {t('home.hero.description')}
         </p>
 
+        {/* Game Mode Picker */}
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-2">{t('home.modes.title')}</h3>
+          <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={t('home.modes.title')}>
+            {Object.values(GAME_MODES).map(mode => {
+              const bestScore = gameResultStore.getBestScore(mode.id);
+              const isSelected = selectedMode === mode.id;
+              const nameKey = `mode.${mode.id}.name`;
+              const descriptionKey = `mode.${mode.id}.description`;
+              return (
+                <button
+                  key={mode.id}
+                  role="radio"
+                  aria-checked={isSelected}
+                  onClick={() => setSelectedMode(mode.id)}
+                  className={`text-left p-3 rounded-xl border-2 transition-colors ${
+                    isSelected ? 'border-teal-400 bg-teal-500/10' : 'border-gray-700 bg-gray-800/60 hover:border-gray-500'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-white font-semibold">
+                    <span>{mode.icon}</span>
+                    {hasMessage(nameKey) ? t(nameKey) : mode.name}
+                  </div>
+                  <p className="text-gray-400 text-xs mt-1 leading-snug">
+                    {hasMessage(descriptionKey) ? t(descriptionKey) : mode.description}
+                  </p>
+                  {bestScore !== null && (
+                    <p className="text-yellow-300 text-xs mt-1">{t('home.modes.best', { score: bestScore })}</p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          {GAME_MODES[selectedMode].needsCategory && (
+            <select
+              value={sprintCategory}
+              onChange={event => setSprintCategory(event.target.value as PrivacyCategory)}
+              className="w-full mt-2 p-3 rounded-xl bg-gray-800 border border-gray-600 text-gray-200"
+              aria-label={t('home.modes.sprintCategory')}
+            >
+              {sprintCategories.map(({ category, questions }) => (
+                <option key={category} value={category}>
+                  {t('home.modes.sprintOption', { category: t(`category.${category}`), count: questions })}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <QuestionPacks />
+
+        {/* Pass and Play */}
+        <div className="mb-4">
+          <button
+            onClick={handleTogglePassAndPlay}
+            aria-pressed={playerNames.length > 0}
+            className={`w-full flex items-center justify-center gap-2 py-2 px-4 rounded-xl border-2 text-sm font-semibold transition-colors ${
+              playerNames.length > 0 ? 'border-teal-400 bg-teal-500/10 text-teal-200' : 'border-gray-700 text-gray-300 hover:border-gray-500'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            {t('home.players.toggle', { min: MIN_HOT_SEAT_PLAYERS, max: MAX_HOT_SEAT_PLAYERS })}
+          </button>
+          {playerNames.length > 0 && (
+            <div className="mt-2 space-y-2">
+              {playerNames.map((name, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    value={name}
+                    onChange={event => handleRenamePlayer(index, event.target.value)}
+                    maxLength={MAX_NICKNAME_LENGTH}
+                    aria-label={t('home.players.nickname', { number: index + 1 })}
+                    className="flex-1 p-2 rounded-lg bg-gray-800 border border-gray-600 text-gray-200"
+                  />
+                  {playerNames.length > MIN_HOT_SEAT_PLAYERS && (
+                    <button
+                      onClick={() => setPlayerNames(names => names.filter((_, i) => i !== index))}
+                      aria-label={t('home.players.remove', { name: name || t('home.players.defaultName', { number: index + 1 }) })}
+                      className="px-3 rounded-lg text-gray-400 hover:text-red-300 hover:bg-red-500/10"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {playerNames.length < MAX_HOT_SEAT_PLAYERS && (
+                <button
+                  onClick={handleAddPlayer}
+                  className="w-full py-2 rounded-lg border border-dashed border-gray-600 text-gray-400 text-sm hover:text-gray-200"
+                >
+                  {t('home.players.add')}
+                </button>
+              )}
+              {playersProblem && <p className="text-red-300 text-xs">{playersProblem}</p>}
+            </div>
+          )}
+          <button
+            onClick={() => navigate('/lobby')}
+            className="w-full mt-2 flex items-center justify-center gap-2 py-2 px-4 rounded-xl border-2 border-gray-700 text-gray-300 hover:border-gray-500 text-sm font-semibold transition-colors"
+          >
+            <Globe className="w-4 h-4" />
+            {t('home.playOnline')}
+          </button>
+        </div>
+
         {/* Primary CTA */}
         <div className="mb-8">
           <button
-            onClick={handleStartGame}
+            onClick={handleStartMode}
+            disabled={!!playersProblem}
             onMouseEnter={() => soundManager.playButtonHover()}
             className="w-full bg-gradient-to-r from-teal-500 to-teal-600 text-white font-semibold py-4 px-6 rounded-xl shadow-lg hover:from-teal-600 hover:to-teal-700 transition-all duration-200 transform hover:scale-105 active:scale-95 flex items-center justify-center gap-3"
           >
             <Play className="w-5 h-5" />
-            Start Playing Now
+            {t('home.start')}
           </button>
+          <button
+            onClick={handleStartBlitz}
+            onMouseEnter={() => soundManager.playButtonHover()}
+            className="w-full mt-3 bg-gradient-to-r from-yellow-500 to-orange-500 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:from-yellow-600 hover:to-orange-600 transition-all duration-200 flex items-center justify-center gap-3"
+          >
+            <Zap className="w-5 h-5" />
+            {t('home.blitz')}
+          </button>
+          {hasReviewHistory && (
+            <button
+              onClick={handleStartReview}
+              onMouseEnter={() => soundManager.playButtonHover()}
+              className="w-full mt-3 border-2 border-purple-500 text-purple-300 bg-transparent font-semibold py-3 px-6 rounded-xl hover:bg-purple-500/10 transition-all duration-200 flex items-center justify-center gap-3"
+            >
+              <Brain className="w-5 h-5" />
+              {reviewsDue > 0 ? t('home.reviewDue', { count: reviewsDue }) : t('home.review')}
+            </button>
+          )}
         </div>
 
         {/* Secondary CTA */}
@@ -127,7 +318,7 @@ const HomePage: React.FC = () => {
             className="w-full border-2 border-teal-500 text-teal-400 bg-transparent font-semibold py-3 px-6 rounded-xl hover:bg-teal-500/10 hover:border-teal-400 hover:text-teal-300 transition-all duration-200 flex items-center justify-center gap-3"
           >
             <BookOpen className="w-5 h-5" />
-            Learn How to Play
+            {t('home.learnHowToPlay')}
           </button>
         </div>
       </section>
@@ -136,11 +327,10 @@ const HomePage: React.FC = () => {
       <section className="px-4 py-8 bg-black/20">
         <div className="text-center mb-8">
           <h2 className="text-2xl font-bold text-white mb-3">
-            Why Privacy Jenga?
+            {t('home.why.title')}
           </h2>
           <p className="text-gray-300 text-sm leading-relaxed">
-            Our unique approach combines entertainment with education, making privacy learning 
-            engaging and memorable.
+            {t('home.why.body')}
           </p>
         </div>
 
@@ -152,10 +342,9 @@ const HomePage: React.FC = () => {
                 <Brain className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h3 className="text-lg font-bold text-white mb-2">Interactive Learning</h3>
+                <h3 className="text-lg font-bold text-white mb-2">{t('home.feature.interactive.title')}</h3>
                 <p className="text-gray-300 text-sm leading-relaxed">
-                  Learn through hands-on experience. Each block removal teaches you something new 
-                  about online privacy and security.
+                  {t('home.feature.interactive.body')}
                 </p>
               </div>
             </div>
@@ -168,10 +357,9 @@ const HomePage: React.FC = () => {
                 <Target className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h3 className="text-lg font-bold text-white mb-2">Progressive Difficulty</h3>
+                <h3 className="text-lg font-bold text-white mb-2">{t('home.feature.progressive.title')}</h3>
                 <p className="text-gray-300 text-sm leading-relaxed">
-                  Start with basic concepts and advance to complex privacy challenges as you 
-                  build your knowledge tower.
+                  {t('home.feature.progressive.body')}
                 </p>
               </div>
             </div>
@@ -184,10 +372,9 @@ const HomePage: React.FC = () => {
                 <Zap className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h3 className="text-lg font-bold text-white mb-2">Instant Feedback</h3>
+                <h3 className="text-lg font-bold text-white mb-2">{t('home.feature.feedback.title')}</h3>
                 <p className="text-gray-300 text-sm leading-relaxed">
-                  Get immediate feedback on your privacy knowledge through quizzes and 
-                  real-time scoring.
+                  {t('home.feature.feedback.body')}
                 </p>
               </div>
             </div>
@@ -200,9 +387,9 @@ const HomePage: React.FC = () => {
                 <Trophy className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h3 className="text-lg font-bold text-white mb-2">Achievement System</h3>
+                <h3 className="text-lg font-bold text-white mb-2">{t('home.feature.achievements.title')}</h3>
                 <p className="text-gray-300 text-sm leading-relaxed">
-                  Unlock achievements and track your progress as you become a privacy expert.
+                  {t('home.feature.achievements.body')}
                 </p>
               </div>
             </div>
@@ -215,10 +402,9 @@ const HomePage: React.FC = () => {
                 <AlertTriangle className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h3 className="text-lg font-bold text-white mb-2">Risk Awareness</h3>
+                <h3 className="text-lg font-bold text-white mb-2">{t('home.feature.risk.title')}</h3>
                 <p className="text-gray-300 text-sm leading-relaxed">
-                  Understand the real risks of poor privacy practices and learn how to 
-                  protect yourself online.
+                  {t('home.feature.risk.body')}
                 </p>
               </div>
             </div>
@@ -231,10 +417,9 @@ const HomePage: React.FC = () => {
                 <Shield className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h3 className="text-lg font-bold text-white mb-2">Practical Skills</h3>
+                <h3 className="text-lg font-bold text-white mb-2">{t('home.feature.skills.title')}</h3>
                 <p className="text-gray-300 text-sm leading-relaxed">
-                  Apply what you learn immediately to your daily online activities 
-                  and digital security practices.
+                  {t('home.feature.skills.body')}
                 </p>
               </div>
             </div>
@@ -246,10 +431,10 @@ const HomePage: React.FC = () => {
       <section className="px-4 py-8">
         <div className="text-center mb-6">
           <h2 className="text-2xl font-bold text-white mb-3">
-            Continuous Learning Experience
+            {t('home.learning.title')}
           </h2>
           <p className="text-gray-300 text-sm leading-relaxed">
-            Master privacy concepts through uninterrupted practice and progressive learning
+            {t('home.learning.subtitle')}
           </p>
         </div>
 
@@ -258,33 +443,32 @@ const HomePage: React.FC = () => {
             <div className="w-16 h-16 bg-gradient-to-br from-teal-400 to-teal-600 rounded-full flex items-center justify-center mx-auto mb-4">
               <Brain className="w-8 h-8 text-white" />
             </div>
-            <h3 className="text-xl font-bold text-white mb-3">Privacy Jenga Learning Mode</h3>
+            <h3 className="text-xl font-bold text-white mb-3">{t('home.learning.modeTitle')}</h3>
             <p className="text-gray-300 text-sm leading-relaxed mb-4">
-              Progressive learning with intelligent difficulty scaling. When the tower falls, it automatically resets, 
-              allowing you to practice privacy concepts, complete interactive quizzes, and unlock achievements.
+              {t('home.learning.modeBody')}
             </p>
           </div>
           
           <div className="space-y-3 mb-6">
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-teal-400 rounded-full flex-shrink-0"></div>
-              <span className="text-gray-300 text-sm">Continuous tower resets for uninterrupted learning</span>
+              <span className="text-gray-300 text-sm">{t('home.learning.point.1')}</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-teal-400 rounded-full flex-shrink-0"></div>
-              <span className="text-gray-300 text-sm">All 54 privacy tips accessible in one experience</span>
+              <span className="text-gray-300 text-sm">{t('home.learning.point.2', { count: conceptCount })}</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-teal-400 rounded-full flex-shrink-0"></div>
-              <span className="text-gray-300 text-sm">Achievement-based progression system</span>
+              <span className="text-gray-300 text-sm">{t('home.learning.point.3')}</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-teal-400 rounded-full flex-shrink-0"></div>
-              <span className="text-gray-300 text-sm">Adaptive difficulty based on your skill level</span>
+              <span className="text-gray-300 text-sm">{t('home.learning.point.4')}</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-teal-400 rounded-full flex-shrink-0"></div>
-              <span className="text-gray-300 text-sm">Interactive quizzes and privacy challenges</span>
+              <span className="text-gray-300 text-sm">{t('home.learning.point.5')}</span>
             </div>
           </div>
           
@@ -292,7 +476,7 @@ const HomePage: React.FC = () => {
             onClick={handleStartGame}
             className="w-full bg-gradient-to-r from-teal-500 to-teal-600 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:from-teal-600 hover:to-teal-700 transition-all duration-200 transform hover:scale-105 active:scale-95"
           >
-            Start Learning Journey
+            {t('home.learning.start')}
           </button>
         </div>
       </section>
@@ -301,23 +485,23 @@ const HomePage: React.FC = () => {
       <section className="px-4 py-8 bg-gradient-to-r from-teal-500/10 to-blue-500/10">
         <div className="text-center">
           <h2 className="text-2xl font-bold text-white mb-4">
-            Ready to Master Online Privacy?
+            {t('home.cta.title')}
           </h2>
           <p className="text-gray-300 text-sm leading-relaxed mb-6">
-            Join thousands of learners who are already improving their digital security
+            {t('home.cta.body')}
           </p>
           <div className="space-y-3">
             <button
               onClick={handleStartGame}
               className="w-full bg-gradient-to-r from-teal-500 to-teal-600 text-white font-semibold py-4 px-6 rounded-xl shadow-lg hover:from-teal-600 hover:to-teal-700 transition-all duration-200 transform hover:scale-105 active:scale-95"
             >
-              Start Your Privacy Journey
+              {t('home.cta.start')}
             </button>
             <button
               onClick={() => setShowTutorial(true)}
               className="w-full border-2 border-teal-500 text-teal-400 bg-transparent font-semibold py-3 px-6 rounded-xl hover:bg-teal-500/10 hover:border-teal-400 hover:text-teal-300 transition-all duration-200"
             >
-              Learn More
+              {t('home.cta.learnMore')}
             </button>
           </div>
         </div>
@@ -331,16 +515,16 @@ const HomePage: React.FC = () => {
             <h3 className="text-lg font-bold">Privacy Jenga</h3>
           </div>
           <p className="text-teal-200 text-sm">
-            Educational privacy game powered by Bitsacco
+            {t('home.footer.tagline')}
           </p>
         </div>
         
         <div className="flex justify-center gap-6 text-sm text-teal-200 mb-4">
           <a href="#" className="hover:text-white transition-colors">
-            About
+            {t('home.footer.about')}
           </a>
           <a href="#" className="hover:text-white transition-colors">
-            Privacy Policy
+            {t('home.footer.privacyPolicy')}
           </a>
           <a 
             href="https://bitsacco.com/" 
@@ -355,7 +539,7 @@ const HomePage: React.FC = () => {
         
         <div className="border-t border-teal-800 pt-4 text-center">
           <div className="text-xs text-teal-400">
-            Educational content inspired by{' '}
+            {t('home.footer.inspiredBy')}{' '}
             <a 
               href="https://bitcoinjenga.com" 
               target="_blank" 
@@ -364,8 +548,9 @@ const HomePage: React.FC = () => {
             >
               bitcoinjenga.com
             </a>
-            {' '}by Amiti Uttarwar & D++
+            {' '}{t('home.footer.authors')}
           </div>
+          <ContentVersionBadge className="text-teal-400 mt-2" />
         </div>
       </footer>
 
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Crown, Globe, Play } from 'lucide-react';
+import networkedGameController from '../services/networkedGame';
+import { MAX_HOT_SEAT_PLAYERS, MAX_NICKNAME_LENGTH, MIN_HOT_SEAT_PLAYERS } from '../services/hotSeat';
+import soundManager from '../services/soundManager';
+import { Room } from '../types';
+
+const NICKNAME_KEY = 'privacy-jenga-online-nickname';
+
+// Create or join an online room by code, wait for players, and start together
+const LobbyPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [nickname, setNickname] = useState(() => localStorage.getItem(NICKNAME_KEY) || '');
+  const [joinCode, setJoinCode] = useState('');
+  const [maxPlayers, setMaxPlayers] = useState(4);
+  const [room, setRoom] = useState<Room | undefined>(() => networkedGameController.getRoom());
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Follow the room; everyone moves to the game when the host starts it
+  useEffect(() => {
+    return networkedGameController.subscribe(message => {
+      setRoom(networkedGameController.getRoom());
+      if (message.type === 'error') {
+        setError(message.message);
+      } else if (message.type === 'started') {
+        soundManager.playGameStart();
+        navigate(`/game?room=${networkedGameController.getRoom()?.id}`);
+      }
+    });
+  }, [navigate]);
+
+  const enterRoom = async (enter: () => Promise<Room>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      localStorage.setItem(NICKNAME_KEY, nickname.trim());
+      setRoom(await enter());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    setRoom(undefined);
+    setError(null);
+    try {
+      await networkedGameController.leaveRoom();
+    } catch (err) {
+      console.error('🚨 Error leaving room:', err);
+    }
+  };
+
+  const me = room?.players.find(player => player.id === networkedGameController.getPlayerId());
+  const canEnter = nickname.trim().length > 0 && !isBusy;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex flex-col items-center p-4">
+      <div className="w-full max-w-md">
+        <button
+          onClick={() => (room ? handleLeave() : navigate('/'))}
+          className="flex items-center gap-2 text-gray-300 hover:text-teal-300 transition-colors text-sm mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {room ? 'Leave room' : 'Home'}
+        </button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <Globe className="w-8 h-8 text-teal-400" />
+          <div>
+            <h1 className="text-2xl font-bold text-white">Play Online</h1>
+            <p className="text-gray-400 text-sm">{MIN_HOT_SEAT_PLAYERS}-{MAX_HOT_SEAT_PLAYERS} players, one tower, everyone on their own device</p>
+          </div>
+        </div>
+
+        {!room ? (
+          <div className="space-y-4">
+            <input
+              value={nickname}
+              onChange={event => setNickname(event.target.value.replace(/,/g, ''))}
+              maxLength={MAX_NICKNAME_LENGTH}
+              placeholder="Your nickname"
+              aria-label="Your nickname"
+              className="w-full p-3 rounded-lg bg-gray-800 border border-gray-600 text-gray-200"
+            />
+
+            <div className="bg-white/5 rounded-xl p-4 border border-gray-700">
+              <h2 className="text-white font-semibold mb-3">Join a room</h2>
+              <div className="flex gap-2">
+                <input
+                  value={joinCode}
+                  onChange={event => setJoinCode(event.target.value.toUpperCase())}
+                  maxLength={6}
+                  placeholder="CODE"
+                  aria-label="Room code"
+                  className="flex-1 p-2 rounded-lg bg-gray-800 border border-gray-600 text-gray-200 font-mono tracking-widest"
+                />
+                <button
+                  onClick={() => enterRoom(() => networkedGameController.joinRoom(joinCode, nickname))}
+                  disabled={!canEnter || joinCode.trim().length === 0}
+                  className="px-4 rounded-lg bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white font-semibold"
+                >
+                  Join
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white/5 rounded-xl p-4 border border-gray-700">
+              <h2 className="text-white font-semibold mb-3">Start a new room</h2>
+              <div className="flex gap-2">
+                <select
+                  value={maxPlayers}
+                  onChange={event => setMaxPlayers(Number(event.target.value))}
+                  aria-label="Maximum players"
+                  className="flex-1 p-2 rounded-lg bg-gray-800 border border-gray-600 text-gray-200"
+                >
+                  {Array.from({ length: MAX_HOT_SEAT_PLAYERS - MIN_HOT_SEAT_PLAYERS + 1 }, (_, i) => MIN_HOT_SEAT_PLAYERS + i).map(count => (
+                    <option key={count} value={count}>Up to {count} players</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => enterRoom(() => networkedGameController.createRoom(nickname, maxPlayers))}
+                  disabled={!canEnter}
+                  className="px-4 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold"
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white/5 rounded-xl p-4 border border-gray-700">
+            <p className="text-gray-400 text-sm">Room code - share it with the other players</p>
+            <p className="text-4xl font-mono font-bold tracking-widest text-teal-300 my-2">{room.code}</p>
+            <p className="text-gray-400 text-xs mb-4">{room.players.length}/{room.maxPlayers} players · {room.name}</p>
+
+            <ul className="space-y-2 mb-4">
+              {room.players.map(player => (
+                <li key={player.id} className="flex items-center gap-2 text-gray-200 text-sm">
+                  <span
+                    className={`w-2 h-2 rounded-full ${player.connected ? 'bg-green-400' : 'bg-gray-500'}`}
+                    title={player.connected ? 'Connected' : 'Not connected'}
+                  />
+                  {player.nickname}
+                  {player.id === me?.id && <span className="text-gray-500">(you)</span>}
+                  {player.isHost && <Crown className="w-4 h-4 text-yellow-400" aria-label="Host" />}
+                </li>
+              ))}
+            </ul>
+
+            {me?.isHost ? (
+              <button
+                onClick={() => networkedGameController.startGame()}
+                disabled={room.players.length < MIN_HOT_SEAT_PLAYERS}
+                className="w-full bg-gradient-to-r from-teal-500 to-teal-600 disabled:opacity-50 text-white font-semibold py-3 rounded-xl flex items-center justify-center gap-2"
+              >
+                <Play className="w-5 h-5" />
+                {room.players.length < MIN_HOT_SEAT_PLAYERS ? 'Waiting for players...' : 'Start game'}
+              </button>
+            ) : (
+              <p className="text-center text-gray-400 text-sm">Waiting for the host to start the game...</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-red-300 text-sm mt-4" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LobbyPage;
@@ -0,0 +1,246 @@
+import { AnswerCheck, EnhancedQuestion, QuizAnswer } from '../types';
+import { isLocale, translateQuestion } from './questionTranslation';
+import { validateTransactionGraph } from './transactionGraph';
+
+/**
+ * Answer Grading
+ * Checks a submitted answer against its question, by question type:
+ * multiple choice and scenarios take an option index, true/false takes an
+ * index or a boolean, and fill-in-the-blank takes free text that is
+ * normalized, compared with every answer accepted in the language it was
+ * typed in and, unless the question opts out, forgiven small typos. Multi-select and ordering questions earn
+ * partial credit: right picks minus wrong picks, and how few pairs of steps
+ * are out of order. Scenarios with a transaction graph are answered by
+ * clicking a coin on it, or with an option from their text version.
+ */
+
+// Articles that don't change a typed answer ("the mempool" vs "mempool")
+const LEADING_ARTICLES = /^(a|an|the)\s+/;
+
+// Lowercase, strip accents, punctuation, extra spaces and a leading article
+export const normalizeAnswerText = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEADING_ARTICLES, '');
+};
+
+// Levenshtein distance between two strings
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos forgiven for an answer of this length - short answers must be exact
+const allowedTypos = (length: number): number => {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+};
+
+// Options that count as right answers (the 50/50 never removes these)
+export const getCorrectIndices = (question: EnhancedQuestion): number[] => {
+  // Graph scenarios are played on the graph, where there are no options to remove
+  if (question.graph) return [];
+  switch (question.type) {
+    case 'multi_select':
+      return question.correctIndices || [];
+    case 'ordering':
+    case 'fill_blank':
+      return [];
+    default:
+      return [question.correctIndex];
+  }
+};
+
+// Answer text to show players once the question is over
+export const getCorrectAnswerText = (question: EnhancedQuestion): string => {
+  if (question.graph) {
+    const nodes = question.graph.nodes.filter(node => question.graph?.answerNodeIds.includes(node.id));
+    return nodes.map(node => node.note || node.address || node.label).join(' or ');
+  }
+  switch (question.type) {
+    case 'fill_blank':
+      return question.acceptedAnswers?.[0] || '';
+    case 'ordering':
+      return (question.correctOrder || []).map(index => question.options[index]).join(' → ');
+    case 'multi_select':
+      return getCorrectIndices(question).map(index => question.options[index]).join(', ');
+    default:
+      return question.options[question.correctIndex] || '';
+  }
+};
+
+// Pairs of items the two sequences put in opposite order (Kendall tau distance)
+export const countSwappedPairs = (sequence: number[], target: number[]): number => {
+  const rank = new Map(target.map((item, position) => [item, position]));
+  let swapped = 0;
+  for (let i = 0; i < sequence.length; i++) {
+    for (let j = i + 1; j < sequence.length; j++) {
+      if ((rank.get(sequence[i]) ?? 0) > (rank.get(sequence[j]) ?? 0)) swapped++;
+    }
+  }
+  return swapped;
+};
+
+const isPermutation = (values: number[], length: number): boolean => {
+  return values.length === length && new Set(values).size === length && values.every(value => value >= 0 && value < length);
+};
+
+export const isQuizAnswer = (value: unknown): value is QuizAnswer => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  switch (candidate.kind) {
+    case 'choice':
+      return Number.isInteger(candidate.index);
+    case 'boolean':
+      return typeof candidate.value === 'boolean';
+    case 'text':
+      return typeof candidate.text === 'string' &&
+        (candidate.locale === undefined || isLocale(candidate.locale));
+    case 'multi':
+      return Array.isArray(candidate.indices) && candidate.indices.every(Number.isInteger);
+    case 'order':
+      return Array.isArray(candidate.order) && candidate.order.every(Number.isInteger);
+    case 'node':
+      return typeof candidate.nodeId === 'string';
+    default:
+      return false;
+  }
+};
+
+// Bare option indexes are shorthand for a choice
+export const toQuizAnswer = (answer: number | QuizAnswer): QuizAnswer => {
+  return typeof answer === 'number' ? { kind: 'choice', index: answer } : answer;
+};
+
+// Why an answer can't be graded for this question, or null when it can
+export const validateAnswer = (question: EnhancedQuestion, answer: QuizAnswer): string | null => {
+  switch (question.type) {
+    case 'fill_blank':
+      if (answer.kind !== 'text') return `fill_blank questions take a text answer, got ${answer.kind}`;
+      if (!question.acceptedAnswers || question.acceptedAnswers.length === 0) return `Question ${question.id} has no accepted answers`;
+      return null;
+    case 'multi_select':
+      if (answer.kind !== 'multi') return `multi_select questions take a set of options, got ${answer.kind}`;
+      if (!question.correctIndices || question.correctIndices.length === 0) return `Question ${question.id} has no correct options`;
+      if (new Set(answer.indices).size !== answer.indices.length) return 'Options can only be picked once';
+      if (answer.indices.some(index => index < 0 || index >= question.options.length)) {
+        return `An option is out of range for question ${question.id}`;
+      }
+      return null;
+    case 'ordering':
+      if (answer.kind !== 'order') return `ordering questions take a sequence, got ${answer.kind}`;
+      if (!question.correctOrder || !isPermutation(question.correctOrder, question.options.length)) {
+        return `Question ${question.id} has no valid correct order`;
+      }
+      if (!isPermutation(answer.order, question.options.length)) return 'The sequence must place every option exactly once';
+      return null;
+    case 'scenario':
+      if (answer.kind === 'node') {
+        if (!question.graph) return `Question ${question.id} has no transaction graph`;
+        const problem = validateTransactionGraph(question.graph);
+        if (problem) return `Question ${question.id}: ${problem}`;
+        const node = question.graph.nodes.find(candidate => candidate.id === answer.nodeId);
+        return node?.kind === 'coin' ? null : `${answer.nodeId} is not a coin in question ${question.id}`;
+      }
+      if (answer.kind !== 'choice') return `scenario questions take an option or a graph node, got ${answer.kind}`;
+      break;
+    case 'true_false':
+      if (answer.kind === 'boolean') {
+        const labels = question.options.map(normalizeAnswerText);
+        return labels.includes('true') && labels.includes('false') ? null : `Question ${question.id} needs True and False options`;
+      }
+      if (answer.kind !== 'choice') return `true_false questions take a boolean or an option, got ${answer.kind}`;
+      break;
+    default:
+      if (answer.kind !== 'choice') return `${question.type} questions take an option, got ${answer.kind}`;
+  }
+
+  if (answer.kind !== 'choice') return null;
+  if (answer.index < 0 || answer.index >= question.options.length) {
+    return `Option ${answer.index} is out of range for question ${question.id}`;
+  }
+  return null;
+};
+
+// Grade an answer; throws when the answer doesn't fit the question type
+export const checkAnswer = (question: EnhancedQuestion, answer: QuizAnswer): AnswerCheck => {
+  const problem = validateAnswer(question, answer);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  switch (answer.kind) {
+    case 'text':
+      return checkTypedAnswer(answer.locale ? translateQuestion(question, answer.locale) : question, answer.text);
+    case 'multi': {
+      // Right picks minus wrong picks, as a share of the right answers
+      const correct = new Set(getCorrectIndices(question));
+      const hits = answer.indices.filter(index => correct.has(index)).length;
+      const misses = answer.indices.length - hits;
+      const score = Math.max(0, (hits - misses) / correct.size);
+      return { isCorrect: hits === correct.size && misses === 0, score, selectedIndex: -1, fuzzy: false };
+    }
+    case 'order': {
+      // Each pair of steps in the wrong order costs an equal share
+      const target = question.correctOrder || [];
+      const maxSwaps = (target.length * (target.length - 1)) / 2;
+      const swapped = countSwappedPairs(answer.order, target);
+      return { isCorrect: swapped === 0, score: maxSwaps > 0 ? 1 - swapped / maxSwaps : 1, selectedIndex: -1, fuzzy: false };
+    }
+    case 'node': {
+      const isCorrect = !!question.graph?.answerNodeIds.includes(answer.nodeId);
+      return { isCorrect, score: isCorrect ? 1 : 0, selectedIndex: -1, fuzzy: false };
+    }
+    case 'boolean': {
+      const selectedIndex = question.options.findIndex(option => normalizeAnswerText(option) === String(answer.value));
+      const isCorrect = selectedIndex === question.correctIndex;
+      return { isCorrect, score: isCorrect ? 1 : 0, selectedIndex, fuzzy: false };
+    }
+    case 'choice': {
+      const isCorrect = answer.index === question.correctIndex;
+      return { isCorrect, score: isCorrect ? 1 : 0, selectedIndex: answer.index, fuzzy: false };
+    }
+  }
+};
+
+function checkTypedAnswer(question: EnhancedQuestion, text: string): AnswerCheck {
+  const typed = normalizeAnswerText(text);
+  const accepted = question.acceptedAnswers || [];
+  if (!typed) {
+    return { isCorrect: false, score: 0, selectedIndex: -1, fuzzy: false };
+  }
+
+  const exact = accepted.find(candidate => normalizeAnswerText(candidate) === typed);
+  if (exact) {
+    return { isCorrect: true, score: 1, selectedIndex: -1, matchedAnswer: exact, fuzzy: false };
+  }
+
+  if (question.fuzzyMatch !== false) {
+    const close = accepted.find(candidate => {
+      const normalized = normalizeAnswerText(candidate);
+      return editDistance(typed, normalized) <= allowedTypos(normalized.length);
+    });
+    if (close) {
+      return { isCorrect: true, score: 1, selectedIndex: -1, matchedAnswer: close, fuzzy: true };
+    }
+  }
+
+  return { isCorrect: false, score: 0, selectedIndex: -1, fuzzy: false };
+}
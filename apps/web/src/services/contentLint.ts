@@ -0,0 +1,151 @@
+import { ContentLintIssue, Difficulty, EnhancedQuestion, TowerBand, TowerSpec } from '../types';
+import { GAME_MODES, getSprintCategories } from './gameModes';
+import { validateQuestion } from './questionValidation';
+import { getLayerBlockCount, TOWER_SPECS } from './towerSpec';
+
+/**
+ * Content Lint
+ * Quality checks for a question set, on top of validateQuestion's schema
+ * check. Errors are problems that break a game: clashing ids, answer keys
+ * outside the options, untagged questions and towers with too few questions
+ * for a band. Warnings are writing problems a player could exploit or trip
+ * over, like a correct option that stands out by its length alone.
+ * Run over the bundled set with `npm run lint:content`.
+ */
+
+// The correct option stands out once it's this much longer than every other
+export const ANSWER_LENGTH_RATIO = 1.5;
+
+// Words too common to show an explanation is about the correct option
+const STOP_WORDS = new Set([
+  'that', 'this', 'with', 'from', 'your', 'have', 'they', 'their', 'which', 'when',
+  'what', 'into', 'only', 'also', 'more', 'than', 'then', 'them', 'there',
+]);
+
+// Single-answer types, where the correct option is shown beside its distractors
+const CHOOSES_ONE_OPTION = new Set<EnhancedQuestion['type']>(['multiple_choice', 'scenario']);
+
+export interface ContentLintOptions {
+  towers?: TowerSpec[]; // Towers dealt from the whole set
+  categoryTowers?: TowerSpec[]; // Towers dealt from a single category, like the sprint's
+}
+
+const keyWords = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3 && !STOP_WORDS.has(word));
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const defaultTowers = (): TowerSpec[] => {
+  const towers = [
+    ...Object.values(TOWER_SPECS),
+    ...Object.values(GAME_MODES).filter(mode => !mode.needsCategory).map(mode => mode.tower),
+  ];
+  return towers.filter((tower, index) => towers.findIndex(other => other.id === tower.id) === index);
+};
+
+const defaultCategoryTowers = (): TowerSpec[] =>
+  Object.values(GAME_MODES).filter(mode => mode.needsCategory).map(mode => mode.tower);
+
+// Blocks in each difficulty band of a tower
+const countBandBlocks = (tower: TowerSpec): { band: TowerBand; blocks: number }[] =>
+  tower.bands.map(band => {
+    let blocks = 0;
+    for (let layer = band.fromLayer; layer <= band.toLayer; layer++) blocks += getLayerBlockCount(tower, layer);
+    return { band, blocks };
+  });
+
+const countByDifficulty = (questions: EnhancedQuestion[]): Record<Difficulty, number> => {
+  const counts: Record<Difficulty, number> = { easy: 0, medium: 0, hard: 0 };
+  questions.forEach(question => counts[question.difficulty]++);
+  return counts;
+};
+
+function lintQuestion(question: EnhancedQuestion): ContentLintIssue[] {
+  const issues: ContentLintIssue[] = [];
+  const report = (rule: ContentLintIssue['rule'], severity: ContentLintIssue['severity'], message: string) =>
+    issues.push({ rule, severity, message, questionId: question.id });
+  const options = Array.isArray(question.options) ? question.options : [];
+
+  if (options.length > 0 && (!Number.isInteger(question.correctIndex) || question.correctIndex < 0 || question.correctIndex >= options.length)) {
+    report('correct-index', 'error', `correctIndex ${question.correctIndex} is outside its ${options.length} options`);
+  }
+  if (!Array.isArray(question.learningTags) || question.learningTags.length === 0) {
+    report('learning-tags', 'error', 'No learningTags - the learning path can\'t place it');
+  }
+  if (issues.length > 0) return issues;
+
+  const problem = validateQuestion(question);
+  if (problem) {
+    report('invalid', 'error', problem);
+    return issues;
+  }
+  if (!CHOOSES_ONE_OPTION.has(question.type)) return issues;
+
+  const correct = options[question.correctIndex];
+  const longestOther = Math.max(...options.filter((_, index) => index !== question.correctIndex).map(option => option.length));
+  if (correct.length >= longestOther * ANSWER_LENGTH_RATIO) {
+    report('answer-length', 'warning', `The correct option is ${correct.length} characters and the next longest ${longestOther} - its length gives the answer away`);
+  }
+
+  const explanation = new Set(keyWords(question.explanation));
+  const words = keyWords(correct);
+  if (words.length > 0 && !words.some(word => explanation.has(word))) {
+    report('explanation', 'warning', 'The explanation never mentions the correct option');
+  }
+  return issues;
+}
+
+// Whole-set towers need enough questions of each band's difficulty to fill it;
+// a category tower needs its category to have at least one for each band
+function lintBands(questions: EnhancedQuestion[], towers: TowerSpec[], categoryTowers: TowerSpec[]): ContentLintIssue[] {
+  const issues: ContentLintIssue[] = [];
+  const counts = countByDifficulty(questions);
+  towers.forEach(tower => countBandBlocks(tower).forEach(({ band, blocks }) => {
+    if (counts[band.difficulty] < blocks) {
+      issues.push({
+        rule: 'band-coverage',
+        severity: 'error',
+        message: `${tower.name} tower: layers ${band.fromLayer}-${band.toLayer} hold ${blocks} ${band.difficulty} blocks but the set has ${counts[band.difficulty]} ${band.difficulty} questions`,
+      });
+    }
+  }));
+
+  const categories = getSprintCategories(questions).map(({ category }) => category);
+  categoryTowers.forEach(tower => categories.forEach(category => {
+    const categoryCounts = countByDifficulty(questions.filter(question => question.category === category));
+    tower.bands.filter(band => categoryCounts[band.difficulty] === 0).forEach(band => issues.push({
+      rule: 'band-coverage',
+      severity: 'warning',
+      message: `${tower.name} tower on ${category}: no ${band.difficulty} questions for layers ${band.fromLayer}-${band.toLayer}`,
+    }));
+  }));
+  return issues;
+}
+
+// Every problem found in a question set, set-wide findings last
+export const lintQuestionBank = (questions: EnhancedQuestion[], options: ContentLintOptions = {}): ContentLintIssue[] => {
+  const issues: ContentLintIssue[] = [];
+  const ids = new Set<string>();
+  const texts = new Map<string, string>(); // Normalized question text -> first id with it
+
+  questions.forEach(question => {
+    if (ids.has(question.id)) {
+      issues.push({ rule: 'duplicate-id', severity: 'error', message: `Id ${question.id} is used by more than one question`, questionId: question.id });
+    }
+    ids.add(question.id);
+    if (typeof question.question === 'string') {
+      const text = normalize(question.question);
+      const first = texts.get(text);
+      if (first !== undefined) {
+        issues.push({ rule: 'duplicate-text', severity: 'warning', message: `Same question text as ${first}`, questionId: question.id });
+      } else {
+        texts.set(text, question.id);
+      }
+    }
+    issues.push(...lintQuestion(question));
+  });
+
+  const playable = questions.filter(question => !validateQuestion(question));
+  issues.push(...lintBands(playable, options.towers || defaultTowers(), options.categoryTowers || defaultCategoryTowers()));
+  return issues;
+};
@@ -0,0 +1,171 @@
+import {
+  BlockContent,
+  ContentTracker,
+  Difficulty,
+  EnhancedQuestion,
+  PlayerProgress,
+  PrivacyCategory,
+  QuestionSelectionOptions,
+  QuestionSelectionPolicy
+} from '../types';
+import { getQuestionBank } from './questionBank';
+import { getLabeledItem } from './itemResponse';
+
+// Wrap a question as block content
+export const createBlockContent = (question: EnhancedQuestion): BlockContent => {
+  return {
+    id: question.id,
+    type: 'QUESTION',
+    difficulty: question.difficulty,
+    category: question.category,
+    title: `Question: ${question.question.substring(0, 50)}...`,
+    content: question.explanation,
+    question,
+  };
+};
+
+const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Accuracy (percent) at which a difficulty counts as mastered for the progressive policy
+const PROGRESSION_THRESHOLD = 70;
+
+// Accuracy assumed for categories and difficulties the player hasn't tried yet
+const NEUTRAL_ACCURACY = 50;
+
+// Pick one item with probability proportional to its weight
+const pickWeighted = <T>(items: T[], weights: number[], next: () => number): T => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return items[Math.floor(next() * items.length)];
+  }
+  let roll = next() * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+};
+
+// Enhanced content tracker implementation
+export class EnhancedContentTrackerImpl implements ContentTracker {
+  public shownContent: Set<string>;
+  public availableContent: BlockContent[] = [];
+  public questionBank: EnhancedQuestion[] = [];
+
+  constructor(shownContent: Iterable<string> = [], questionBank: EnhancedQuestion[] = getQuestionBank()) {
+    this.shownContent = new Set(shownContent);
+    this.initializeQuestionBank(questionBank);
+  }
+
+  private initializeQuestionBank(questionBank: EnhancedQuestion[]): void {
+    // Use the question bank in play - the API's published set once it has loaded
+    this.questionBank = questionBank;
+    this.availableContent = this.questionBank.map(q => createBlockContent(q));
+  }
+
+  getUnseenContent(difficulty?: Difficulty, category?: PrivacyCategory): BlockContent[] {
+    return this.availableContent.filter(content => {
+      const notShown = !this.shownContent.has(content.id);
+      const matchesDifficulty = !difficulty || content.difficulty === difficulty;
+      const matchesCategory = !category || content.category === category;
+      return notShown && matchesDifficulty && matchesCategory;
+    });
+  }
+
+  markAsShown(contentId: string): void {
+    this.shownContent.add(contentId);
+  }
+
+  isAllContentShown(): boolean {
+    return this.shownContent.size >= this.availableContent.length;
+  }
+
+  getCompletionPercentage(): number {
+    return (this.shownContent.size / this.availableContent.length) * 100;
+  }
+
+  // Choose the next question for a player using one of the selection policies
+  selectOptimalQuestion(playerContext: PlayerProgress, options: QuestionSelectionOptions = {}): BlockContent | null {
+    const candidates = options.candidates || this.getUnseenContent();
+    if (candidates.length === 0) return null;
+
+    const policy: QuestionSelectionPolicy = options.policy || 'adaptive';
+    const random = options.random;
+    const next = random ? () => random.next() : Math.random;
+    const categoryAccuracy = (category: PrivacyCategory) => this.getCategoryAccuracy(playerContext, options, category);
+    const difficultyAccuracy = (difficulty: Difficulty) => this.getDifficultyAccuracy(playerContext, options, difficulty);
+    const weaknesses = new Set(playerContext.adaptiveMetrics.categoryWeaknesses);
+    const preferred = options.preferredDifficulty;
+
+    switch (policy) {
+      case 'weighted_random': {
+        // Mostly random, nudged towards the block's own difficulty band
+        const weights = candidates.map(content => content.difficulty === preferred ? 2 : 1);
+        return pickWeighted(candidates, weights, next);
+      }
+
+      case 'progressive': {
+        // Work up easy -> medium -> hard, moving on once a level is mastered
+        const level = DIFFICULTY_ORDER.find(difficulty =>
+          difficultyAccuracy(difficulty) < PROGRESSION_THRESHOLD &&
+          candidates.some(content => content.difficulty === difficulty)
+        ) || DIFFICULTY_ORDER.filter(difficulty => candidates.some(content => content.difficulty === difficulty)).pop();
+        const atLevel = candidates.filter(content => content.difficulty === level);
+        return pickWeighted(atLevel, atLevel.map(() => 1), next);
+      }
+
+      case 'remedial': {
+        // Revisit the weakest categories, with easier questions first
+        const weights = candidates.map(content => {
+          const gap = 100 - categoryAccuracy(content.category);
+          const weaknessBoost = weaknesses.has(content.category) ? 3 : 1;
+          const easeBoost = content.difficulty === 'easy' ? 1.5 : content.difficulty === 'medium' ? 1.2 : 1;
+          return (gap + 10) * weaknessBoost * easeBoost;
+        });
+        return pickWeighted(candidates, weights, next);
+      }
+
+      case 'adaptive':
+      default: {
+        // Aim one notch above the level the player is comfortable at, favouring weak categories.
+        // With calibrated questions, aim at the player's IRT ability instead - the labels sit
+        // one logit apart, so both distances are on the same footing
+        const comfortable = DIFFICULTY_ORDER.filter(difficulty => difficultyAccuracy(difficulty) >= PROGRESSION_THRESHOLD).length;
+        const targetRank = Math.min(DIFFICULTY_ORDER.length - 1, comfortable);
+        const items = options.itemParameters && Object.keys(options.itemParameters).length > 0 ? options.itemParameters : undefined;
+        const weights = candidates.map(content => {
+          const distance = items
+            ? Math.abs((items[content.id] || getLabeledItem(content.id, content.difficulty)).difficulty - playerContext.adaptiveMetrics.ability)
+            : Math.abs(DIFFICULTY_ORDER.indexOf(content.difficulty) - targetRank);
+          const fit = 1 / (1 + distance * 2);
+          const weakness = 1 + (100 - categoryAccuracy(content.category)) / 100 + (weaknesses.has(content.category) ? 1 : 0);
+          const band = content.difficulty === preferred ? 1.5 : 1;
+          return fit * weakness * band;
+        });
+        return pickWeighted(candidates, weights, next);
+      }
+    }
+  }
+
+  private getCategoryAccuracy(progress: PlayerProgress, options: QuestionSelectionOptions, category: PrivacyCategory): number {
+    const attempted = progress.questionHistory.some(attempt => attempt.category === category);
+    if (!attempted) return NEUTRAL_ACCURACY;
+    return options.playerSkill?.categoryAccuracy[category] ?? progress.categoryMastery[category] ?? NEUTRAL_ACCURACY;
+  }
+
+  private getDifficultyAccuracy(progress: PlayerProgress, options: QuestionSelectionOptions, difficulty: Difficulty): number {
+    const attempted = progress.questionHistory.some(attempt => attempt.difficulty === difficulty);
+    if (!attempted) return difficulty === 'easy' ? NEUTRAL_ACCURACY : 0;
+    return options.playerSkill?.difficultyPerformance[difficulty] ?? progress.difficultyProgression[difficulty] ?? 0;
+  }
+
+  getQuestionByDifficulty(difficulty: Difficulty): BlockContent[] {
+    return this.availableContent.filter(content => content.difficulty === difficulty);
+  }
+
+  getQuestionByCategory(category: PrivacyCategory): BlockContent[] {
+    return this.availableContent.filter(content => content.category === category);
+  }
+}
+
+export default EnhancedContentTrackerImpl;
@@ -0,0 +1,130 @@
+import { EnhancedQuestion, GameMode, GameModeConfig, PrivacyCategory } from '../types';
+import { createTowerSpec, DEFAULT_TOWER_SPEC } from './towerSpec';
+import { getQuestionBank } from './questionBank';
+
+/**
+ * Game Modes
+ * Each mode owns the rules of a game: the tower it is played on, which
+ * questions can be dealt, how answers score and when the game is over. The
+ * game core looks modes up by id, so engine state and replay logs only carry
+ * a small GameModeConfig and custom modes can be registered alongside the
+ * built-in ones.
+ */
+
+// Categories need at least this many questions to be worth a sprint
+export const MIN_SPRINT_QUESTIONS = 5;
+
+const SUDDEN_DEATH_MULTIPLIER = 2;
+
+export const CLASSIC_MODE: GameMode = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Keep the tower standing. When it falls, rebuild and carry on until every concept is learned.',
+  icon: '🧱',
+  tower: DEFAULT_TOWER_SPEC,
+  needsCategory: false,
+  followsLearningPath: true,
+  tracksStability: true,
+  rebuildsAfterCollapse: true,
+  includesQuestion: () => true,
+  scorePoints: points => points,
+  collapsesTower: (_result, game) => game.towerStability <= 0,
+  isComplete: () => false, // Decided at rebuild time, once no unseen questions are left
+};
+
+export const SUDDEN_DEATH_MODE: GameMode = {
+  ...CLASSIC_MODE,
+  id: 'sudden-death',
+  name: 'Sudden Death',
+  description: 'Double points, but the first wrong answer brings the whole tower down.',
+  icon: '💀',
+  rebuildsAfterCollapse: false,
+  scorePoints: points => points * SUDDEN_DEATH_MULTIPLIER,
+  collapsesTower: (result, game) => !result.isCorrect || game.towerStability <= 0,
+};
+
+export const ZEN_MODE: GameMode = {
+  ...CLASSIC_MODE,
+  id: 'zen',
+  name: 'Zen',
+  description: 'No score and no collapse - just work through every question at your own pace.',
+  icon: '🧘',
+  tracksStability: false,
+  scorePoints: () => 0,
+  collapsesTower: () => false,
+  isComplete: (_game, unseenQuestions) => unseenQuestions === 0,
+};
+
+export const CATEGORY_SPRINT_MODE: GameMode = {
+  ...CLASSIC_MODE,
+  id: 'category-sprint',
+  name: 'Category Sprint',
+  description: 'A short tower on a single topic. Clear every question in the category to win.',
+  icon: '🎯',
+  tower: createTowerSpec({ id: 'sprint', name: 'Sprint', layers: 6, blocksPerLayer: 3, topLayerBlocks: 1 }),
+  needsCategory: true,
+  followsLearningPath: false, // Every question in the category is fair game
+  includesQuestion: (question, config) => question.category === config.category,
+  isComplete: (_game, unseenQuestions) => unseenQuestions === 0,
+};
+
+export const GAME_MODES: Record<string, GameMode> = {
+  [CLASSIC_MODE.id]: CLASSIC_MODE,
+  [SUDDEN_DEATH_MODE.id]: SUDDEN_DEATH_MODE,
+  [ZEN_MODE.id]: ZEN_MODE,
+  [CATEGORY_SPRINT_MODE.id]: CATEGORY_SPRINT_MODE,
+};
+
+export const DEFAULT_GAME_MODE: GameModeConfig = { id: CLASSIC_MODE.id };
+
+// Register a custom mode under its id so the game core can restore it from state
+export const registerGameMode = (mode: GameMode): void => {
+  GAME_MODES[mode.id] = mode;
+};
+
+export const getGameMode = (id: string): GameMode => {
+  const mode = GAME_MODES[id];
+  if (!mode) {
+    throw new Error(`Unknown game mode: ${id}`);
+  }
+  return mode;
+};
+
+// Check a mode config before a game starts; throws when it can't be played
+export const resolveGameMode = (config: GameModeConfig = DEFAULT_GAME_MODE): GameModeConfig => {
+  const mode = getGameMode(config.id);
+  if (mode.needsCategory && !config.category) {
+    throw new Error(`${mode.name} needs a category`);
+  }
+  return mode.needsCategory ? { id: mode.id, category: config.category } : { id: mode.id };
+};
+
+// Questions a game in this mode deals from
+export const getModeQuestions = <T extends { question: EnhancedQuestion }>(items: T[], config: GameModeConfig): T[] => {
+  const mode = getGameMode(config.id);
+  return items.filter(item => mode.includesQuestion(item.question, config));
+};
+
+// Categories with enough questions for a sprint, largest first
+export const getSprintCategories = (questions: EnhancedQuestion[]): { category: PrivacyCategory; questions: number }[] => {
+  const counts = new Map<PrivacyCategory, number>();
+  questions.forEach(question => counts.set(question.category, (counts.get(question.category) || 0) + 1));
+  return [...counts.entries()]
+    .filter(([, count]) => count >= MIN_SPRINT_QUESTIONS)
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, count]) => ({ category, questions: count }));
+};
+
+// Parse the ?mode= and ?category= query values; unknown modes, and sprints without
+// a category the question set can fill, fall back to Classic
+export const parseGameMode = (mode: string | null, category: string | null, questions: EnhancedQuestion[] = getQuestionBank()): GameModeConfig => {
+  const gameMode = mode ? GAME_MODES[mode] : undefined;
+  if (!gameMode) {
+    return DEFAULT_GAME_MODE;
+  }
+  if (!gameMode.needsCategory) {
+    return { id: gameMode.id };
+  }
+  const sprint = getSprintCategories(questions).find(candidate => candidate.category === category);
+  return sprint ? { id: gameMode.id, category: sprint.category } : DEFAULT_GAME_MODE;
+};
@@ -0,0 +1,1468 @@
+import {
+  Block,
+  BlockContent,
+  GameState,
+  Player,
+  GameMove,
+  QuizResult,
+  PrivacyCategory,
+  GameSettings,
+  GameStatistics,
+  Achievement,
+  Difficulty,
+  EnhancedQuestion,
+  PlayerProgress,
+  QuestionAttempt,
+  QuizAnswer,
+  AdaptiveMetrics,
+  AnswerOutcome,
+  GameAction,
+  GameEngineState,
+  GameEvent,
+  GameModeConfig,
+  GameReduction,
+  HintKind,
+  HintUsage,
+  RandomFactory,
+  RandomSource,
+  HotSeatPlayer,
+  HotSeatState,
+  StabilityZone,
+  TowerSpec
+} from '../types';
+import { EnhancedContentTrackerImpl, createBlockContent } from './contentTracker';
+import { getQuestionBank } from './questionBank';
+import { assessBlockRemoval, calculateStructuralIntegrity } from './towerStructure';
+import { createLearningPhase, evaluatePhase, getNextPhase, isQuestionUnlocked } from './learningPath';
+import { estimateAbility } from './itemResponse';
+import { checkAnswer, getCorrectIndices, toQuizAnswer } from './answerGrading';
+import { getGameMode, getModeQuestions, resolveGameMode } from './gameModes';
+import { getBlockWorldPosition, getLayerBlockCount, getLayerDifficulty, validateTowerSpec } from './towerSpec';
+import { getTurnPlayer, validateHotSeatNames } from './hotSeat';
+import { DEFAULT_RANDOM_ALGORITHM, RANDOM_ALGORITHMS, normalizeSeed } from '../utils/random';
+
+/**
+ * Pure Game Core
+ * gameReducer(state, action) returns the next state plus the domain events the
+ * action produced. It never mutates its input: each reduction works on a private
+ * draft copy, and time and randomness come from the action and the state, so the
+ * same actions always lead to the same game.
+ */
+
+// Enhanced game settings with new stability mechanics
+export const DEFAULT_SETTINGS: GameSettings = {
+  startingStability: 100,
+  maxStability: 100,
+  
+  // Enhanced stability mechanics
+  stabilityMechanics: {
+    baseStability: 100,
+    stabilityRanges: {
+      critical: [0, 25],    // Red zone - high risk
+      warning: [26, 50],    // Orange zone - medium risk  
+      stable: [51, 75],     // Yellow zone - low risk
+      optimal: [76, 100],   // Green zone - safe
+    },
+    impactMultipliers: {
+      easy: { correct: 2, incorrect: -5 },
+      medium: { correct: 3, incorrect: -8 },
+      hard: { correct: 5, incorrect: -12 },
+    },
+    consecutiveBonuses: {
+      correct: [0, 1, 2, 3, 5], // Bonus for streaks
+      incorrect: [0, -1, -2, -3, -5], // Penalty for streaks
+    },
+    structural: {
+      maxDamage: 30,
+      correctMultiplier: 0.5, // A correct answer steadies your hand
+      incorrectMultiplier: 1.5, // A wrong answer makes a risky pull worse
+    },
+  },
+  
+  // Adaptive difficulty settings
+  adaptiveDifficulty: {
+    playerSkill: {
+      overallAccuracy: 0,
+      categoryAccuracy: {
+        'on-chain': 0,
+        'off-chain': 0,
+        'coin-mixing': 0,
+        'wallet-setup': 0,
+        'lightning': 0,
+        'regulatory': 0,
+        'best-practices': 0,
+        'network-privacy': 0,
+        'exchange-privacy': 0,
+        'api-privacy': 0,
+        'social-privacy': 0,
+        'transaction-security': 0,
+        'kyc-privacy': 0,
+        'security': 0,
+        'physical-privacy': 0,
+      },
+      difficultyPerformance: {
+        easy: 0,
+        medium: 0,
+        hard: 0,
+      },
+    },
+    dynamicAdjustment: {
+      questionSelection: 'adaptive',
+      difficultyProgression: 'adaptive',
+      stabilityScaling: 'dynamic',
+    },
+  },
+  
+  // Achievement settings
+  achievementSettings: {
+    perfectRoundThreshold: 10,
+    survivorThreshold: 15,
+    fastThinkerThreshold: 10,
+    stabilityMasterThreshold: 80,
+    learningMasterThreshold: 90,
+  },
+  
+  // Question settings
+  questionSettings: {
+    timeLimitEnabled: true,
+    defaultTimeLimit: 30,
+    blitzMode: false,
+    blitzTimeLimit: 12,
+    blitzPointsPerSecond: 2,
+    hintsEnabled: true,
+    maxHintsPerQuestion: 3,
+    hintPointCost: 3,
+    hintStabilityReduction: 0.25,
+    progressiveDifficulty: true,
+  },
+};
+
+// Enhanced achievement definitions
+export const ACHIEVEMENTS: Omit<Achievement, 'isUnlocked' | 'unlockedAt'>[] = [
+  {
+    id: 'perfect-round',
+    name: 'Perfect Round',
+    description: 'Answered all questions correctly in a tower',
+    icon: '🎯',
+    category: 'gameplay',
+    points: 100,
+    condition: {
+      type: 'perfect_round',
+      value: DEFAULT_SETTINGS.achievementSettings.perfectRoundThreshold,
+      description: 'Complete a tower without any wrong answers'
+    }
+  },
+  {
+    id: 'survivor',
+    name: 'Survivor',
+    description: 'Lasted many turns before tower collapse',
+    icon: '🧱',
+    category: 'gameplay',
+    points: 75,
+    condition: {
+      type: 'survivor',
+      value: DEFAULT_SETTINGS.achievementSettings.survivorThreshold,
+      description: 'Survive many turns before the tower collapses'
+    }
+  },
+  {
+    id: 'privacy-pro',
+    name: 'Privacy Pro',
+    description: 'Completed all 54 privacy questions',
+    icon: '🔒',
+    category: 'learning',
+    points: 500,
+    condition: {
+      type: 'privacy_pro',
+      value: 54,
+      description: 'Learn all privacy concepts in the game'
+    }
+  },
+  {
+    id: 'fast-thinker',
+    name: 'Fast Thinker',
+    description: 'Answered questions within time limit',
+    icon: '⚡',
+    category: 'gameplay',
+    points: 50,
+    condition: {
+      type: 'fast_thinker',
+      value: DEFAULT_SETTINGS.achievementSettings.fastThinkerThreshold,
+      description: 'Answer questions quickly'
+    }
+  },
+  {
+    id: 'consecutive-master',
+    name: 'Consecutive Master',
+    description: 'Answered many questions correctly in a row',
+    icon: '🔥',
+    category: 'mastery',
+    points: 150,
+    condition: {
+      type: 'consecutive_correct',
+      value: 5,
+      description: 'Answer 5 questions correctly in a row'
+    }
+  },
+  {
+    id: 'stability-master',
+    name: 'Stability Master',
+    description: 'Maintained high tower stability throughout',
+    icon: '🏗️',
+    category: 'mastery',
+    points: 200,
+    condition: {
+      type: 'stability_master',
+      value: DEFAULT_SETTINGS.achievementSettings.stabilityMasterThreshold,
+      description: 'Keep tower stability above 80%'
+    }
+  },
+  {
+    id: 'category-explorer',
+    name: 'Category Explorer',
+    description: 'Explored all privacy categories',
+    icon: '🗺️',
+    category: 'learning',
+    points: 100,
+    condition: {
+      type: 'all_categories',
+      value: 7,
+      description: 'Learn from all 7 privacy categories'
+    }
+  },
+  {
+    id: 'learning-master',
+    name: 'Learning Master',
+    description: 'Achieved high learning effectiveness',
+    icon: '🧠',
+    category: 'learning',
+    points: 300,
+    condition: {
+      type: 'learning_master',
+      value: DEFAULT_SETTINGS.achievementSettings.learningMasterThreshold,
+      description: 'Achieve high learning effectiveness score'
+    }
+  }
+];
+
+// Question types whose option order carries no meaning and can be shuffled
+const SHUFFLEABLE_TYPES: EnhancedQuestion['type'][] = ['multiple_choice', 'scenario', 'multi_select', 'ordering'];
+
+// Shared, read-only view of the question bank in play, rebuilt when the bank changes
+let questionBankView: EnhancedContentTrackerImpl | undefined;
+const getQuestionBankView = (): EnhancedContentTrackerImpl => {
+  if (!questionBankView || questionBankView.questionBank !== getQuestionBank()) {
+    questionBankView = new EnhancedContentTrackerImpl();
+  }
+  return questionBankView;
+};
+
+// Working context for a single reduction
+interface ReducerContext {
+  state: GameEngineState; // Private draft, safe to mutate
+  events: GameEvent[];
+  random: RandomSource;
+  now: number;
+}
+
+export interface EngineInitOptions {
+  seed: number;
+  timestamp: number;
+  randomAlgorithm?: string;
+  randomFactory?: RandomFactory;
+  settings?: GameSettings;
+  reviewQueue?: string[];
+  mode?: GameModeConfig;
+  tower?: TowerSpec;
+  players?: string[];
+}
+
+// Build the engine state for a brand new game
+export const createInitialEngineState = (options: EngineInitOptions): GameEngineState => {
+  const seed = normalizeSeed(options.seed);
+  const randomAlgorithm = options.randomAlgorithm || DEFAULT_RANDOM_ALGORITHM;
+  const random = createRandom(randomAlgorithm, seed, options.randomFactory);
+  const settings = cloneSettings(options.settings || DEFAULT_SETTINGS);
+  const mode = resolveGameMode(options.mode);
+  if (getModeQuestions(getQuestionBankView().availableContent, mode).length === 0) {
+    throw new Error(`No questions to play ${getGameMode(mode.id).name} with`);
+  }
+  const tower = structuredClone(options.tower || getGameMode(mode.id).tower);
+  const towerProblem = validateTowerSpec(tower);
+  if (towerProblem) {
+    throw new Error(towerProblem);
+  }
+  const playersProblem = options.players && validateHotSeatNames(options.players);
+  if (playersProblem) {
+    throw new Error(playersProblem);
+  }
+
+  const state: GameEngineState = {
+    game: createInitialGameState(seed, settings, options.timestamp, mode, tower),
+    blocks: [],
+    settings,
+    randomAlgorithm,
+    randomFactory: options.randomFactory,
+    randomState: seed,
+    shownContent: [],
+    sessionStartedAt: options.timestamp,
+    reviewQueue: options.reviewQueue && options.reviewQueue.length > 0 ? [...options.reviewQueue] : undefined,
+  };
+
+  if (options.players) {
+    state.game.hotSeat = createHotSeat(options.players);
+  }
+
+  state.blocks = createTower(state);
+  state.game.totalBlocks = state.blocks.length;
+  state.randomState = random.getState();
+
+  return state;
+};
+
+// The reducer - (state, action) => { state, events }
+export const gameReducer = (state: GameEngineState, action: GameAction): GameReduction => {
+  if (action.type === 'RESET') {
+    const next = createInitialEngineState({
+      seed: action.seed,
+      timestamp: action.timestamp,
+      randomAlgorithm: action.randomAlgorithm,
+      settings: action.settings,
+      reviewQueue: action.reviewQueue,
+      mode: action.mode,
+      tower: action.tower,
+      players: action.players,
+    });
+    return { state: next, events: [{ type: 'GameStarted', seed: next.game.seed }] };
+  }
+
+  const draft = cloneEngineState(state);
+  const ctx: ReducerContext = {
+    state: draft,
+    events: [],
+    random: createRandom(draft.randomAlgorithm, draft.randomState, draft.randomFactory),
+    now: action.timestamp,
+  };
+
+  let changed: boolean;
+  switch (action.type) {
+    case 'SELECT_BLOCK':
+      changed = selectBlock(ctx, action.blockId);
+      break;
+    case 'ANSWER':
+      changed = answerQuestion(ctx, action.blockId, action.answer);
+      break;
+    case 'TIMEOUT':
+      changed = expireQuestion(ctx, action.blockId);
+      break;
+    case 'USE_HINT':
+      changed = revealHint(ctx, action.blockId, action.kind);
+      break;
+    case 'REBUILD':
+      changed = rebuildTower(ctx, action.reviewQueue);
+      break;
+    case 'PASS_TURN':
+      changed = skipTurn(ctx);
+      break;
+    default:
+      changed = false;
+  }
+
+  // Rejected actions hand back the original state untouched
+  if (!changed) {
+    return { state, events: [] };
+  }
+
+  draft.randomState = ctx.random.getState();
+  return { state: draft, events: ctx.events };
+};
+
+// Map a stability value onto the configured zones
+export const getStabilityZone = (stability: number, settings: GameSettings = DEFAULT_SETTINGS): StabilityZone => {
+  const ranges = settings.stabilityMechanics.stabilityRanges;
+  if (stability <= ranges.critical[1]) return 'critical';
+  if (stability <= ranges.warning[1]) return 'warning';
+  if (stability <= ranges.stable[1]) return 'stable';
+  return 'optimal';
+};
+
+// Answers arriving this long after the limit still count, to absorb UI and network lag
+export const TIME_LIMIT_GRACE_SECONDS = 1;
+
+// Seconds allowed for a question, or undefined when untimed
+export const getQuestionTimeLimit = (question: EnhancedQuestion, settings: GameSettings = DEFAULT_SETTINGS): number | undefined => {
+  const { timeLimitEnabled, defaultTimeLimit, blitzMode, blitzTimeLimit } = settings.questionSettings;
+  if (blitzMode) {
+    return Math.min(question.timeLimit ?? blitzTimeLimit, blitzTimeLimit);
+  }
+  if (!timeLimitEnabled) {
+    return undefined;
+  }
+  return question.timeLimit ?? defaultTimeLimit;
+};
+
+// Copy of the given settings with Blitz mode switched on
+export const withBlitzMode = (settings: GameSettings = DEFAULT_SETTINGS): GameSettings => {
+  const blitz = cloneSettings(settings);
+  blitz.questionSettings.blitzMode = true;
+  return blitz;
+};
+
+// Block click - deal the block a question if it has none yet, then reveal it
+function selectBlock(ctx: ReducerContext, blockId: string): boolean {
+  const { state } = ctx;
+  const block = state.blocks.find(b => b.id === blockId);
+  if (!block || block.isRemoved) {
+    return false;
+  }
+
+  if (!block.content) {
+    block.content = dealQuestion(ctx, block);
+    block.category = block.content.category;
+  }
+
+  // Start timing the answer as soon as the question is revealed
+  state.answerStartedAt = ctx.now;
+  if (state.hintUsage?.blockId !== blockId) {
+    state.hintUsage = undefined;
+  }
+
+  // Mark content as shown
+  markAsShown(state, block.content.id);
+  state.game.contentShown.add(block.content.id);
+  state.game.totalContentShown = state.game.contentShown.size;
+
+  // Update game state
+  state.game.selectedBlockId = blockId;
+  block.hasBeenShown = true;
+
+  // Record the move
+  recordGameMove(ctx, 'block_clicked', 'success', 0, 0, block.content);
+
+  ctx.events.push({ type: 'BlockSelected', blockId, content: block.content });
+  return true;
+}
+
+// Hints written for the question, falling back to ones built from its tags and explanation
+export const getQuestionHints = (question: EnhancedQuestion): string[] => {
+  if (question.hints && question.hints.length > 0) {
+    return question.hints;
+  }
+
+  const hints: string[] = [];
+  if (question.learningTags.length > 0) {
+    hints.push(`Think about: ${question.learningTags.map(tag => tag.replace(/[-_]/g, ' ')).join(', ')}`);
+  }
+  const firstSentence = question.explanation.match(/^.*?\.(\s|$)/)?.[0].trim() || question.explanation;
+  if (firstSentence) {
+    hints.push(firstSentence);
+  }
+  return hints;
+};
+
+// Reveal the next hint, or remove half of the wrong options (50/50), for the open question
+function revealHint(ctx: ReducerContext, blockId: string, kind: HintKind): boolean {
+  const { state } = ctx;
+  const { hintsEnabled, maxHintsPerQuestion } = state.settings.questionSettings;
+  const block = state.blocks.find(b => b.id === blockId);
+  if (!hintsEnabled || !block?.content || block.isRemoved || state.game.selectedBlockId !== blockId) {
+    return false;
+  }
+
+  const question = block.content.question;
+  const usage: HintUsage = state.hintUsage?.blockId === blockId ?
+    state.hintUsage :
+    { blockId, hintsRevealed: 0, usedFiftyFifty: false, eliminatedOptions: [] };
+  if (countHintsUsed(usage) >= maxHintsPerQuestion) {
+    return false;
+  }
+
+  let hint: string | undefined;
+  if (kind === 'hint') {
+    const hints = getQuestionHints(question);
+    if (usage.hintsRevealed >= hints.length) {
+      return false;
+    }
+    hint = hints[usage.hintsRevealed];
+    usage.hintsRevealed++;
+  } else {
+    // Two-option questions would be given away, so 50/50 needs at least three
+    const correctIndices = getCorrectIndices(question);
+    const wrongOptions = question.options
+      .map((_option, index) => index)
+      .filter(index => !correctIndices.includes(index));
+    if (usage.usedFiftyFifty || question.options.length < 3 || correctIndices.length === 0 || wrongOptions.length === 0) {
+      return false;
+    }
+    usage.eliminatedOptions = ctx.random
+      .shuffle(wrongOptions)
+      .slice(0, Math.floor(question.options.length / 2))
+      .sort((a, b) => a - b);
+    usage.usedFiftyFifty = true;
+  }
+
+  state.hintUsage = usage;
+  const hintsUsed = countHintsUsed(usage);
+  ctx.events.push({
+    type: 'HintRevealed',
+    reveal: {
+      blockId,
+      questionId: question.id,
+      kind,
+      hint,
+      eliminatedOptions: [...usage.eliminatedOptions],
+      hintsUsed,
+      hintsRemaining: Math.max(0, maxHintsPerQuestion - hintsUsed),
+    },
+  });
+  return true;
+}
+
+function countHintsUsed(usage?: HintUsage): number {
+  return usage ? usage.hintsRevealed + (usage.usedFiftyFifty ? 1 : 0) : 0;
+}
+
+// The clock ran out - only accepted once the question's limit has actually passed
+function expireQuestion(ctx: ReducerContext, blockId: string): boolean {
+  const { state } = ctx;
+  const block = state.blocks.find(b => b.id === blockId);
+  if (!block?.content || block.isRemoved || state.answerStartedAt === undefined) {
+    return false;
+  }
+
+  const timeLimit = getQuestionTimeLimit(block.content.question, state.settings);
+  const elapsed = (ctx.now - state.answerStartedAt) / 1000;
+  if (timeLimit === undefined || elapsed < timeLimit - TIME_LIMIT_GRACE_SECONDS) {
+    return false;
+  }
+
+  return answerQuestion(ctx, blockId, null);
+}
+
+// Enhanced quiz answer handling - a null answer means the time ran out
+function answerQuestion(ctx: ReducerContext, blockId: string, submitted: number | QuizAnswer | null): boolean {
+  const { state } = ctx;
+  const game = state.game;
+  const block = state.blocks.find(b => b.id === blockId);
+  // Only the open question can be answered, and only once
+  if (!block?.content || block.isRemoved || game.selectedBlockId !== blockId) {
+    return false;
+  }
+
+  const content = block.content;
+  const question = content.question;
+  const mode = getGameMode(game.mode.id);
+
+  // Grade by question type; answers that don't fit the question throw
+  const answer = submitted === null ? undefined : toQuizAnswer(submitted);
+  const check = answer ? checkAnswer(question, answer) : undefined;
+
+  // Calculate time to answer - measured here, from when the question was revealed
+  const timeToAnswer = state.answerStartedAt !== undefined ?
+    (ctx.now - state.answerStartedAt) / 1000 : undefined;
+  const timeLimit = getQuestionTimeLimit(question, state.settings);
+  const timedOut = !check || (
+    timeLimit !== undefined && timeToAnswer !== undefined && timeToAnswer > timeLimit + TIME_LIMIT_GRACE_SECONDS
+  );
+  const isCorrect = !timedOut && check.isCorrect;
+  const credit = timedOut ? 0 : check.score; // Partial credit for multi-select and ordering
+  const outcome: AnswerOutcome = timedOut ? 'timeout' : (isCorrect ? 'correct' : 'incorrect');
+  const hintUsage = state.hintUsage?.blockId === blockId ? state.hintUsage : undefined;
+  const hintsUsed = countHintsUsed(hintUsage);
+  state.hintUsage = undefined;
+
+  // Calculate enhanced stability impact: answer impact minus structural damage
+  // from pulling this particular block, scaled by whether the answer was right
+  const structure = assessBlockRemoval(state.blocks, block);
+  const structural = state.settings.stabilityMechanics.structural;
+  const structuralDamage = Math.round(
+    structure.risk * structural.maxDamage *
+    (isCorrect ? structural.correctMultiplier : structural.incorrectMultiplier)
+  );
+  // A partly right answer softens the penalty by the share it got right
+  const answerImpact = calculateStabilityImpact(ctx, question, isCorrect, hintsUsed);
+  const stabilityChange = Math.round(isCorrect ? answerImpact : answerImpact * (1 - credit)) - structuralDamage;
+  const timeBonus = calculateTimeBonus(state.settings, isCorrect, timeLimit, timeToAnswer);
+  const basePoints = credit > 0 ?
+    Math.max(0, Math.round(question.points.correct * credit) - hintsUsed * state.settings.questionSettings.hintPointCost) :
+    question.points.incorrect;
+  const pointsEarned = mode.scorePoints(basePoints + timeBonus, game);
+
+  // Update adaptive difficulty
+  updateAdaptiveDifficulty(ctx, question);
+
+  // Update game state
+  if (isCorrect) {
+    game.correctAnswers++;
+    game.currentScore += pointsEarned;
+    game.consecutiveCorrect++;
+    game.consecutiveIncorrect = 0;
+  } else {
+    game.incorrectAnswers++;
+    game.consecutiveIncorrect++;
+    game.consecutiveCorrect = 0;
+    if (credit > 0) {
+      game.currentScore += pointsEarned;
+    }
+    if (timedOut) {
+      game.timeouts++;
+    }
+  }
+
+  // Remove the block
+  block.isRemoved = true;
+  game.blocksRemoved++;
+  game.structuralIntegrity = calculateStructuralIntegrity(state.blocks);
+
+  // Update player statistics
+  game.currentPlayer.totalBlocksRemoved++;
+  if (isCorrect) {
+    game.currentPlayer.totalCorrectAnswers++;
+  } else {
+    game.currentPlayer.totalIncorrectAnswers++;
+  }
+
+  // Update tower stability - modes without stability leave it where it is
+  const oldStability = game.towerStability;
+  if (mode.tracksStability) {
+    game.towerStability = Math.max(0, Math.min(100, game.towerStability + stabilityChange));
+    if (structure.collapses) {
+      // Nothing left holding up the layers above - the tower comes down
+      game.towerStability = 0;
+    }
+  }
+
+  // Create enhanced quiz result
+  const quizResult: QuizResult = {
+    blockId,
+    questionId: question.id,
+    question: question.question,
+    selectedAnswer: check?.selectedIndex ?? -1,
+    correctAnswer: question.correctIndex,
+    answer,
+    score: credit,
+    matchedAnswer: check?.matchedAnswer,
+    isCorrect,
+    outcome,
+    explanation: question.explanation,
+    pointsEarned,
+    stabilityChange: game.towerStability - oldStability,
+    structuralRisk: structure.risk,
+    timeToAnswer,
+    timeLimit,
+    timeBonus,
+    hintsUsed,
+    usedFiftyFifty: !!hintUsage?.usedFiftyFifty,
+    difficulty: question.difficulty,
+    category: question.category,
+    learningTags: question.learningTags,
+    adaptiveImpact: {
+      skillAdjustment: isCorrect ? 1 : -1,
+      categoryAdjustment: isCorrect ? 0.5 : -0.5,
+      difficultyAdjustment: isCorrect ? 0.2 : -0.2,
+    },
+  };
+
+  // The mode decides whether this answer brings the tower down
+  const collapsed = mode.collapsesTower(quizResult, game);
+  if (collapsed) {
+    game.towerStability = 0;
+    quizResult.stabilityChange = game.towerStability - oldStability;
+  }
+
+  game.lastQuizResult = quizResult;
+
+  // Pass-and-play: the answer counts toward the player whose turn it is
+  if (game.hotSeat) {
+    recordHotSeatTurn(game.hotSeat, quizResult, collapsed);
+  }
+
+  // Record the move
+  recordGameMove(ctx, 'question_answered', isCorrect ? 'success' : (timedOut ? 'timeout' : 'failure'), pointsEarned, quizResult.stabilityChange, content);
+
+  ctx.events.push({ type: 'QuestionAnswered', result: quizResult });
+  ctx.events.push({ type: 'BlockRemoved', blockId });
+  emitStabilityChange(ctx, oldStability);
+
+  // Check if tower collapsed; modes that don't rebuild end the game here, and so
+  // does every pass-and-play game - the player who pulled the block loses
+  if (collapsed) {
+    const gameOver = !mode.rebuildsAfterCollapse || !!game.hotSeat;
+    game.gamePhase = gameOver ? 'gameOver' : 'collapsed';
+    game.towerCollapsed = true;
+    ctx.events.push({
+      type: 'TowerCollapsed',
+      score: game.currentScore,
+      blocksRemoved: game.blocksRemoved,
+      mode: game.mode.id,
+      gameOver,
+      ...(game.hotSeat && { blamedPlayerId: getTurnPlayer(game.hotSeat).id }),
+    });
+  }
+
+  // Update player progress
+  updatePlayerProgress(ctx, quizResult);
+
+  // Check achievements
+  checkAchievements(ctx);
+
+  // Some modes are won mid-tower; a cleared tower is restacked so play goes on
+  if (game.gamePhase === 'playing') {
+    if (mode.isComplete(game, getUnseenQuestions(state).length)) {
+      game.gamePhase = 'completed';
+      ctx.events.push({ type: 'GameCompleted', score: game.currentScore, mode: game.mode.id });
+    } else if (state.blocks.every(b => b.isRemoved)) {
+      restackTower(ctx);
+    }
+  }
+
+  if (game.hotSeat && game.gamePhase === 'playing') {
+    passTurn(ctx, game.hotSeat);
+  }
+
+  return true;
+}
+
+// Credit an answer to the hot-seat player who gave it
+function recordHotSeatTurn(hotSeat: HotSeatState, result: QuizResult, toppledTower: boolean): void {
+  const player = getTurnPlayer(hotSeat);
+  player.blocksRemoved++;
+  player.toppledTower = toppledTower;
+  if (result.isCorrect) {
+    player.correctAnswers++;
+    player.score += result.pointsEarned;
+    player.consecutiveCorrect++;
+    player.longestStreak = Math.max(player.longestStreak, player.consecutiveCorrect);
+    player.learningProgress[result.category]++;
+  } else {
+    player.incorrectAnswers++;
+    player.consecutiveCorrect = 0;
+    if (result.score > 0) {
+      player.score += result.pointsEarned;
+    }
+  }
+}
+
+function passTurn(ctx: ReducerContext, hotSeat: HotSeatState): void {
+  hotSeat.turn = (hotSeat.turn + 1) % hotSeat.players.length;
+  const next = getTurnPlayer(hotSeat);
+  ctx.events.push({ type: 'TurnPassed', playerId: next.id, nickname: next.nickname });
+}
+
+// Skip the turn player without an answer, e.g. an online player who dropped out.
+// Any question they had open is abandoned; the block stays in the tower.
+function skipTurn(ctx: ReducerContext): boolean {
+  const { state } = ctx;
+  if (!state.game.hotSeat || state.game.gamePhase !== 'playing') {
+    return false;
+  }
+
+  state.game.selectedBlockId = undefined;
+  state.answerStartedAt = undefined;
+  state.hintUsage = undefined;
+  passTurn(ctx, state.game.hotSeat);
+  return true;
+}
+
+// Rebuild tower after collapse
+function rebuildTower(ctx: ReducerContext, reviewQueue: string[] = []): boolean {
+  const { state } = ctx;
+  const game = state.game;
+  if (game.gamePhase !== 'collapsed') {
+    return false;
+  }
+
+  // Check if there's unseen content to continue
+  const unseenContent = getUnseenQuestions(state);
+  if (unseenContent.length === 0) {
+    game.gamePhase = 'completed';
+    ctx.events.push({ type: 'GameCompleted', score: game.currentScore, mode: game.mode.id });
+    return true;
+  }
+
+  state.reviewQueue = reviewQueue.length > 0 ? [...reviewQueue] : undefined;
+  game.gamePhase = 'playing';
+
+  // Reset consecutive counters for new tower
+  game.consecutiveCorrect = 0;
+  game.consecutiveIncorrect = 0;
+
+  // Record the rebuild
+  recordGameMove(ctx, 'tower_rebuilt', 'success', 0, 0, unseenContent[0]);
+
+  restackTower(ctx);
+  return true;
+}
+
+// Stack a fresh tower; its blocks are dealt questions as they're clicked
+function restackTower(ctx: ReducerContext): void {
+  const { state } = ctx;
+  const game = state.game;
+  const oldStability = game.towerStability;
+
+  state.blocks = createTower(state);
+  game.towerStability = state.settings.startingStability;
+  game.blocksRemoved = 0;
+  game.totalBlocks = state.blocks.length;
+  game.towerCollapsed = false;
+  game.rebuildCount++;
+  game.structuralIntegrity = 100;
+
+  ctx.events.push({ type: 'TowerRebuilt', rebuildCount: game.rebuildCount });
+  emitStabilityChange(ctx, oldStability);
+}
+
+function emitStabilityChange(ctx: ReducerContext, oldStability: number): void {
+  const { settings, game } = ctx.state;
+  const from = getStabilityZone(oldStability, settings);
+  const to = getStabilityZone(game.towerStability, settings);
+  if (from !== to) {
+    ctx.events.push({ type: 'StabilityZoneChanged', from, to, stability: game.towerStability });
+  }
+}
+
+// Enhanced stability calculation
+function calculateStabilityImpact(ctx: ReducerContext, question: EnhancedQuestion, isCorrect: boolean, hintsUsed = 0): number {
+  const { settings, game } = ctx.state;
+
+  // Use the question's stability impact directly
+  const baseImpact = isCorrect ?
+    question.stabilityImpact.correct :
+    question.stabilityImpact.incorrect;
+
+  // Apply consecutive bonus/penalty
+  const consecutiveArray = isCorrect ?
+    settings.stabilityMechanics.consecutiveBonuses.correct :
+    settings.stabilityMechanics.consecutiveBonuses.incorrect;
+
+  const consecutiveIndex = Math.min(
+    isCorrect ? game.consecutiveCorrect : game.consecutiveIncorrect,
+    consecutiveArray.length - 1
+  );
+  const consecutiveBonus = consecutiveArray[consecutiveIndex];
+
+  // Apply stability-based scaling
+  const currentStability = game.towerStability;
+  let stabilityMultiplier = 1;
+
+  if (currentStability <= 25) {
+    // Critical zone - reduce penalties, increase rewards
+    stabilityMultiplier = isCorrect ? 1.5 : 0.5;
+  } else if (currentStability <= 50) {
+    // Warning zone - moderate scaling
+    stabilityMultiplier = isCorrect ? 1.2 : 0.8;
+  } else if (currentStability >= 80) {
+    // Optimal zone - reduce rewards, increase penalties
+    stabilityMultiplier = isCorrect ? 0.8 : 1.2;
+  }
+
+  // Each hint shrinks the reward for a correct answer; penalties stay as they are
+  const impact = baseImpact * (1 + consecutiveBonus * 0.1) * stabilityMultiplier;
+  const hintMultiplier = isCorrect && impact > 0 ?
+    Math.max(0, 1 - hintsUsed * settings.questionSettings.hintStabilityReduction) : 1;
+
+  return Math.round(impact * hintMultiplier);
+}
+
+// Blitz mode turns the seconds left on the clock into points for a correct answer
+function calculateTimeBonus(settings: GameSettings, isCorrect: boolean, timeLimit?: number, timeToAnswer?: number): number {
+  const { blitzMode, blitzPointsPerSecond } = settings.questionSettings;
+  if (!blitzMode || !isCorrect || timeLimit === undefined || timeToAnswer === undefined) {
+    return 0;
+  }
+  return Math.round(Math.max(0, timeLimit - timeToAnswer) * blitzPointsPerSecond);
+}
+
+// Enhanced adaptive difficulty update
+function updateAdaptiveDifficulty(ctx: ReducerContext, question: EnhancedQuestion): void {
+  const { settings, game } = ctx.state;
+  const playerSkill = settings.adaptiveDifficulty.playerSkill;
+
+  // Update overall accuracy
+  const totalAnswers = game.correctAnswers + game.incorrectAnswers;
+  if (totalAnswers > 0) {
+    playerSkill.overallAccuracy = (game.correctAnswers / totalAnswers) * 100;
+  }
+
+  // Update category accuracy
+  const categoryAttempts = game.playerProgress.questionHistory
+    .filter(q => q.category === question.category);
+  const categoryCorrect = categoryAttempts.filter(q => q.isCorrect).length;
+  if (categoryAttempts.length > 0) {
+    playerSkill.categoryAccuracy[question.category] = (categoryCorrect / categoryAttempts.length) * 100;
+  }
+
+  // Update difficulty performance
+  const difficultyAttempts = game.playerProgress.questionHistory
+    .filter(q => q.difficulty === question.difficulty);
+  const difficultyCorrect = difficultyAttempts.filter(q => q.isCorrect).length;
+  if (difficultyAttempts.length > 0) {
+    playerSkill.difficultyPerformance[question.difficulty] = (difficultyCorrect / difficultyAttempts.length) * 100;
+  }
+
+  // Adjust current difficulty based on performance
+  adjustDifficulty(ctx);
+}
+
+function adjustDifficulty(ctx: ReducerContext): void {
+  const { settings, game } = ctx.state;
+  const overallAccuracy = settings.adaptiveDifficulty.playerSkill.overallAccuracy;
+  const currentDifficulty = game.currentDifficulty;
+
+  if (overallAccuracy >= 80 && currentDifficulty !== 'hard') {
+    // High accuracy - increase difficulty
+    game.currentDifficulty = currentDifficulty === 'easy' ? 'medium' : 'hard';
+  } else if (overallAccuracy <= 40 && currentDifficulty !== 'easy') {
+    // Low accuracy - decrease difficulty
+    game.currentDifficulty = currentDifficulty === 'hard' ? 'medium' : 'easy';
+  }
+}
+
+// Enhanced player progress update
+function updatePlayerProgress(ctx: ReducerContext, quizResult: QuizResult): void {
+  const progress = ctx.state.game.playerProgress;
+  const questionAttempt: QuestionAttempt = {
+    questionId: quizResult.questionId,
+    isCorrect: quizResult.isCorrect,
+    outcome: quizResult.outcome,
+    hintsUsed: quizResult.hintsUsed,
+    usedFiftyFifty: quizResult.usedFiftyFifty,
+    timeToAnswer: quizResult.timeToAnswer || 0,
+    stabilityImpact: quizResult.stabilityChange,
+    pointsEarned: quizResult.pointsEarned,
+    timestamp: new Date(ctx.now),
+    difficulty: quizResult.difficulty,
+    category: quizResult.category,
+  };
+
+  progress.questionHistory.push(questionAttempt);
+  updateLearningPath(ctx, quizResult);
+
+  // Update category mastery
+  const categoryAttempts = progress.questionHistory.filter(q => q.category === quizResult.category);
+  const categoryCorrect = categoryAttempts.filter(q => q.isCorrect).length;
+  progress.categoryMastery[quizResult.category] =
+    categoryAttempts.length > 0 ? (categoryCorrect / categoryAttempts.length) * 100 : 0;
+
+  // Update difficulty progression
+  const difficultyAttempts = progress.questionHistory.filter(q => q.difficulty === quizResult.difficulty);
+  const difficultyCorrect = difficultyAttempts.filter(q => q.isCorrect).length;
+  progress.difficultyProgression[quizResult.difficulty] =
+    difficultyAttempts.length > 0 ? (difficultyCorrect / difficultyAttempts.length) * 100 : 0;
+
+  // Update adaptive metrics
+  updateAdaptiveMetrics(ctx);
+}
+
+// Track phase progress and move to the next phase once its accuracy bar is met
+function updateLearningPath(ctx: ReducerContext, quizResult: QuizResult): void {
+  const progress = ctx.state.game.playerProgress;
+  const path = progress.learningPath;
+  if (quizResult.isCorrect && !path.completedQuestions.includes(quizResult.questionId)) {
+    path.completedQuestions.push(quizResult.questionId);
+  }
+
+  const evaluation = evaluatePhase(path, progress.questionHistory);
+  path.phaseProgress = evaluation.progress;
+
+  const next = getNextPhase(path.currentPhase);
+  if (evaluation.readyToAdvance && next) {
+    const from = path.currentPhase;
+    progress.learningPath = createLearningPhase(
+      next,
+      getQuestionBankView().questionBank,
+      progress.questionHistory.length,
+      path.completedQuestions
+    );
+    ctx.events.push({ type: 'LearningPhaseAdvanced', from, to: next });
+  }
+}
+
+function updateAdaptiveMetrics(ctx: ReducerContext): void {
+  const game = ctx.state.game;
+  const history = game.playerProgress.questionHistory;
+  const totalAttempts = history.length;
+  if (totalAttempts === 0) return;
+
+  const correctAttempts = history.filter(q => q.isCorrect).length;
+  const overallAccuracy = (correctAttempts / totalAttempts) * 100;
+
+  // Ability on the IRT scale, using calibrated questions where we have them
+  const estimate = estimateAbility(history, ctx.state.settings.adaptiveDifficulty.itemParameters);
+  game.adaptiveMetrics.ability = estimate.ability;
+  game.adaptiveMetrics.abilityStandardError = estimate.standardError;
+
+  // Calculate learning rate (recent performance vs overall)
+  const recentAttempts = history.slice(-10); // Last 10 attempts
+  const recentCorrect = recentAttempts.filter(q => q.isCorrect).length;
+  const recentAccuracy = recentAttempts.length > 0 ? (recentCorrect / recentAttempts.length) * 100 : 0;
+
+  game.adaptiveMetrics.learningRate = recentAccuracy - overallAccuracy;
+
+  // Retention - accuracy on questions seen before (review questions come back this way)
+  const seen = new Set<string>();
+  let repeats = 0;
+  let repeatsCorrect = 0;
+  history.forEach(attempt => {
+    if (seen.has(attempt.questionId)) {
+      repeats++;
+      if (attempt.isCorrect) repeatsCorrect++;
+    }
+    seen.add(attempt.questionId);
+  });
+  if (repeats > 0) {
+    game.adaptiveMetrics.retentionRate = (repeatsCorrect / repeats) * 100;
+  }
+
+  // Determine difficulty preference
+  const difficultyPerformance = game.playerProgress.difficultyProgression;
+  const bestDifficulty = Object.entries(difficultyPerformance)
+    .reduce((a, b) => difficultyPerformance[a[0] as Difficulty] > difficultyPerformance[b[0] as Difficulty] ? a : b)[0] as Difficulty;
+  game.adaptiveMetrics.difficultyPreference = bestDifficulty;
+
+  // Determine category strengths and weaknesses
+  const categoryMastery = game.playerProgress.categoryMastery;
+  game.adaptiveMetrics.categoryStrengths = Object.entries(categoryMastery)
+    .filter(([_, mastery]) => mastery >= 70)
+    .map(([category, _]) => category as PrivacyCategory);
+  game.adaptiveMetrics.categoryWeaknesses = Object.entries(categoryMastery)
+    .filter(([_, mastery]) => mastery <= 30)
+    .map(([category, _]) => category as PrivacyCategory);
+}
+
+function checkAchievements(ctx: ReducerContext): void {
+  const { settings, game } = ctx.state;
+  const thresholds = settings.achievementSettings;
+
+  // Perfect Round - no mistakes in current tower
+  if (game.incorrectAnswers === 0 && game.blocksRemoved >= thresholds.perfectRoundThreshold) {
+    unlockAchievement(ctx, 'perfect-round');
+  }
+
+  // Survivor - lasted many turns (only for correct answers)
+  if (game.correctAnswers >= thresholds.survivorThreshold) {
+    unlockAchievement(ctx, 'survivor');
+  }
+
+  // Fast Thinker - answered quickly (only for correct answers)
+  if (game.lastQuizResult?.isCorrect &&
+      game.lastQuizResult?.timeToAnswer &&
+      game.lastQuizResult.timeToAnswer <= thresholds.fastThinkerThreshold) {
+    unlockAchievement(ctx, 'fast-thinker');
+  }
+
+  // Consecutive Master
+  if (game.consecutiveCorrect >= 5) {
+    unlockAchievement(ctx, 'consecutive-master');
+  }
+
+  // Stability Master - only if maintaining high stability
+  if (game.towerStability >= thresholds.stabilityMasterThreshold && game.blocksRemoved >= 5) {
+    unlockAchievement(ctx, 'stability-master');
+  }
+
+  // Category Explorer - only for correct answers
+  const exploredCategories = Object.values(game.learningProgress).filter(progress => progress > 0).length;
+  if (exploredCategories >= 7 && game.correctAnswers >= 10) {
+    unlockAchievement(ctx, 'category-explorer');
+  }
+
+  // Learning Master - only for high accuracy
+  if (settings.adaptiveDifficulty.playerSkill.overallAccuracy >= thresholds.learningMasterThreshold && game.correctAnswers >= 20) {
+    unlockAchievement(ctx, 'learning-master');
+  }
+}
+
+function unlockAchievement(ctx: ReducerContext, achievementId: string): void {
+  const game = ctx.state.game;
+  const achievement = game.currentPlayer.achievements.find(a => a.id === achievementId);
+  if (achievement && !achievement.isUnlocked) {
+    achievement.isUnlocked = true;
+    achievement.unlockedAt = new Date(ctx.now);
+    game.currentPlayer.totalAchievements++;
+    const points = getGameMode(game.mode.id).scorePoints(achievement.points, game);
+    game.currentPlayer.score += points;
+    game.currentScore += points;
+    if (game.hotSeat) {
+      getTurnPlayer(game.hotSeat).score += points;
+    }
+
+    ctx.events.push({ type: 'AchievementUnlocked', achievement: { ...achievement } });
+  }
+}
+
+function recordGameMove(
+  ctx: ReducerContext,
+  action: GameMove['action'],
+  result: GameMove['result'],
+  points: number,
+  stabilityChange: number,
+  content: BlockContent
+): void {
+  const game = ctx.state.game;
+  game.gameHistory.push({
+    id: `move-${ctx.now}-${game.gameHistory.length}`,
+    blockId: game.selectedBlockId || '',
+    action,
+    result,
+    points,
+    stabilityChange,
+    timestamp: new Date(ctx.now),
+    content,
+    difficulty: game.currentDifficulty,
+  });
+}
+
+// Tower construction - blocks only carry their difficulty band until clicked
+function createTower(state: GameEngineState): Block[] {
+  const blocks: Block[] = [];
+  let blockId = 1;
+
+  const tower = state.game.tower;
+
+  // Once every question has been dealt, start over with the full pool
+  if (getUnseenQuestions(state).length === 0) {
+    state.shownContent = [];
+  }
+
+  // Stack the layers the tower spec describes, bottom up
+  for (let layer = 1; layer <= tower.layers; layer++) {
+    for (let position = 1; position <= getLayerBlockCount(tower, layer); position++) {
+      blocks.push({
+        id: `block-${blockId++}`,
+        type: 'QUESTION',
+        isRemoved: false,
+        layer,
+        position,
+        worldPosition: getBlockWorldPosition(tower, layer, position),
+        difficulty: getLayerDifficulty(tower, layer),
+        hasBeenShown: false
+      });
+    }
+  }
+
+  return blocks;
+}
+
+// Copy a question with its options shuffled, keeping the answer key pointing at the right options
+function shuffleQuestionOptions(ctx: ReducerContext, question: EnhancedQuestion): EnhancedQuestion {
+  if (!SHUFFLEABLE_TYPES.includes(question.type) || question.options.length < 2) {
+    return question;
+  }
+
+  let order = ctx.random.shuffle(question.options.map((_, index) => index));
+  // Don't deal an ordering question already in its solved order
+  const isSolved = (candidate: number[]) =>
+    !!question.correctOrder && candidate.every((index, position) => question.correctOrder?.[position] === index);
+  for (let attempt = 0; attempt < 5 && isSolved(order); attempt++) {
+    order = ctx.random.shuffle(order);
+  }
+
+  const shuffled: EnhancedQuestion = {
+    ...question,
+    options: order.map(index => question.options[index]),
+    correctIndex: order.indexOf(question.correctIndex),
+  };
+  if (question.correctIndices) {
+    shuffled.correctIndices = question.correctIndices.map(index => order.indexOf(index)).sort((a, b) => a - b);
+  }
+  if (question.correctOrder) {
+    shuffled.correctOrder = question.correctOrder.map(index => order.indexOf(index));
+  }
+  // Translated options move with the originals so the answer key fits every language
+  if (question.translations) {
+    shuffled.translations = Object.fromEntries(Object.entries(question.translations).map(([locale, translation]) => [
+      locale,
+      translation?.options ? { ...translation, options: order.map(index => translation.options?.[index] ?? '') } : translation,
+    ]));
+  }
+  return shuffled;
+}
+
+// Pick a question for a block using the configured selection policy
+function dealQuestion(ctx: ReducerContext, block: Block): BlockContent {
+  const { state } = ctx;
+  const game = state.game;
+  const inTower = new Set(state.blocks.flatMap(b => b.content ? [b.content.id] : []));
+
+  // Overdue review questions are dealt first, seen or not
+  const reviewId = state.reviewQueue?.find(questionId => !inTower.has(questionId));
+  const pool = getModeQuestions(getQuestionBankView().availableContent, game.mode);
+  const review = reviewId ? pool.find(content => content.id === reviewId) : undefined;
+  if (state.reviewQueue) {
+    state.reviewQueue = state.reviewQueue.filter(questionId => questionId !== reviewId && !inTower.has(questionId));
+  }
+
+  let content = review;
+  if (!content) {
+    // Only deal unseen questions from the mode's pool that the player's learning phase has unlocked
+    const phase = game.playerProgress.learningPath.currentPhase;
+    const followsPath = getGameMode(game.mode.id).followsLearningPath;
+    const unlocked = pool.filter(candidate =>
+      (!followsPath || isQuestionUnlocked(candidate.question, phase)) && !inTower.has(candidate.id)
+    );
+    const unseen = new Set(getUnseenQuestions(state).map(candidate => candidate.id));
+    const fresh = unlocked.filter(candidate => unseen.has(candidate.id));
+    // The block's difficulty band decides what it's dealt; other bands only step in once it has nothing left
+    const inBand = (contents: BlockContent[]) => contents.filter(candidate => candidate.difficulty === block.difficulty);
+    const candidates = [inBand(fresh), inBand(unlocked), fresh, unlocked].find(tier => tier.length > 0) || pool;
+
+    content = getQuestionBankView().selectOptimalQuestion(
+      { ...game.playerProgress, adaptiveMetrics: game.adaptiveMetrics },
+      {
+        policy: state.settings.adaptiveDifficulty.dynamicAdjustment.questionSelection,
+        random: ctx.random,
+        playerSkill: state.settings.adaptiveDifficulty.playerSkill,
+        preferredDifficulty: block.difficulty,
+        candidates,
+        itemParameters: state.settings.adaptiveDifficulty.itemParameters,
+      }
+    ) as BlockContent;
+  }
+
+  return createBlockContent(shuffleQuestionOptions(ctx, content.question));
+}
+
+function markAsShown(state: GameEngineState, contentId: string): void {
+  if (!state.shownContent.includes(contentId)) {
+    state.shownContent.push(contentId);
+  }
+}
+
+function createTracker(state: GameEngineState): EnhancedContentTrackerImpl {
+  return new EnhancedContentTrackerImpl(state.shownContent);
+}
+
+// Questions in the game mode's pool that haven't been dealt yet
+function getUnseenQuestions(state: GameEngineState): BlockContent[] {
+  return getModeQuestions(createTracker(state).getUnseenContent(), state.game.mode);
+}
+
+function createRandom(algorithm: string, state: number, own?: RandomFactory): RandomSource {
+  const factory = own || RANDOM_ALGORITHMS[algorithm];
+  if (!factory) {
+    throw new Error(`Unknown random algorithm: ${algorithm}`);
+  }
+  return factory(state);
+}
+
+// Initial state builders
+function createInitialGameState(seed: number, settings: GameSettings, timestamp: number, mode: GameModeConfig, tower: TowerSpec): GameState {
+  return {
+    gamePhase: 'playing',
+    seed,
+    mode,
+    tower,
+    currentScore: 0,
+    towerStability: settings.startingStability,
+    blocksRemoved: 0,
+    totalBlocks: 0,
+    correctAnswers: 0,
+    incorrectAnswers: 0,
+    timeouts: 0,
+
+    // Enhanced learning progress
+    totalContentShown: 0,
+    totalContentAvailable: getModeQuestions(getQuestionBankView().availableContent, mode).length,
+    contentShown: new Set(),
+
+    // Adaptive difficulty
+    currentDifficulty: 'easy',
+    consecutiveCorrect: 0,
+    consecutiveIncorrect: 0,
+
+    // Enhanced player state
+    currentPlayer: createDefaultPlayer(timestamp),
+
+    // Game history
+    gameHistory: [],
+    learningProgress: createInitialLearningProgress(),
+
+    // Tower state
+    towerCollapsed: false,
+    rebuildCount: 0,
+    structuralIntegrity: 100,
+
+    // Enhanced features
+    playerProgress: createInitialPlayerProgress(),
+    adaptiveMetrics: createInitialAdaptiveMetrics(),
+  };
+}
+
+function createDefaultPlayer(timestamp: number): Player {
+  return {
+    id: 'default-player',
+    nickname: 'Privacy Explorer',
+    score: 0,
+    totalScore: 0,
+    highScore: 0,
+    gamesPlayed: 0,
+    totalBlocksRemoved: 0,
+    totalCorrectAnswers: 0,
+    totalIncorrectAnswers: 0,
+    learningProgress: createInitialLearningProgress(),
+
+    // Enhanced achievement tracking
+    achievements: ACHIEVEMENTS.map(achievement => ({
+      ...achievement,
+      isUnlocked: false,
+      unlockedAt: undefined
+    })),
+    totalAchievements: 0,
+
+    // Session tracking
+    currentSessionStart: new Date(timestamp),
+    longestSession: 0,
+    totalPlayTime: 0,
+
+    // Enhanced learning metrics
+    playerProgress: createInitialPlayerProgress(),
+    adaptiveMetrics: createInitialAdaptiveMetrics(),
+  };
+}
+
+function createHotSeat(nicknames: string[]): HotSeatState {
+  const players = nicknames.map((nickname, index): HotSeatPlayer => ({
+    id: `player-${index + 1}`,
+    nickname: nickname.trim(),
+    score: 0,
+    correctAnswers: 0,
+    incorrectAnswers: 0,
+    blocksRemoved: 0,
+    consecutiveCorrect: 0,
+    longestStreak: 0,
+    learningProgress: createInitialLearningProgress(),
+    toppledTower: false,
+  }));
+  return { players, turn: 0 };
+}
+
+export function createInitialLearningProgress(): Record<PrivacyCategory, number> {
+  return {
+    'on-chain': 0,
+    'off-chain': 0,
+    'coin-mixing': 0,
+    'wallet-setup': 0,
+    'lightning': 0,
+    'regulatory': 0,
+    'best-practices': 0,
+    'network-privacy': 0,
+    'exchange-privacy': 0,
+    'api-privacy': 0,
+    'social-privacy': 0,
+    'transaction-security': 0,
+    'kyc-privacy': 0,
+    'security': 0,
+    'physical-privacy': 0
+  };
+}
+
+function createInitialPlayerProgress(): PlayerProgress {
+  return {
+    questionHistory: [],
+    categoryMastery: createInitialLearningProgress(),
+    difficultyProgression: { easy: 0, medium: 0, hard: 0 },
+    learningPath: createLearningPhase('foundation', getQuestionBankView().questionBank),
+    adaptiveMetrics: createInitialAdaptiveMetrics(),
+  };
+}
+
+function createInitialAdaptiveMetrics(): AdaptiveMetrics {
+  return {
+    ability: 0,
+    abilityStandardError: 1,
+    learningRate: 0,
+    retentionRate: 0,
+    difficultyPreference: 'easy',
+    categoryStrengths: [],
+    categoryWeaknesses: [],
+  };
+}
+
+// Statistics selector
+export const selectGameStatistics = (state: GameEngineState, now: number): GameStatistics => {
+  const game = state.game;
+  const player = game.currentPlayer;
+  const totalGames = player.gamesPlayed;
+  const averageScore = totalGames > 0 ? player.totalScore / totalGames : 0;
+  const sessionDuration = (now - state.sessionStartedAt) / (1000 * 60); // minutes
+
+  return {
+    totalGamesPlayed: totalGames,
+    totalScore: player.totalScore,
+    averageScore: Math.round(averageScore),
+    bestScore: player.highScore,
+    totalBlocksRemoved: player.totalBlocksRemoved,
+    totalCorrectAnswers: player.totalCorrectAnswers,
+    totalIncorrectAnswers: player.totalIncorrectAnswers,
+    averageStability: game.towerStability,
+    categoriesMastered: getMasteredCategories(game),
+    learningProgress: game.learningProgress,
+
+    // Achievement statistics
+    totalAchievements: player.totalAchievements,
+    achievementsUnlocked: player.achievements.filter((a: Achievement) => a.isUnlocked),
+
+    // Session statistics
+    totalPlayTime: player.totalPlayTime + sessionDuration,
+    longestSession: Math.max(player.longestSession, sessionDuration),
+    averageSessionLength: totalGames > 0 ? (player.totalPlayTime + sessionDuration) / totalGames : 0,
+
+    // Learning statistics
+    totalContentLearned: game.totalContentShown,
+    completionRate: createTracker(state).getCompletionPercentage(),
+
+    // Enhanced learning metrics
+    adaptiveMetrics: game.adaptiveMetrics,
+    learningEffectiveness: {
+      knowledgeRetention: calculateKnowledgeRetention(game),
+      skillProgression: game.adaptiveMetrics.learningRate,
+      categoryMastery: calculateAverageCategoryMastery(game),
+      difficultyAdaptation: calculateDifficultyAdaptation(game),
+    },
+  };
+};
+
+function getMasteredCategories(game: GameState): PrivacyCategory[] {
+  return Object.entries(game.learningProgress)
+    .filter(([_, progress]) => progress >= 3) // Consider mastered after 3 interactions
+    .map(([category, _]) => category as PrivacyCategory);
+}
+
+function calculateKnowledgeRetention(game: GameState): number {
+  // Calculate based on recent vs older performance
+  const history = game.playerProgress.questionHistory;
+  if (history.length < 10) return 0;
+
+  const recent = history.slice(-10);
+  const older = history.slice(-20, -10);
+
+  const recentAccuracy = recent.filter(q => q.isCorrect).length / recent.length;
+  const olderAccuracy = older.filter(q => q.isCorrect).length / older.length;
+
+  return Math.max(0, (recentAccuracy - olderAccuracy) * 100);
+}
+
+function calculateAverageCategoryMastery(game: GameState): number {
+  const masteries = Object.values(game.playerProgress.categoryMastery);
+  return masteries.reduce((sum, mastery) => sum + mastery, 0) / masteries.length;
+}
+
+function calculateDifficultyAdaptation(game: GameState): number {
+  const difficulties = Object.values(game.playerProgress.difficultyProgression);
+  return difficulties.reduce((sum, perf) => sum + perf, 0) / difficulties.length;
+}
+
+// Settings are plain data; copy them so a game never mutates DEFAULT_SETTINGS
+export function cloneSettings(settings: GameSettings): GameSettings {
+  return JSON.parse(JSON.stringify(settings)) as GameSettings;
+}
+
+// Deep copy (keeps Sets and Dates) so reductions never touch their input
+// The PRNG factory is a function, so it's shared rather than cloned
+function cloneEngineState(state: GameEngineState): GameEngineState {
+  const { randomFactory, ...rest } = state;
+  const clone: GameEngineState = structuredClone(rest);
+  if (randomFactory) clone.randomFactory = randomFactory;
+  return clone;
+}
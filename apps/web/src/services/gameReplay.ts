@@ -0,0 +1,154 @@
+import { GameAction, GameReplayLog, GameState, QuestionBankRef, RandomFactory, ReplayMove } from '../types';
+import { createInitialEngineState, gameReducer } from './gameReducer';
+import { isQuizAnswer } from './answerGrading';
+import { describeQuestionBankMismatch } from './questionBank';
+import { validateTowerSpec } from './towerSpec';
+import { RANDOM_ALGORITHMS } from '../utils/random';
+
+/**
+ * Game Replay Engine
+ * Re-simulates a recorded game through the pure game reducer. Given the same
+ * seed, settings and moves the resulting GameState is identical to the original,
+ * which lets bug reports carry a reproducible game and lets us check that
+ * scoring changes don't silently alter old outcomes. The same seed only deals
+ * the same questions from the same question set, so a log that names another
+ * set is refused rather than replayed into a different game.
+ */
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayOptions {
+  random?: RandomFactory; // Required when the log was recorded with a custom PRNG
+}
+
+// Serialize a replay log for sharing (bug reports, downloads)
+export const serializeReplay = (log: GameReplayLog): string => {
+  return JSON.stringify(log);
+};
+
+// Parse and validate a serialized replay log
+export const parseReplay = (json: string): GameReplayLog => {
+  const log = JSON.parse(json) as Partial<GameReplayLog>;
+
+  if (log.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version: ${log.version}`);
+  }
+  if (typeof log.seed !== 'number' || typeof log.startedAt !== 'number') {
+    throw new Error('Replay log is missing its seed or start time');
+  }
+  if (!log.settings || !Array.isArray(log.moves)) {
+    throw new Error('Replay log is missing its settings or moves');
+  }
+  if (log.reviewQueue !== undefined && !isStringArray(log.reviewQueue)) {
+    throw new Error('Replay log has an invalid review queue');
+  }
+  if (log.mode !== undefined && typeof log.mode?.id !== 'string') {
+    throw new Error('Replay log has an invalid game mode');
+  }
+  if (log.players !== undefined && !isStringArray(log.players)) {
+    throw new Error('Replay log has invalid players');
+  }
+  if (log.bank !== undefined && !isQuestionBankRef(log.bank)) {
+    throw new Error('Replay log has an invalid question set');
+  }
+  if (log.tower !== undefined) {
+    const problem = log.tower && typeof log.tower === 'object' ? validateTowerSpec(log.tower) : 'not an object';
+    if (problem) {
+      throw new Error(`Replay log has an invalid tower: ${problem}`);
+    }
+  }
+
+  log.moves.forEach((move, index) => {
+    if (!isReplayMove(move)) {
+      throw new Error(`Invalid replay move at index ${index}`);
+    }
+  });
+
+  return log as GameReplayLog;
+};
+
+// Run a replay log back through the game core and return the final state
+export const replayGame = (log: GameReplayLog, options: ReplayOptions = {}): GameState => {
+  // A custom PRNG drives this replay only - the registry live games use is left alone
+  if (!options.random && !RANDOM_ALGORITHMS[log.randomAlgorithm]) {
+    throw new Error(`Unknown random algorithm "${log.randomAlgorithm}" - pass options.random to replay it`);
+  }
+  const mismatch = log.bank && describeQuestionBankMismatch(log.bank);
+  if (mismatch) {
+    throw new Error(`Can't replay this game - ${mismatch}`);
+  }
+
+  let state = createInitialEngineState({
+    seed: log.seed,
+    timestamp: log.startedAt,
+    randomAlgorithm: log.randomAlgorithm,
+    randomFactory: options.random,
+    settings: log.settings,
+    reviewQueue: log.reviewQueue,
+    mode: log.mode,
+    tower: log.tower,
+    players: log.players,
+  });
+
+  log.moves.forEach((move, index) => {
+    const next = gameReducer(state, toAction(move)).state;
+    if (next === state && move.type === 'pick') {
+      throw new Error(`Replay diverged at move ${index}: block ${move.blockId} cannot be picked`);
+    }
+    state = next;
+  });
+
+  return state.game;
+};
+
+// Replay moves map one-to-one onto reducer actions
+export const toAction = (move: ReplayMove): GameAction => {
+  switch (move.type) {
+    case 'pick':
+      return { type: 'SELECT_BLOCK', blockId: move.blockId, timestamp: move.at };
+    case 'answer':
+      return { type: 'ANSWER', blockId: move.blockId, answer: move.answer, timestamp: move.at };
+    case 'timeout':
+      return { type: 'TIMEOUT', blockId: move.blockId, timestamp: move.at };
+    case 'hint':
+      return { type: 'USE_HINT', blockId: move.blockId, kind: move.kind, timestamp: move.at };
+    case 'rebuild':
+      return { type: 'REBUILD', reviewQueue: move.reviewQueue, timestamp: move.at };
+    case 'pass':
+      return { type: 'PASS_TURN', timestamp: move.at };
+  }
+};
+
+function isReplayMove(move: unknown): move is ReplayMove {
+  if (!move || typeof move !== 'object') return false;
+  const candidate = move as Record<string, unknown>;
+  if (typeof candidate.at !== 'number') return false;
+
+  switch (candidate.type) {
+    case 'pick':
+    case 'timeout':
+      return typeof candidate.blockId === 'string';
+    case 'answer':
+      return typeof candidate.blockId === 'string' && (typeof candidate.answer === 'number' || isQuizAnswer(candidate.answer));
+    case 'hint':
+      return typeof candidate.blockId === 'string' && (candidate.kind === 'hint' || candidate.kind === 'fifty_fifty');
+    case 'rebuild':
+      return candidate.reviewQueue === undefined || isStringArray(candidate.reviewQueue);
+    case 'pass':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function isQuestionBankRef(value: unknown): value is QuestionBankRef {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.version === 'string' &&
+    (candidate.packs === undefined || isStringArray(candidate.packs)) &&
+    (candidate.packsOnly === undefined || typeof candidate.packsOnly === 'boolean');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
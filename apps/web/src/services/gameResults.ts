@@ -0,0 +1,90 @@
+import { GameEngineState, GameResult } from '../types';
+
+/**
+ * Game Results
+ * One record per game, tagged with the mode it was played under, so scores
+ * from different rule sets are never compared. A game recorded again - at a
+ * later collapse after a rebuild, or once it's completed - replaces its
+ * earlier record. The latest results are kept in localStorage for the home page.
+ */
+
+const STORAGE_KEY = 'privacy-jenga-game-results';
+const MAX_RESULTS = 50;
+
+// The same game has the same seed, mode and start time
+const isSameGame = (a: GameResult, b: GameResult): boolean =>
+  a.seed === b.seed && a.startedAt === b.startedAt && a.mode.id === b.mode.id;
+
+// Summarize a game that just collapsed or was completed
+export const createGameResult = (state: GameEngineState, endedAt: number): GameResult => {
+  const game = state.game;
+  return {
+    mode: { ...game.mode },
+    seed: game.seed,
+    outcome: game.gamePhase === 'completed' ? 'completed' : 'collapsed',
+    score: game.currentScore,
+    correctAnswers: game.correctAnswers,
+    incorrectAnswers: game.incorrectAnswers,
+    blocksRemoved: game.blocksRemoved,
+    rebuildCount: game.rebuildCount,
+    startedAt: state.sessionStartedAt,
+    endedAt,
+  };
+};
+
+// Persistent list of recent results, newest first
+export class GameResultStore {
+  private results: GameResult[];
+  private storage?: Storage;
+
+  constructor(storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined) {
+    this.storage = storage;
+    this.results = this.load();
+  }
+
+  getResults(modeId?: string): GameResult[] {
+    return modeId ? this.results.filter(result => result.mode.id === modeId) : this.results;
+  }
+
+  record(result: GameResult): void {
+    this.results = [result, ...this.results.filter(recorded => !isSameGame(recorded, result))].slice(0, MAX_RESULTS);
+    this.save();
+  }
+
+  // Best score in a mode, or null before it's been played
+  getBestScore(modeId: string): number | null {
+    const scores = this.getResults(modeId).map(result => result.score);
+    return scores.length > 0 ? Math.max(...scores) : null;
+  }
+
+  clear(): void {
+    this.results = [];
+    this.save();
+  }
+
+  private load(): GameResult[] {
+    try {
+      const saved = this.storage?.getItem(STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as GameResult[];
+        if (Array.isArray(parsed)) {
+          return parsed.filter(result => typeof result?.mode?.id === 'string' && typeof result.score === 'number');
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to load game results:', error);
+    }
+    return [];
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.results));
+    } catch (error) {
+      console.warn('⚠️ Failed to save game results:', error);
+    }
+  }
+}
+
+export const gameResultStore = new GameResultStore();
+export default gameResultStore;
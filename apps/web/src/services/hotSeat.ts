@@ -0,0 +1,50 @@
+import { HotSeatPlayer, HotSeatState } from '../types';
+
+/**
+ * Hot-Seat Play
+ * Pass-and-play rules for 2-6 players sharing one device and one tower.
+ * Players take turns in the order they joined, one block each. As at the
+ * table, the tower coming down ends the game and the player who pulled the
+ * last block loses; everyone else is ranked by score.
+ */
+
+export const MIN_HOT_SEAT_PLAYERS = 2;
+export const MAX_HOT_SEAT_PLAYERS = 6;
+export const MAX_NICKNAME_LENGTH = 20;
+
+// Why a list of nicknames can't start a game, or null when it can
+export const validateHotSeatNames = (nicknames: string[]): string | null => {
+  if (nicknames.length < MIN_HOT_SEAT_PLAYERS || nicknames.length > MAX_HOT_SEAT_PLAYERS) {
+    return `Pass and play needs ${MIN_HOT_SEAT_PLAYERS}-${MAX_HOT_SEAT_PLAYERS} players`;
+  }
+  const trimmed = nicknames.map(nickname => nickname.trim());
+  if (trimmed.some(nickname => nickname.length === 0 || nickname.length > MAX_NICKNAME_LENGTH)) {
+    return `Nicknames must be 1-${MAX_NICKNAME_LENGTH} characters`;
+  }
+  const unique = new Set(trimmed.map(nickname => nickname.toLowerCase()));
+  return unique.size === trimmed.length ? null : 'Every player needs a different nickname';
+};
+
+// Parse the ?players=Ann,Ben query value; anything unplayable means a solo game
+export const parseHotSeatNames = (value: string | null): string[] | undefined => {
+  if (!value) return undefined;
+  const nicknames = value.split(',').map(nickname => nickname.trim());
+  return validateHotSeatNames(nicknames) ? undefined : nicknames;
+};
+
+export const getTurnPlayer = (hotSeat: HotSeatState): HotSeatPlayer => hotSeat.players[hotSeat.turn];
+
+const compareStandings = (a: HotSeatPlayer, b: HotSeatPlayer): number =>
+  Number(a.toppledTower) - Number(b.toppledTower) ||
+  b.score - a.score ||
+  b.correctAnswers - a.correctAnswers;
+
+// Players best first - whoever toppled the tower ranks last
+export const getHotSeatStandings = (players: HotSeatPlayer[]): HotSeatPlayer[] =>
+  [...players].sort(compareStandings);
+
+// Everyone sharing first place
+export const getHotSeatWinners = (players: HotSeatPlayer[]): HotSeatPlayer[] => {
+  const [leader] = getHotSeatStandings(players);
+  return leader ? players.filter(player => compareStandings(player, leader) === 0) : [];
+};
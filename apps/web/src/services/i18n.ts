@@ -0,0 +1,124 @@
+import { EnhancedQuestion, Locale, MessageParams } from '../types';
+import en, { Catalog, MessageKey } from '../data/locales/en';
+import fr from '../data/locales/fr';
+import sw from '../data/locales/sw';
+import { SUPPORTED_LOCALES, isLocale, translateQuestion } from './questionTranslation';
+
+/**
+ * i18n
+ * Interface text by locale. Messages come from the catalogs in data/locales,
+ * with `{name}` placeholders filled from params - numbers formatted for the
+ * locale - and plural messages picked by the `count` param through
+ * Intl.PluralRules. The locale is the player's saved choice, or else the
+ * first browser language we have a catalog for. Questions carry their own
+ * translations; localizeQuestion swaps the text and keeps the answer key.
+ */
+
+export { SUPPORTED_LOCALES };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language named in itself, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  sw: 'Kiswahili',
+  fr: 'Français',
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, sw, fr };
+
+const STORAGE_KEY = 'privacy-jenga-locale';
+
+export type LocaleListener = (locale: Locale) => void;
+
+// First language tag we have a catalog for, matched on the language alone ('fr-CA' -> 'fr')
+export const detectLocale = (languages: readonly string[]): Locale => {
+  const match = languages.map(tag => tag.toLowerCase().split('-')[0]).find(isLocale);
+  return match || DEFAULT_LOCALE;
+};
+
+const loadLocale = (): Locale => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (isLocale(saved)) return saved;
+  } catch (error) {
+    console.warn('⚠️ Failed to load language:', error);
+  }
+  return typeof navigator !== 'undefined' ? detectLocale(navigator.languages || [navigator.language]) : DEFAULT_LOCALE;
+};
+
+let locale: Locale = loadLocale();
+if (typeof document !== 'undefined') document.documentElement.lang = locale;
+const listeners = new Set<LocaleListener>();
+
+// Intl objects are costly to build, so one per locale and option set
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+export const getLocale = (): Locale => locale;
+
+export const subscribeToLocale = (listener: LocaleListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Switch the interface language and remember it for next time
+export const setLocale = (next: Locale): void => {
+  if (next === locale) return;
+  locale = next;
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, next);
+  } catch (error) {
+    console.warn('⚠️ Failed to save language:', error);
+  }
+  if (typeof document !== 'undefined') document.documentElement.lang = next;
+  listeners.forEach(listener => listener(next));
+};
+
+// Narrows ids built at runtime, like `mode.${id}.name`, to catalog keys
+export const hasMessage = (key: string): key is MessageKey => key in en;
+
+export const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}, inLocale: Locale = locale): string => {
+  const cacheKey = `${inLocale}:${JSON.stringify(options)}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(inLocale, options);
+    numberFormats.set(cacheKey, format);
+  }
+  return format.format(value);
+};
+
+// A 0-100 percentage, written the locale's way ('85 %' in French)
+export const formatPercent = (value: number, inLocale: Locale = locale): string =>
+  formatNumber(value / 100, { style: 'percent', maximumFractionDigits: 0 }, inLocale);
+
+const pluralCategory = (count: number, inLocale: Locale): Intl.LDMLPluralRule => {
+  let rules = pluralRules.get(inLocale);
+  if (!rules) {
+    rules = new Intl.PluralRules(inLocale);
+    pluralRules.set(inLocale, rules);
+  }
+  return rules.select(count);
+};
+
+export const translate = (key: MessageKey, params: MessageParams = {}, inLocale: Locale = locale): string => {
+  const message = CATALOGS[inLocale][key] ?? en[key];
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const count = typeof params.count === 'number' ? params.count : 0;
+    text = message[pluralCategory(count, inLocale)] ?? message.other;
+  }
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value, {}, inLocale) : value;
+  });
+};
+
+// The question in the player's language where it has a translation
+export const localizeQuestion = (question: EnhancedQuestion, inLocale: Locale = locale): EnhancedQuestion =>
+  translateQuestion(question, inLocale);
@@ -0,0 +1,259 @@
+import {
+  AbilityEstimate,
+  Difficulty,
+  DifficultyMismatch,
+  EnhancedQuestion,
+  IrtModel,
+  ItemCalibration,
+  ItemParameters,
+  QuestionAttempt
+} from '../types';
+
+/**
+ * Item Response Theory
+ * Calibrates questions from recorded answers with a 1PL (Rasch) or 2PL
+ * logistic model: P(correct) = 1 / (1 + e^(-a(θ - b))). Difficulty b and
+ * player ability θ share one logit scale, so a player with θ = b gets the
+ * question right half the time. Estimates use weak priors - abilities around
+ * 0, difficulties around the hand-assigned label - so thinly answered
+ * questions stay close to their label instead of running off to infinity.
+ */
+
+// Where the hand-assigned labels sit on the logit scale
+export const LABELED_DIFFICULTY: Record<Difficulty, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+// Calibrated difficulties beyond these bounds fall into the easy / hard bands
+const EASY_BELOW = -0.5;
+const HARD_ABOVE = 0.5;
+
+const ABILITY_PRIOR_SD = 1;
+const DIFFICULTY_PRIOR_SD = 1;
+const LOG_DISCRIMINATION_PRIOR_SD = 0.5;
+const MAX_LOGIT = 4;
+const MIN_DISCRIMINATION = 0.2;
+const MAX_DISCRIMINATION = 4;
+
+export interface CalibrationOptions {
+  model?: IrtModel; // Defaults to '2pl'
+  maxIterations?: number;
+  tolerance?: number; // Stop once no parameter moves more than this
+  labels?: Record<string, Difficulty>; // Prior means by question id; taken from the attempts otherwise
+}
+
+export interface DifficultyReportOptions {
+  minAttempts?: number; // Questions answered fewer times are left out of the report
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Probability of a correct answer under the logistic model
+export const probabilityCorrect = (ability: number, item: Pick<ItemParameters, 'difficulty' | 'discrimination'>): number => {
+  return 1 / (1 + Math.exp(-item.discrimination * (ability - item.difficulty)));
+};
+
+export const getDifficultyBand = (difficulty: number): Difficulty => {
+  if (difficulty < EASY_BELOW) return 'easy';
+  if (difficulty > HARD_ABOVE) return 'hard';
+  return 'medium';
+};
+
+// Stand-in parameters for a question that hasn't been calibrated yet
+export const getLabeledItem = (questionId: string, difficulty: Difficulty): ItemParameters => ({
+  questionId,
+  difficulty: LABELED_DIFFICULTY[difficulty],
+  discrimination: 1,
+  standardError: DIFFICULTY_PRIOR_SD,
+  attempts: 0,
+  correctRate: 0,
+});
+
+// MAP ability for one player's answers; timeouts count as wrong answers
+export const estimateAbility = (
+  attempts: QuestionAttempt[],
+  items: Record<string, ItemParameters> = {}
+): AbilityEstimate => {
+  const responses = attempts.map(attempt => ({
+    item: items[attempt.questionId] || getLabeledItem(attempt.questionId, attempt.difficulty),
+    correct: attempt.isCorrect ? 1 : 0,
+  }));
+
+  let ability = 0;
+  let information = 1 / ABILITY_PRIOR_SD ** 2;
+  for (let i = 0; i < 25; i++) {
+    let gradient = -ability / ABILITY_PRIOR_SD ** 2;
+    information = 1 / ABILITY_PRIOR_SD ** 2;
+    responses.forEach(({ item, correct }) => {
+      const p = probabilityCorrect(ability, item);
+      gradient += item.discrimination * (correct - p);
+      information += item.discrimination ** 2 * p * (1 - p);
+    });
+
+    const step = gradient / information;
+    ability = clamp(ability + step, -MAX_LOGIT, MAX_LOGIT);
+    if (Math.abs(step) < 1e-6) break;
+  }
+
+  return { ability, standardError: 1 / Math.sqrt(information) };
+};
+
+// Ability grid the EM step integrates over, weighted by the N(0, 1) ability prior
+const QUADRATURE_POINTS = 31;
+const QUADRATURE_NODES = Array.from({ length: QUADRATURE_POINTS }, (_, k) => -MAX_LOGIT + (2 * MAX_LOGIT * k) / (QUADRATURE_POINTS - 1));
+const QUADRATURE_WEIGHTS = (() => {
+  const density = QUADRATURE_NODES.map(node => Math.exp(-(node ** 2) / (2 * ABILITY_PRIOR_SD ** 2)));
+  const total = density.reduce((sum, value) => sum + value, 0);
+  return density.map(value => value / total);
+})();
+
+// Estimate item parameters from many players' answer histories by marginal maximum
+// likelihood (Bock-Aitkin EM), so short histories don't bias the scale
+export const calibrateItems = (histories: QuestionAttempt[][], options: CalibrationOptions = {}): ItemCalibration => {
+  const model = options.model || '2pl';
+  const maxIterations = options.maxIterations ?? 200;
+  const tolerance = options.tolerance ?? 1e-4;
+
+  // Index items and group each player's responses
+  const itemIds: string[] = [];
+  const itemIndex = new Map<string, number>();
+  const priorMeans: number[] = [];
+  const players = histories.map(history => history.map(attempt => {
+    let item = itemIndex.get(attempt.questionId);
+    if (item === undefined) {
+      item = itemIds.length;
+      itemIds.push(attempt.questionId);
+      itemIndex.set(attempt.questionId, item);
+      priorMeans.push(LABELED_DIFFICULTY[options.labels?.[attempt.questionId] || attempt.difficulty]);
+    }
+    return { item, correct: attempt.isCorrect ? 1 : 0 };
+  }));
+
+  const difficulties = [...priorMeans];
+  const discriminations = itemIds.map(() => 1);
+
+  let iterations = 0;
+  while (iterations < maxIterations) {
+    iterations++;
+
+    // E-step: expected answers (n) and correct answers (r) per item at each ability node
+    const expectedAnswers = itemIds.map(() => new Array<number>(QUADRATURE_POINTS).fill(0));
+    const expectedCorrect = itemIds.map(() => new Array<number>(QUADRATURE_POINTS).fill(0));
+    players.forEach(responses => {
+      if (responses.length === 0) return;
+      const logPosterior = QUADRATURE_NODES.map((node, k) => responses.reduce((sum, { item, correct }) => {
+        const p = probabilityCorrect(node, { difficulty: difficulties[item], discrimination: discriminations[item] });
+        return sum + Math.log(correct ? p : 1 - p);
+      }, Math.log(QUADRATURE_WEIGHTS[k])));
+      const peak = Math.max(...logPosterior);
+      const posterior = logPosterior.map(value => Math.exp(value - peak));
+      const total = posterior.reduce((sum, value) => sum + value, 0);
+
+      responses.forEach(({ item, correct }) => {
+        posterior.forEach((weight, k) => {
+          expectedAnswers[item][k] += weight / total;
+          expectedCorrect[item][k] += (correct * weight) / total;
+        });
+      });
+    });
+
+    // M-step: a few Newton steps per item on b and, for 2PL, log(a)
+    let largestStep = 0;
+    itemIds.forEach((_questionId, item) => {
+      for (let step = 0; step < 5; step++) {
+        const a = discriminations[item];
+        let gradient = -(difficulties[item] - priorMeans[item]) / DIFFICULTY_PRIOR_SD ** 2;
+        let information = 1 / DIFFICULTY_PRIOR_SD ** 2;
+        let logGradient = -Math.log(a) / LOG_DISCRIMINATION_PRIOR_SD ** 2;
+        let logInformation = 1 / LOG_DISCRIMINATION_PRIOR_SD ** 2;
+
+        QUADRATURE_NODES.forEach((node, k) => {
+          const n = expectedAnswers[item][k];
+          if (n === 0) return;
+          const p = probabilityCorrect(node, { difficulty: difficulties[item], discrimination: a });
+          const residual = expectedCorrect[item][k] - n * p;
+          const spread = node - difficulties[item];
+          gradient -= a * residual;
+          information += a * a * n * p * (1 - p);
+          logGradient += a * spread * residual;
+          logInformation += a * a * spread * spread * n * p * (1 - p);
+        });
+
+        const difficultyStep = gradient / information;
+        difficulties[item] = clamp(difficulties[item] + difficultyStep, -MAX_LOGIT, MAX_LOGIT);
+        largestStep = Math.max(largestStep, Math.abs(difficultyStep));
+
+        if (model === '2pl') {
+          // Stepping log(a) keeps the discrimination positive
+          const logStep = logGradient / logInformation;
+          discriminations[item] = clamp(Math.exp(Math.log(a) + logStep), MIN_DISCRIMINATION, MAX_DISCRIMINATION);
+          largestStep = Math.max(largestStep, Math.abs(logStep));
+        }
+      }
+    });
+
+    if (largestStep < tolerance) break;
+  }
+
+  // Standard errors from the expected information at the final estimates
+  const answers = itemIds.map(() => ({ total: 0, correct: 0 }));
+  players.forEach(responses => responses.forEach(({ item, correct }) => {
+    answers[item].total++;
+    answers[item].correct += correct;
+  }));
+  const weightedInformation = (item: number) => {
+    const a = discriminations[item];
+    return QUADRATURE_NODES.reduce((sum, node, k) => {
+      const p = probabilityCorrect(node, { difficulty: difficulties[item], discrimination: a });
+      return sum + answers[item].total * QUADRATURE_WEIGHTS[k] * a * a * p * (1 - p);
+    }, 1 / DIFFICULTY_PRIOR_SD ** 2);
+  };
+
+  const items: Record<string, ItemParameters> = {};
+  itemIds.forEach((questionId, item) => {
+    items[questionId] = {
+      questionId,
+      difficulty: difficulties[item],
+      discrimination: discriminations[item],
+      standardError: 1 / Math.sqrt(weightedInformation(item)),
+      attempts: answers[item].total,
+      correctRate: answers[item].correct / answers[item].total,
+    };
+  });
+
+  return { model, items, respondents: histories.length, iterations };
+};
+
+// Questions whose calibrated difficulty lands outside their labeled band, worst first
+export const createDifficultyReport = (
+  calibration: ItemCalibration,
+  questions: EnhancedQuestion[],
+  options: DifficultyReportOptions = {}
+): DifficultyMismatch[] => {
+  const minAttempts = options.minAttempts ?? 20;
+
+  return questions
+    .flatMap(question => {
+      const item = calibration.items[question.id];
+      if (!item || item.attempts < minAttempts) return [];
+
+      const calibratedDifficulty = getDifficultyBand(item.difficulty);
+      if (calibratedDifficulty === question.difficulty) return [];
+
+      return [{
+        questionId: question.id,
+        labeledDifficulty: question.difficulty,
+        calibratedDifficulty,
+        difficulty: item.difficulty,
+        discrimination: item.discrimination,
+        attempts: item.attempts,
+        correctRate: item.correctRate,
+      }];
+    })
+    .sort((a, b) =>
+      Math.abs(b.difficulty - LABELED_DIFFICULTY[b.labeledDifficulty]) -
+      Math.abs(a.difficulty - LABELED_DIFFICULTY[a.labeledDifficulty])
+    );
+};
@@ -0,0 +1,115 @@
+import { EnhancedQuestion, LearningPhase, LearningPhaseName, PrivacyCategory, QuestionAttempt } from '../types';
+
+/**
+ * Learning Path
+ * Players move foundation -> application -> mastery. Each phase gates which
+ * questions can be dealt into a tower: foundation sticks to multiple choice
+ * and true/false, application adds easy and medium scenarios, and mastery
+ * unlocks the hard scenarios. A phase is passed once enough categories reach
+ * the phase's required accuracy.
+ */
+
+export const PHASE_ORDER: LearningPhaseName[] = ['foundation', 'application', 'mastery'];
+
+interface PhaseRule {
+  label: string;
+  requiredAccuracy: number; // Percent, per category and across the phase
+  minAnswers: number; // Answers needed in the phase before it can be passed
+  minCategories: number; // Categories that must reach the required accuracy
+  isUnlocked: (question: EnhancedQuestion) => boolean;
+}
+
+// Categories need this many answers in a phase before their accuracy counts
+const MIN_CATEGORY_ATTEMPTS = 2;
+
+export const PHASE_RULES: Record<LearningPhaseName, PhaseRule> = {
+  foundation: {
+    label: 'Foundation',
+    requiredAccuracy: 70,
+    minAnswers: 8,
+    minCategories: 3,
+    isUnlocked: question => question.type !== 'scenario',
+  },
+  application: {
+    label: 'Application',
+    requiredAccuracy: 80,
+    minAnswers: 12,
+    minCategories: 4,
+    isUnlocked: question => question.type !== 'scenario' || question.difficulty !== 'hard',
+  },
+  mastery: {
+    label: 'Mastery',
+    requiredAccuracy: 90,
+    minAnswers: 0,
+    minCategories: 0,
+    isUnlocked: () => true,
+  },
+};
+
+export const isQuestionUnlocked = (question: EnhancedQuestion, phase: LearningPhaseName): boolean => {
+  return PHASE_RULES[phase].isUnlocked(question);
+};
+
+export const getNextPhase = (phase: LearningPhaseName): LearningPhaseName | undefined => {
+  return PHASE_ORDER[PHASE_ORDER.indexOf(phase) + 1];
+};
+
+// Fresh learning path state for a phase
+export const createLearningPhase = (
+  phase: LearningPhaseName,
+  questionBank: EnhancedQuestion[],
+  phaseStartedAtAttempt = 0,
+  completedQuestions: string[] = []
+): LearningPhase => ({
+  currentPhase: phase,
+  phaseProgress: 0,
+  requiredAccuracy: PHASE_RULES[phase].requiredAccuracy,
+  unlockedQuestions: questionBank.filter(question => isQuestionUnlocked(question, phase)).map(question => question.id),
+  completedQuestions,
+  phaseStartedAtAttempt,
+});
+
+export interface PhaseEvaluation {
+  progress: number; // 0-100
+  readyToAdvance: boolean;
+  masteredCategories: PrivacyCategory[];
+}
+
+// Score the current phase from the attempts made since it started
+export const evaluatePhase = (path: LearningPhase, history: QuestionAttempt[]): PhaseEvaluation => {
+  const rule = PHASE_RULES[path.currentPhase];
+  const attempts = history.slice(path.phaseStartedAtAttempt);
+
+  if (!getNextPhase(path.currentPhase)) {
+    // Final phase - progress is how much of the unlocked bank has been answered correctly
+    const progress = path.unlockedQuestions.length > 0 ?
+      (path.completedQuestions.length / path.unlockedQuestions.length) * 100 : 100;
+    return { progress: Math.min(100, Math.round(progress)), readyToAdvance: false, masteredCategories: [] };
+  }
+
+  const byCategory = new Map<PrivacyCategory, { correct: number; total: number }>();
+  attempts.forEach(attempt => {
+    const entry = byCategory.get(attempt.category) || { correct: 0, total: 0 };
+    entry.total++;
+    if (attempt.isCorrect) entry.correct++;
+    byCategory.set(attempt.category, entry);
+  });
+
+  const masteredCategories = Array.from(byCategory.entries())
+    .filter(([, entry]) => entry.total >= MIN_CATEGORY_ATTEMPTS &&
+      (entry.correct / entry.total) * 100 >= rule.requiredAccuracy)
+    .map(([category]) => category);
+
+  const correct = attempts.filter(attempt => attempt.isCorrect).length;
+  const accuracy = attempts.length > 0 ? (correct / attempts.length) * 100 : 0;
+
+  const answersMet = Math.min(1, attempts.length / rule.minAnswers);
+  const categoriesMet = Math.min(1, masteredCategories.length / rule.minCategories);
+  const accuracyMet = Math.min(1, accuracy / rule.requiredAccuracy);
+
+  return {
+    progress: Math.round(((answersMet + categoriesMet + accuracyMet) / 3) * 100),
+    readyToAdvance: answersMet === 1 && categoriesMet === 1 && accuracyMet === 1,
+    masteredCategories,
+  };
+};
@@ -0,0 +1,279 @@
+import {
+  BlockContent,
+  HintKind,
+  HintReveal,
+  QuizAnswer,
+  QuestionBankRef,
+  QuestionPack,
+  QuizResult,
+  ReplayMove,
+  Room,
+  RoomClientMessage,
+  RoomSeat,
+  RoomServerMessage
+} from '../types';
+import enhancedGameService, { EnhancedGameService } from './simplifiedGameService';
+import { getTurnPlayer } from './hotSeat';
+import { describeQuestionBankMismatch, getQuestionBankRef, selectQuestionPacks } from './questionBank';
+import questionPackStore, { QuestionPackStore } from './questionPackStore';
+
+/**
+ * Networked Game Controller
+ * Plays an online room. Every browser in the room runs the same seeded
+ * pass-and-play game, so only moves travel: the local player's moves are
+ * played here and sent to the room, and everyone else's are played in the
+ * order the server relays them. That only works when every browser deals
+ * from the host's question set: players switch to the host's question packs
+ * for the game, from the ones they have installed, and a player who still
+ * can't match the host's set leaves the room when the game starts. GamePage
+ * calls it in place of the game service's handlers, which keeps the rest of
+ * the game flow unchanged.
+ */
+
+const API_URL: string = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+const SOCKET_URL = `${(import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001').replace(/^http/, 'ws')}/ws/rooms`;
+
+export type RoomListener = (message: RoomServerMessage) => void;
+
+export interface NetworkedGameOptions {
+  apiUrl?: string;
+  socketUrl?: string;
+  fetch?: typeof fetch;
+  createSocket?: (url: string) => WebSocket;
+  packStore?: QuestionPackStore; // Installed question packs, to pick the host's from
+}
+
+export class NetworkedGameController {
+  private game: EnhancedGameService;
+  private options: NetworkedGameOptions;
+  private seat?: RoomSeat;
+  private socket?: WebSocket;
+  private listeners: Set<RoomListener> = new Set();
+  private syncedMoves = 0; // Moves in the game's replay log the room already knows about
+  private playingRemoteMove = false;
+  private dealingHostPacks = false; // The player's own pack selection is put back on leaving
+
+  constructor(game: EnhancedGameService, options: NetworkedGameOptions = {}) {
+    this.game = game;
+    this.options = options;
+  }
+
+  // Open a room as its host
+  async createRoom(nickname: string, maxPlayers: number): Promise<Room> {
+    return this.takeSeat(await this.post<RoomSeat>('/rooms', { playerName: nickname, maxPlayers }));
+  }
+
+  async joinRoom(code: string, nickname: string): Promise<Room> {
+    return this.takeSeat(await this.post<RoomSeat>('/rooms/join', { code: code.trim(), playerName: nickname }));
+  }
+
+  async leaveRoom(): Promise<void> {
+    const seat = this.seat;
+    if (!seat) return;
+
+    this.seat = undefined;
+    this.socket?.close();
+    this.socket = undefined;
+    if (this.dealingHostPacks) {
+      this.dealingHostPacks = false;
+      (this.options.packStore || questionPackStore).apply();
+    }
+    await this.post(`/rooms/${seat.room.id}/leave`, { playerId: seat.player.id, token: seat.player.token });
+  }
+
+  // Host only - the server deals the seed and everyone's game starts together, from the host's question set
+  startGame(): void {
+    this.send({ type: 'start', bank: getQuestionBankRef() });
+  }
+
+  // Room messages, after the local game has caught up with them
+  subscribe(listener: RoomListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getRoom(): Room | undefined {
+    return this.seat?.room;
+  }
+
+  getPlayerId(): string | undefined {
+    return this.seat?.player.id;
+  }
+
+  isPlaying(roomId?: string): boolean {
+    return !!this.seat && this.seat.room.status !== 'waiting' && (!roomId || this.seat.room.id === roomId);
+  }
+
+  // True while another player's move is being played, so game event listeners can tell it from ours
+  isPlayingRemoteMove(): boolean {
+    return this.playingRemoteMove;
+  }
+
+  // Nicknames are unique in a room, so they tie the game's players to room seats
+  isMyTurn(): boolean {
+    const hotSeat = this.game.getGameState().hotSeat;
+    return !!this.seat && this.seat.room.status === 'playing' && !!hotSeat &&
+      getTurnPlayer(hotSeat).nickname === this.seat.player.nickname;
+  }
+
+  handleBlockClick(blockId: string): BlockContent | null {
+    if (!this.isMyTurn()) return null;
+    const content = this.game.handleBlockClick(blockId);
+    this.sendNewMoves();
+    return content;
+  }
+
+  handleQuizAnswer(blockId: string, answer: number | QuizAnswer): QuizResult | null {
+    if (!this.isMyTurn()) {
+      throw new Error('It is not your turn');
+    }
+    const result = this.game.handleQuizAnswer(blockId, answer);
+    this.sendNewMoves();
+    return result;
+  }
+
+  handleQuizTimeout(blockId: string): QuizResult | null {
+    if (!this.isMyTurn()) return null;
+    const result = this.game.handleQuizTimeout(blockId);
+    this.sendNewMoves();
+    return result;
+  }
+
+  requestHint(blockId: string, kind: HintKind): HintReveal | null {
+    if (!this.isMyTurn()) return null;
+    const reveal = this.game.requestHint(blockId, kind);
+    this.sendNewMoves();
+    return reveal;
+  }
+
+  private takeSeat(seat: RoomSeat): Room {
+    this.socket?.close();
+    this.seat = seat;
+
+    const createSocket = this.options.createSocket || ((url: string) => new WebSocket(url));
+    const socket = createSocket(this.options.socketUrl || SOCKET_URL);
+    socket.onopen = () => {
+      this.send({ type: 'hello', roomId: seat.room.id, playerId: seat.player.id, token: seat.player.token });
+    };
+    socket.onmessage = event => {
+      this.receive(JSON.parse(String(event.data)) as RoomServerMessage);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      this.notify({ type: 'error', message: 'Lost the connection to the room' });
+    };
+    this.socket = socket;
+    return seat.room;
+  }
+
+  private receive(message: RoomServerMessage): void {
+    switch (message.type) {
+      case 'room':
+        if (this.seat) {
+          this.seat.room = message.room;
+        }
+        break;
+
+      case 'started': {
+        const mismatch = message.bank && this.dealFrom(message.bank);
+        if (mismatch) {
+          // The same seed would deal this browser other questions - leave rather than play a different game
+          console.warn('⚠️ Left the room, its question set differs:', mismatch);
+          this.leaveRoom().catch(error => console.error('🚨 Error leaving room:', error));
+          this.notify({ type: 'error', message: `Can't join this game - ${mismatch}` });
+          return;
+        }
+        this.game.initializeGame({ seed: message.seed, players: message.players.map(player => player.nickname) });
+        this.syncedMoves = 0;
+        if (this.seat) {
+          this.seat.room = { ...this.seat.room, status: 'playing', seed: message.seed };
+        }
+        console.log('🌐 Online game started:', message.seed);
+        break;
+      }
+
+      case 'move':
+        // Our own moves come back too; passes are the server's, even on our turn
+        if (message.playerId !== this.seat?.player.id || message.move.type === 'pass') {
+          this.playRemoteMove(message.move);
+        }
+        break;
+
+      case 'error':
+        console.warn('⚠️ Room error:', message.message);
+        break;
+    }
+    this.notify(message);
+  }
+
+  // Pick the host's question packs from the installed ones; answers why this browser
+  // still can't deal like the host, or null once it can
+  private dealFrom(bank: QuestionBankRef): string | null {
+    const installed = (this.options.packStore || questionPackStore).getPacks();
+    const missing = (bank.packs || []).filter(id => !installed.some(pack => pack.id === id));
+    if (missing.length > 0) {
+      return `it's dealt with question packs that aren't installed here: ${missing.join(', ')}`;
+    }
+    const packs = (bank.packs || []).map(id => installed.find(pack => pack.id === id) as QuestionPack);
+    selectQuestionPacks(packs, { includeCore: !bank.packsOnly });
+    this.dealingHostPacks = true;
+    return describeQuestionBankMismatch(bank);
+  }
+
+  // A move the game core refuses - or throws on, like an answer that doesn't fit the question - is skipped
+  private playRemoteMove(move: ReplayMove): void {
+    this.playingRemoteMove = true;
+    try {
+      if (this.game.applyMove(move).length === 0) {
+        console.warn('⚠️ Move from the room was rejected - this tower is out of sync:', move);
+      }
+    } catch (error) {
+      console.error('🚨 Move from the room could not be played:', move, error);
+    } finally {
+      this.playingRemoteMove = false;
+    }
+    this.syncedMoves += this.game.getMovesSince(this.syncedMoves).length;
+  }
+
+  // Send whatever the last local action recorded; rejected actions record nothing
+  private sendNewMoves(): void {
+    const moves = this.game.getMovesSince(this.syncedMoves);
+    const game = this.game.getGameState();
+    moves.forEach(move => {
+      this.send({ type: 'move', move, stability: game.towerStability, gameOver: game.gamePhase !== 'playing' });
+    });
+    this.syncedMoves += moves.length;
+  }
+
+  private send(message: RoomClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else {
+      console.warn('⚠️ Not connected to a room, dropped:', message.type);
+    }
+  }
+
+  private notify(message: RoomServerMessage): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const request = this.options.fetch || ((...args: Parameters<typeof fetch>) => fetch(...args));
+    const response = await request(`${this.options.apiUrl || API_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Room request failed (${response.status})`);
+    }
+    return data;
+  }
+}
+
+export const networkedGameController = new NetworkedGameController(enhancedGameService);
+export default networkedGameController;
@@ -0,0 +1,160 @@
+import { CachedQuestionBank, EnhancedQuestion, QuestionBankInfo, QuestionBankRef, QuestionPack } from '../types';
+import ENHANCED_PRIVACY_QUESTIONS from '../data/enhancedPrivacyQuestions';
+import { validateQuestion } from './questionValidation';
+
+/**
+ * Question Bank
+ * The questions games are dealt from. It starts as the set bundled with the
+ * app; loadQuestionBank swaps in the content API's published set, asking
+ * with the cached copy's ETag so an unchanged set costs one empty response.
+ * Offline, or with the API unreachable, the cached copy is used, and failing
+ * that the bundled set stays in play. Question packs the player picks are
+ * dealt alongside that core set, or instead of it. The game core reads this
+ * on the server too, so the module stays free of browser-only APIs.
+ */
+
+export const BUNDLED_VERSION = 'bundled';
+
+const BUNDLED_INFO: QuestionBankInfo = { source: 'bundled', version: BUNDLED_VERSION, total: ENHANCED_PRIVACY_QUESTIONS.length };
+
+export type QuestionBankListener = (info: QuestionBankInfo) => void;
+
+// Where the API's set is kept between visits - IndexedDB through useOfflineStorage in the app
+export interface QuestionBankCache {
+  load(): Promise<CachedQuestionBank | null>;
+  save(bank: CachedQuestionBank): Promise<void>;
+}
+
+export interface QuestionBankLoadOptions {
+  apiUrl: string;
+  fetch?: typeof fetch;
+  cache?: QuestionBankCache;
+}
+
+interface ContentResponse {
+  content: EnhancedQuestion[];
+  version: string;
+  updatedAt?: string;
+}
+
+let core: EnhancedQuestion[] = ENHANCED_PRIVACY_QUESTIONS;
+let coreInfo: QuestionBankInfo = BUNDLED_INFO;
+let packs: QuestionPack[] = [];
+let includeCore = true;
+let questions: EnhancedQuestion[] = core;
+let info: QuestionBankInfo = coreInfo;
+const listeners = new Set<QuestionBankListener>();
+
+export const getQuestionBank = (): EnhancedQuestion[] => questions;
+
+export const getQuestionBankInfo = (): QuestionBankInfo => info;
+
+export const subscribeToQuestionBank = (listener: QuestionBankListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// The set in play, as replay logs and online rooms record it
+export const getQuestionBankRef = (): QuestionBankRef => ({
+  version: coreInfo.version,
+  ...(packs.length > 0 && { packs: packs.map(pack => pack.id) }),
+  ...(packs.length > 0 && !includeCore && { packsOnly: true }),
+});
+
+// Why a recorded set isn't the one in play here, or null when it is
+export const describeQuestionBankMismatch = (ref: QuestionBankRef): string | null => {
+  const current = getQuestionBankRef();
+  if (ref.version !== current.version) {
+    return `it was dealt from question set ${ref.version}, and ${current.version} is loaded here`;
+  }
+  const describePacks = (bank: QuestionBankRef) =>
+    `${bank.packs?.join(', ') || 'no question packs'}${bank.packsOnly ? ' without the core set' : ''}`;
+  if (describePacks(ref) !== describePacks(current)) {
+    return `it was dealt with ${describePacks(ref)}, and ${describePacks(current)} are picked here`;
+  }
+  return null;
+};
+
+// Core set plus the picked packs; a question id already in play keeps its first
+// question, unless the pack was imported to replace it
+const combine = (): QuestionBankInfo => {
+  const dealt = includeCore || packs.length === 0 ? [...core] : [];
+  const positions = new Map(dealt.map((question, index) => [question.id, index]));
+  packs.forEach(pack => pack.questions.forEach(question => {
+    const position = positions.get(question.id);
+    if (position === undefined) {
+      positions.set(question.id, dealt.length);
+      dealt.push(question);
+    } else if (pack.replaces?.includes(question.id)) {
+      dealt[position] = question;
+    }
+  }));
+  questions = dealt;
+  info = { ...coreInfo, total: dealt.length, packs: packs.length > 0 ? packs.map(pack => pack.title) : undefined };
+  listeners.forEach(listener => listener(info));
+  return info;
+};
+
+// Put a core question set in play; questions that don't validate are left out, and a set with none left means the bundled one
+export const setQuestionBank = (bank: EnhancedQuestion[], bankInfo: Omit<QuestionBankInfo, 'total' | 'packs'>): QuestionBankInfo => {
+  const playable = bank.filter(question => {
+    const problem = validateQuestion(question);
+    if (problem) console.warn('⚠️ Skipping question:', problem);
+    return !problem;
+  });
+  core = playable.length > 0 ? playable : ENHANCED_PRIVACY_QUESTIONS;
+  coreInfo = playable.length > 0 ? { ...bankInfo, total: playable.length } : BUNDLED_INFO;
+  return combine();
+};
+
+// Deal from these packs too - or only from them, leaving the core set out
+export const selectQuestionPacks = (selected: QuestionPack[], options: { includeCore?: boolean } = {}): QuestionBankInfo => {
+  packs = selected;
+  includeCore = options.includeCore ?? true;
+  return combine();
+};
+
+// The core set alone, whatever packs are picked
+export const getCoreQuestions = (): EnhancedQuestion[] => core;
+
+// Back to the set the app was built with
+export const resetQuestionBank = (): QuestionBankInfo => {
+  packs = [];
+  includeCore = true;
+  return setQuestionBank(ENHANCED_PRIVACY_QUESTIONS, BUNDLED_INFO);
+};
+
+// Load the published set from the content API, falling back to the cached copy, then the bundled set
+export async function loadQuestionBank(options: QuestionBankLoadOptions): Promise<QuestionBankInfo> {
+  const cached = await options.cache?.load().catch(() => null) ?? null;
+  const fallBack = () => cached
+    ? setQuestionBank(cached.questions, { source: 'cache', version: cached.version, updatedAt: cached.updatedAt })
+    : info;
+
+  try {
+    const request = options.fetch || fetch;
+    const response = await request(`${options.apiUrl}/content`, {
+      headers: cached ? { 'If-None-Match': cached.etag } : {},
+    });
+    if (response.status === 304 && cached) {
+      return setQuestionBank(cached.questions, { source: 'api', version: cached.version, updatedAt: cached.updatedAt });
+    }
+    if (!response.ok) {
+      throw new Error(`Content API answered ${response.status}`);
+    }
+
+    const body = await response.json() as ContentResponse;
+    const loaded = setQuestionBank(body.content, { source: 'api', version: body.version, updatedAt: body.updatedAt });
+    if (loaded.source === 'api') {
+      const etag = response.headers.get('ETag') || `"${body.version}"`;
+      await options.cache?.save({ etag, version: body.version, updatedAt: body.updatedAt, questions: body.content })
+        .catch(error => console.error('🚨 Error caching question bank:', error));
+    }
+    return loaded;
+  } catch (error) {
+    console.warn('⚠️ Question bank not loaded from the API, using the', cached ? 'cached copy' : 'bundled set', error);
+    return fallBack();
+  }
+}
@@ -0,0 +1,118 @@
+import { PackConflictPolicy, PackImportPlan, QuestionPack, QuestionPackSelection } from '../types';
+import { getCoreQuestions, selectQuestionPacks } from './questionBank';
+import { planPackImport, validateQuestionPack } from './questionPacks';
+
+/**
+ * Question Pack Store
+ * The packs a player has imported, kept in localStorage with which of them
+ * feed the question bank. Importing a pack again (same pack id) replaces
+ * the installed copy; ids that clash with the core set or another pack are
+ * handled by the chosen conflict policy.
+ */
+
+const STORAGE_KEY = 'privacy-jenga-question-packs';
+
+interface SavedPacks {
+  packs: QuestionPack[];
+  selection: QuestionPackSelection;
+}
+
+export class QuestionPackStore {
+  private packs: QuestionPack[];
+  private selection: QuestionPackSelection;
+  private storage?: Storage;
+
+  constructor(storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined) {
+    this.storage = storage;
+    ({ packs: this.packs, selection: this.selection } = this.load());
+  }
+
+  getPacks(): QuestionPack[] {
+    return this.packs;
+  }
+
+  getSelection(): QuestionPackSelection {
+    return this.selection;
+  }
+
+  // Install a pack and deal from it; throws when the policy is 'reject' and ids clash
+  importPack(pack: QuestionPack, policy: PackConflictPolicy): PackImportPlan {
+    const problem = validateQuestionPack(pack);
+    if (problem) {
+      throw new Error(problem);
+    }
+    const taken = [
+      ...getCoreQuestions(),
+      ...this.packs.filter(installed => installed.id !== pack.id).flatMap(installed => installed.questions),
+    ].map(question => question.id);
+    const plan = planPackImport(pack, taken, policy);
+    if (policy === 'reject' && plan.conflicts.length > 0) {
+      throw new Error(`Question ids already in use: ${plan.conflicts.join(', ')}`);
+    }
+    if (plan.questions.length === 0) {
+      throw new Error('Every question in this pack is already in play');
+    }
+
+    // Remember which ids it replaced, so the bank deals its questions over the ones already in play
+    const installed = { ...pack, questions: plan.questions, replaces: plan.replaced.length > 0 ? plan.replaced : undefined };
+    this.packs = [...this.packs.filter(other => other.id !== pack.id), installed];
+    this.selection = { ...this.selection, enabled: [...this.selection.enabled.filter(id => id !== pack.id), pack.id] };
+    this.save();
+    return plan;
+  }
+
+  removePack(id: string): void {
+    this.packs = this.packs.filter(pack => pack.id !== id);
+    this.selection = { ...this.selection, enabled: this.selection.enabled.filter(enabled => enabled !== id) };
+    this.save();
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const others = this.selection.enabled.filter(candidate => candidate !== id);
+    this.selection = { ...this.selection, enabled: enabled ? [...others, id] : others };
+    this.save();
+  }
+
+  setIncludeCore(includeCore: boolean): void {
+    this.selection = { ...this.selection, includeCore };
+    this.save();
+  }
+
+  // Hand the selected packs to the question bank
+  apply(): void {
+    const enabled = this.packs.filter(pack => this.selection.enabled.includes(pack.id));
+    selectQuestionPacks(enabled, { includeCore: this.selection.includeCore });
+  }
+
+  private load(): SavedPacks {
+    try {
+      const saved = this.storage?.getItem(STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<SavedPacks>;
+        const packs = Array.isArray(parsed.packs) ? parsed.packs.filter(pack => !validateQuestionPack(pack)) : [];
+        const enabled = Array.isArray(parsed.selection?.enabled) ? parsed.selection.enabled : [];
+        return {
+          packs,
+          selection: {
+            includeCore: parsed.selection?.includeCore !== false,
+            enabled: enabled.filter(id => packs.some(pack => pack.id === id)),
+          },
+        };
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to load question packs:', error);
+    }
+    return { packs: [], selection: { includeCore: true, enabled: [] } };
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify({ packs: this.packs, selection: this.selection }));
+    } catch (error) {
+      console.warn('⚠️ Failed to save question packs:', error);
+    }
+  }
+}
+
+export const questionPackStore = new QuestionPackStore();
+export default questionPackStore;
@@ -0,0 +1,128 @@
+import { EnhancedQuestion, PackConflictPolicy, PackImportPlan, PrivacyCategory, QuestionPack, QuestionPackMetadata } from '../types';
+import { PRIVACY_CATEGORIES, validateQuestion } from './questionValidation';
+
+/**
+ * Question Packs
+ * The versioned JSON format facilitators share question sets in: pack
+ * metadata (title, author, language, license and the categories it covers)
+ * plus the questions themselves. Used by the app and the content API alike,
+ * so an export from one imports into the other.
+ */
+
+export const PACK_FORMAT = 'privacy-jenga-question-pack';
+export const PACK_FORMAT_VERSION = 1;
+export const PACK_CONFLICT_POLICIES: PackConflictPolicy[] = ['reject', 'skip', 'replace', 'rename'];
+
+const PACK_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const LANGUAGE_PATTERN = /^[a-zA-Z]{2,3}(?:-[a-zA-Z0-9]{2,8})*$/;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Why pack metadata isn't usable, or null when it is
+export const validatePackMetadata = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'A question pack must be an object';
+  const pack = value as Partial<Record<keyof QuestionPackMetadata, unknown>>;
+
+  if (!isText(pack.id) || !PACK_ID_PATTERN.test(pack.id)) return 'Pack id must be lowercase words joined by dashes, like lightning-deep-dive';
+  for (const field of ['title', 'author', 'license'] as const) {
+    if (!isText(pack[field])) return `Pack ${field} is required`;
+  }
+  if (!isText(pack.language) || !LANGUAGE_PATTERN.test(pack.language)) return 'Pack language must be a language tag, like en or sw-KE';
+  if (!Array.isArray(pack.categories) || pack.categories.length === 0) return 'Pack categories must list at least one category';
+  const unknown = pack.categories.find(category => !PRIVACY_CATEGORIES.includes(category as PrivacyCategory));
+  if (unknown !== undefined) return `Unknown pack category "${unknown}"`;
+  if (pack.description !== undefined && typeof pack.description !== 'string') return 'Pack description must be text';
+  if (pack.version !== undefined && !isText(pack.version)) return 'Pack version must be text';
+  return null;
+};
+
+// Why a value isn't an importable pack, or null when it is
+export const validateQuestionPack = (value: unknown): string | null => {
+  const metadataProblem = validatePackMetadata(value);
+  if (metadataProblem) return metadataProblem;
+  const pack = value as Partial<QuestionPack>;
+
+  if (pack.format !== PACK_FORMAT) return `Not a question pack - format must be "${PACK_FORMAT}"`;
+  if (!Number.isInteger(pack.formatVersion) || (pack.formatVersion as number) < 1) return 'Pack formatVersion must be a whole number';
+  if ((pack.formatVersion as number) > PACK_FORMAT_VERSION) {
+    return `Pack format version ${pack.formatVersion} is newer than this app understands (${PACK_FORMAT_VERSION})`;
+  }
+  if (!Array.isArray(pack.questions) || pack.questions.length === 0) return 'A pack needs at least one question';
+
+  const seen = new Set<string>();
+  for (const question of pack.questions) {
+    const problem = validateQuestion(question);
+    if (problem) return problem;
+    if (seen.has(question.id)) return `Question ${question.id} appears twice in the pack`;
+    seen.add(question.id);
+    if (!pack.categories?.includes(question.category)) {
+      return `Question ${question.id}: category ${question.category} isn't one of the pack's categories`;
+    }
+  }
+  if (pack.replaces !== undefined && (!Array.isArray(pack.replaces) || !pack.replaces.every(id => seen.has(id)))) {
+    return 'Pack replaces must list ids of its own questions';
+  }
+  return null;
+};
+
+// Read a pack from a file's text; throws with the first problem found
+export const parseQuestionPack = (text: string): QuestionPack => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Not a question pack - the file isn\'t JSON');
+  }
+  const problem = validateQuestionPack(value);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return value as QuestionPack;
+};
+
+// Bundle questions into a pack; categories default to the ones the questions cover
+export const createQuestionPack = (
+  metadata: Omit<QuestionPackMetadata, 'categories'> & { categories?: PrivacyCategory[] },
+  questions: EnhancedQuestion[],
+  exportedAt?: string
+): QuestionPack => ({
+  format: PACK_FORMAT,
+  formatVersion: PACK_FORMAT_VERSION,
+  ...metadata,
+  categories: metadata.categories || PRIVACY_CATEGORIES.filter(category => questions.some(question => question.category === category)),
+  exportedAt,
+  questions: structuredClone(questions),
+});
+
+export const serializeQuestionPack = (pack: QuestionPack): string => JSON.stringify(pack, null, 2);
+
+// Work out what importing a pack does to questions whose ids are already taken.
+// 'reject' leaves the plan empty when there are conflicts; the caller reports them.
+export const planPackImport = (pack: QuestionPack, takenIds: Iterable<string>, policy: PackConflictPolicy): PackImportPlan => {
+  const taken = new Set(takenIds);
+  const conflicts = pack.questions.filter(question => taken.has(question.id)).map(question => question.id);
+  const plan: PackImportPlan = { questions: [], conflicts, added: [], replaced: [], skipped: [], renamed: {} };
+  if (policy === 'reject' && conflicts.length > 0) {
+    return plan;
+  }
+
+  for (const question of pack.questions) {
+    if (!taken.has(question.id)) {
+      plan.questions.push(question);
+      plan.added.push(question.id);
+    } else if (policy === 'replace') {
+      plan.questions.push(question);
+      plan.replaced.push(question.id);
+    } else if (policy === 'rename') {
+      // Namespace with the pack id, counting up if even that is taken
+      let id = `${pack.id}.${question.id}`;
+      for (let n = 2; taken.has(id); n++) id = `${pack.id}.${question.id}-${n}`;
+      taken.add(id);
+      plan.questions.push({ ...question, id });
+      plan.renamed[question.id] = id;
+    } else {
+      plan.skipped.push(question.id);
+    }
+  }
+  return plan;
+};
@@ -0,0 +1,30 @@
+import { EnhancedQuestion, Locale } from '../types';
+
+/**
+ * Question Translation
+ * Picks a question's text for a locale. Kept apart from i18n, which reads the
+ * browser's language and storage, so answer grading can use it on the server
+ * too: a typed answer is graded against the answers accepted in the language
+ * it was typed in.
+ */
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'sw', 'fr'];
+
+export const isLocale = (value: unknown): value is Locale => SUPPORTED_LOCALES.includes(value as Locale);
+
+// The question in this locale where it has a translation; ids and answer keys never change
+export const translateQuestion = (question: EnhancedQuestion, locale: Locale): EnhancedQuestion => {
+  const translation = question.translations?.[locale];
+  if (!translation) return question;
+  const matches = (translated: string[] | undefined, original: string[] | undefined): translated is string[] =>
+    !!translated && translated.length === (original?.length ?? 0);
+  return {
+    ...question,
+    question: translation.question,
+    options: matches(translation.options, question.options) ? translation.options : question.options,
+    explanation: translation.explanation ?? question.explanation,
+    hints: matches(translation.hints, question.hints) ? translation.hints : question.hints,
+    acceptedAnswers: translation.acceptedAnswers?.length ? translation.acceptedAnswers : question.acceptedAnswers,
+    graph: question.graph && translation.graphPrompt ? { ...question.graph, prompt: translation.graphPrompt } : question.graph,
+  };
+};
@@ -0,0 +1,174 @@
+import { Difficulty, EnhancedQuestion, Locale, PrivacyCategory, QuestionTranslation, QuestionType, TransactionGraph } from '../types';
+import { validateTransactionGraph } from './transactionGraph';
+
+/**
+ * Question Validation
+ * Checks that a question - typed by an author, sent to the content API or
+ * read from a file - matches the EnhancedQuestion model closely enough to be
+ * dealt onto a block and graded: known category, type and difficulty, an
+ * answer key that points inside the options, and stability effects with the
+ * right signs (a right answer never weakens the tower, a wrong one never
+ * steadies it). Translations have to line up option for option with the
+ * original, since they share its answer key.
+ */
+
+// Records keep these lists in step with the union types
+const CATEGORIES: Record<PrivacyCategory, true> = {
+  'on-chain': true,
+  'off-chain': true,
+  'coin-mixing': true,
+  'wallet-setup': true,
+  'lightning': true,
+  'regulatory': true,
+  'best-practices': true,
+  'network-privacy': true,
+  'exchange-privacy': true,
+  'api-privacy': true,
+  'social-privacy': true,
+  'transaction-security': true,
+  'kyc-privacy': true,
+  'security': true,
+  'physical-privacy': true,
+};
+
+const TYPES: Record<QuestionType, true> = {
+  multiple_choice: true,
+  true_false: true,
+  scenario: true,
+  fill_blank: true,
+  multi_select: true,
+  ordering: true,
+};
+
+const DIFFICULTIES: Record<Difficulty, true> = { easy: true, medium: true, hard: true };
+
+const LOCALES: Record<Locale, true> = { en: true, sw: true, fr: true };
+
+export const PRIVACY_CATEGORIES = Object.keys(CATEGORIES) as PrivacyCategory[];
+export const QUESTION_TYPES = Object.keys(TYPES) as QuestionType[];
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIndexList = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.every(index => Number.isInteger(index) && index >= 0 && index < length);
+
+// Why a question's translations don't fit it, or null when they do
+const validateTranslations = (label: string, value: unknown, options: string[], question: Partial<Record<keyof EnhancedQuestion, unknown>>): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return `${label}: translations must map locales to translations`;
+  for (const [locale, entry] of Object.entries(value)) {
+    const where = `${label} (${locale})`;
+    if (!(locale in LOCALES)) return `${label}: no such locale ${locale}`;
+    if (!entry || typeof entry !== 'object') return `${where}: a translation must be an object`;
+    const translation = entry as Partial<Record<keyof QuestionTranslation, unknown>>;
+    if (!isText(translation.question)) return `${where}: question text is required`;
+    if (translation.options !== undefined && (!Array.isArray(translation.options) || !translation.options.every(isText) || translation.options.length !== options.length)) {
+      return `${where}: options must translate each of the ${options.length} options in order`;
+    }
+    if (translation.explanation !== undefined && !isText(translation.explanation)) return `${where}: explanation must be text`;
+    const hintCount = Array.isArray(question.hints) ? question.hints.length : 0;
+    if (translation.hints !== undefined && (!Array.isArray(translation.hints) || !translation.hints.every(isText) || translation.hints.length !== hintCount)) {
+      return `${where}: hints must translate each of the ${hintCount} hints in order`;
+    }
+    if (translation.acceptedAnswers !== undefined) {
+      if (question.type !== 'fill_blank') return `${where}: only fill_blank questions have accepted answers`;
+      if (!Array.isArray(translation.acceptedAnswers) || translation.acceptedAnswers.length === 0 || !translation.acceptedAnswers.every(isText)) {
+        return `${where}: acceptedAnswers must list at least one answer`;
+      }
+    }
+    if (translation.graphPrompt !== undefined) {
+      if (question.graph === undefined) return `${where}: only questions with a transaction graph have a graph prompt`;
+      if (!isText(translation.graphPrompt)) return `${where}: graphPrompt must be text`;
+    }
+  }
+  return null;
+};
+
+// Why a value isn't a playable question, or null when it is
+export const validateQuestion = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'A question must be an object';
+  const question = value as Partial<Record<keyof EnhancedQuestion, unknown>>;
+
+  if (!isText(question.id)) return 'id is required';
+  const label = `Question ${question.id}`;
+  if (!isText(question.type) || !(question.type in TYPES)) {
+    return `${label}: type must be one of ${QUESTION_TYPES.join(', ')}`;
+  }
+  if (!isText(question.difficulty) || !(question.difficulty in DIFFICULTIES)) {
+    return `${label}: difficulty must be easy, medium or hard`;
+  }
+  if (!isText(question.category) || !(question.category in CATEGORIES)) {
+    return `${label}: category must be one of ${PRIVACY_CATEGORIES.join(', ')}`;
+  }
+  if (!isText(question.question)) return `${label}: question text is required`;
+  if (!isText(question.explanation)) return `${label}: explanation is required`;
+
+  const options = question.options;
+  if (!Array.isArray(options) || !options.every(isText)) return `${label}: options must be a list of non-empty strings`;
+  if (question.type !== 'fill_blank' && options.length < 2) return `${label}: needs at least two options`;
+  if (question.type === 'true_false' && options.length !== 2) return `${label}: true_false questions have exactly two options`;
+  if (!Number.isInteger(question.correctIndex)) return `${label}: correctIndex must be a whole number`;
+  const correctIndex = question.correctIndex as number;
+  // fill_blank is graded on acceptedAnswers, so its options may be empty
+  if (options.length > 0 && (correctIndex < 0 || correctIndex >= options.length)) {
+    return `${label}: correctIndex ${correctIndex} is outside its ${options.length} options`;
+  }
+
+  const impact = question.stabilityImpact as EnhancedQuestion['stabilityImpact'] | undefined;
+  if (!impact || !isNumber(impact.correct) || !isNumber(impact.incorrect)) {
+    return `${label}: stabilityImpact needs correct and incorrect numbers`;
+  }
+  if (impact.correct < 0) return `${label}: a correct answer can't lower stability`;
+  if (impact.incorrect > 0) return `${label}: an incorrect answer can't raise stability`;
+
+  const points = question.points as EnhancedQuestion['points'] | undefined;
+  if (!points || !isNumber(points.correct) || !isNumber(points.incorrect)) {
+    return `${label}: points needs correct and incorrect numbers`;
+  }
+  if (points.correct < points.incorrect) return `${label}: a correct answer can't score less than an incorrect one`;
+
+  if (!Array.isArray(question.learningTags) || !question.learningTags.every(isText)) {
+    return `${label}: learningTags must be a list of strings`;
+  }
+  if (question.timeLimit !== undefined && (!isNumber(question.timeLimit) || question.timeLimit <= 0)) {
+    return `${label}: timeLimit must be a positive number of seconds`;
+  }
+  if (question.hints !== undefined && (!Array.isArray(question.hints) || !question.hints.every(isText))) {
+    return `${label}: hints must be a list of strings`;
+  }
+
+  switch (question.type) {
+    case 'fill_blank':
+      if (!Array.isArray(question.acceptedAnswers) || question.acceptedAnswers.length === 0 || !question.acceptedAnswers.every(isText)) {
+        return `${label}: fill_blank questions need acceptedAnswers`;
+      }
+      break;
+    case 'multi_select': {
+      const indices = question.correctIndices;
+      if (!isIndexList(indices, options.length) || indices.length === 0 || new Set(indices).size !== indices.length) {
+        return `${label}: correctIndices must list distinct options`;
+      }
+      break;
+    }
+    case 'ordering': {
+      const order = question.correctOrder;
+      if (!isIndexList(order, options.length) || order.length !== options.length || new Set(order).size !== order.length) {
+        return `${label}: correctOrder must place every option exactly once`;
+      }
+      break;
+    }
+  }
+
+  if (question.graph !== undefined) {
+    if (question.type !== 'scenario') return `${label}: only scenario questions have a transaction graph`;
+    const graph = question.graph as TransactionGraph;
+    if (!graph || !Array.isArray(graph.nodes) || !Array.isArray(graph.edges) || !Array.isArray(graph.answerNodeIds)) {
+      return `${label}: graph needs nodes, edges and answerNodeIds`;
+    }
+    const problem = validateTransactionGraph(graph);
+    if (problem) return `${label}: ${problem}`;
+  }
+  if (question.translations !== undefined) {
+    return validateTranslations(label, question.translations, options, question);
+  }
+  return null;
+};
@@ -0,0 +1,143 @@
+import { QuizResult, ReviewCard, ReviewSchedule } from '../types';
+
+/**
+ * Spaced Repetition
+ * SM-2 scheduler over answered questions. Every question id gets a card with
+ * an ease factor and a due date; missed questions come back soon, questions
+ * answered well come back after growing intervals. The schedule is kept in
+ * localStorage so it carries over between visits, and rebuilt towers and
+ * Review mode draw overdue questions from it first.
+ */
+
+const STORAGE_KEY = 'privacy-jenga-review-schedule';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LAPSE_DELAY_MS = 10 * 60 * 1000; // Missed questions are due again within the session
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const SLOW_ANSWER_SECONDS = 20;
+
+type GradedAnswer = Pick<QuizResult, 'questionId' | 'outcome' | 'hintsUsed' | 'timeToAnswer'>;
+
+export const createReviewSchedule = (): ReviewSchedule => ({ version: 1, cards: {} });
+
+// SM-2 quality (0-5) for an answer: timeouts and misses fail, help and hesitation lower the grade
+export const gradeAnswer = (answer: GradedAnswer): number => {
+  if (answer.outcome === 'timeout') return 0;
+  if (answer.outcome === 'incorrect') return 1;
+  if (answer.hintsUsed > 0) return 3;
+  if (answer.timeToAnswer !== undefined && answer.timeToAnswer > SLOW_ANSWER_SECONDS) return 4;
+  return 5;
+};
+
+// Apply one answer to the schedule, returning a new schedule
+export const scheduleReview = (schedule: ReviewSchedule, answer: GradedAnswer, now: number): ReviewSchedule => {
+  const quality = gradeAnswer(answer);
+  const previous = schedule.cards[answer.questionId];
+  const card: ReviewCard = previous ? { ...previous } : {
+    questionId: answer.questionId,
+    repetitions: 0,
+    easeFactor: DEFAULT_EASE,
+    intervalDays: 0,
+    dueAt: now,
+    lastReviewedAt: now,
+    lapses: 0,
+  };
+
+  if (quality < 3) {
+    card.repetitions = 0;
+    card.intervalDays = 0;
+    card.lapses++;
+    card.dueAt = now + LAPSE_DELAY_MS;
+  } else {
+    card.repetitions++;
+    if (card.repetitions === 1) {
+      card.intervalDays = 1;
+    } else if (card.repetitions === 2) {
+      card.intervalDays = 6;
+    } else {
+      card.intervalDays = Math.round(card.intervalDays * card.easeFactor);
+    }
+    card.dueAt = now + card.intervalDays * DAY_MS;
+  }
+
+  card.easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  card.lastReviewedAt = now;
+
+  return { ...schedule, cards: { ...schedule.cards, [card.questionId]: card } };
+};
+
+export interface ReviewQueueOptions {
+  limit?: number;
+  includeUpcoming?: boolean; // Review mode tops the queue up with cards that are due soonest
+}
+
+// Question ids to review, most overdue first
+export const getReviewQueue = (schedule: ReviewSchedule, now: number, options: ReviewQueueOptions = {}): string[] => {
+  const cards = Object.values(schedule.cards).sort((a, b) => a.dueAt - b.dueAt);
+  const due = cards.filter(card => card.dueAt <= now);
+  const queue = options.includeUpcoming ? cards : due;
+  return queue.slice(0, options.limit ?? queue.length).map(card => card.questionId);
+};
+
+export const countDueReviews = (schedule: ReviewSchedule, now: number): number => {
+  return Object.values(schedule.cards).filter(card => card.dueAt <= now).length;
+};
+
+// Persistent schedule shared by the game page and the home page
+export class ReviewScheduleStore {
+  private schedule: ReviewSchedule;
+  private storage?: Storage;
+
+  constructor(storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined) {
+    this.storage = storage;
+    this.schedule = this.load();
+  }
+
+  getSchedule(): ReviewSchedule {
+    return this.schedule;
+  }
+
+  recordAnswer(answer: GradedAnswer, now: number = Date.now()): void {
+    this.schedule = scheduleReview(this.schedule, answer, now);
+    this.save();
+  }
+
+  getReviewQueue(now: number = Date.now(), options: ReviewQueueOptions = {}): string[] {
+    return getReviewQueue(this.schedule, now, options);
+  }
+
+  countDue(now: number = Date.now()): number {
+    return countDueReviews(this.schedule, now);
+  }
+
+  clear(): void {
+    this.schedule = createReviewSchedule();
+    this.save();
+  }
+
+  private load(): ReviewSchedule {
+    try {
+      const saved = this.storage?.getItem(STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as ReviewSchedule;
+        if (parsed.version === 1 && parsed.cards && typeof parsed.cards === 'object') {
+          return parsed;
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to load review schedule:', error);
+    }
+    return createReviewSchedule();
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.schedule));
+    } catch (error) {
+      console.warn('⚠️ Failed to save review schedule:', error);
+    }
+  }
+}
+
+export const reviewScheduleStore = new ReviewScheduleStore();
+export default reviewScheduleStore;
@@ -0,0 +1,122 @@
+import { Difficulty, TowerBand, TowerSpec } from '../types';
+
+/**
+ * Tower Specs
+ * One description of a tower's geometry - how many layers, how many blocks
+ * each holds, which difficulty each run of layers deals and how far apart the
+ * blocks sit. The game core builds its blocks from the spec and the 3D view
+ * colors and frames them from the same spec, so a workshop tower or a tall
+ * full-bank tower is just another spec.
+ */
+
+const DEFAULT_SPACING = { x: 1.2, y: 0.4, z: 0.75 };
+
+// Split a tower into hard, medium and easy thirds from the bottom up
+const splitIntoThirds = (layers: number): TowerBand[] => {
+  const hardTop = Math.floor(layers / 3);
+  const mediumTop = Math.floor((2 * layers) / 3);
+  const bands: TowerBand[] = [
+    { fromLayer: 1, toLayer: hardTop, difficulty: 'hard' }, // Bottom layers = Red = Hard
+    { fromLayer: hardTop + 1, toLayer: mediumTop, difficulty: 'medium' }, // Middle layers = Orange = Medium
+    { fromLayer: mediumTop + 1, toLayer: layers, difficulty: 'easy' }, // Top layers = Green = Easy
+  ];
+  return bands.filter(band => band.fromLayer <= band.toLayer);
+};
+
+// Spec with the usual spacing and difficulty thirds
+export const createTowerSpec = (
+  shape: Pick<TowerSpec, 'id' | 'name' | 'layers' | 'blocksPerLayer' | 'topLayerBlocks'>
+): TowerSpec => ({
+  ...shape,
+  bands: splitIntoThirds(shape.layers),
+  spacing: { ...DEFAULT_SPACING },
+});
+
+export const DEFAULT_TOWER_SPEC = createTowerSpec({
+  id: 'standard',
+  name: 'Standard',
+  layers: 18,
+  blocksPerLayer: 3,
+  topLayerBlocks: 1,
+});
+
+export const TOWER_SPECS: Record<string, TowerSpec> = {
+  [DEFAULT_TOWER_SPEC.id]: DEFAULT_TOWER_SPEC,
+  // About five minutes of questions for a workshop round
+  workshop: createTowerSpec({ id: 'workshop', name: 'Workshop', layers: 5, blocksPerLayer: 3, topLayerBlocks: 1 }),
+  // One block per question in the full bank
+  tall: createTowerSpec({ id: 'tall', name: 'Tall', layers: 18, blocksPerLayer: 3, topLayerBlocks: 3 }),
+};
+
+// Register a custom spec so it can be picked by id
+export const registerTowerSpec = (spec: TowerSpec): void => {
+  const problem = validateTowerSpec(spec);
+  if (problem) {
+    throw new Error(problem);
+  }
+  TOWER_SPECS[spec.id] = spec;
+};
+
+export const getTowerSpec = (id: string): TowerSpec => {
+  const spec = TOWER_SPECS[id];
+  if (!spec) {
+    throw new Error(`Unknown tower: ${id}`);
+  }
+  return spec;
+};
+
+// Parse the ?tower= query value; unknown towers leave the choice to the game mode
+export const parseTowerSpec = (id: string | null): TowerSpec | undefined =>
+  id ? TOWER_SPECS[id] : undefined;
+
+// Why a spec can't be built, or null when it can
+export const validateTowerSpec = (spec: TowerSpec): string | null => {
+  const counts = [spec.layers, spec.blocksPerLayer, spec.topLayerBlocks];
+  if (!counts.every(count => Number.isInteger(count) && count >= 1)) {
+    return 'Tower layers and block counts must be whole numbers of at least 1';
+  }
+  if (![spec.spacing?.x, spec.spacing?.y, spec.spacing?.z].every(gap => typeof gap === 'number' && gap >= 0)) {
+    return 'Tower spacing must be non-negative numbers';
+  }
+
+  if (!Array.isArray(spec.bands)) {
+    return 'Tower needs a list of difficulty bands';
+  }
+
+  // Bands must cover every layer exactly once
+  const covered = new Set<number>();
+  for (const band of spec.bands) {
+    for (let layer = band.fromLayer; layer <= band.toLayer; layer++) {
+      if (layer < 1 || layer > spec.layers) return `Band ${band.fromLayer}-${band.toLayer} runs outside the tower`;
+      if (covered.has(layer)) return `Layer ${layer} is in more than one band`;
+      covered.add(layer);
+    }
+  }
+  return covered.size === spec.layers ? null : 'Every layer needs a difficulty band';
+};
+
+export const getLayerBlockCount = (spec: TowerSpec, layer: number): number =>
+  layer === spec.layers ? spec.topLayerBlocks : spec.blocksPerLayer;
+
+export const getLayerDifficulty = (spec: TowerSpec, layer: number): Difficulty => {
+  const band = spec.bands.find(candidate => layer >= candidate.fromLayer && layer <= candidate.toLayer);
+  if (!band) {
+    throw new Error(`Layer ${layer} has no difficulty band`);
+  }
+  return band.difficulty;
+};
+
+// Center of a block - layers are centered on x = 0, layer 1 sits on the ground
+// and alternate layers are pushed back so the tower reads as stacked
+export const getBlockWorldPosition = (spec: TowerSpec, layer: number, position: number): [number, number, number] => {
+  const blocksInLayer = getLayerBlockCount(spec, layer);
+  return [
+    (position - (blocksInLayer + 1) / 2) * spec.spacing.x,
+    (layer - 1) * spec.spacing.y,
+    layer % 2 === 0 ? 0 : spec.spacing.z,
+  ];
+};
+
+// Point halfway up the tower, for aiming the camera
+export const getTowerCenter = (spec: TowerSpec): [number, number, number] =>
+  [0, ((spec.layers - 1) * spec.spacing.y) / 2, spec.spacing.z / 2];
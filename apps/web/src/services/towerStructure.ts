@@ -0,0 +1,90 @@
+import { Block } from '../types';
+
+/**
+ * Structural Tower Model
+ * Works out how much a block contributes to holding the tower up, using only
+ * Block.layer and Block.position. Layer 1 is the base; every layer rests on the
+ * one below it. A layer's weakness depends on which of its blocks are left and
+ * how much of the tower is still standing on top of it.
+ */
+
+export type LayerShape = 'full' | 'edges' | 'edge_center' | 'center' | 'single_edge' | 'empty';
+
+export interface StructuralAssessment {
+  risk: number; // 0-1, how much pulling this block weakens the tower
+  collapses: boolean; // Pulling it leaves a loaded layer with no support
+  shapeAfter: LayerShape; // Shape of the block's layer once it is pulled
+  load: number; // 0-1, share of remaining blocks resting above this layer
+}
+
+// How weak each layer shape is when fully loaded
+const SHAPE_WEAKNESS: Record<LayerShape, number> = {
+  full: 0,
+  edges: 0.05, // Classic Jenga: two edges carry the load well
+  edge_center: 0.2,
+  center: 0.45, // Both edges pulled - the layer above can tip either way
+  single_edge: 0.6, // Only one edge left - the load sits off-centre
+  empty: 1,
+};
+
+// Classify what is left of a layer
+export const getLayerShape = (layerBlocks: Block[]): LayerShape => {
+  const remaining = layerBlocks.filter(block => !block.isRemoved);
+  if (remaining.length === 0) return 'empty';
+  if (remaining.length === layerBlocks.length) return 'full';
+
+  // Single-block layers (the top) are either full or empty
+  const positions = layerBlocks.map(block => block.position);
+  const minPosition = Math.min(...positions);
+  const maxPosition = Math.max(...positions);
+  const isEdge = (block: Block) => block.position === minPosition || block.position === maxPosition;
+
+  const edges = remaining.filter(isEdge).length;
+  const centers = remaining.length - edges;
+
+  if (edges >= 2) return 'edges';
+  if (edges === 1 && centers > 0) return 'edge_center';
+  if (edges === 1) return 'single_edge';
+  return 'center';
+};
+
+// Share of remaining blocks that rest on top of a layer (0 for the top layer)
+const getLoadAbove = (blocks: Block[], layer: number): number => {
+  const remaining = blocks.filter(block => !block.isRemoved);
+  if (remaining.length === 0) return 0;
+  return remaining.filter(block => block.layer > layer).length / remaining.length;
+};
+
+const groupByLayer = (blocks: Block[]): Map<number, Block[]> => {
+  const layers = new Map<number, Block[]>();
+  blocks.forEach(block => {
+    layers.set(block.layer, [...(layers.get(block.layer) || []), block]);
+  });
+  return layers;
+};
+
+// Assess pulling a block before it is removed
+export const assessBlockRemoval = (blocks: Block[], target: Block): StructuralAssessment => {
+  const after = blocks.map(block => block.id === target.id ? { ...block, isRemoved: true } : block);
+  const layerBlocks = after.filter(block => block.layer === target.layer);
+  const shapeAfter = getLayerShape(layerBlocks);
+  const load = getLoadAbove(after, target.layer);
+
+  const collapses = shapeAfter === 'empty' && load > 0;
+  const risk = collapses ? 1 : SHAPE_WEAKNESS[shapeAfter] * (0.5 + 0.5 * load);
+
+  return { risk, collapses, shapeAfter, load };
+};
+
+// Overall structural integrity (0-100) of the remaining tower
+export const calculateStructuralIntegrity = (blocks: Block[]): number => {
+  let integrity = 1;
+
+  groupByLayer(blocks).forEach((layerBlocks, layer) => {
+    const load = getLoadAbove(blocks, layer);
+    if (load === 0) return;
+    integrity *= 1 - SHAPE_WEAKNESS[getLayerShape(layerBlocks)] * load;
+  });
+
+  return Math.max(0, Math.round(integrity * 100));
+};
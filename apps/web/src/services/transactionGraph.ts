@@ -0,0 +1,121 @@
+import { TransactionGraph, TransactionGraphNode } from '../types';
+
+/**
+ * Transaction Graphs
+ * Checks and lays out the toy transaction graphs scenario questions are
+ * answered on. Graphs read left to right: every node sits one column after
+ * the furthest node feeding it, and coins nothing created (the funding
+ * inputs) sit just before the transaction spending them. Within a column
+ * nodes keep the order they are declared in, so content authors control the
+ * vertical layout.
+ */
+
+export interface PositionedNode extends TransactionGraphNode {
+  column: number;
+  x: number; // Node center
+  y: number;
+}
+
+export interface GraphLayout {
+  nodes: PositionedNode[];
+  edges: { from: PositionedNode; to: PositionedNode }[];
+  width: number;
+  height: number;
+}
+
+export const COLUMN_WIDTH = 190;
+export const ROW_HEIGHT = 72;
+
+// Why a graph can't be shown or graded, or null when it can
+export const validateTransactionGraph = (graph: TransactionGraph): string | null => {
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  if (nodes.size !== graph.nodes.length) return 'Graph node ids must be unique';
+
+  const created = new Set<string>();
+  const spent = new Set<string>();
+  for (const { from, to } of graph.edges) {
+    const source = nodes.get(from);
+    const target = nodes.get(to);
+    if (!source || !target) return `Edge ${from} → ${to} points at a missing node`;
+    if (source.kind === target.kind) return `Edge ${from} → ${to} must join a coin and a transaction`;
+
+    // A coin comes out of one transaction and can be spent only once
+    const coin = source.kind === 'coin' ? spent : created;
+    const coinId = source.kind === 'coin' ? from : to;
+    if (coin.has(coinId)) return `Coin ${coinId} is ${source.kind === 'coin' ? 'spent' : 'created'} twice`;
+    coin.add(coinId);
+  }
+
+  if (getColumns(graph) === null) return 'Graph has a cycle';
+  if (graph.answerNodeIds.length === 0) return 'Graph has no answer nodes';
+  const notCoin = graph.answerNodeIds.find(id => nodes.get(id)?.kind !== 'coin');
+  return notCoin ? `Answer node ${notCoin} is not a coin in the graph` : null;
+};
+
+// Column per node id, or null when the graph has a cycle
+function getColumns(graph: TransactionGraph): Map<string, number> | null {
+  const incoming = new Map(graph.nodes.map(node => [node.id, 0]));
+  graph.edges.forEach(({ to }) => incoming.set(to, (incoming.get(to) || 0) + 1));
+
+  // Longest path from the sources (Kahn's algorithm)
+  const columns = new Map<string, number>();
+  const ready = graph.nodes.filter(node => incoming.get(node.id) === 0).map(node => node.id);
+  ready.forEach(id => columns.set(id, 0));
+  for (let i = 0; i < ready.length; i++) {
+    const id = ready[i];
+    graph.edges.filter(edge => edge.from === id).forEach(({ to }) => {
+      columns.set(to, Math.max(columns.get(to) || 0, (columns.get(id) || 0) + 1));
+      incoming.set(to, (incoming.get(to) || 0) - 1);
+      if (incoming.get(to) === 0) ready.push(to);
+    });
+  }
+  if (ready.length !== graph.nodes.length) return null;
+
+  // Pull funding inputs up to the transaction that spends them
+  graph.nodes.forEach(node => {
+    const spender = graph.edges.find(edge => edge.from === node.id);
+    if (node.kind === 'coin' && !graph.edges.some(edge => edge.to === node.id) && spender) {
+      columns.set(node.id, (columns.get(spender.to) || 1) - 1);
+    }
+  });
+  return columns;
+}
+
+// Place every node for drawing; throws on a graph that doesn't validate
+export const layoutTransactionGraph = (graph: TransactionGraph): GraphLayout => {
+  const problem = validateTransactionGraph(graph);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const columns = getColumns(graph) as Map<string, number>;
+  const byColumn: TransactionGraphNode[][] = [];
+  graph.nodes.forEach(node => {
+    const column = columns.get(node.id) || 0;
+    (byColumn[column] = byColumn[column] || []).push(node);
+  });
+
+  const rows = Math.max(...byColumn.map(column => column?.length || 0));
+  const height = rows * ROW_HEIGHT;
+  const positioned = new Map<string, PositionedNode>();
+  byColumn.forEach((column, index) => {
+    // Center shorter columns against the tallest one
+    const top = (height - column.length * ROW_HEIGHT) / 2;
+    column.forEach((node, row) => positioned.set(node.id, {
+      ...node,
+      column: index,
+      x: index * COLUMN_WIDTH + COLUMN_WIDTH / 2,
+      y: top + row * ROW_HEIGHT + ROW_HEIGHT / 2,
+    }));
+  });
+
+  return {
+    nodes: graph.nodes.map(node => positioned.get(node.id) as PositionedNode),
+    edges: graph.edges.map(({ from, to }) => ({
+      from: positioned.get(from) as PositionedNode,
+      to: positioned.get(to) as PositionedNode,
+    })),
+    width: byColumn.length * COLUMN_WIDTH,
+    height,
+  };
+};
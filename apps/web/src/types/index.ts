@@ -17,7 +17,7 @@ export type PrivacyCategory =
   | 'physical-privacy';
 
 // Enhanced Question Types
-export type QuestionType = 'multiple_choice' | 'true_false' | 'scenario' | 'fill_blank';
+export type QuestionType = 'multiple_choice' | 'true_false' | 'scenario' | 'fill_blank' | 'multi_select' | 'ordering';
 export type Difficulty = 'easy' | 'medium' | 'hard';
 export type BlockType = 'QUESTION'; // All blocks are now questions
 
@@ -42,6 +42,61 @@ export interface EnhancedQuestion {
   learningTags: string[];
   timeLimit?: number; // Optional time limit in seconds
   hints?: string[]; // Progressive hints
+  acceptedAnswers?: string[]; // fill_blank: the answer shown to players first, then accepted synonyms
+  fuzzyMatch?: boolean; // fill_blank: forgive small typos (default true)
+  correctIndices?: number[]; // multi_select: every option that should be picked
+  correctOrder?: number[]; // ordering: option indexes in the right sequence
+  graph?: TransactionGraph; // scenario: answered by clicking a node; the options stay as the text version
+  translations?: Partial<Record<Locale, QuestionTranslation>>; // Same id and answer key, text in another language
+}
+
+// A question's text in another language. Options keep the original order, so
+// correctIndex, correctIndices and correctOrder apply unchanged; anything left
+// out shows in the original language.
+export interface QuestionTranslation {
+  question: string;
+  options?: string[];
+  explanation?: string;
+  hints?: string[];
+  acceptedAnswers?: string[]; // fill_blank answers typed in this language
+  graphPrompt?: string; // What to click on the transaction graph
+}
+
+// Toy transaction graph for scenario questions. Coins are inputs and outputs;
+// edges run from a coin to the transaction spending it and from a transaction
+// to the coins it creates.
+export interface TransactionGraph {
+  prompt: string; // What to click, shown above the graph
+  nodes: TransactionGraphNode[];
+  edges: { from: string; to: string }[];
+  answerNodeIds: string[]; // Coins that count as a correct click
+}
+
+export interface TransactionGraphNode {
+  id: string;
+  kind: 'transaction' | 'coin';
+  label: string; // Amount for coins, a short name for transactions
+  address?: string;
+  role?: 'payment' | 'change' | 'data'; // 'data' is an OP_RETURN output
+  note?: string; // Data carried by an OP_RETURN output
+  cluster?: string; // Coins an observer can tie to one wallet share a cluster name
+}
+
+// What a player submits, shaped by the question type; a bare number is an option index
+export type QuizAnswer =
+  | { kind: 'choice'; index: number } // multiple_choice, scenario, true_false
+  | { kind: 'boolean'; value: boolean } // true_false
+  | { kind: 'text'; text: string; locale?: Locale } // fill_blank - graded in the language it was typed in
+  | { kind: 'multi'; indices: number[] } // multi_select
+  | { kind: 'order'; order: number[] } // ordering - option indexes in the player's sequence
+  | { kind: 'node'; nodeId: string }; // scenario with a transaction graph
+
+export interface AnswerCheck {
+  isCorrect: boolean;
+  score: number; // 0-1 credit; partial for multi_select and ordering
+  selectedIndex: number; // Option picked, -1 when the answer isn't a single option
+  matchedAnswer?: string; // Accepted answer a typed response matched
+  fuzzy: boolean; // Matched only after forgiving a typo
 }
 
 // Enhanced Block Content (replaces old BlockContent)
@@ -73,6 +128,12 @@ export interface StabilityMechanics {
     correct: number[];
     incorrect: number[];
   };
+  // Structural model - pulling load-bearing blocks weakens the tower
+  structural: {
+    maxDamage: number; // Stability lost when pulling a block with risk 1
+    correctMultiplier: number; // Scales structural damage after a correct answer
+    incorrectMultiplier: number; // Scales structural damage after a wrong answer
+  };
 }
 
 // Adaptive Difficulty System
@@ -87,6 +148,41 @@ export interface AdaptiveDifficulty {
     difficultyProgression: 'linear' | 'exponential' | 'adaptive';
     stabilityScaling: 'fixed' | 'dynamic' | 'contextual';
   };
+  itemParameters?: Record<string, ItemParameters>; // IRT calibration by question id; labels stand in for the rest
+}
+
+// Item Response Theory - difficulty and ability share one logit scale
+export type IrtModel = '1pl' | '2pl';
+
+export interface ItemParameters {
+  questionId: string;
+  difficulty: number; // b - ability at which a correct answer is a coin flip
+  discrimination: number; // a - always 1 under the 1PL model
+  standardError: number; // Of the difficulty estimate
+  attempts: number;
+  correctRate: number; // 0-1
+}
+
+export interface ItemCalibration {
+  model: IrtModel;
+  items: Record<string, ItemParameters>;
+  respondents: number;
+  iterations: number;
+}
+
+export interface AbilityEstimate {
+  ability: number;
+  standardError: number;
+}
+
+export interface DifficultyMismatch {
+  questionId: string;
+  labeledDifficulty: Difficulty;
+  calibratedDifficulty: Difficulty; // Band the calibrated difficulty falls in
+  difficulty: number;
+  discrimination: number;
+  attempts: number;
+  correctRate: number;
 }
 
 // Enhanced Player Progress
@@ -101,7 +197,10 @@ export interface PlayerProgress {
 export interface QuestionAttempt {
   questionId: string;
   isCorrect: boolean;
+  outcome: AnswerOutcome;
   timeToAnswer: number;
+  hintsUsed: number; // Hints and 50/50 both count
+  usedFiftyFifty: boolean;
   stabilityImpact: number;
   pointsEarned: number;
   timestamp: Date;
@@ -109,16 +208,36 @@ export interface QuestionAttempt {
   category: PrivacyCategory;
 }
 
+export type LearningPhaseName = 'foundation' | 'application' | 'mastery';
+
 export interface LearningPhase {
-  currentPhase: 'foundation' | 'application' | 'mastery';
-  phaseProgress: number;
+  currentPhase: LearningPhaseName;
+  phaseProgress: number; // 0-100 towards the next phase
   requiredAccuracy: number;
-  unlockedQuestions: string[];
-  completedQuestions: string[];
+  unlockedQuestions: string[]; // Question ids that can be dealt in this phase
+  completedQuestions: string[]; // Question ids answered correctly
+  phaseStartedAtAttempt: number; // Index into questionHistory where this phase began
+}
+
+// Spaced repetition (SM-2) - one card per question id
+export interface ReviewCard {
+  questionId: string;
+  repetitions: number; // Successful reviews in a row
+  easeFactor: number;
+  intervalDays: number;
+  dueAt: number; // Epoch milliseconds
+  lastReviewedAt: number;
+  lapses: number; // Times the question was missed after being learned
+}
+
+export interface ReviewSchedule {
+  version: 1;
+  cards: Record<string, ReviewCard>;
 }
 
 export interface AdaptiveMetrics {
-  skillLevel: number; // 0-100
+  ability: number; // IRT ability estimate, on the same scale as item difficulty
+  abilityStandardError: number;
   learningRate: number;
   retentionRate: number;
   difficultyPreference: Difficulty;
@@ -130,25 +249,262 @@ export interface AdaptiveMetrics {
 export interface Block {
   id: string;
   type: BlockType;
-  content: BlockContent;
+  content?: BlockContent; // Dealt when the block is first clicked
   isRemoved: boolean;
   layer: number;
   position: number;
   worldPosition: [number, number, number];
-  category: PrivacyCategory;
-  difficulty: Difficulty;
+  category?: PrivacyCategory; // Category of the dealt question
+  difficulty: Difficulty; // Difficulty band of the block's layer
   hasBeenShown: boolean; // Track if this content has been shown
 }
 
+// Seedable randomness
+export interface RandomSource {
+  next(): number; // Uniform float in [0, 1)
+  nextInt(maxExclusive: number): number;
+  shuffle<T>(items: readonly T[]): T[];
+  getState(): number; // Passing this back to the factory resumes the same sequence
+}
+
+export type RandomFactory = (seed: number) => RandomSource;
+
+// Options accepted when starting or resetting a game
+export interface GameOptions {
+  seed?: number; // Same seed => same tower, question order and answer shuffles
+  random?: RandomFactory; // Pluggable PRNG, defaults to mulberry32
+  settings?: GameSettings; // Overrides DEFAULT_SETTINGS for this game
+  reviewQueue?: string[]; // Question ids to put in the tower first, most overdue first
+  mode?: GameModeConfig; // Rules to play by, Classic when omitted
+  tower?: TowerSpec; // Tower to build, the mode's own when omitted
+  players?: string[]; // Nicknames for a pass-and-play game, in turn order; solo when omitted
+}
+
+// Which game mode a game is played under; kept in state and replay logs
+export interface GameModeConfig {
+  id: string; // Registered GameMode id
+  category?: PrivacyCategory; // Category Sprint: the one category questions come from
+}
+
+// Difficulty dealt on a run of layers, both ends included
+export interface TowerBand {
+  fromLayer: number;
+  toLayer: number;
+  difficulty: Difficulty;
+}
+
+// Tower geometry, read by both the game core and the 3D view
+export interface TowerSpec {
+  id: string;
+  name: string;
+  layers: number;
+  blocksPerLayer: number;
+  topLayerBlocks: number; // Usually fewer than the layers below
+  bands: TowerBand[]; // Bottom up, covering every layer once
+  spacing: { x: number; y: number; z: number }; // Between blocks in a layer, between layers, and the push-back of odd layers
+}
+
+// Rules a game mode owns - tower shape, question pool, scoring and how a game ends.
+// Modes are plain objects registered by id, so the engine state only stores the id.
+export interface GameMode {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  tower: TowerSpec; // Used unless the game picks another tower
+  needsCategory: boolean; // Played on a single PrivacyCategory
+  followsLearningPath: boolean; // Deal only questions the player's learning phase has unlocked
+  tracksStability: boolean; // When false, answers never move the stability meter
+  rebuildsAfterCollapse: boolean; // When false, a collapse ends the game
+  includesQuestion(question: EnhancedQuestion, config: GameModeConfig): boolean;
+  scorePoints(points: number, game: GameState): number; // Points for an answer or achievement before they're added to the score
+  collapsesTower(result: QuizResult, game: GameState): boolean; // Checked after each answer
+  isComplete(game: GameState, unseenQuestions: number): boolean; // Checked after each answer that doesn't collapse the tower
+}
+
+// One player at a pass-and-play game. The tower, stability and the counters
+// on GameState are shared; these are the player's own share of them.
+export interface HotSeatPlayer {
+  id: string;
+  nickname: string;
+  score: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  blocksRemoved: number;
+  consecutiveCorrect: number;
+  longestStreak: number;
+  learningProgress: Record<PrivacyCategory, number>; // Correct answers per category
+  toppledTower: boolean; // Pulled the block the tower came down on
+}
+
+export interface HotSeatState {
+  players: HotSeatPlayer[]; // In turn order
+  turn: number; // Index of the player whose turn it is
+}
+
+// Online rooms - mirrors the API's public room shapes and WebSocket messages.
+// Players take turns in join order, which is also hot-seat order in the game.
+export type RoomStatus = 'waiting' | 'playing' | 'finished';
+
+export interface RoomPlayer {
+  id: string;
+  nickname: string;
+  isHost: boolean;
+  connected: boolean;
+  joinedAt: string;
+}
+
+export interface Room {
+  id: string;
+  code: string; // Join code players type in
+  name: string;
+  maxPlayers: number;
+  status: RoomStatus;
+  players: RoomPlayer[];
+  seed?: number; // Set when the host starts the game
+  turn: number;
+  stability?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The caller's own seat - the token authenticates the WebSocket
+export interface RoomSeat {
+  room: Room;
+  player: RoomPlayer & { token: string };
+}
+
+export type RoomClientMessage =
+  | { type: 'hello'; roomId: string; playerId: string; token: string }
+  | { type: 'start'; bank?: QuestionBankRef } // The host's question set, which everyone has to deal from
+  | { type: 'move'; move: ReplayMove; stability?: number; gameOver?: boolean };
+
+export type RoomServerMessage =
+  | { type: 'room'; room: Room }
+  | { type: 'started'; seed: number; players: RoomPlayer[]; bank?: QuestionBankRef }
+  | { type: 'move'; playerId: string; move: ReplayMove }
+  | { type: 'turn'; playerId: string }
+  | { type: 'stability'; stability: number }
+  | { type: 'error'; message: string };
+
+// Summary of a finished game (or a fallen tower), kept for the home page
+export interface GameResult {
+  mode: GameModeConfig;
+  seed: number;
+  outcome: 'collapsed' | 'completed';
+  score: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  blocksRemoved: number;
+  rebuildCount: number;
+  startedAt: number; // Epoch milliseconds
+  endedAt: number;
+}
+
+// Replay log - compact, versioned record of a game that can be re-simulated
+export type ReplayMove =
+  | { type: 'pick'; blockId: string; at: number }
+  | { type: 'answer'; blockId: string; answer: number | QuizAnswer; at: number }
+  | { type: 'timeout'; blockId: string; at: number }
+  | { type: 'hint'; blockId: string; kind: HintKind; at: number }
+  | { type: 'rebuild'; at: number; reviewQueue?: string[] }
+  | { type: 'pass'; at: number }; // Online games: the turn player left
+
+// Help a player can ask for while a question is open
+export type HintKind = 'hint' | 'fifty_fifty';
+
+// Help used on the currently open question
+export interface HintUsage {
+  blockId: string;
+  hintsRevealed: number;
+  usedFiftyFifty: boolean;
+  eliminatedOptions: number[]; // Option indices removed by 50/50
+}
+
+export interface HintReveal {
+  blockId: string;
+  questionId: string;
+  kind: HintKind;
+  hint?: string; // Text of the revealed hint (kind 'hint')
+  eliminatedOptions: number[];
+  hintsUsed: number;
+  hintsRemaining: number;
+}
+
+// Pure game core - actions in, new state plus domain events out
+export type StabilityZone = 'critical' | 'warning' | 'stable' | 'optimal';
+
+export interface GameEngineState {
+  game: GameState;
+  blocks: Block[];
+  settings: GameSettings;
+  randomAlgorithm: string; // Name of the registered PRNG driving this game
+  randomFactory?: RandomFactory; // This game's own PRNG, used instead of the registered one (replays of custom PRNGs)
+  randomState: number; // PRNG state after the last draw
+  shownContent: string[]; // Content dealt so far; cleared once the bank is exhausted
+  sessionStartedAt: number;
+  answerStartedAt?: number;
+  hintUsage?: HintUsage;
+  reviewQueue?: string[]; // Overdue question ids still waiting to be dealt
+}
+
+export type GameAction =
+  | { type: 'RESET'; seed: number; randomAlgorithm?: string; settings?: GameSettings; reviewQueue?: string[]; mode?: GameModeConfig; tower?: TowerSpec; players?: string[]; timestamp: number }
+  | { type: 'SELECT_BLOCK'; blockId: string; timestamp: number }
+  | { type: 'ANSWER'; blockId: string; answer: number | QuizAnswer; timestamp: number }
+  | { type: 'TIMEOUT'; blockId: string; timestamp: number }
+  | { type: 'USE_HINT'; blockId: string; kind: HintKind; timestamp: number }
+  | { type: 'REBUILD'; reviewQueue?: string[]; timestamp: number }
+  | { type: 'PASS_TURN'; timestamp: number }; // Hot-seat games only
+
+export type GameEvent =
+  | { type: 'GameStarted'; seed: number }
+  | { type: 'BlockSelected'; blockId: string; content: BlockContent }
+  | { type: 'QuestionAnswered'; result: QuizResult }
+  | { type: 'HintRevealed'; reveal: HintReveal }
+  | { type: 'LearningPhaseAdvanced'; from: LearningPhaseName; to: LearningPhaseName }
+  | { type: 'BlockRemoved'; blockId: string }
+  | { type: 'AchievementUnlocked'; achievement: Achievement }
+  | { type: 'StabilityZoneChanged'; from: StabilityZone; to: StabilityZone; stability: number }
+  | { type: 'TowerCollapsed'; score: number; blocksRemoved: number; mode: string; gameOver: boolean; blamedPlayerId?: string }
+  | { type: 'TurnPassed'; playerId: string; nickname: string } // Hot-seat games: hand the device to this player
+  | { type: 'TowerRebuilt'; rebuildCount: number }
+  | { type: 'GameCompleted'; score: number; mode: string };
+
+export interface GameReduction {
+  state: GameEngineState;
+  events: GameEvent[];
+}
+
+export type GameEventListener = (event: GameEvent, state: GameState) => void;
+
+export interface GameReplayLog {
+  version: 1;
+  seed: number;
+  randomAlgorithm: string; // Name of a registered PRNG, or 'custom'
+  settings: GameSettings;
+  startedAt: number; // Epoch milliseconds
+  reviewQueue?: string[]; // Review questions the first tower was built with
+  mode?: GameModeConfig; // Absent means Classic
+  tower?: TowerSpec; // Absent means the mode's own tower
+  players?: string[]; // Pass-and-play nicknames in turn order
+  bank?: QuestionBankRef; // Absent in logs recorded before the question set was
+  moves: ReplayMove[];
+}
+
 // Enhanced Game State
 export interface GameState {
   gamePhase: 'playing' | 'gameOver' | 'collapsed' | 'completed' | 'rebuilding';
+  seed: number;
+  mode: GameModeConfig;
+  tower: TowerSpec;
   currentScore: number;
   towerStability: number;
   blocksRemoved: number;
   totalBlocks: number;
   correctAnswers: number;
   incorrectAnswers: number;
+  timeouts: number; // Questions that ran out of time (also counted in incorrectAnswers)
   
   // Enhanced learning progress
   totalContentShown: number;
@@ -162,6 +518,7 @@ export interface GameState {
   
   // Enhanced player state
   currentPlayer: Player;
+  hotSeat?: HotSeatState; // Pass-and-play games only
   
   // Game history
   gameHistory: GameMove[];
@@ -170,6 +527,7 @@ export interface GameState {
   // Tower state
   towerCollapsed: boolean;
   rebuildCount: number;
+  structuralIntegrity: number; // 0-100, from which blocks are still standing
   
   // Enhanced features
   selectedBlockId?: string;
@@ -178,17 +536,30 @@ export interface GameState {
   adaptiveMetrics: AdaptiveMetrics;
 }
 
+// How a question was resolved - a timeout is scored like a wrong answer but reported separately
+export type AnswerOutcome = 'correct' | 'incorrect' | 'timeout';
+
 // Enhanced Quiz Result
 export interface QuizResult {
   blockId: string;
+  questionId: string;
   question: string;
-  selectedAnswer: number;
+  selectedAnswer: number; // -1 when the time ran out or the answer was typed
   correctAnswer: number;
+  answer?: QuizAnswer; // What was submitted, absent on a timeout
+  score: number; // 0-1 credit earned; partial answers earn a share of the points
+  matchedAnswer?: string; // Accepted answer a typed response matched
   isCorrect: boolean;
+  outcome: AnswerOutcome;
   explanation: string;
   pointsEarned: number;
   stabilityChange: number;
+  structuralRisk: number; // 0-1 risk of the pulled block, before the answer multiplier
   timeToAnswer?: number;
+  timeLimit?: number; // Seconds allowed, when a limit applied
+  timeBonus: number; // Blitz points for time left on the clock, included in pointsEarned
+  hintsUsed: number; // Hints and 50/50 both count
+  usedFiftyFifty: boolean;
   
   // Enhanced feedback
   difficulty: Difficulty;
@@ -206,7 +577,7 @@ export interface GameMove {
   id: string;
   blockId: string;
   action: 'question_answered' | 'block_clicked' | 'tower_collapsed' | 'tower_rebuilt';
-  result: 'success' | 'failure' | 'partial';
+  result: 'success' | 'failure' | 'partial' | 'timeout';
   points: number;
   stabilityChange: number;
   timestamp: Date;
@@ -289,6 +660,8 @@ export interface SimplifiedJengaTowerProps {
   gameState: GameState;
   selectedBlockId?: string;
   onGameRestart?: () => void;
+  stabilityAlert?: StabilityZone | null; // Zone to warn about, set from StabilityZoneChanged events
+  onDismissStabilityAlert?: () => void;
 }
 
 export interface GameHelpProps {
@@ -361,8 +734,13 @@ export interface GameSettings {
   questionSettings: {
     timeLimitEnabled: boolean;
     defaultTimeLimit: number;
+    blitzMode: boolean; // Short fixed clock, time left over turns into points
+    blitzTimeLimit: number;
+    blitzPointsPerSecond: number;
     hintsEnabled: boolean;
     maxHintsPerQuestion: number;
+    hintPointCost: number; // Points taken off a correct answer per hint
+    hintStabilityReduction: number; // Fraction of the correct-answer stability bonus lost per hint
     progressiveDifficulty: boolean;
   };
 }
@@ -404,6 +782,17 @@ export interface GameStatistics {
 }
 
 // Enhanced Content Tracker
+export type QuestionSelectionPolicy = AdaptiveDifficulty['dynamicAdjustment']['questionSelection'];
+
+export interface QuestionSelectionOptions {
+  policy?: QuestionSelectionPolicy; // Defaults to 'adaptive'
+  random?: RandomSource; // Seeded source so selection replays exactly; Math.random otherwise
+  playerSkill?: AdaptiveDifficulty['playerSkill']; // categoryAccuracy / difficultyPerformance
+  preferredDifficulty?: Difficulty; // Difficulty band of the block being dealt
+  candidates?: BlockContent[]; // Defaults to all unseen content
+  itemParameters?: Record<string, ItemParameters>; // Calibrated questions; the adaptive policy aims them at the player's IRT ability
+}
+
 export interface ContentTracker {
   shownContent: Set<string>;
   availableContent: BlockContent[];
@@ -415,7 +804,103 @@ export interface ContentTracker {
   getCompletionPercentage(): number;
   
   // Enhanced question selection
-  selectOptimalQuestion(playerContext: PlayerProgress): BlockContent | null;
+  selectOptimalQuestion(playerContext: PlayerProgress, options?: QuestionSelectionOptions): BlockContent | null;
   getQuestionByDifficulty(difficulty: Difficulty): BlockContent[];
   getQuestionByCategory(category: PrivacyCategory): BlockContent[];
 }
+
+// Question bank in play: the bundled set, the content API's published set,
+// or the copy of it cached for offline play
+export type QuestionBankSource = 'bundled' | 'api' | 'cache';
+
+export interface QuestionBankInfo {
+  source: QuestionBankSource;
+  version: string; // Content set version from the API, 'bundled' for the built-in set
+  total: number; // Questions in play, packs included
+  updatedAt?: string; // When the set last had a question published
+  packs?: string[]; // Titles of the question packs in play
+}
+
+// Which question set a game was dealt from. A seed only deals the same
+// questions from the same set, so replays and online rooms check it
+export interface QuestionBankRef {
+  version: string; // QuestionBankInfo.version of the core set
+  packs?: string[]; // Ids of the question packs dealt alongside it, in the order they were picked
+  packsOnly?: boolean; // The packs were dealt without the core set
+}
+
+// Question pack: a shareable question set with the metadata to credit and
+// pick it, as exported to and imported from .json files
+export interface QuestionPackMetadata {
+  id: string; // Stable across versions of the pack, e.g. 'lightning-deep-dive'
+  title: string;
+  author: string;
+  language: string; // BCP 47 tag, e.g. 'en' or 'sw-KE'
+  license: string; // SPDX id, e.g. 'CC-BY-4.0'
+  categories: PrivacyCategory[]; // What the pack covers - every question is in one of these
+  description?: string;
+  version?: string; // The pack's own version, e.g. '1.2.0'
+}
+
+export interface QuestionPack extends QuestionPackMetadata {
+  format: 'privacy-jenga-question-pack';
+  formatVersion: number;
+  exportedAt?: string;
+  questions: EnhancedQuestion[];
+  replaces?: string[]; // Ids whose questions this installed pack takes over (imported with 'replace')
+}
+
+// What to do with a pack question whose id is already taken
+export type PackConflictPolicy = 'reject' | 'skip' | 'replace' | 'rename';
+
+export interface PackImportPlan {
+  questions: EnhancedQuestion[]; // The pack's questions as they'll be imported
+  conflicts: string[]; // Pack question ids that were already taken
+  added: string[];
+  replaced: string[];
+  skipped: string[];
+  renamed: Record<string, string>; // Old id -> new id
+}
+
+// Which installed packs a player deals from, and whether the core set stays in
+export interface QuestionPackSelection {
+  includeCore: boolean;
+  enabled: string[]; // Pack ids
+}
+
+// Content lint findings. Errors break games or content tooling; warnings are quality problems
+export type ContentLintSeverity = 'error' | 'warning';
+
+export type ContentLintRule =
+  | 'duplicate-id'
+  | 'duplicate-text'
+  | 'correct-index'
+  | 'learning-tags'
+  | 'invalid'
+  | 'answer-length'
+  | 'explanation'
+  | 'band-coverage';
+
+export interface ContentLintIssue {
+  rule: ContentLintRule;
+  severity: ContentLintSeverity;
+  message: string;
+  questionId?: string; // Missing for findings about the whole set
+}
+
+// The API's question set as kept in IndexedDB
+export interface CachedQuestionBank {
+  etag: string;
+  version: string;
+  updatedAt?: string;
+  questions: EnhancedQuestion[];
+}
+
+// Interface languages
+export type Locale = 'en' | 'sw' | 'fr';
+
+// A catalog entry; plural messages are picked by the `count` parameter
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
@@ -130,6 +130,9 @@ export const getOptimalRenderSettings = (capabilities: DeviceCapabilities) => {
       maxFPS: 30,
       lodEnabled: true,
       lodDistances: [5, 15, 30],
+      physicsSubsteps: 1,
+      physicsMaxBodies: 20,
+      physicsCollisions: false,
     };
   }
 
@@ -148,6 +151,9 @@ export const getOptimalRenderSettings = (capabilities: DeviceCapabilities) => {
       maxFPS: 60,
       lodEnabled: true,
       lodDistances: [10, 25, 50],
+      physicsSubsteps: 2,
+      physicsMaxBodies: isMobile ? 30 : 45,
+      physicsCollisions: true,
     };
   }
 
@@ -165,6 +171,9 @@ export const getOptimalRenderSettings = (capabilities: DeviceCapabilities) => {
     maxFPS: 120,
     lodEnabled: false,
     lodDistances: [15, 35, 70],
+    physicsSubsteps: 4,
+    physicsMaxBodies: 60,
+    physicsCollisions: true,
   };
 };
 
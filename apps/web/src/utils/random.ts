@@ -0,0 +1,110 @@
+import { RandomFactory, RandomSource } from '../types';
+
+/**
+ * Seedable pseudo-random number generators
+ * The same seed always yields the same sequence, so towers, question order
+ * and answer shuffles can be reproduced from a single number.
+ */
+
+const UINT32_RANGE = 0x100000000;
+
+// Normalize any numeric or string seed into an unsigned 32-bit integer
+export const normalizeSeed = (seed: number | string): number => {
+  if (typeof seed === 'number' && Number.isFinite(seed)) {
+    return Math.abs(Math.floor(seed)) >>> 0;
+  }
+
+  // FNV-1a hash for string seeds (e.g. "workshop-nairobi")
+  let hash = 0x811c9dc5;
+  const text = String(seed);
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Generate a fresh seed that is short enough to read out to a class
+export const createRandomSeed = (): number => {
+  return Math.floor(Math.random() * 100000);
+};
+
+// Parse a seed from user input such as a URL query parameter
+export const parseSeed = (value: string | null | undefined): number | undefined => {
+  if (value === null || value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? normalizeSeed(numeric) : normalizeSeed(value.trim());
+};
+
+// Shared helpers built on top of a raw next() function
+const withHelpers = (next: () => number, getState: () => number): RandomSource => ({
+  next,
+  nextInt(maxExclusive: number): number {
+    if (maxExclusive <= 0) return 0;
+    return Math.floor(next() * maxExclusive);
+  },
+  shuffle<T>(items: readonly T[]): T[] {
+    // Fisher-Yates on a copy so callers keep their original ordering
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  },
+  getState,
+});
+
+// Mulberry32 - small, fast and good enough for gameplay randomness
+export const createMulberry32: RandomFactory = (seed: number) => {
+  let state = normalizeSeed(seed);
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+
+  return withHelpers(next, () => state);
+};
+
+// Xorshift32 - alternative generator, useful to check nothing depends on one algorithm
+export const createXorshift32: RandomFactory = (seed: number) => {
+  // Xorshift must never hold a zero state
+  let state = normalizeSeed(seed) || 0x9e3779b9;
+
+  const next = (): number => {
+    state ^= state << 13;
+    state >>>= 0;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / UINT32_RANGE;
+  };
+
+  return withHelpers(next, () => state);
+};
+
+export const DEFAULT_RANDOM_FACTORY: RandomFactory = createMulberry32;
+
+// Named generators, so replay logs can record which algorithm produced a game
+export const RANDOM_ALGORITHMS: Record<string, RandomFactory> = {
+  mulberry32: createMulberry32,
+  xorshift32: createXorshift32,
+};
+
+export const getRandomAlgorithmName = (factory: RandomFactory): string => {
+  const entry = Object.entries(RANDOM_ALGORITHMS).find(([, candidate]) => candidate === factory);
+  return entry ? entry[0] : 'custom';
+};
+
+export const DEFAULT_RANDOM_ALGORITHM = 'mulberry32';
+
+// Register a custom generator under a name so the game core can restore it from state
+export const registerRandomAlgorithm = (name: string, factory: RandomFactory): void => {
+  RANDOM_ALGORITHMS[name] = factory;
+};
@@ -0,0 +1,57 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import contentRoutes from '../routes/contentRoutes';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../sessions/gameCore';
+
+// The content routes on a real port, with the in-memory stores the test config selects
+let server: Server;
+let baseUrl: string;
+
+const admin = { 'Content-Type': 'application/json', Authorization: `Bearer ${process.env.ADMIN_TOKEN}` };
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/content', contentRoutes);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api/content`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+describe('Content routes', () => {
+  it('only changes the bank\'s ETag once a draft is published', async () => {
+    const [question] = ENHANCED_PRIVACY_QUESTIONS;
+    expect((await fetch(baseUrl, { method: 'POST', body: JSON.stringify(question), headers: { 'Content-Type': 'application/json' } })).status).toBe(403);
+    expect((await fetch(baseUrl, { method: 'POST', body: JSON.stringify(question), headers: admin })).status).toBe(201);
+
+    const draftOnly = await fetch(baseUrl);
+    const etag = draftOnly.headers.get('ETag')!;
+    expect((await draftOnly.json() as { total: number }).total).toBe(0);
+    expect((await fetch(baseUrl, { headers: { 'If-None-Match': etag } })).status).toBe(304);
+
+    await fetch(`${baseUrl}/${question.id}/publish`, { method: 'POST', headers: admin });
+    const published = await fetch(baseUrl, { headers: { 'If-None-Match': etag } });
+    expect(published.status).toBe(200);
+    expect(published.headers.get('ETag')).not.toBe(etag);
+    const body = await published.json() as { version: string };
+    expect(body).toMatchObject({ total: 1, content: [{ id: question.id }] });
+    expect(published.headers.get('ETag')).toBe(`"${body.version}"`);
+
+    await fetch(`${baseUrl}/${question.id}`, { method: 'PUT', body: JSON.stringify({ question: 'Draft wording?' }), headers: admin });
+    expect((await fetch(baseUrl, { headers: { 'If-None-Match': published.headers.get('ETag')! } })).status).toBe(304);
+  });
+
+  it('only shows drafts and version history to admins', async () => {
+    const [, question] = ENHANCED_PRIVACY_QUESTIONS;
+    await fetch(baseUrl, { method: 'POST', body: JSON.stringify(question), headers: admin });
+
+    for (const path of [`/${question.id}`, `/${question.id}/versions`]) {
+      expect((await fetch(`${baseUrl}${path}`)).status).toBe(403);
+      expect((await fetch(`${baseUrl}${path}`, { headers: admin })).status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ContentService } from '../content/contentService';
+import { InMemoryContentStore } from '../content/contentStore';
+import { ENHANCED_PRIVACY_QUESTIONS, createQuestionPack, EnhancedQuestion } from '../sessions/gameCore';
+
+const T0 = 1_700_000_000_000;
+
+const [first, second, third] = ENHANCED_PRIVACY_QUESTIONS;
+
+// A bank holding the first two questions, published
+const createService = async () => {
+  const service = new ContentService(new InMemoryContentStore(), () => T0);
+  for (const question of [first, second]) {
+    await service.create(question);
+    await service.publish(question.id);
+  }
+  return service;
+};
+
+const packOf = (...questions: EnhancedQuestion[]) => createQuestionPack({
+  id: 'workshop', title: 'Workshop', author: 'Facilitator', language: 'en', license: 'CC-BY-4.0', version: '1',
+}, questions);
+
+describe('ContentService', () => {
+  it('keeps serving the published version while a newer draft waits', async () => {
+    const service = await createService();
+    const before = await service.getPublishedSet();
+
+    const edited = await service.update(first.id, { question: 'Edited wording?' });
+    expect(edited).toMatchObject({ status: 'published', latestVersion: 2, publishedVersion: 1 });
+    expect(edited.draft?.question).toBe('Edited wording?');
+    expect(await service.getPublishedSet()).toEqual(before);
+
+    await service.publish(first.id);
+    const after = await service.getPublishedSet();
+    expect(after.version).not.toBe(before.version);
+    expect(after.content.find(question => question.id === first.id)?.question).toBe('Edited wording?');
+    expect((await service.getVersions(first.id)).map(version => [version.version, version.status])).toEqual([[1, 'superseded'], [2, 'published']]);
+
+    // Rolling back swaps which version is live
+    await service.publish(first.id, 1);
+    expect((await service.getVersions(first.id)).map(version => version.status)).toEqual(['published', 'superseded']);
+  });
+
+  it('refuses questions the game could not play', async () => {
+    const service = await createService();
+    await expect(service.create({ ...third, options: [] })).rejects.toMatchObject({ status: 422 });
+    await expect(service.create(first)).rejects.toMatchObject({ status: 409 });
+    await expect(service.update(first.id, { id: 'other' })).rejects.toThrow(/can't change/);
+  });
+
+  it('applies each conflict policy to ids already in the bank', async () => {
+    const pack = packOf({ ...first, question: 'From the pack?' }, third);
+
+    const rejecting = await createService();
+    await expect(rejecting.importPack(pack)).rejects.toMatchObject({ status: 409 });
+    expect(await rejecting.getVersions(first.id)).toHaveLength(1);
+
+    const skipping = await createService();
+    expect(await skipping.importPack(pack, 'skip')).toMatchObject({ added: [third.id], skipped: [first.id], replaced: [] });
+
+    const replacing = await createService();
+    expect(await replacing.importPack(pack, 'replace')).toMatchObject({ added: [third.id], replaced: [first.id] });
+    expect((await replacing.get(first.id)).draft?.question).toBe('From the pack?');
+
+    const renaming = await createService();
+    const renamed = await renaming.importPack(pack, 'rename', true);
+    expect(renamed.renamed).toEqual({ [first.id]: `workshop.${first.id}` });
+    expect((await renaming.listPublished()).map(question => question.id)).toEqual(
+      expect.arrayContaining([first.id, `workshop.${first.id}`, third.id])
+    );
+
+    await expect(renaming.importPack(pack, 'overwrite')).rejects.toThrow(/onConflict must be one of/);
+  });
+});
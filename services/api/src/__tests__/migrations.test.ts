@@ -0,0 +1,61 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import initSqlJs from 'sql.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import { SqliteDatabase, toJson } from '../db/database';
+import { MIGRATIONS } from '../db/migrations';
+import { SqliteContentStore } from '../content/contentStore';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../sessions/gameCore';
+
+const directories: string[] = [];
+
+// A database file as the API left it before content versions: schema v1 and one question
+const createV1File = async (): Promise<string> => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  const [v1] = MIGRATIONS;
+  db.run(v1.sql);
+  db.run('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+  db.run('INSERT INTO schema_migrations VALUES (?, ?, ?)', [v1.version, v1.name, '2024-01-01T00:00:00.000Z']);
+  const [question] = ENHANCED_PRIVACY_QUESTIONS;
+  db.run('INSERT INTO content VALUES (?, ?, ?, ?, ?, ?)',
+    [question.id, question.category, question.difficulty, toJson(question), '2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z']);
+
+  const directory = mkdtempSync(join(tmpdir(), 'privacy-jenga-'));
+  directories.push(directory);
+  const file = join(directory, 'v1.sqlite');
+  writeFileSync(file, db.export());
+  db.close();
+  return file;
+};
+
+describe('Migrations', () => {
+  afterEach(() => {
+    directories.splice(0).forEach(directory => rmSync(directory, { recursive: true, force: true }));
+  });
+
+  it('keeps v1 questions as published version 1 when adding content versions', async () => {
+    const db = new SqliteDatabase(await createV1File());
+    await db.open();
+    const [question] = ENHANCED_PRIVACY_QUESTIONS;
+    const store = new SqliteContentStore(db);
+
+    expect(db.all<{ version: number }>('SELECT version FROM schema_migrations ORDER BY version').map(row => row.version)).toEqual([1, 2]);
+    expect(await store.get(question.id)).toMatchObject({ latestVersion: 1, publishedVersion: 1, updatedAt: '2024-02-01T00:00:00.000Z' });
+    expect(await store.listPublished()).toEqual([expect.objectContaining({
+      contentId: question.id, version: 1, status: 'published', question, publishedAt: '2024-02-01T00:00:00.000Z',
+    })]);
+    expect(db.get("SELECT name FROM sqlite_master WHERE name = 'content_v1'")).toBeUndefined();
+    db.close();
+  });
+
+  it('runs nothing twice', async () => {
+    const db = new SqliteDatabase(await createV1File());
+    await db.open();
+    db.close();
+    await db.open();
+    expect(db.get<{ count: number }>('SELECT COUNT(*) AS count FROM schema_migrations')?.count).toBe(2);
+    db.close();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { RoomService } from '../rooms/roomService';
+import { InMemoryRoomStore } from '../rooms/roomStore';
+import { RoomServerMessage } from '../rooms/types';
+
+const T0 = 1_700_000_000_000;
+
+// A started two-player room, with every message the service sends to it
+const startRoom = async () => {
+  const service = new RoomService(new InMemoryRoomStore());
+  const messages: RoomServerMessage[] = [];
+  service.subscribe((_roomId, message) => messages.push(message));
+
+  const { room, player: ann } = await service.createRoom({ nickname: 'Ann', maxPlayers: 2 });
+  const { player: ben } = await service.joinRoom(room.code, 'Ben');
+  // Both sockets are open - players without one have their turns passed
+  await service.setConnected(room.id, ann.id, true);
+  await service.setConnected(room.id, ben.id, true);
+  await expect(service.startGame(room.id, ann.id, { version: 3 })).rejects.toThrow('Invalid question set');
+  await service.startGame(room.id, ann.id, { version: 'a1b2c3', packs: ['workshop'] });
+  return { service, messages, room, ann, ben };
+};
+
+describe('RoomService', () => {
+  it('lets players join by code until the room is full', async () => {
+    const service = new RoomService(new InMemoryRoomStore());
+    const { room } = await service.createRoom({ nickname: 'Ann', maxPlayers: 2 });
+
+    await expect(service.joinRoom(room.code.toLowerCase(), 'ann')).rejects.toMatchObject({ status: 409 });
+    const { room: joined } = await service.joinRoom(room.code.toLowerCase(), 'Ben');
+    expect(joined.players.map(player => player.nickname)).toEqual(['Ann', 'Ben']);
+    expect(joined.players.every(player => !('token' in player))).toBe(true);
+    await expect(service.joinRoom(room.code, 'Cy')).rejects.toThrow(/full/);
+    expect(await service.listOpenRooms()).toEqual([]);
+  });
+
+  it('starts with a shared seed and the host\'s question set, then relays moves in turn order', async () => {
+    const { service, messages, room, ann, ben } = await startRoom();
+    const started = messages.find(message => message.type === 'started');
+    expect(started).toMatchObject({
+      type: 'started', players: [{ nickname: 'Ann' }, { nickname: 'Ben' }], bank: { version: 'a1b2c3', packs: ['workshop'] },
+    });
+
+    await expect(service.recordMove(room.id, ben.id, { type: 'pick', blockId: 'block-1', at: T0 })).rejects.toThrow(/not your turn/);
+
+    messages.length = 0;
+    await service.recordMove(room.id, ann.id, { type: 'pick', blockId: 'block-1', at: T0 });
+    await service.recordMove(room.id, ann.id, { type: 'answer', blockId: 'block-1', answer: 2, at: T0 + 2000 }, { stability: 88 });
+
+    expect(messages.filter(message => message.type !== 'room')).toEqual([
+      { type: 'move', playerId: ann.id, move: { type: 'pick', blockId: 'block-1', at: T0 } },
+      { type: 'move', playerId: ann.id, move: { type: 'answer', blockId: 'block-1', answer: 2, at: T0 + 2000 } },
+      { type: 'stability', stability: 88 },
+      { type: 'turn', playerId: ben.id },
+    ]);
+    expect((await service.getRoom(room.id)).turn).toBe(1);
+  });
+
+  it('refuses moves whose answer or hint the game core could not play', async () => {
+    const { service, room, ann } = await startRoom();
+    const moves = [
+      { type: 'answer', blockId: 'block-1', answer: { kind: 'guess' }, at: T0 },
+      { type: 'answer', blockId: 'block-1', answer: '2', at: T0 },
+      { type: 'hint', blockId: 'block-1', kind: 'everything', at: T0 },
+      { type: 'rebuild', at: T0 },
+    ];
+
+    for (const move of moves) {
+      await expect(service.recordMove(room.id, ann.id, move)).rejects.toThrow('Invalid move');
+    }
+    await expect(service.recordMove(room.id, ann.id, { type: 'answer', blockId: 'block-1', answer: { kind: 'boolean', value: true }, at: T0 }))
+      .resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { GameSessionService } from '../sessions/sessionService';
+import { InMemorySessionStore } from '../sessions/sessionStore';
+
+const T0 = 1_700_000_000_000;
+
+// A service on a clock the test moves by hand
+const createService = () => {
+  let now = T0;
+  const store = new InMemorySessionStore();
+  const service = new GameSessionService(store, () => now);
+  return { service, store, advance: (ms: number) => { now += ms; } };
+};
+
+describe('GameSessionService', () => {
+  it('hands out questions without their answers', async () => {
+    const { service } = createService();
+    const { session, token } = await service.createSession();
+    const picked = await service.pickBlock(session.id, token, session.blocks[0].id);
+
+    const question = picked.openQuestion!.question as unknown as Record<string, unknown>;
+    expect(question.options).toBeInstanceOf(Array);
+    ['correctIndex', 'correctIndices', 'correctOrder', 'acceptedAnswers', 'explanation', 'hints', 'translations']
+      .forEach(field => expect(question).not.toHaveProperty(field));
+    expect(picked.seed).toBeUndefined();
+    expect(JSON.stringify(picked)).not.toContain('correctIndex');
+  });
+
+  it('grades answers with the server\'s own copy of the question', async () => {
+    const { service, store, advance } = createService();
+    const { session, token } = await service.createSession();
+    const blockId = session.blocks[0].id;
+    await service.pickBlock(session.id, token, blockId);
+
+    const stored = await store.get(session.id);
+    const { correctIndex } = stored!.engine.blocks.find(block => block.id === blockId)!.content!.question;
+    advance(3000);
+    const { result, session: view } = await service.answer(session.id, token, blockId, correctIndex);
+
+    expect(result).toMatchObject({ isCorrect: true, selectedAnswer: correctIndex, timeToAnswer: 3 });
+    expect(view).toMatchObject({ correctAnswers: 1, incorrectAnswers: 0, blocksRemoved: 1 });
+    expect(view.lastResult?.correctAnswer).toBe(correctIndex);
+    await expect(service.answer(session.id, token, blockId, correctIndex)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('turns away other players, malformed answers and unknown sessions', async () => {
+    const { service } = createService();
+    const { session, token } = await service.createSession();
+    const blockId = session.blocks[0].id;
+    await service.pickBlock(session.id, token, blockId);
+
+    await expect(service.getSession(session.id, 'not-the-token')).rejects.toMatchObject({ status: 403 });
+    await expect(service.answer(session.id, token, blockId, { kind: 'guess' })).rejects.toThrow('Invalid answer');
+    await expect(service.answer(session.id, token, blockId, { kind: 'order', order: [0, 1] })).rejects.toMatchObject({ status: 400 });
+    await expect(service.getResult('missing')).rejects.toMatchObject({ status: 404 });
+    await expect(service.getResult(session.id)).rejects.toMatchObject({ status: 409 });
+  });
+});
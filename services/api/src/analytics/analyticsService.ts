@@ -0,0 +1,133 @@
+import repositories from '../db';
+import { Repositories } from '../db/repositories';
+import { calibrateItems, createDifficultyReport, Difficulty, DifficultyMismatch, ItemCalibration } from '../sessions/gameCore';
+import { AnalyticsEvent } from './analyticsStore';
+
+/**
+ * Analytics Service
+ * Records events from the web app and works out the numbers the analytics
+ * and admin routes report, from the events and from the games stored in
+ * the other repositories. calibrate() fits the questions' IRT parameters to
+ * every answer given in server-graded games.
+ */
+
+const MAX_EVENT_LENGTH = 100;
+const MAX_DATA_LENGTH = 10_000;
+const ACTIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const POPULAR_CATEGORY_COUNT = 5;
+
+// Errors carry the HTTP status the routes should answer with
+export class AnalyticsError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'AnalyticsError';
+  }
+}
+
+export interface GameStats {
+  totalGames: number; // Server-graded sessions plus online rooms that got started
+  averageScore: number; // Over finished sessions
+  completionRate: number; // Share of sessions that cleared the tower, 0-1
+  popularCategories: { category: string; answered: number }[];
+}
+
+export interface UserStats {
+  totalUsers: number; // Analytics clients plus online players
+  activeUsers: number; // Seen in the last 24 hours
+  averageSessionTime: number; // Seconds from a session's first move to its last
+}
+
+export interface QuestionCalibration {
+  calibration: ItemCalibration;
+  mislabeled: DifficultyMismatch[]; // Published questions whose answers put them in another difficulty band
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+export class AnalyticsService {
+  constructor(private stores: Repositories, private clock: () => number = Date.now) {}
+
+  track(input: { event?: unknown; data?: unknown }): Promise<AnalyticsEvent> {
+    const { event, data } = input;
+    if (typeof event !== 'string' || event.trim().length === 0 || event.length > MAX_EVENT_LENGTH) {
+      return Promise.reject(new AnalyticsError(`event must be a name of 1-${MAX_EVENT_LENGTH} characters`));
+    }
+    if (data !== undefined && (data === null || typeof data !== 'object' || Array.isArray(data))) {
+      return Promise.reject(new AnalyticsError('data must be an object'));
+    }
+    if (data !== undefined && JSON.stringify(data).length > MAX_DATA_LENGTH) {
+      return Promise.reject(new AnalyticsError('data is too large', 413));
+    }
+
+    const fields = data as Record<string, unknown> | undefined;
+    const clientId = fields?.sessionId ?? fields?.clientId;
+    return this.stores.analytics.record({
+      event: event.trim(),
+      clientId: typeof clientId === 'string' ? clientId : undefined,
+      data: fields,
+      createdAt: new Date(this.clock()).toISOString(),
+    });
+  }
+
+  async getGameStats(): Promise<GameStats> {
+    const [sessions, rooms] = await Promise.all([this.stores.sessions.list(), this.stores.rooms.list()]);
+    const finished = sessions.filter(session => ['gameOver', 'completed'].includes(session.engine.game.gamePhase));
+    const completed = finished.filter(session => session.engine.game.gamePhase === 'completed');
+
+    const answered = new Map<string, number>();
+    sessions.forEach(session => session.engine.blocks
+      .filter(block => block.isRemoved && block.content)
+      .forEach(block => {
+        const category = block.content!.question.category;
+        answered.set(category, (answered.get(category) || 0) + 1);
+      }));
+
+    return {
+      totalGames: sessions.length + rooms.filter(room => room.status !== 'waiting').length,
+      averageScore: finished.length > 0
+        ? round(finished.reduce((sum, session) => sum + session.engine.game.currentScore, 0) / finished.length)
+        : 0,
+      completionRate: sessions.length > 0 ? round(completed.length / sessions.length) : 0,
+      popularCategories: [...answered.entries()]
+        .map(([category, count]) => ({ category, answered: count }))
+        .sort((a, b) => b.answered - a.answered)
+        .slice(0, POPULAR_CATEGORY_COUNT),
+    };
+  }
+
+  // Fit item parameters to the answers in stored sessions, with the published labels as priors
+  async calibrate(): Promise<QuestionCalibration> {
+    const [sessions, published] = await Promise.all([this.stores.sessions.list(), this.stores.content.listPublished()]);
+    const questions = published.map(version => version.question);
+    const labels: Record<string, Difficulty> = Object.fromEntries(questions.map(question => [question.id, question.difficulty]));
+    const histories = sessions
+      .map(session => session.engine.game.playerProgress.questionHistory)
+      .filter(history => history.length > 0);
+
+    const calibration = calibrateItems(histories, { labels });
+    return { calibration, mislabeled: createDifficultyReport(calibration, questions) };
+  }
+
+  async getUserStats(): Promise<UserStats> {
+    const activeSince = new Date(this.clock() - ACTIVE_WINDOW_MS).toISOString();
+    const [clients, activeClients, rooms, sessions] = await Promise.all([
+      this.stores.analytics.clientIds(),
+      this.stores.analytics.clientIds(activeSince),
+      this.stores.rooms.list(),
+      this.stores.sessions.list(),
+    ]);
+    const players = rooms.flatMap(room => room.players);
+    const durations = sessions.map(session => Date.parse(session.updatedAt) - Date.parse(session.createdAt));
+
+    return {
+      totalUsers: clients.length + players.length,
+      activeUsers: activeClients.length + players.filter(player => player.joinedAt >= activeSince).length,
+      averageSessionTime: durations.length > 0
+        ? round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length / 1000, 1)
+        : 0,
+    };
+  }
+}
+
+export const analyticsService = new AnalyticsService(repositories);
+export default analyticsService;
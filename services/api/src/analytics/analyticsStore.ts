@@ -0,0 +1,83 @@
+import { fromJson, SqliteDatabase, SqlRow, toJson } from '../db/database';
+
+/**
+ * Analytics Store
+ * Append-only log of events sent by the web app. clientId is the browser's
+ * analytics session id, which is as close to a user as the API gets.
+ */
+
+export interface AnalyticsEvent {
+  id: number;
+  event: string;
+  clientId?: string;
+  data?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AnalyticsStore {
+  record(event: Omit<AnalyticsEvent, 'id'>): Promise<AnalyticsEvent>;
+  count(): Promise<number>;
+  clientIds(since?: string): Promise<string[]>; // Distinct, optionally only from events at or after since
+  clear(): Promise<void>;
+}
+
+export class InMemoryAnalyticsStore implements AnalyticsStore {
+  private events: AnalyticsEvent[] = [];
+  private nextId = 1;
+
+  async record(event: Omit<AnalyticsEvent, 'id'>): Promise<AnalyticsEvent> {
+    const stored = { ...structuredClone(event), id: this.nextId++ };
+    this.events.push(stored);
+    return structuredClone(stored);
+  }
+
+  async count(): Promise<number> {
+    return this.events.length;
+  }
+
+  async clientIds(since?: string): Promise<string[]> {
+    const ids = this.events
+      .filter(event => event.clientId && (!since || event.createdAt >= since))
+      .map(event => event.clientId as string);
+    return [...new Set(ids)];
+  }
+
+  async clear(): Promise<void> {
+    this.events = [];
+  }
+}
+
+export class SqliteAnalyticsStore implements AnalyticsStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async record(event: Omit<AnalyticsEvent, 'id'>): Promise<AnalyticsEvent> {
+    return this.db.transaction(() => {
+      this.db.run('INSERT INTO analytics_events (event, client_id, data, created_at) VALUES (?, ?, ?, ?)',
+        [event.event, event.clientId ?? null, event.data ? toJson(event.data) : null, event.createdAt]);
+      return toEvent(this.db.get('SELECT * FROM analytics_events WHERE id = last_insert_rowid()') as SqlRow);
+    });
+  }
+
+  async count(): Promise<number> {
+    return Number(this.db.get('SELECT COUNT(*) AS total FROM analytics_events')?.total ?? 0);
+  }
+
+  async clientIds(since?: string): Promise<string[]> {
+    const rows = since
+      ? this.db.all('SELECT DISTINCT client_id FROM analytics_events WHERE client_id IS NOT NULL AND created_at >= ?', [since])
+      : this.db.all('SELECT DISTINCT client_id FROM analytics_events WHERE client_id IS NOT NULL');
+    return rows.map(row => String(row.client_id));
+  }
+
+  async clear(): Promise<void> {
+    this.db.run('DELETE FROM analytics_events');
+  }
+}
+
+const toEvent = (row: SqlRow): AnalyticsEvent => ({
+  id: Number(row.id),
+  event: String(row.event),
+  clientId: row.client_id === null ? undefined : String(row.client_id),
+  data: row.data === null ? undefined : fromJson<Record<string, unknown>>(row.data),
+  createdAt: String(row.created_at),
+});
@@ -0,0 +1,268 @@
+import { createHash, randomUUID } from 'crypto';
+import repositories from '../db';
+import {
+  createQuestionPack,
+  EnhancedQuestion,
+  PACK_CONFLICT_POLICIES,
+  PackConflictPolicy,
+  planPackImport,
+  PrivacyCategory,
+  QuestionPack,
+  setQuestionBank,
+  validateQuestion,
+  validateQuestionPack
+} from '../sessions/gameCore';
+import { ContentStore } from './contentStore';
+import { ContentItem, ContentRecord, ContentVersion, PackImportResult, PublishedContent } from './types';
+
+/**
+ * Content Service
+ * The question bank behind /api/content, edited without a redeploy. Every
+ * question is checked against the game's EnhancedQuestion model with the
+ * validator the web app uses. Edits are saved as new draft versions; players
+ * keep getting the published version until an author publishes another,
+ * and server-graded games are dealt from the same published set. Question
+ * packs - the format facilitators share sets in - import as drafts and
+ * export from the published set.
+ */
+
+// Errors carry the HTTP status the routes should answer with
+export class ContentError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'ContentError';
+  }
+}
+
+const checkQuestion = (question: unknown): EnhancedQuestion => {
+  const problem = validateQuestion(question);
+  if (problem) {
+    throw new ContentError(problem, 422);
+  }
+  return question as EnhancedQuestion;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const toContentRecord = (item: ContentItem, published: ContentVersion | undefined, latest: ContentVersion): ContentRecord => ({
+  ...item,
+  status: published ? 'published' : 'draft',
+  question: (published || latest).question,
+  draft: published && latest.version > published.version ? latest.question : undefined,
+});
+
+export class ContentService {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private store: ContentStore, private clock: () => number = Date.now) {}
+
+  // What players get: the published version of each question
+  async listPublished(category?: string): Promise<EnhancedQuestion[]> {
+    return (await this.store.listPublished({ category })).map(version => version.question);
+  }
+
+  // The whole published set, with a version that changes whenever any question in it does
+  async getPublishedSet(): Promise<PublishedContent> {
+    const published = await this.store.listPublished();
+    const hash = createHash('sha256');
+    published.forEach(version => hash.update(`${version.contentId}@${version.version}\n`));
+    return {
+      content: published.map(version => version.question),
+      version: hash.digest('hex').slice(0, 16),
+      updatedAt: published.map(version => version.publishedAt || '').sort().pop() || undefined,
+    };
+  }
+
+  // Deal server-graded games from the published set
+  async refreshQuestionBank(): Promise<void> {
+    const { content, version, updatedAt } = await this.getPublishedSet();
+    setQuestionBank(content, { source: 'api', version, updatedAt });
+  }
+
+  async get(id: string): Promise<ContentRecord> {
+    const item = await this.findItem(id);
+    return this.toRecord(item);
+  }
+
+  async getVersions(id: string): Promise<ContentVersion[]> {
+    await this.findItem(id);
+    return this.store.listVersions(id);
+  }
+
+  // A new question starts as draft version 1; the id defaults to a fresh uuid
+  create(input: unknown): Promise<ContentRecord> {
+    if (!isObject(input)) {
+      return Promise.reject(new ContentError('A question object is required'));
+    }
+    return this.serialize(async () => {
+      const question = checkQuestion({ ...input, id: input.id ?? randomUUID() });
+      if (await this.store.get(question.id)) {
+        throw new ContentError(`Content ${question.id} already exists`, 409);
+      }
+      return this.toRecord(await this.saveNew(question));
+    });
+  }
+
+  // Changes apply on top of the latest version and become a new draft; the id can't change
+  update(id: string, changes: unknown): Promise<ContentRecord> {
+    if (!isObject(changes)) {
+      return Promise.reject(new ContentError('An object of changes is required'));
+    }
+    if (changes.id !== undefined && changes.id !== id) {
+      return Promise.reject(new ContentError('A question\'s id can\'t change'));
+    }
+    return this.serialize(async () => {
+      const item = await this.findItem(id);
+      const latest = await this.findVersion(id, item.latestVersion);
+      const question = checkQuestion({ ...latest.question, ...changes, id });
+      return this.toRecord(await this.saveDraft(item, question));
+    });
+  }
+
+  // Make a version live - the latest one unless another is named
+  publish(id: string, version?: unknown): Promise<ContentRecord> {
+    if (version !== undefined && (!Number.isInteger(version) || (version as number) < 1)) {
+      return Promise.reject(new ContentError('version must be a version number'));
+    }
+    return this.serialize(async () => {
+      const item = await this.findItem(id);
+      const updated = await this.makeLive(item, (version as number | undefined) ?? item.latestVersion);
+      await this.refreshQuestionBank();
+      return this.toRecord(updated);
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.serialize(async () => {
+      if (!(await this.store.delete(id))) {
+        throw new ContentError('Content not found', 404);
+      }
+      await this.refreshQuestionBank();
+    });
+  }
+
+  // Import a question pack as drafts - published straight away if asked. Ids
+  // already in the bank are handled by onConflict: reject (409), skip, replace
+  // with a new version, or rename under the pack's id
+  importPack(input: unknown, onConflict: unknown = 'reject', publish = false): Promise<PackImportResult> {
+    const problem = validateQuestionPack(input);
+    if (problem) {
+      return Promise.reject(new ContentError(problem, 422));
+    }
+    if (!PACK_CONFLICT_POLICIES.includes(onConflict as PackConflictPolicy)) {
+      return Promise.reject(new ContentError(`onConflict must be one of ${PACK_CONFLICT_POLICIES.join(', ')}`));
+    }
+    const pack = input as QuestionPack;
+    return this.serialize(async () => {
+      const taken = (await this.store.list()).map(item => item.id);
+      const plan = planPackImport(pack, taken, onConflict as PackConflictPolicy);
+      if (onConflict === 'reject' && plan.conflicts.length > 0) {
+        throw new ContentError(`Question ids already in use: ${plan.conflicts.join(', ')}`, 409);
+      }
+
+      for (const question of plan.questions) {
+        const existing = await this.store.get(question.id);
+        const saved = existing ? await this.saveDraft(existing, question) : await this.saveNew(question);
+        if (publish) {
+          await this.makeLive(saved, saved.latestVersion);
+        }
+      }
+      if (publish && plan.questions.length > 0) {
+        await this.refreshQuestionBank();
+      }
+      const { added, replaced, skipped, renamed } = plan;
+      return { pack: pack.id, added, replaced, skipped, renamed, published: publish };
+    });
+  }
+
+  // The published set as a question pack, optionally narrowed to some categories
+  async exportPack(metadata: Record<string, unknown>, categories: string[] = []): Promise<QuestionPack> {
+    const published = await this.getPublishedSet();
+    const questions = published.content.filter(question => categories.length === 0 || categories.includes(question.category));
+    if (questions.length === 0) {
+      throw new ContentError('No published questions to export', 404);
+    }
+    const pack = createQuestionPack({
+      id: String(metadata.id || 'privacy-jenga'),
+      title: String(metadata.title || 'Privacy Jenga questions'),
+      author: String(metadata.author || 'Privacy Jenga'),
+      language: String(metadata.language || 'en'),
+      license: String(metadata.license || 'MIT'),
+      description: metadata.description === undefined ? undefined : String(metadata.description),
+      version: published.version,
+      categories: categories.length > 0 ? categories as PrivacyCategory[] : undefined,
+    }, questions, this.now());
+    const problem = validateQuestionPack(pack);
+    if (problem) {
+      throw new ContentError(problem, 422);
+    }
+    return pack;
+  }
+
+  // A new question as draft version 1
+  private async saveNew(question: EnhancedQuestion): Promise<ContentItem> {
+    const now = this.now();
+    const item: ContentItem = { id: question.id, latestVersion: 1, createdAt: now, updatedAt: now };
+    await this.store.save(item, { contentId: item.id, version: 1, status: 'draft', question, createdAt: now });
+    return item;
+  }
+
+  // A new draft version on top of the latest
+  private async saveDraft(item: ContentItem, question: EnhancedQuestion): Promise<ContentItem> {
+    const now = this.now();
+    const updated: ContentItem = { ...item, latestVersion: item.latestVersion + 1, updatedAt: now };
+    await this.store.save(updated, { contentId: item.id, version: updated.latestVersion, status: 'draft', question, createdAt: now });
+    return updated;
+  }
+
+  // Point the item at a version and retire the one that was live; callers refresh the question bank once they're done
+  private async makeLive(item: ContentItem, version: number): Promise<ContentItem> {
+    const target = await this.findVersion(item.id, version);
+    const now = this.now();
+    const updated: ContentItem = { ...item, publishedVersion: target.version, updatedAt: now };
+    const versions: ContentVersion[] = [{ ...target, status: 'published', publishedAt: target.publishedAt ?? now }];
+    if (item.publishedVersion !== undefined && item.publishedVersion !== target.version) {
+      const previous = await this.findVersion(item.id, item.publishedVersion);
+      versions.push({ ...previous, status: 'superseded' });
+    }
+    await this.store.save(updated, ...versions);
+    return updated;
+  }
+
+  private async toRecord(item: ContentItem): Promise<ContentRecord> {
+    const latest = await this.findVersion(item.id, item.latestVersion);
+    const published = item.publishedVersion === undefined ? undefined : await this.findVersion(item.id, item.publishedVersion);
+    return toContentRecord(item, published, latest);
+  }
+
+  private async findItem(id: string): Promise<ContentItem> {
+    const item = await this.store.get(id);
+    if (!item) {
+      throw new ContentError('Content not found', 404);
+    }
+    return item;
+  }
+
+  private async findVersion(id: string, version: number): Promise<ContentVersion> {
+    const found = await this.store.getVersion(id, version);
+    if (!found) {
+      throw new ContentError(`Content ${id} has no version ${version}`, 404);
+    }
+    return found;
+  }
+
+  private now(): string {
+    return new Date(this.clock()).toISOString();
+  }
+
+  // Run edits one at a time so two authors can't both write version 3
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const contentService = new ContentService(repositories.content);
+export default contentService;
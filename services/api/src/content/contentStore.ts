@@ -0,0 +1,143 @@
+import { fromJson, SqliteDatabase, SqlRow, toJson } from '../db/database';
+import { EnhancedQuestion } from '../sessions/gameCore';
+import { ContentItem, ContentVersion } from './types';
+
+/**
+ * Content Store
+ * Persistence for the question bank, behind the same kind of async interface
+ * as the room and session stores. A question is an item plus its versions;
+ * both are written together. Stores hand out copies.
+ */
+export interface ContentStore {
+  get(id: string): Promise<ContentItem | undefined>;
+  list(): Promise<ContentItem[]>;
+  count(): Promise<number>;
+  getVersion(id: string, version: number): Promise<ContentVersion | undefined>;
+  listVersions(id: string): Promise<ContentVersion[]>; // Oldest first
+  listPublished(filter?: { category?: string }): Promise<ContentVersion[]>; // The live version of each question
+  save(item: ContentItem, ...versions: ContentVersion[]): Promise<void>; // Creates or replaces them all at once
+  delete(id: string): Promise<boolean>; // Removes the item and every version
+}
+
+export class InMemoryContentStore implements ContentStore {
+  private items = new Map<string, ContentItem>();
+  private versions = new Map<string, ContentVersion[]>();
+
+  async get(id: string): Promise<ContentItem | undefined> {
+    const item = this.items.get(id);
+    return item && structuredClone(item);
+  }
+
+  async list(): Promise<ContentItem[]> {
+    return [...this.items.values()].map(item => structuredClone(item));
+  }
+
+  async count(): Promise<number> {
+    return this.items.size;
+  }
+
+  async getVersion(id: string, version: number): Promise<ContentVersion | undefined> {
+    const found = this.versions.get(id)?.find(candidate => candidate.version === version);
+    return found && structuredClone(found);
+  }
+
+  async listVersions(id: string): Promise<ContentVersion[]> {
+    return (this.versions.get(id) || []).map(version => structuredClone(version));
+  }
+
+  async listPublished(filter: { category?: string } = {}): Promise<ContentVersion[]> {
+    return [...this.items.values()]
+      .map(item => this.versions.get(item.id)?.find(version => version.version === item.publishedVersion))
+      .filter((version): version is ContentVersion => Boolean(version))
+      .filter(version => !filter.category || version.question.category === filter.category)
+      .map(version => structuredClone(version));
+  }
+
+  async save(item: ContentItem, ...versions: ContentVersion[]): Promise<void> {
+    this.items.set(item.id, structuredClone(item));
+    const saved = new Set(versions.map(version => version.version));
+    const kept = (this.versions.get(item.id) || []).filter(candidate => !saved.has(candidate.version));
+    this.versions.set(item.id, [...kept, ...structuredClone(versions)].sort((a, b) => a.version - b.version));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.versions.delete(id);
+    return this.items.delete(id);
+  }
+}
+
+// Items in content, versions in content_versions with category and difficulty alongside for filtering
+export class SqliteContentStore implements ContentStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async get(id: string): Promise<ContentItem | undefined> {
+    const row = this.db.get('SELECT * FROM content WHERE id = ?', [id]);
+    return row && toItem(row);
+  }
+
+  async list(): Promise<ContentItem[]> {
+    return this.db.all('SELECT * FROM content ORDER BY created_at, id').map(toItem);
+  }
+
+  async count(): Promise<number> {
+    return Number(this.db.get('SELECT COUNT(*) AS total FROM content')?.total ?? 0);
+  }
+
+  async getVersion(id: string, version: number): Promise<ContentVersion | undefined> {
+    const row = this.db.get('SELECT * FROM content_versions WHERE content_id = ? AND version = ?', [id, version]);
+    return row && toVersion(row);
+  }
+
+  async listVersions(id: string): Promise<ContentVersion[]> {
+    return this.db.all('SELECT * FROM content_versions WHERE content_id = ? ORDER BY version', [id]).map(toVersion);
+  }
+
+  async listPublished(filter: { category?: string } = {}): Promise<ContentVersion[]> {
+    const published = `SELECT content_versions.* FROM content
+      JOIN content_versions ON content_versions.content_id = content.id AND content_versions.version = content.published_version`;
+    const rows = filter.category
+      ? this.db.all(`${published} WHERE content_versions.category = ? ORDER BY content.created_at, content.id`, [filter.category])
+      : this.db.all(`${published} ORDER BY content.created_at, content.id`);
+    return rows.map(toVersion);
+  }
+
+  async save(item: ContentItem, ...versions: ContentVersion[]): Promise<void> {
+    this.db.transaction(() => {
+      this.db.run(
+        `INSERT INTO content (id, latest_version, published_version, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET latest_version = excluded.latest_version,
+           published_version = excluded.published_version, updated_at = excluded.updated_at`,
+        [item.id, item.latestVersion, item.publishedVersion ?? null, item.createdAt, item.updatedAt]
+      );
+      versions.forEach(version => this.db.run(
+        `INSERT INTO content_versions (content_id, version, status, category, difficulty, question, created_at, published_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (content_id, version) DO UPDATE SET status = excluded.status, category = excluded.category,
+           difficulty = excluded.difficulty, question = excluded.question, published_at = excluded.published_at`,
+        [version.contentId, version.version, version.status, version.question.category, version.question.difficulty,
+          toJson(version.question), version.createdAt, version.publishedAt ?? null]
+      ));
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.run('DELETE FROM content WHERE id = ?', [id]) > 0;
+  }
+}
+
+const toItem = (row: SqlRow): ContentItem => ({
+  id: String(row.id),
+  latestVersion: Number(row.latest_version),
+  publishedVersion: row.published_version === null ? undefined : Number(row.published_version),
+  createdAt: String(row.created_at),
+  updatedAt: String(row.updated_at),
+});
+
+const toVersion = (row: SqlRow): ContentVersion => ({
+  contentId: String(row.content_id),
+  version: Number(row.version),
+  status: row.status as ContentVersion['status'],
+  question: fromJson<EnhancedQuestion>(row.question),
+  createdAt: String(row.created_at),
+  publishedAt: row.published_at === null ? undefined : String(row.published_at),
+});
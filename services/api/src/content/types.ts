@@ -0,0 +1,48 @@
+import { EnhancedQuestion } from '../sessions/gameCore';
+
+// Questions in the content API. Every edit is kept as a numbered version;
+// players only ever get a question's published version.
+
+// A published version that a later publish (or a rollback) took off the air is 'superseded'
+export type ContentStatus = 'draft' | 'published' | 'superseded';
+
+export interface ContentVersion {
+  contentId: string;
+  version: number; // 1, 2, 3... in edit order
+  status: ContentStatus; // Only the live version is 'published'; publishedAt stays as a record of what went live
+  question: EnhancedQuestion;
+  createdAt: string;
+  publishedAt?: string;
+}
+
+export interface ContentItem {
+  id: string; // The question's own id
+  latestVersion: number;
+  publishedVersion?: number; // Missing until a version is published
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A question as authors see it: what's live, and any newer draft
+export interface ContentRecord extends ContentItem {
+  status: ContentStatus;
+  question: EnhancedQuestion; // The published version, or the latest draft if nothing is published
+  draft?: EnhancedQuestion; // The latest version, when it's newer than the published one
+}
+
+// The set players are dealt from; version doubles as the list's ETag
+export interface PublishedContent {
+  content: EnhancedQuestion[];
+  version: string;
+  updatedAt?: string; // Latest publish time in the set
+}
+
+// What importing a question pack did, by question id
+export interface PackImportResult {
+  pack: string; // The pack's id
+  added: string[];
+  replaced: string[]; // Saved as a new draft version on top of the existing question
+  skipped: string[];
+  renamed: Record<string, string>; // Pack id -> id it was imported under
+  published: boolean;
+}
@@ -0,0 +1,123 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import initSqlJs, { Database as SqlJsDatabase, SqlValue } from 'sql.js';
+import { migrate } from './migrations';
+
+/**
+ * SQLite Database
+ * An embedded SQLite database (sql.js, so there is nothing native to build).
+ * The whole database lives in memory and is written back to its file after
+ * every change, which is plenty for a quiz game's worth of data. Created
+ * closed so stores can hold it from import time; open() loads the file and
+ * runs any pending migrations before the server takes requests.
+ */
+
+export const IN_MEMORY = ':memory:';
+
+export type SqlParams = SqlValue[];
+export type SqlRow = Record<string, SqlValue>;
+
+export class SqliteDatabase {
+  private db?: SqlJsDatabase;
+  private transactionDepth = 0;
+
+  constructor(readonly file: string = IN_MEMORY) {}
+
+  async open(): Promise<void> {
+    if (this.db) return;
+    const SQL = await initSqlJs();
+    const persisted = this.file !== IN_MEMORY && existsSync(this.file);
+    this.db = new SQL.Database(persisted ? readFileSync(this.file) : undefined);
+    this.db.run('PRAGMA foreign_keys = ON');
+    const applied = migrate(this);
+    if (applied.length > 0) {
+      console.log(`🗄️ Applied migrations: ${applied.join(', ')}`);
+    }
+  }
+
+  // Run a statement that doesn't return rows; answers how many rows it changed
+  run(sql: string, params: SqlParams = []): number {
+    const db = this.connection();
+    db.run(sql, params);
+    const changes = db.getRowsModified();
+    this.persist();
+    return changes;
+  }
+
+  all<T = SqlRow>(sql: string, params: SqlParams = []): T[] {
+    const statement = this.connection().prepare(sql, params);
+    try {
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  get<T = SqlRow>(sql: string, params: SqlParams = []): T | undefined {
+    return this.all<T>(sql, params)[0];
+  }
+
+  // Run several statements as one change - all of them stick or none do
+  transaction<T>(work: () => T): T {
+    const db = this.connection();
+    if (this.transactionDepth > 0) {
+      return work();
+    }
+    db.run('BEGIN');
+    this.transactionDepth++;
+    try {
+      const result = work();
+      db.run('COMMIT');
+      this.transactionDepth--;
+      this.persist();
+      return result;
+    } catch (error) {
+      this.transactionDepth--;
+      db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  private connection(): SqlJsDatabase {
+    if (!this.db) {
+      throw new Error('Database is not open');
+    }
+    return this.db;
+  }
+
+  // Write the database out, via a temporary file so a crash can't leave half a file
+  private persist(): void {
+    if (this.file === IN_MEMORY || this.transactionDepth > 0 || !this.db) return;
+    mkdirSync(dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    writeFileSync(temporary, this.db.export());
+    renameSync(temporary, this.file);
+  }
+}
+
+// JSON columns keep Sets and Dates, which the game state uses, intact
+export const toJson = (value: unknown): string =>
+  JSON.stringify(value, function (this: Record<string, unknown>, key: string, item: unknown) {
+    const original = this[key];
+    if (original instanceof Set) return { $set: [...original] };
+    if (original instanceof Date) return { $date: original.toISOString() };
+    return item;
+  });
+
+export const fromJson = <T>(text: SqlValue): T =>
+  JSON.parse(String(text), (_key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      if (Array.isArray(item.$set) && Object.keys(item).length === 1) return new Set(item.$set);
+      if (typeof item.$date === 'string' && Object.keys(item).length === 1) return new Date(item.$date);
+    }
+    return item;
+  });
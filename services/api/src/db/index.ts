@@ -0,0 +1,36 @@
+import { join } from 'path';
+import { ENHANCED_PRIVACY_QUESTIONS } from '../sessions/gameCore';
+import { SqliteDatabase } from './database';
+import { createInMemoryRepositories, createSqliteRepositories, Repositories } from './repositories';
+
+/**
+ * Storage
+ * The API's one set of repositories. SQLite by default, kept in
+ * DATABASE_FILE; STORAGE_DRIVER=memory swaps in the in-memory stores.
+ * openStorage() has to finish before the server takes requests.
+ */
+
+const useMemory = process.env.STORAGE_DRIVER === 'memory';
+
+export const database = new SqliteDatabase(process.env.DATABASE_FILE || join(process.cwd(), 'data', 'privacy-jenga.sqlite'));
+
+export const repositories: Repositories = useMemory ? createInMemoryRepositories() : createSqliteRepositories(database);
+
+export async function openStorage(): Promise<void> {
+  if (!useMemory) {
+    await database.open();
+  }
+  // An empty question bank starts out as the one the web app ships with, published
+  if (await repositories.content.count() === 0) {
+    const now = new Date().toISOString();
+    for (const question of ENHANCED_PRIVACY_QUESTIONS) {
+      await repositories.content.save(
+        { id: question.id, latestVersion: 1, publishedVersion: 1, createdAt: now, updatedAt: now },
+        { contentId: question.id, version: 1, status: 'published', question, createdAt: now, publishedAt: now }
+      );
+    }
+    console.log(`📚 Seeded ${ENHANCED_PRIVACY_QUESTIONS.length} questions`);
+  }
+}
+
+export default repositories;
@@ -0,0 +1,137 @@
+import type { SqliteDatabase } from './database';
+
+/**
+ * Schema Migrations
+ * Migrations run in version order, each inside its own transaction, and are
+ * recorded in schema_migrations so they only ever run once. Never edit a
+ * migration that has shipped - add a new one.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      CREATE TABLE content (
+        id TEXT PRIMARY KEY,
+        category TEXT NOT NULL,
+        difficulty TEXT NOT NULL,
+        question TEXT NOT NULL, -- EnhancedQuestion as JSON
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX content_category ON content (category);
+
+      CREATE TABLE rooms (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        max_players INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        seed INTEGER,
+        turn INTEGER NOT NULL DEFAULT 0,
+        stability REAL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE players (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL REFERENCES rooms (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL, -- Join order, which is also turn order
+        nickname TEXT NOT NULL,
+        is_host INTEGER NOT NULL,
+        connected INTEGER NOT NULL,
+        token TEXT NOT NULL,
+        joined_at TEXT NOT NULL
+      );
+      CREATE INDEX players_room ON players (room_id, position);
+
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        token TEXT NOT NULL,
+        phase TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        engine TEXT NOT NULL, -- GameEngineState as JSON
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE analytics_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event TEXT NOT NULL,
+        client_id TEXT,
+        data TEXT, -- JSON
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX analytics_events_created ON analytics_events (created_at);
+    `,
+  },
+  {
+    version: 2,
+    name: 'content versions',
+    sql: `
+      ALTER TABLE content RENAME TO content_v1;
+      DROP INDEX content_category;
+
+      CREATE TABLE content (
+        id TEXT PRIMARY KEY,
+        latest_version INTEGER NOT NULL,
+        published_version INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE content_versions (
+        content_id TEXT NOT NULL REFERENCES content (id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        category TEXT NOT NULL,
+        difficulty TEXT NOT NULL,
+        question TEXT NOT NULL, -- EnhancedQuestion as JSON
+        created_at TEXT NOT NULL,
+        published_at TEXT,
+        PRIMARY KEY (content_id, version)
+      );
+      CREATE INDEX content_versions_category ON content_versions (category);
+
+      -- What was stored before versions counts as published version 1
+      INSERT INTO content (id, latest_version, published_version, created_at, updated_at)
+        SELECT id, 1, 1, created_at, updated_at FROM content_v1;
+      INSERT INTO content_versions (content_id, version, status, category, difficulty, question, created_at, published_at)
+        SELECT id, 1, 'published', category, difficulty, question, updated_at, updated_at FROM content_v1;
+      DROP TABLE content_v1;
+    `,
+  },
+];
+
+// Bring the database up to date; answers the names of the migrations it ran
+export function migrate(db: SqliteDatabase, migrations: Migration[] = MIGRATIONS): string[] {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const applied = new Set(db.all<{ version: number }>('SELECT version FROM schema_migrations').map(row => row.version));
+
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => !applied.has(migration.version))
+    .map(migration => {
+      db.transaction(() => {
+        migration.sql.split(/;\s*$/m).map(statement => statement.trim()).filter(Boolean)
+          .forEach(statement => db.run(statement));
+        db.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]);
+      });
+      return migration.name;
+    });
+}
@@ -0,0 +1,28 @@
+import { AnalyticsStore, InMemoryAnalyticsStore, SqliteAnalyticsStore } from '../analytics/analyticsStore';
+import { ContentStore, InMemoryContentStore, SqliteContentStore } from '../content/contentStore';
+import { InMemoryRoomStore, RoomStore, SqliteRoomStore } from '../rooms/roomStore';
+import { InMemorySessionStore, SessionStore, SqliteSessionStore } from '../sessions/sessionStore';
+import { SqliteDatabase } from './database';
+
+// Every store the API reads and writes, from one backend
+export interface Repositories {
+  content: ContentStore;
+  rooms: RoomStore;
+  sessions: SessionStore;
+  analytics: AnalyticsStore;
+}
+
+// Nothing survives a restart - for tests and throwaway servers
+export const createInMemoryRepositories = (): Repositories => ({
+  content: new InMemoryContentStore(),
+  rooms: new InMemoryRoomStore(),
+  sessions: new InMemorySessionStore(),
+  analytics: new InMemoryAnalyticsStore(),
+});
+
+export const createSqliteRepositories = (db: SqliteDatabase): Repositories => ({
+  content: new SqliteContentStore(db),
+  rooms: new SqliteRoomStore(db),
+  sessions: new SqliteSessionStore(db),
+  analytics: new SqliteAnalyticsStore(db),
+});
@@ -4,6 +4,13 @@ import adminRoutes from './routes/adminRoutes';
 import analyticsRoutes from './routes/analyticsRoutes';
 import contentRoutes from './routes/contentRoutes';
 import roomRoutes from './routes/roomRoutes';
+import sessionRoutes from './routes/sessionRoutes';
+import roomService from './rooms/roomService';
+import { attachRoomSocket } from './rooms/roomSocket';
+import { database, openStorage } from './db';
+import contentService from './content/contentService';
+import analyticsService from './analytics/analyticsService';
+import gameSessionService from './sessions/sessionService';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -15,7 +22,8 @@ app.use(cors({
     : ['http://localhost:5173', 'http://localhost:3000'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-None-Match'],
+  exposedHeaders: ['ETag']
 }));
 
 // Security and parsing middleware
@@ -64,6 +72,7 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/content', contentRoutes);
 app.use('/api/rooms', roomRoutes);
+app.use('/api/sessions', sessionRoutes);
 
 // 404 handler with enhanced information
 app.use('*', (req: Request, res: Response) => {
@@ -77,7 +86,8 @@ app.use('*', (req: Request, res: Response) => {
       admin: 'GET /api/admin',
       analytics: 'GET /api/analytics', 
       content: 'GET /api/content',
-      rooms: 'GET /api/rooms'
+      rooms: 'GET /api/rooms',
+      sessions: 'POST /api/sessions'
     }
   });
 });
@@ -100,29 +110,38 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   });
 });
 
-// Start server with graceful shutdown
-const server = app.listen(PORT, () => {
-  console.log(`🚀 Privacy Jenga API running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`⚡ Server started at ${new Date().toISOString()}`);
-});
+// Start server with graceful shutdown, once storage is open
+const start = async () => {
+  await openStorage();
+  await contentService.refreshQuestionBank();
+  gameSessionService.useItemParameters((await analyticsService.calibrate()).calibration.items);
 
-// Graceful shutdown handling
-process.on('SIGTERM', () => {
-  console.log('🛑 SIGTERM received, shutting down gracefully...');
-  server.close(() => {
-    console.log('✅ Server closed successfully');
-    process.exit(0);
+  const server = app.listen(PORT, () => {
+    console.log(`🚀 Privacy Jenga API running on port ${PORT}`);
+    console.log(`📊 Health check: http://localhost:${PORT}/health`);
+    console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`⚡ Server started at ${new Date().toISOString()}`);
   });
-});
 
-process.on('SIGINT', () => {
-  console.log('🛑 SIGINT received, shutting down gracefully...');
-  server.close(() => {
-    console.log('✅ Server closed successfully');
-    process.exit(0);
-  });
+  // Real-time channel for multiplayer rooms
+  attachRoomSocket(server, roomService);
+
+  // Graceful shutdown handling
+  const shutdown = (signal: string) => {
+    console.log(`🛑 ${signal} received, shutting down gracefully...`);
+    server.close(() => {
+      database.close();
+      console.log('✅ Server closed successfully');
+      process.exit(0);
+    });
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+};
+
+start().catch(error => {
+  console.error('🚨 Failed to start the API:', error);
+  process.exit(1);
 });
 
 export default app;
@@ -0,0 +1,356 @@
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+import repositories from '../db';
+import { isQuestionBankRef, isQuizAnswer } from '../sessions/gameCore';
+import { RoomStore } from './roomStore';
+import { PublicRoom, Room, RoomMove, RoomServerMessage, StoredRoomPlayer } from './types';
+
+/**
+ * Room Service
+ * Rooms for online multiplayer: create and join by code, start a game and
+ * relay moves in turn order. Every player's browser runs the same seeded
+ * game, so the service only has to keep everyone on the same sequence of
+ * moves - it checks whose turn it is and tells the room about each move,
+ * turn change and stability report.
+ */
+
+export const MIN_ROOM_PLAYERS = 2;
+export const MAX_ROOM_PLAYERS = 6;
+export const DEFAULT_MAX_PLAYERS = 4;
+export const MAX_NICKNAME_LENGTH = 20;
+
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+const JOIN_CODE_LENGTH = 6;
+const PLAYER_MOVES = ['pick', 'answer', 'timeout', 'hint'];
+const TURN_ENDING_MOVES = ['answer', 'timeout', 'pass'];
+
+// Errors carry the HTTP status the routes should answer with
+export class RoomError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'RoomError';
+  }
+}
+
+export type RoomMessageListener = (roomId: string, message: RoomServerMessage) => void;
+
+export const toPublicRoom = (room: Room): PublicRoom => ({
+  ...room,
+  players: room.players.map(({ token: _token, ...player }) => player),
+});
+
+const createJoinCode = (): string =>
+  Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+
+const checkNickname = (nickname: unknown): string => {
+  const trimmed = typeof nickname === 'string' ? nickname.trim() : '';
+  if (trimmed.length === 0 || trimmed.length > MAX_NICKNAME_LENGTH || trimmed.includes(',')) {
+    throw new RoomError(`Nicknames must be 1-${MAX_NICKNAME_LENGTH} characters without commas`);
+  }
+  return trimmed;
+};
+
+const checkMaxPlayers = (maxPlayers: unknown): number => {
+  if (!Number.isInteger(maxPlayers) || (maxPlayers as number) < MIN_ROOM_PLAYERS || (maxPlayers as number) > MAX_ROOM_PLAYERS) {
+    throw new RoomError(`maxPlayers must be a whole number from ${MIN_ROOM_PLAYERS} to ${MAX_ROOM_PLAYERS}`);
+  }
+  return maxPlayers as number;
+};
+
+const createPlayer = (nickname: string, isHost: boolean): StoredRoomPlayer => ({
+  id: randomUUID(),
+  nickname,
+  isHost,
+  connected: false,
+  joinedAt: new Date().toISOString(),
+  token: randomBytes(16).toString('hex'),
+});
+
+export class RoomService {
+  private listeners = new Set<RoomMessageListener>();
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private store: RoomStore) {}
+
+  // Subscribe to messages meant for everyone in a room; returns an unsubscribe function
+  subscribe(listener: RoomMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Rooms still taking players
+  async listOpenRooms(): Promise<PublicRoom[]> {
+    const rooms = await this.store.list();
+    return rooms
+      .filter(room => room.status === 'waiting' && room.players.length < room.maxPlayers)
+      .map(toPublicRoom);
+  }
+
+  // Look a room up by id or join code
+  async getRoom(idOrCode: string): Promise<PublicRoom> {
+    return toPublicRoom(await this.findRoom(idOrCode));
+  }
+
+  // Open a room; the creator joins it as host
+  createRoom(input: { name?: unknown; maxPlayers?: unknown; nickname?: unknown }): Promise<{ room: PublicRoom; player: StoredRoomPlayer }> {
+    return this.serialize(async () => {
+      const nickname = checkNickname(input.nickname);
+      const maxPlayers = checkMaxPlayers(input.maxPlayers ?? DEFAULT_MAX_PLAYERS);
+      const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim().slice(0, 40) : `${nickname}'s room`;
+
+      let code = createJoinCode();
+      while (await this.store.findByCode(code)) {
+        code = createJoinCode();
+      }
+
+      const now = new Date().toISOString();
+      const player = createPlayer(nickname, true);
+      const room: Room = {
+        id: randomUUID(),
+        code,
+        name,
+        maxPlayers,
+        status: 'waiting',
+        players: [player],
+        turn: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.save(room);
+      return { room: toPublicRoom(room), player };
+    });
+  }
+
+  joinRoom(code: string, nickname: unknown): Promise<{ room: PublicRoom; player: StoredRoomPlayer }> {
+    return this.serialize(async () => {
+      const name = checkNickname(nickname);
+      const room = await this.findRoom(code);
+      if (room.status !== 'waiting') {
+        throw new RoomError('This game has already started', 409);
+      }
+      if (room.players.length >= room.maxPlayers) {
+        throw new RoomError(`Room is full (${room.maxPlayers} players)`, 409);
+      }
+      if (room.players.some(player => player.nickname.toLowerCase() === name.toLowerCase())) {
+        throw new RoomError(`Someone in this room is already called ${name}`, 409);
+      }
+
+      const player = createPlayer(name, false);
+      room.players.push(player);
+      await this.saveAndAnnounce(room);
+      return { room: toPublicRoom(room), player };
+    });
+  }
+
+  // Leave a room - before the game the seat is freed, during it the player's turns are skipped
+  leaveRoom(roomId: string, playerId: string, token: unknown): Promise<void> {
+    return this.serialize(async () => {
+      const room = await this.authenticate(roomId, playerId, token);
+      if (room.status === 'playing') {
+        await this.disconnect(room, playerId);
+        return;
+      }
+
+      room.players = room.players.filter(player => player.id !== playerId);
+      if (room.players.length === 0) {
+        await this.store.delete(room.id);
+        return;
+      }
+      if (!room.players.some(player => player.isHost)) {
+        room.players[0].isHost = true;
+      }
+      await this.saveAndAnnounce(room);
+    });
+  }
+
+  updateRoom(roomId: string, playerId: string, token: unknown, updates: { name?: unknown; maxPlayers?: unknown }): Promise<PublicRoom> {
+    return this.serialize(async () => {
+      const room = await this.authenticateHost(roomId, playerId, token);
+      if (updates.name !== undefined) {
+        if (typeof updates.name !== 'string' || !updates.name.trim()) {
+          throw new RoomError('Room name must be a non-empty string');
+        }
+        room.name = updates.name.trim().slice(0, 40);
+      }
+      if (updates.maxPlayers !== undefined) {
+        const maxPlayers = checkMaxPlayers(updates.maxPlayers);
+        if (maxPlayers < room.players.length) {
+          throw new RoomError(`${room.players.length} players have already joined`, 409);
+        }
+        room.maxPlayers = maxPlayers;
+      }
+      await this.saveAndAnnounce(room);
+      return toPublicRoom(room);
+    });
+  }
+
+  deleteRoom(roomId: string, playerId: string, token: unknown): Promise<void> {
+    return this.serialize(async () => {
+      const room = await this.authenticateHost(roomId, playerId, token);
+      await this.store.delete(room.id);
+    });
+  }
+
+  // Check a player's token; returns the room they are in
+  async authenticate(roomId: string, playerId: string, token: unknown): Promise<Room> {
+    const room = await this.findRoom(roomId);
+    const player = room.players.find(candidate => candidate.id === playerId);
+    if (!player || typeof token !== 'string' || player.token !== token) {
+      throw new RoomError('Not a player in this room', 403);
+    }
+    return room;
+  }
+
+  // Track open sockets; a player who drops out on their turn has it skipped
+  setConnected(roomId: string, playerId: string, connected: boolean): Promise<void> {
+    return this.serialize(async () => {
+      const room = await this.store.get(roomId);
+      const player = room?.players.find(candidate => candidate.id === playerId);
+      if (!room || !player || player.connected === connected) return;
+
+      if (connected) {
+        player.connected = true;
+        await this.saveAndAnnounce(room);
+      } else {
+        await this.disconnect(room, playerId);
+      }
+    });
+  }
+
+  // The host's question set goes out with the seed, so players dealing from another set know not to play
+  startGame(roomId: string, playerId: string, bank?: unknown): Promise<void> {
+    return this.serialize(async () => {
+      if (bank !== undefined && !isQuestionBankRef(bank)) {
+        throw new RoomError('Invalid question set');
+      }
+      const room = await this.findRoom(roomId);
+      if (!room.players.find(player => player.id === playerId)?.isHost) {
+        throw new RoomError('Only the host can start the game', 403);
+      }
+      if (room.status !== 'waiting') {
+        throw new RoomError('This game has already started', 409);
+      }
+      if (room.players.length < MIN_ROOM_PLAYERS) {
+        throw new RoomError(`Wait for at least ${MIN_ROOM_PLAYERS} players`, 409);
+      }
+
+      room.status = 'playing';
+      room.seed = randomInt(1, 2 ** 31);
+      room.turn = 0;
+      await this.saveAndAnnounce(room);
+      const { players } = toPublicRoom(room);
+      this.emit(room.id, { type: 'started', seed: room.seed, players, bank });
+      this.emit(room.id, { type: 'turn', playerId: room.players[0].id });
+    });
+  }
+
+  // Relay a move from the player whose turn it is
+  recordMove(roomId: string, playerId: string, move: unknown, report: { stability?: unknown; gameOver?: unknown } = {}): Promise<void> {
+    return this.serialize(async () => {
+      const room = await this.findRoom(roomId);
+      if (room.status !== 'playing') {
+        throw new RoomError('The game is not running', 409);
+      }
+      if (room.players[room.turn].id !== playerId) {
+        throw new RoomError('It is not your turn', 409);
+      }
+      if (!isPlayerMove(move)) {
+        throw new RoomError('Invalid move');
+      }
+
+      this.emit(room.id, { type: 'move', playerId, move });
+      if (typeof report.stability === 'number') {
+        room.stability = report.stability;
+        this.emit(room.id, { type: 'stability', stability: report.stability });
+      }
+      if (TURN_ENDING_MOVES.includes(move.type)) {
+        if (report.gameOver === true) {
+          room.status = 'finished';
+        } else {
+          this.advanceTurn(room);
+        }
+      }
+      await this.saveAndAnnounce(room);
+    });
+  }
+
+  // Run changes one at a time so concurrent messages can't overwrite each other's saves
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async findRoom(idOrCode: string): Promise<Room> {
+    const room = await this.store.get(idOrCode) || await this.store.findByCode(idOrCode.toUpperCase());
+    if (!room) {
+      throw new RoomError('Room not found', 404);
+    }
+    return room;
+  }
+
+  private async authenticateHost(roomId: string, playerId: string, token: unknown): Promise<Room> {
+    const room = await this.authenticate(roomId, playerId, token);
+    if (!room.players.find(player => player.id === playerId)?.isHost) {
+      throw new RoomError('Only the host can change the room', 403);
+    }
+    return room;
+  }
+
+  private async disconnect(room: Room, playerId: string): Promise<void> {
+    const player = room.players.find(candidate => candidate.id === playerId);
+    if (!player) return;
+
+    player.connected = false;
+    if (room.status === 'playing' && room.players[room.turn].id === playerId) {
+      this.emit(room.id, { type: 'move', playerId, move: { type: 'pass', at: Date.now() } });
+      this.advanceTurn(room);
+    }
+    await this.saveAndAnnounce(room);
+  }
+
+  // Next player in join order; players who have dropped out pass automatically
+  private advanceTurn(room: Room): void {
+    for (let skipped = 0; skipped < room.players.length; skipped++) {
+      room.turn = (room.turn + 1) % room.players.length;
+      const player = room.players[room.turn];
+      if (player.connected) break;
+      this.emit(room.id, { type: 'move', playerId: player.id, move: { type: 'pass', at: Date.now() } });
+    }
+    this.emit(room.id, { type: 'turn', playerId: room.players[room.turn].id });
+  }
+
+  private async saveAndAnnounce(room: Room): Promise<void> {
+    room.updatedAt = new Date().toISOString();
+    await this.store.save(room);
+    this.emit(room.id, { type: 'room', room: toPublicRoom(room) });
+  }
+
+  private emit(roomId: string, message: RoomServerMessage): void {
+    this.listeners.forEach(listener => listener(roomId, message));
+  }
+}
+
+// Answers and hints are checked the way the session API checks them, so a malformed
+// payload is refused here rather than thrown on by every other player's game core
+function isPlayerMove(move: unknown): move is RoomMove {
+  if (!move || typeof move !== 'object') return false;
+  const candidate = move as Record<string, unknown>;
+  if (!PLAYER_MOVES.includes(candidate.type as string) ||
+    typeof candidate.at !== 'number' ||
+    typeof candidate.blockId !== 'string') {
+    return false;
+  }
+  switch (candidate.type) {
+    case 'answer':
+      return typeof candidate.answer === 'number' || isQuizAnswer(candidate.answer);
+    case 'hint':
+      return candidate.kind === 'hint' || candidate.kind === 'fifty_fifty';
+    default:
+      return true;
+  }
+}
+
+export const roomService = new RoomService(repositories.rooms);
+export default roomService;
@@ -0,0 +1,97 @@
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { RoomError, RoomService } from './roomService';
+import { RoomClientMessage, RoomServerMessage } from './types';
+
+/**
+ * Room Socket
+ * WebSocket channel for rooms at /ws/rooms. A client says hello with the
+ * player id and token it got from the REST join, then sends start and move
+ * messages; everything the room service announces is broadcast to the
+ * room's open sockets.
+ */
+
+export const ROOM_SOCKET_PATH = '/ws/rooms';
+
+interface RoomConnection {
+  roomId: string;
+  playerId: string;
+}
+
+const send = (socket: WebSocket, message: RoomServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const parseMessage = (data: unknown): RoomClientMessage | null => {
+  try {
+    const message = JSON.parse(String(data));
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+export function attachRoomSocket(server: Server, rooms: RoomService): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: ROOM_SOCKET_PATH });
+  const connections = new Map<WebSocket, RoomConnection>();
+
+  rooms.subscribe((roomId, message) => {
+    connections.forEach((connection, socket) => {
+      if (connection.roomId === roomId) send(socket, message);
+    });
+  });
+
+  const handle = async (socket: WebSocket, message: RoomClientMessage) => {
+    const connection = connections.get(socket);
+
+    if (message.type === 'hello') {
+      if (connection) throw new RoomError('Already connected to a room', 409);
+      const room = await rooms.authenticate(message.roomId, message.playerId, message.token);
+      connections.set(socket, { roomId: room.id, playerId: message.playerId });
+      await rooms.setConnected(room.id, message.playerId, true);
+      send(socket, { type: 'room', room: await rooms.getRoom(room.id) });
+      return;
+    }
+
+    if (!connection) throw new RoomError('Say hello first', 401);
+    if (message.type === 'start') {
+      await rooms.startGame(connection.roomId, connection.playerId, message.bank);
+    } else if (message.type === 'move') {
+      await rooms.recordMove(connection.roomId, connection.playerId, message.move, message);
+    } else {
+      throw new RoomError('Unknown message');
+    }
+  };
+
+  wss.on('connection', socket => {
+    socket.on('message', data => {
+      const message = parseMessage(data);
+      if (!message) {
+        send(socket, { type: 'error', message: 'Messages must be JSON with a type' });
+        return;
+      }
+      handle(socket, message).catch((error: Error) => {
+        if (!(error instanceof RoomError)) {
+          console.error('❌ Room socket error:', error);
+        }
+        send(socket, { type: 'error', message: error instanceof RoomError ? error.message : 'Something went wrong' });
+      });
+    });
+
+    socket.on('close', () => {
+      const connection = connections.get(socket);
+      connections.delete(socket);
+      const stillOpen = [...connections.values()].some(other =>
+        other.roomId === connection?.roomId && other.playerId === connection?.playerId);
+      if (connection && !stillOpen) {
+        rooms.setConnected(connection.roomId, connection.playerId, false)
+          .catch((error: Error) => console.error('❌ Room socket error:', error));
+      }
+    });
+  });
+
+  console.log(`🔌 Room WebSocket listening on ${ROOM_SOCKET_PATH}`);
+  return wss;
+}
@@ -0,0 +1,121 @@
+import { SqliteDatabase, SqlRow } from '../db/database';
+import { Room, StoredRoomPlayer } from './types';
+
+/**
+ * Room Store
+ * Persistence for rooms behind an async interface, so the in-memory store
+ * used for local play can be swapped for a database without touching the
+ * room service. Stores hand out copies; changes only stick once saved.
+ */
+export interface RoomStore {
+  get(id: string): Promise<Room | undefined>;
+  findByCode(code: string): Promise<Room | undefined>;
+  list(): Promise<Room[]>;
+  save(room: Room): Promise<void>; // Creates or replaces
+  delete(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export class InMemoryRoomStore implements RoomStore {
+  private rooms = new Map<string, Room>();
+
+  async get(id: string): Promise<Room | undefined> {
+    const room = this.rooms.get(id);
+    return room && structuredClone(room);
+  }
+
+  async findByCode(code: string): Promise<Room | undefined> {
+    const room = [...this.rooms.values()].find(candidate => candidate.code === code);
+    return room && structuredClone(room);
+  }
+
+  async list(): Promise<Room[]> {
+    return [...this.rooms.values()].map(room => structuredClone(room));
+  }
+
+  async save(room: Room): Promise<void> {
+    this.rooms.set(room.id, structuredClone(room));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.rooms.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.rooms.clear();
+  }
+}
+
+// Rooms in the rooms table, their players in players
+export class SqliteRoomStore implements RoomStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async get(id: string): Promise<Room | undefined> {
+    const row = this.db.get('SELECT * FROM rooms WHERE id = ?', [id]);
+    return row && this.toRoom(row);
+  }
+
+  async findByCode(code: string): Promise<Room | undefined> {
+    const row = this.db.get('SELECT * FROM rooms WHERE code = ?', [code]);
+    return row && this.toRoom(row);
+  }
+
+  async list(): Promise<Room[]> {
+    return this.db.all('SELECT * FROM rooms ORDER BY created_at').map(row => this.toRoom(row));
+  }
+
+  async save(room: Room): Promise<void> {
+    this.db.transaction(() => {
+      this.db.run(
+        `INSERT INTO rooms (id, code, name, max_players, status, seed, turn, stability, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET code = excluded.code, name = excluded.name, max_players = excluded.max_players,
+           status = excluded.status, seed = excluded.seed, turn = excluded.turn, stability = excluded.stability,
+           updated_at = excluded.updated_at`,
+        [room.id, room.code, room.name, room.maxPlayers, room.status, room.seed ?? null, room.turn,
+          room.stability ?? null, room.createdAt, room.updatedAt]
+      );
+      this.db.run('DELETE FROM players WHERE room_id = ?', [room.id]);
+      room.players.forEach((player, position) => {
+        this.db.run(
+          `INSERT INTO players (id, room_id, position, nickname, is_host, connected, token, joined_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [player.id, room.id, position, player.nickname, Number(player.isHost), Number(player.connected), player.token, player.joinedAt]
+        );
+      });
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.run('DELETE FROM rooms WHERE id = ?', [id]) > 0;
+  }
+
+  async clear(): Promise<void> {
+    this.db.run('DELETE FROM rooms');
+  }
+
+  private toRoom(row: SqlRow): Room {
+    const players = this.db.all('SELECT * FROM players WHERE room_id = ? ORDER BY position', [row.id])
+      .map((player): StoredRoomPlayer => ({
+        id: String(player.id),
+        nickname: String(player.nickname),
+        isHost: player.is_host === 1,
+        connected: player.connected === 1,
+        joinedAt: String(player.joined_at),
+        token: String(player.token),
+      }));
+    return {
+      id: String(row.id),
+      code: String(row.code),
+      name: String(row.name),
+      maxPlayers: Number(row.max_players),
+      status: row.status as Room['status'],
+      players,
+      seed: row.seed === null ? undefined : Number(row.seed),
+      turn: Number(row.turn),
+      stability: row.stability === null ? undefined : Number(row.stability),
+      createdAt: String(row.created_at),
+      updatedAt: String(row.updated_at),
+    };
+  }
+}
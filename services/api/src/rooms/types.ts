@@ -0,0 +1,67 @@
+// Room types shared by the REST routes, the room service and the WebSocket channel.
+// The web client keeps a copy of the public shapes and messages in its own types.
+
+export type RoomStatus = 'waiting' | 'playing' | 'finished';
+
+export interface RoomPlayer {
+  id: string;
+  nickname: string;
+  isHost: boolean;
+  connected: boolean; // Has an open WebSocket
+  joinedAt: string; // ISO timestamp
+}
+
+// What the store keeps - players carry the token that proves who they are
+export interface StoredRoomPlayer extends RoomPlayer {
+  token: string;
+}
+
+export interface Room {
+  id: string;
+  code: string; // Short join code players type in
+  name: string;
+  maxPlayers: number;
+  status: RoomStatus;
+  players: StoredRoomPlayer[]; // In join order, which is also turn order
+  seed?: number; // Set when the host starts the game
+  turn: number; // Index into players of whose turn it is
+  stability?: number; // Last tower stability a player reported
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Room as sent to clients, without player tokens
+export interface PublicRoom extends Omit<Room, 'players'> {
+  players: RoomPlayer[];
+}
+
+// A game move, in the web client's replay-move format
+export interface RoomMove {
+  type: 'pick' | 'answer' | 'timeout' | 'hint' | 'pass';
+  at: number;
+  blockId?: string;
+  [key: string]: unknown;
+}
+
+// The question set a game is dealt from, in the web client's format - the
+// host's is passed on so every player can check they deal the same questions
+export interface QuestionBankRef {
+  version: string;
+  packs?: string[];
+  packsOnly?: boolean;
+}
+
+// Client -> server
+export type RoomClientMessage =
+  | { type: 'hello'; roomId: string; playerId: string; token: string }
+  | { type: 'start'; bank?: QuestionBankRef }
+  | { type: 'move'; move: RoomMove; stability?: number; gameOver?: boolean };
+
+// Server -> client
+export type RoomServerMessage =
+  | { type: 'room'; room: PublicRoom }
+  | { type: 'started'; seed: number; players: RoomPlayer[]; bank?: QuestionBankRef }
+  | { type: 'move'; playerId: string; move: RoomMove }
+  | { type: 'turn'; playerId: string }
+  | { type: 'stability'; stability: number }
+  | { type: 'error'; message: string };
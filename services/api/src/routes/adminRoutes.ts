@@ -1,4 +1,8 @@
 import { Router } from 'express';
+import analyticsService from '../analytics/analyticsService';
+import repositories from '../db';
+import gameSessionService from '../sessions/sessionService';
+import { requireAdmin } from './requireAdmin';
 
 const router = Router();
 
@@ -9,27 +13,47 @@ router.get('/', (req, res) => {
     endpoints: [
       'GET /api/admin/',
       'GET /api/admin/stats',
+      'POST /api/admin/calibrate',
       'POST /api/admin/reset'
     ]
   });
 });
 
 // Get admin stats
-router.get('/stats', (req, res) => {
-  res.json({
-    totalUsers: 0,
-    totalGames: 0,
-    totalBlocks: 54,
-    systemHealth: 'good'
-  });
+router.get('/stats', (req, res, next) => {
+  Promise.all([analyticsService.getUserStats(), analyticsService.getGameStats(), repositories.content.count()])
+    .then(([users, games, totalQuestions]) => res.json({
+      totalUsers: users.totalUsers,
+      totalGames: games.totalGames,
+      totalQuestions,
+      systemHealth: 'good'
+    }))
+    .catch(next);
 });
 
-// Reset system (admin only)
-router.post('/reset', (req, res) => {
-  res.json({ 
-    message: 'System reset initiated',
-    timestamp: new Date().toISOString()
-  });
+// Refit question difficulties to the answers in stored games; new games deal with the result.
+// Also lists published questions that play harder or easier than their label
+router.post('/calibrate', requireAdmin, (req, res, next) => {
+  analyticsService.calibrate()
+    .then(({ calibration, mislabeled }) => {
+      gameSessionService.useItemParameters(calibration.items);
+      res.json({
+        message: `Calibrated ${Object.keys(calibration.items).length} questions from ${calibration.respondents} games`,
+        calibration,
+        mislabeled
+      });
+    })
+    .catch(next);
+});
+
+// Reset system (admin only) - clears rooms, game sessions and analytics; the question bank stays
+router.post('/reset', requireAdmin, (req, res, next) => {
+  Promise.all([repositories.rooms.clear(), repositories.sessions.clear(), repositories.analytics.clear()])
+    .then(() => res.json({ 
+      message: 'System reset complete',
+      timestamp: new Date().toISOString()
+    }))
+    .catch(next);
 });
 
 export default router;
@@ -1,7 +1,17 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
+import analyticsService, { AnalyticsError } from '../analytics/analyticsService';
 
 const router = Router();
 
+// Analytics errors answer with their own status; anything else goes to the app's error handler
+const handleError = (res: Response, next: (error: unknown) => void) => (error: unknown) => {
+  if (error instanceof AnalyticsError) {
+    res.status(error.status).json({ error: error.message });
+  } else {
+    next(error);
+  }
+};
+
 // Analytics routes
 router.get('/', (req, res) => {
   res.json({ 
@@ -16,32 +26,30 @@ router.get('/', (req, res) => {
 });
 
 // Get game analytics
-router.get('/games', (req, res) => {
-  res.json({
-    totalGames: 0,
-    averageScore: 0,
-    completionRate: 0,
-    popularCategories: []
-  });
+router.get('/games', (req, res, next) => {
+  analyticsService.getGameStats()
+    .then(stats => res.json(stats))
+    .catch(handleError(res, next));
 });
 
 // Get user analytics
-router.get('/users', (req, res) => {
-  res.json({
-    totalUsers: 0,
-    activeUsers: 0,
-    averageSessionTime: 0
-  });
+router.get('/users', (req, res, next) => {
+  analyticsService.getUserStats()
+    .then(stats => res.json(stats))
+    .catch(handleError(res, next));
 });
 
 // Track analytics event
-router.post('/track', (req, res) => {
+router.post('/track', (req, res, next) => {
   const { event, data } = req.body;
-  res.json({ 
-    message: 'Event tracked',
-    event,
-    timestamp: new Date().toISOString()
-  });
+  analyticsService.track({ event, data })
+    .then(tracked => res.status(201).json({
+      message: 'Event tracked',
+      id: tracked.id,
+      event: tracked.event,
+      timestamp: tracked.createdAt
+    }))
+    .catch(handleError(res, next));
 });
 
 export default router;
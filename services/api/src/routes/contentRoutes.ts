@@ -1,70 +1,130 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
+import contentService, { ContentError } from '../content/contentService';
+import { requireAdmin } from './requireAdmin';
 
 const router = Router();
 
-// Content management routes
-router.get('/', (req, res) => {
-  res.json({ 
-    message: 'Content routes endpoint',
-    endpoints: [
-      'GET /api/content/',
-      'GET /api/content/:id',
-      'GET /api/content/category/:category',
-      'POST /api/content/',
-      'PUT /api/content/:id',
-      'DELETE /api/content/:id'
-    ]
-  });
-});
+// Content errors answer with their own status; anything else goes to the app's error handler
+const handleError = (res: Response, next: (error: unknown) => void) => (error: unknown) => {
+  if (error instanceof ContentError) {
+    res.status(error.status).json({ error: error.message });
+  } else {
+    next(error);
+  }
+};
 
-// Get content by ID
-router.get('/:id', (req, res) => {
-  const { id } = req.params;
-  res.json({ 
-    message: `Get content ${id}`,
-    id,
-    content: null // Would fetch from database
-  });
+// Published questions - the bank players get, answer keys included since local games
+// grade in the browser (sessions hand out questions without them). The ETag is the set's
+// version, so a client sending it back in If-None-Match gets a 304 until something is published
+router.get('/', (req, res, next) => {
+  contentService.getPublishedSet()
+    .then(({ content, version, updatedAt }) => {
+      const etag = `"${version}"`;
+      res.setHeader('ETag', etag);
+      if (req.headers['if-none-match'] === etag) {
+        res.status(304).end();
+        return;
+      }
+      res.json({ content, total: content.length, version, updatedAt });
+    })
+    .catch(handleError(res, next));
 });
 
-// Get content by category
-router.get('/category/:category', (req, res) => {
+// Get content by category - declared before /:id, which would otherwise match it
+router.get('/category/:category', (req, res, next) => {
   const { category } = req.params;
-  res.json({
-    category,
-    content: [],
-    total: 0
-  });
+  contentService.listPublished(category)
+    .then(content => res.json({
+      category,
+      content,
+      total: content.length
+    }))
+    .catch(handleError(res, next));
+});
+
+// Import a question pack: { pack, onConflict?, publish? } - onConflict is reject
+// (the default), skip, replace or rename. Questions arrive as drafts unless publish is set
+router.post('/packs', requireAdmin, (req, res, next) => {
+  const { pack, onConflict, publish } = req.body || {};
+  contentService.importPack(pack, onConflict, publish === true)
+    .then(result => res.status(201).json({
+      message: `Pack ${result.pack} imported`,
+      ...result
+    }))
+    .catch(handleError(res, next));
 });
 
-// Create new content
-router.post('/', (req, res) => {
-  const content = req.body;
-  res.status(201).json({
-    message: 'Content created',
-    id: Date.now().toString(),
-    content
-  });
+// The published set as a question pack file. Pack metadata comes from the query
+// (id, title, author, language, license, description); category narrows it, and can repeat
+router.get('/packs/export', (req, res, next) => {
+  const { category, ...metadata } = req.query;
+  const categories = ([] as unknown[]).concat(category ?? []).map(String);
+  contentService.exportPack(metadata, categories)
+    .then(pack => {
+      res.setHeader('Content-Disposition', `attachment; filename="${pack.id}.json"`);
+      res.json(pack);
+    })
+    .catch(handleError(res, next));
+});
+
+// Get content by ID, with its newer draft if there is one - drafts are for authors only
+router.get('/:id', requireAdmin, (req, res, next) => {
+  contentService.get(req.params.id)
+    .then(content => res.json({ id: content.id, content }))
+    .catch(handleError(res, next));
+});
+
+// Every version of a question, oldest first, drafts included
+router.get('/:id/versions', requireAdmin, (req, res, next) => {
+  contentService.getVersions(req.params.id)
+    .then(versions => res.json({ id: req.params.id, versions, total: versions.length }))
+    .catch(handleError(res, next));
+});
+
+// Create new content - saved as a draft
+router.post('/', requireAdmin, (req, res, next) => {
+  contentService.create(req.body)
+    .then(content => res.status(201).json({
+      message: 'Content created',
+      id: content.id,
+      content
+    }))
+    .catch(handleError(res, next));
+});
+
+// Update content - saved as a new draft version
+router.put('/:id', requireAdmin, (req, res, next) => {
+  const { id } = req.params;
+  contentService.update(id, req.body)
+    .then(content => res.json({
+      message: `Content ${id} updated`,
+      id,
+      content
+    }))
+    .catch(handleError(res, next));
 });
 
-// Update content
-router.put('/:id', (req, res) => {
+// Publish a version - the latest unless the body names one: { version }
+router.post('/:id/publish', requireAdmin, (req, res, next) => {
   const { id } = req.params;
-  const updates = req.body;
-  res.json({
-    message: `Content ${id} updated`,
-    id,
-    updates
-  });
+  contentService.publish(id, req.body?.version)
+    .then(content => res.json({
+      message: `Content ${id} version ${content.publishedVersion} published`,
+      id,
+      content
+    }))
+    .catch(handleError(res, next));
 });
 
-// Delete content
-router.delete('/:id', (req, res) => {
+// Delete content, with every version
+router.delete('/:id', requireAdmin, (req, res, next) => {
   const { id } = req.params;
-  res.json({
-    message: `Content ${id} deleted`,
-    id
-  });
+  contentService.delete(id)
+    .then(() => res.json({
+      message: `Content ${id} deleted`,
+      id
+    }))
+    .catch(handleError(res, next));
 });
 
 export default router;
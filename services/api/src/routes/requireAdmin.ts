@@ -0,0 +1,11 @@
+import { NextFunction, Request, Response } from 'express';
+
+// Admin-only routes need ADMIN_TOKEN set on the server and sent as: Authorization: Bearer <token>
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (!process.env.ADMIN_TOKEN || scheme !== 'Bearer' || token !== process.env.ADMIN_TOKEN) {
+    res.status(403).json({ error: 'Admin token required' });
+    return;
+  }
+  next();
+};
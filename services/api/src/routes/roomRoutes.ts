@@ -1,96 +1,77 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
+import roomService, { RoomError } from '../rooms/roomService';
 
 const router = Router();
 
-// Room management routes
-router.get('/', (req, res) => {
-  res.json({ 
-    message: 'Room routes endpoint',
-    endpoints: [
-      'GET /api/rooms/',
-      'GET /api/rooms/:id',
-      'POST /api/rooms/',
-      'PUT /api/rooms/:id',
-      'DELETE /api/rooms/:id',
-      'POST /api/rooms/:id/join',
-      'POST /api/rooms/:id/leave'
-    ]
-  });
+// Room errors answer with their own status; anything else goes to the app's error handler
+const handleError = (res: Response, next: (error: unknown) => void) => (error: unknown) => {
+  if (error instanceof RoomError) {
+    res.status(error.status).json({ error: error.message });
+  } else {
+    next(error);
+  }
+};
+
+// List rooms that are still taking players
+router.get('/', (req, res, next) => {
+  roomService.listOpenRooms()
+    .then(rooms => res.json({ rooms, total: rooms.length }))
+    .catch(handleError(res, next));
+});
+
+// Join a room by its code - the token in the response authenticates the WebSocket
+router.post('/join', (req, res, next) => {
+  const { code, playerName } = req.body;
+  roomService.joinRoom(String(code || ''), playerName)
+    .then(({ room, player }) => res.json({ message: `${player.nickname} joined ${room.name}`, room, player }))
+    .catch(handleError(res, next));
 });
 
-// Get room by ID
-router.get('/:id', (req, res) => {
-  const { id } = req.params;
-  res.json({ 
-    message: `Get room ${id}`,
-    id,
-    room: {
-      id,
-      name: `Room ${id}`,
-      players: [],
-      status: 'waiting',
-      maxPlayers: 4
-    }
-  });
+// Get room by ID or join code
+router.get('/:id', (req, res, next) => {
+  roomService.getRoom(req.params.id)
+    .then(room => res.json({ room }))
+    .catch(handleError(res, next));
 });
 
-// Create new room
-router.post('/', (req, res) => {
-  const { name, maxPlayers = 4 } = req.body;
-  const roomId = Date.now().toString();
-  res.status(201).json({
-    message: 'Room created',
-    room: {
-      id: roomId,
-      name,
-      maxPlayers,
-      players: [],
-      status: 'waiting'
-    }
-  });
+// Create new room, with the creator as host
+router.post('/', (req, res, next) => {
+  const { name, maxPlayers, playerName } = req.body;
+  roomService.createRoom({ name, maxPlayers, nickname: playerName })
+    .then(({ room, player }) => res.status(201).json({ message: 'Room created', room, player }))
+    .catch(handleError(res, next));
 });
 
-// Update room
-router.put('/:id', (req, res) => {
-  const { id } = req.params;
-  const updates = req.body;
-  res.json({
-    message: `Room ${id} updated`,
-    id,
-    updates
-  });
+// Update room (host only)
+router.put('/:id', (req, res, next) => {
+  const { playerId, token, name, maxPlayers } = req.body;
+  roomService.updateRoom(req.params.id, playerId, token, { name, maxPlayers })
+    .then(room => res.json({ message: `Room ${room.id} updated`, room }))
+    .catch(handleError(res, next));
 });
 
-// Delete room
-router.delete('/:id', (req, res) => {
-  const { id } = req.params;
-  res.json({
-    message: `Room ${id} deleted`,
-    id
-  });
+// Delete room (host only)
+router.delete('/:id', (req, res, next) => {
+  const { playerId, token } = req.body;
+  roomService.deleteRoom(req.params.id, playerId, token)
+    .then(() => res.json({ message: `Room ${req.params.id} deleted`, id: req.params.id }))
+    .catch(handleError(res, next));
 });
 
-// Join room
-router.post('/:id/join', (req, res) => {
-  const { id } = req.params;
-  const { playerId, playerName } = req.body;
-  res.json({
-    message: `Player ${playerName} joined room ${id}`,
-    roomId: id,
-    playerId,
-    playerName
-  });
+// Join room by ID - same as /join, for clients that already have the room
+router.post('/:id/join', (req, res, next) => {
+  const { playerName } = req.body;
+  roomService.joinRoom(req.params.id, playerName)
+    .then(({ room, player }) => res.json({ message: `${player.nickname} joined ${room.name}`, room, player }))
+    .catch(handleError(res, next));
 });
 
 // Leave room
-router.post('/:id/leave', (req, res) => {
-  const { id } = req.params;
-  const { playerId } = req.body;
-  res.json({
-    message: `Player left room ${id}`,
-    roomId: id,
-    playerId
-  });
+router.post('/:id/leave', (req, res, next) => {
+  const { playerId, token } = req.body;
+  roomService.leaveRoom(req.params.id, playerId, token)
+    .then(() => res.json({ message: `Player left room ${req.params.id}`, roomId: req.params.id, playerId }))
+    .catch(handleError(res, next));
 });
 
 export default router;
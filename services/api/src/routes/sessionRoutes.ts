@@ -0,0 +1,80 @@
+import { Request, Response, Router } from 'express';
+import gameSessionService, { SessionError } from '../sessions/sessionService';
+
+const router = Router();
+
+// Session errors answer with their own status; anything else goes to the app's error handler
+const handleError = (res: Response, next: (error: unknown) => void) => (error: unknown) => {
+  if (error instanceof SessionError) {
+    res.status(error.status).json({ error: error.message });
+  } else {
+    next(error);
+  }
+};
+
+// Moves are authorized with the session token: Authorization: Bearer <token>
+const getToken = (req: Request): string | undefined => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' ? token : undefined;
+};
+
+// Start a server-graded game
+router.post('/', (req, res, next) => {
+  const { mode, category, tower, players } = req.body;
+  gameSessionService.createSession({ mode, category, tower, players })
+    .then(({ session, token }) => res.status(201).json({ message: 'Game session started', session, token }))
+    .catch(handleError(res, next));
+});
+
+// Current state of a game
+router.get('/:id', (req, res, next) => {
+  gameSessionService.getSession(req.params.id, getToken(req))
+    .then(session => res.json({ session }))
+    .catch(handleError(res, next));
+});
+
+// Final result of a finished game - public, for leaderboards and classroom reports
+router.get('/:id/result', (req, res, next) => {
+  gameSessionService.getResult(req.params.id)
+    .then(result => res.json({ result }))
+    .catch(handleError(res, next));
+});
+
+// Pull a block and get its question, without the answer
+router.post('/:id/pick', (req, res, next) => {
+  gameSessionService.pickBlock(req.params.id, getToken(req), req.body.blockId)
+    .then(session => res.json({ session }))
+    .catch(handleError(res, next));
+});
+
+// Answer the open question
+router.post('/:id/answer', (req, res, next) => {
+  const { blockId, answer } = req.body;
+  gameSessionService.answer(req.params.id, getToken(req), blockId, answer)
+    .then(({ result, session }) => res.json({ result, session }))
+    .catch(handleError(res, next));
+});
+
+// The open question's clock ran out
+router.post('/:id/timeout', (req, res, next) => {
+  gameSessionService.timeout(req.params.id, getToken(req), req.body.blockId)
+    .then(({ result, session }) => res.json({ result, session }))
+    .catch(handleError(res, next));
+});
+
+// Hint or 50/50 on the open question
+router.post('/:id/hint', (req, res, next) => {
+  const { blockId, kind } = req.body;
+  gameSessionService.requestHint(req.params.id, getToken(req), blockId, kind)
+    .then(({ reveal, session }) => res.json({ reveal, session }))
+    .catch(handleError(res, next));
+});
+
+// Rebuild after a collapse, in modes that allow it
+router.post('/:id/rebuild', (req, res, next) => {
+  gameSessionService.rebuildTower(req.params.id, getToken(req))
+    .then(session => res.json({ session }))
+    .catch(handleError(res, next));
+});
+
+export default router;
@@ -0,0 +1,47 @@
+// The game rules live in the web app's pure game core. The API runs that same
+// reducer, so a game graded here plays exactly like one in the browser. This
+// module is the one place the API reaches into the web app for it.
+
+export {
+  DEFAULT_SETTINGS,
+  cloneSettings,
+  createInitialEngineState,
+  gameReducer,
+  getQuestionHints,
+  getQuestionTimeLimit
+} from '../../../../apps/web/src/services/gameReducer';
+export { ENHANCED_PRIVACY_QUESTIONS } from '../../../../apps/web/src/data/enhancedPrivacyQuestions';
+export { isQuizAnswer } from '../../../../apps/web/src/services/answerGrading';
+export { isQuestionBankRef } from '../../../../apps/web/src/services/gameReplay';
+export { calibrateItems, createDifficultyReport } from '../../../../apps/web/src/services/itemResponse';
+export { parseGameMode } from '../../../../apps/web/src/services/gameModes';
+export { parseTowerSpec } from '../../../../apps/web/src/services/towerSpec';
+export { validateQuestion } from '../../../../apps/web/src/services/questionValidation';
+export { setQuestionBank } from '../../../../apps/web/src/services/questionBank';
+export {
+  PACK_CONFLICT_POLICIES,
+  createQuestionPack,
+  planPackImport,
+  validateQuestionPack
+} from '../../../../apps/web/src/services/questionPacks';
+export type {
+  Difficulty,
+  DifficultyMismatch,
+  EnhancedQuestion,
+  GameAction,
+  GameEngineState,
+  GameEvent,
+  GameModeConfig,
+  GameState,
+  HintKind,
+  HintReveal,
+  HotSeatState,
+  ItemCalibration,
+  ItemParameters,
+  PackConflictPolicy,
+  PrivacyCategory,
+  QuestionPack,
+  QuizAnswer,
+  QuizResult,
+  TransactionGraph
+} from '../../../../apps/web/src/types';
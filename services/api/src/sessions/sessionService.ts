@@ -0,0 +1,287 @@
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+import {
+  DEFAULT_SETTINGS,
+  EnhancedQuestion,
+  GameAction,
+  GameEngineState,
+  GameEvent,
+  HintReveal,
+  ItemParameters,
+  QuizResult,
+  cloneSettings,
+  createInitialEngineState,
+  gameReducer,
+  getQuestionHints,
+  getQuestionTimeLimit,
+  isQuizAnswer,
+  parseGameMode,
+  parseTowerSpec
+} from './gameCore';
+import repositories from '../db';
+import { SessionStore } from './sessionStore';
+import { GameSession, PublicQuestion, SessionResult, SessionView } from './types';
+
+/**
+ * Game Session Service
+ * Server-authoritative games. The server picks the seed, deals questions from
+ * its own bank and grades every answer with the same reducer the web app
+ * runs, stamping each move with its own clock. Players only ever see
+ * questions without their answers, so a score read from here can't have been
+ * edited in the browser. It can still have been looked up: GET /api/content
+ * serves the published set with its answer key, because local and offline
+ * games grade in the browser. A session score proves the answers were
+ * submitted and graded here, not that the player knew them. New games deal
+ * adaptively from the latest question calibration, once one has been fitted.
+ */
+
+const FINISHED_PHASES = ['gameOver', 'completed'];
+
+// Errors carry the HTTP status the routes should answer with
+export class SessionError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// Moves as players send them - the server stamps the time
+type SessionAction = {
+  [K in GameAction['type']]: Omit<Extract<GameAction, { type: K }>, 'timestamp'>
+}[GameAction['type']];
+
+export const toPublicQuestion = (question: EnhancedQuestion): PublicQuestion => ({
+  id: question.id,
+  type: question.type,
+  difficulty: question.difficulty,
+  category: question.category,
+  question: question.question,
+  options: [...question.options],
+  hintCount: getQuestionHints(question).length,
+  graph: question.graph && {
+    prompt: question.graph.prompt,
+    nodes: question.graph.nodes.map(({ cluster: _cluster, role, ...node }) => (role === 'data' ? { ...node, role } : node)),
+    edges: question.graph.edges.map(edge => ({ ...edge })),
+  },
+});
+
+export const toSessionView = (session: GameSession): SessionView => {
+  const { engine } = session;
+  const game = engine.game;
+  const selected = engine.blocks.find(block => block.id === game.selectedBlockId);
+  const open = selected && !selected.isRemoved ? selected.content : undefined;
+  const usage = engine.hintUsage?.blockId === selected?.id ? engine.hintUsage : undefined;
+  const finished = FINISHED_PHASES.includes(game.gamePhase);
+
+  return {
+    id: session.id,
+    status: game.gamePhase,
+    mode: { ...game.mode },
+    towerId: game.tower.id,
+    score: game.currentScore,
+    stability: game.towerStability,
+    blocksRemoved: game.blocksRemoved,
+    totalBlocks: game.totalBlocks,
+    correctAnswers: game.correctAnswers,
+    incorrectAnswers: game.incorrectAnswers,
+    timeouts: game.timeouts,
+    rebuildCount: game.rebuildCount,
+    hotSeat: game.hotSeat,
+    blocks: engine.blocks.map(({ id, layer, position, isRemoved, difficulty, category }) =>
+      ({ id, layer, position, isRemoved, difficulty, category })),
+    openQuestion: selected && open ? {
+      blockId: selected.id,
+      question: toPublicQuestion(open.question),
+      timeLimit: getQuestionTimeLimit(open.question, engine.settings),
+      hints: getQuestionHints(open.question).slice(0, usage?.hintsRevealed ?? 0),
+      eliminatedOptions: usage ? [...usage.eliminatedOptions] : [],
+    } : undefined,
+    lastResult: game.lastQuizResult,
+    seed: finished ? game.seed : undefined,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+};
+
+export class GameSessionService {
+  private pending: Promise<unknown> = Promise.resolve();
+  private itemParameters: Record<string, ItemParameters> = {};
+
+  constructor(private store: SessionStore, private clock: () => number = Date.now) {}
+
+  // Calibrated questions for games started from now on; games in progress keep theirs
+  useItemParameters(items: Record<string, ItemParameters>): void {
+    this.itemParameters = structuredClone(items);
+  }
+
+  // Start a game; the token in the result is needed for every move
+  async createSession(input: { mode?: unknown; category?: unknown; tower?: unknown; players?: unknown } = {}): Promise<{ session: SessionView; token: string }> {
+    const mode = parseGameMode(typeof input.mode === 'string' ? input.mode : null, typeof input.category === 'string' ? input.category : null);
+    if (input.mode !== undefined && mode.id !== input.mode) {
+      throw new SessionError(`Unknown game mode "${input.mode}"`);
+    }
+    const tower = parseTowerSpec(typeof input.tower === 'string' ? input.tower : null);
+    if (input.tower !== undefined && !tower) {
+      throw new SessionError(`Unknown tower "${input.tower}"`);
+    }
+    if (input.players !== undefined && (!Array.isArray(input.players) || !input.players.every(name => typeof name === 'string'))) {
+      throw new SessionError('players must be a list of nicknames');
+    }
+
+    const now = this.clock();
+    const settings = cloneSettings(DEFAULT_SETTINGS);
+    settings.adaptiveDifficulty.itemParameters = structuredClone(this.itemParameters);
+    let engine: GameEngineState;
+    try {
+      engine = createInitialEngineState({
+        seed: randomInt(1, 2 ** 31),
+        timestamp: now,
+        settings,
+        mode,
+        tower,
+        players: input.players as string[] | undefined,
+      });
+    } catch (error) {
+      throw new SessionError((error as Error).message);
+    }
+
+    const session: GameSession = {
+      id: randomUUID(),
+      token: randomBytes(16).toString('hex'),
+      engine,
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+    await this.store.save(session);
+    return { session: toSessionView(session), token: session.token };
+  }
+
+  async getSession(id: string, token: unknown): Promise<SessionView> {
+    return toSessionView(await this.authenticate(id, token));
+  }
+
+  // Pull a block - the view's openQuestion is the question, without its answer
+  pickBlock(id: string, token: unknown, blockId: unknown): Promise<SessionView> {
+    return this.serialize(async () => {
+      const { session } = await this.play(id, token, { type: 'SELECT_BLOCK', blockId: checkBlockId(blockId) });
+      return toSessionView(session);
+    });
+  }
+
+  answer(id: string, token: unknown, blockId: unknown, answer: unknown): Promise<{ result: QuizResult; session: SessionView }> {
+    if (typeof answer !== 'number' && !isQuizAnswer(answer)) {
+      return Promise.reject(new SessionError('Invalid answer'));
+    }
+    return this.serialize(async () => {
+      const { session } = await this.play(id, token, { type: 'ANSWER', blockId: checkBlockId(blockId), answer });
+      return { result: session.engine.game.lastQuizResult as QuizResult, session: toSessionView(session) };
+    });
+  }
+
+  // Only accepted once the question's time has run out on the server's clock
+  timeout(id: string, token: unknown, blockId: unknown): Promise<{ result: QuizResult; session: SessionView }> {
+    return this.serialize(async () => {
+      const { session } = await this.play(id, token, { type: 'TIMEOUT', blockId: checkBlockId(blockId) });
+      return { result: session.engine.game.lastQuizResult as QuizResult, session: toSessionView(session) };
+    });
+  }
+
+  requestHint(id: string, token: unknown, blockId: unknown, kind: unknown): Promise<{ reveal: HintReveal; session: SessionView }> {
+    if (kind !== 'hint' && kind !== 'fifty_fifty') {
+      return Promise.reject(new SessionError('kind must be "hint" or "fifty_fifty"'));
+    }
+    return this.serialize(async () => {
+      const { session, events } = await this.play(id, token, { type: 'USE_HINT', blockId: checkBlockId(blockId), kind });
+      const revealed = events.find(event => event.type === 'HintRevealed');
+      return { reveal: (revealed as Extract<GameEvent, { type: 'HintRevealed' }>).reveal, session: toSessionView(session) };
+    });
+  }
+
+  rebuildTower(id: string, token: unknown): Promise<SessionView> {
+    return this.serialize(async () => toSessionView((await this.play(id, token, { type: 'REBUILD' })).session));
+  }
+
+  // Final result, readable without the token once the game has ended
+  async getResult(id: string): Promise<SessionResult> {
+    const session = await this.findSession(id);
+    const game = session.engine.game;
+    if (!FINISHED_PHASES.includes(game.gamePhase)) {
+      throw new SessionError('This game is still being played', 409);
+    }
+    return {
+      sessionId: session.id,
+      mode: { ...game.mode },
+      outcome: game.gamePhase === 'completed' ? 'completed' : 'collapsed',
+      score: game.currentScore,
+      correctAnswers: game.correctAnswers,
+      incorrectAnswers: game.incorrectAnswers,
+      blocksRemoved: game.blocksRemoved,
+      seed: game.seed,
+      hotSeat: game.hotSeat,
+      startedAt: session.createdAt,
+      endedAt: session.updatedAt,
+    };
+  }
+
+  // Run one move through the reducer at the server's time; refused moves are errors
+  private async play(id: string, token: unknown, input: SessionAction): Promise<{ session: GameSession; events: GameEvent[] }> {
+    const session = await this.authenticate(id, token);
+    const phase = session.engine.game.gamePhase;
+    if (FINISHED_PHASES.includes(phase)) {
+      throw new SessionError('This game is over', 409);
+    }
+    if (phase !== 'playing' && input.type !== 'REBUILD') {
+      throw new SessionError('The tower has collapsed - rebuild it first', 409);
+    }
+
+    const now = this.clock();
+    let reduction: ReturnType<typeof gameReducer>;
+    try {
+      reduction = gameReducer(session.engine, { ...input, timestamp: now } as GameAction);
+    } catch (error) {
+      // The core throws on answers that don't fit the question
+      throw new SessionError((error as Error).message);
+    }
+    const { state, events } = reduction;
+    if (state === session.engine) {
+      throw new SessionError('That move is not allowed right now', 409);
+    }
+
+    session.engine = state;
+    session.updatedAt = new Date(now).toISOString();
+    await this.store.save(session);
+    return { session, events };
+  }
+
+  private async authenticate(id: string, token: unknown): Promise<GameSession> {
+    const session = await this.findSession(id);
+    if (typeof token !== 'string' || token !== session.token) {
+      throw new SessionError('Not your game session', 403);
+    }
+    return session;
+  }
+
+  private async findSession(id: string): Promise<GameSession> {
+    const session = await this.store.get(id);
+    if (!session) {
+      throw new SessionError('Game session not found', 404);
+    }
+    return session;
+  }
+
+  // Run moves one at a time so a double-click can't play the same block twice
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function checkBlockId(blockId: unknown): string {
+  if (typeof blockId !== 'string' || blockId.length === 0) {
+    throw new SessionError('blockId is required');
+  }
+  return blockId;
+}
+
+export const gameSessionService = new GameSessionService(repositories.sessions);
+export default gameSessionService;
@@ -0,0 +1,81 @@
+import { fromJson, SqliteDatabase, SqlRow, toJson } from '../db/database';
+import { GameEngineState } from './gameCore';
+import { GameSession } from './types';
+
+/**
+ * Session Store
+ * Persistence for game sessions, behind the same kind of async interface as
+ * the room store. Stores hand out copies; changes only stick once saved.
+ */
+export interface SessionStore {
+  get(id: string): Promise<GameSession | undefined>;
+  save(session: GameSession): Promise<void>; // Creates or replaces
+  list(): Promise<GameSession[]>;
+  delete(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, GameSession>();
+
+  async get(id: string): Promise<GameSession | undefined> {
+    const session = this.sessions.get(id);
+    return session && structuredClone(session);
+  }
+
+  async save(session: GameSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async list(): Promise<GameSession[]> {
+    return [...this.sessions.values()].map(session => structuredClone(session));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.sessions.clear();
+  }
+}
+
+// Engine state is kept as JSON, with the phase and score alongside for querying
+export class SqliteSessionStore implements SessionStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async get(id: string): Promise<GameSession | undefined> {
+    const row = this.db.get('SELECT * FROM sessions WHERE id = ?', [id]);
+    return row && toSession(row);
+  }
+
+  async save(session: GameSession): Promise<void> {
+    this.db.run(
+      `INSERT INTO sessions (id, token, phase, score, engine, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET phase = excluded.phase, score = excluded.score, engine = excluded.engine,
+         updated_at = excluded.updated_at`,
+      [session.id, session.token, session.engine.game.gamePhase, session.engine.game.currentScore,
+        toJson(session.engine), session.createdAt, session.updatedAt]
+    );
+  }
+
+  async list(): Promise<GameSession[]> {
+    return this.db.all('SELECT * FROM sessions ORDER BY created_at').map(toSession);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.run('DELETE FROM sessions WHERE id = ?', [id]) > 0;
+  }
+
+  async clear(): Promise<void> {
+    this.db.run('DELETE FROM sessions');
+  }
+}
+
+const toSession = (row: SqlRow): GameSession => ({
+  id: String(row.id),
+  token: String(row.token),
+  engine: fromJson<GameEngineState>(row.engine),
+  createdAt: String(row.created_at),
+  updatedAt: String(row.updated_at),
+});
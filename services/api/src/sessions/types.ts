@@ -0,0 +1,80 @@
+import {
+  Difficulty,
+  EnhancedQuestion,
+  GameEngineState,
+  GameModeConfig,
+  GameState,
+  HotSeatState,
+  PrivacyCategory,
+  QuizResult,
+  TransactionGraph
+} from './gameCore';
+
+// Server-side game sessions. The engine state never leaves the server; players
+// get a SessionView, which leaves out anything that would give answers away.
+
+export interface GameSession {
+  id: string;
+  token: string; // Proves the caller owns the session
+  engine: GameEngineState; // Authoritative game state, including the seed
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A question as shown before it's answered - no answers, explanation or hint text
+export interface PublicQuestion extends Pick<EnhancedQuestion, 'id' | 'type' | 'difficulty' | 'category' | 'question' | 'options'> {
+  hintCount: number;
+  graph?: Omit<TransactionGraph, 'answerNodeIds'>; // Coins without the roles and clusters that mark the answer
+}
+
+export interface PublicBlock {
+  id: string;
+  layer: number;
+  position: number;
+  isRemoved: boolean;
+  difficulty: Difficulty;
+  category?: PrivacyCategory;
+}
+
+export interface SessionView {
+  id: string;
+  status: GameState['gamePhase'];
+  mode: GameModeConfig;
+  towerId: string;
+  score: number;
+  stability: number;
+  blocksRemoved: number;
+  totalBlocks: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  timeouts: number;
+  rebuildCount: number;
+  hotSeat?: HotSeatState;
+  blocks: PublicBlock[];
+  openQuestion?: {
+    blockId: string;
+    question: PublicQuestion;
+    timeLimit?: number; // Seconds, counted from when the block was picked
+    hints: string[]; // Hints revealed so far
+    eliminatedOptions: number[]; // Removed by 50/50
+  };
+  lastResult?: QuizResult; // Answered questions show their answer and explanation
+  seed?: number; // Revealed once the game is over, so it can be replayed
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Final result of a finished session - what leaderboards and classroom reports read
+export interface SessionResult {
+  sessionId: string;
+  mode: GameModeConfig;
+  outcome: 'collapsed' | 'completed';
+  score: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  blocksRemoved: number;
+  seed: number;
+  hotSeat?: HotSeatState;
+  startedAt: string;
+  endedAt: string;
+}
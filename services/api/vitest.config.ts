@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/__tests__/**/*.test.ts'],
+    // Every store in memory, and an admin token for the admin-only routes
+    env: {
+      STORAGE_DRIVER: 'memory',
+      ADMIN_TOKEN: 'test-admin-token',
+    },
+    pool: 'forks',
+    maxConcurrency: 1,
+  },
+});